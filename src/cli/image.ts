@@ -0,0 +1,68 @@
+import { readFile } from "node:fs/promises";
+import jpeg from "jpeg-js";
+import { PNG } from "pngjs";
+import type { PixelData } from "@/lib/qr";
+
+export interface LoadedImage {
+  pixels: PixelData;
+  // For the vision provider, which takes images as data URLs
+  dataURL: string;
+}
+
+export class UnsupportedImageError extends Error {
+  fileName: string;
+
+  constructor(fileName: string) {
+    super(`${fileName}: only PNG and JPEG images are supported`);
+    this.name = "UnsupportedImageError";
+    this.fileName = fileName;
+  }
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47];
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff];
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte);
+}
+
+// Transparent pixels are laid on white, as browsers show them, so a dark
+// code on a transparent background keeps its contrast
+function flattenAlpha(data: Uint8Array): Uint8ClampedArray {
+  const flattened = new Uint8ClampedArray(data.length);
+  for (let offset = 0; offset < data.length; offset += 4) {
+    const alpha = data[offset + 3] / 255;
+    for (let channel = 0; channel < 3; channel++) {
+      flattened[offset + channel] =
+        data[offset + channel] * alpha + 255 * (1 - alpha);
+    }
+    flattened[offset + 3] = 255;
+  }
+  return flattened;
+}
+
+// Decodes PNG and JPEG files in plain JavaScript, so the CLI needs no canvas
+// or native image library
+export async function loadImageFile(path: string): Promise<LoadedImage> {
+  const bytes = await readFile(path);
+  let mediaType: string;
+  let decoded: { width: number; height: number; data: Uint8Array };
+  if (startsWith(bytes, PNG_SIGNATURE)) {
+    mediaType = "image/png";
+    decoded = PNG.sync.read(bytes);
+  } else if (startsWith(bytes, JPEG_SIGNATURE)) {
+    mediaType = "image/jpeg";
+    decoded = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+  } else {
+    throw new UnsupportedImageError(path);
+  }
+
+  return {
+    pixels: {
+      data: flattenAlpha(decoded.data),
+      width: decoded.width,
+      height: decoded.height,
+    },
+    dataURL: `data:${mediaType};base64,${bytes.toString("base64")}`,
+  };
+}
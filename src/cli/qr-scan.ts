@@ -0,0 +1,185 @@
+import { parseArgs } from "node:util";
+import {
+  AI_PROVIDERS,
+  aiSettingsError,
+  createVisionProvider,
+  DEFAULT_AI_SETTINGS,
+  type AIProviderId,
+  type AISettings,
+  type VisionProvider,
+} from "@/lib/ai";
+import { decodePixelData, type DecodeSource } from "@/lib/decoder";
+import { loadImageFile, type LoadedImage } from "@/cli/image";
+import {
+  toCSVReport,
+  toJSONReport,
+  type FileReport,
+  type OutputFormat,
+} from "@/cli/report";
+import type { PixelData } from "@/lib/qr";
+import { analyzeReceiptImage, scanImage } from "@/lib/scan";
+import { formatEvent, pipelineLog } from "@/lib/telemetry";
+
+const USAGE = `Usage: qr-scan <files...> [--format json|csv] [--ai] [--verbose]
+
+Decodes the QR codes and barcodes in PNG and JPEG files and prints the
+parsed receipts.
+
+Options:
+  -f, --format   json (default) or csv
+      --ai       Also read each receipt with a vision model and check it
+                 against the signed QR data
+  -v, --verbose  Print every pipeline step to stderr
+  -h, --help     Show this help
+
+AI settings come from the environment:
+  QR_SCAN_AI_PROVIDER   openai (default), openai-compatible, anthropic or mock
+  QR_SCAN_AI_MODEL      Defaults to the provider's default model
+  QR_SCAN_AI_API_KEY    Falls back to OPENAI_API_KEY or ANTHROPIC_API_KEY
+  QR_SCAN_AI_BASE_URL   Server of the openai-compatible provider
+  QR_SCAN_AI_PROXY_URL  Send vision calls through this proxy instead
+`;
+
+// Environment variables rather than flags, so keys stay out of shell history
+function aiSettingsFromEnv(env: NodeJS.ProcessEnv): AISettings {
+  const provider = (env.QR_SCAN_AI_PROVIDER || "openai") as AIProviderId;
+  if (!(provider in AI_PROVIDERS)) {
+    throw new Error(`Unknown AI provider "${provider}"`);
+  }
+  const providerKey =
+    provider === "anthropic" ? env.ANTHROPIC_API_KEY : env.OPENAI_API_KEY;
+  return {
+    ...DEFAULT_AI_SETTINGS,
+    provider,
+    apiKey: env.QR_SCAN_AI_API_KEY || providerKey || "",
+    model: env.QR_SCAN_AI_MODEL || AI_PROVIDERS[provider].defaultModel,
+    baseURL: env.QR_SCAN_AI_BASE_URL || DEFAULT_AI_SETTINGS.baseURL,
+    proxyURL: env.QR_SCAN_AI_PROXY_URL || "",
+  };
+}
+
+// Images are decoded to pixels up front, so the pipeline never sees a Blob
+function asPixels(source: DecodeSource): PixelData {
+  if (!("data" in source)) {
+    throw new Error("Expected decoded pixels");
+  }
+  return source;
+}
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : String(err);
+
+async function scanFile(
+  file: string,
+  provider: VisionProvider | null
+): Promise<FileReport> {
+  const report: FileReport = {
+    file,
+    codes: [],
+    ai: null,
+    aiError: null,
+    error: null,
+  };
+
+  let image: LoadedImage;
+  try {
+    image = await loadImageFile(file);
+    // Decoding is synchronous here; there is no UI to keep responsive
+    const scan = await scanImage(image.pixels, image.dataURL, {
+      decode: async (source) => decodePixelData(asPixels(source), true),
+      toPixels: async (source) => asPixels(source),
+      provider,
+    });
+    report.codes = scan.scanResults;
+  } catch (err) {
+    report.error = errorMessage(err);
+    return report;
+  }
+
+  if (provider) {
+    try {
+      report.ai = await analyzeReceiptImage(
+        provider,
+        image.dataURL,
+        report.codes.find((code) => code.receipt)?.receipt ?? null
+      );
+    } catch (err) {
+      report.aiError = errorMessage(err);
+    }
+  }
+  return report;
+}
+
+async function main(): Promise<number> {
+  let args;
+  try {
+    args = parseArgs({
+      allowPositionals: true,
+      options: {
+        format: { type: "string", short: "f", default: "json" },
+        ai: { type: "boolean", default: false },
+        verbose: { type: "boolean", short: "v", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (err) {
+    process.stderr.write(`${errorMessage(err)}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values, positionals: files } = args;
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  const format = values.format as OutputFormat;
+  if (files.length === 0 || (format !== "json" && format !== "csv")) {
+    process.stderr.write(USAGE);
+    return 2;
+  }
+
+  // stdout is the report, so pipeline events go to stderr
+  if (values.verbose) {
+    pipelineLog.setLevel("debug");
+    pipelineLog.subscribe((event) => {
+      if (event) {
+        process.stderr.write(`${formatEvent(event)}\n`);
+      }
+    });
+  }
+
+  let provider: VisionProvider | null = null;
+  if (values.ai) {
+    try {
+      const settings = aiSettingsFromEnv(process.env);
+      const problem = aiSettingsError(settings);
+      if (problem) {
+        throw new Error(problem);
+      }
+      provider = createVisionProvider(settings);
+    } catch (err) {
+      process.stderr.write(`qr-scan: ${errorMessage(err)}\n`);
+      return 2;
+    }
+  }
+
+  const reports: FileReport[] = [];
+  for (const file of files) {
+    const report = await scanFile(file, provider);
+    if (report.error) {
+      process.stderr.write(`qr-scan: ${report.error}\n`);
+    }
+    reports.push(report);
+  }
+
+  process.stdout.write(
+    format === "csv"
+      ? toCSVReport(reports, provider !== null)
+      : toJSONReport(reports)
+  );
+  return reports.some((report) => report.error) ? 1 : 0;
+}
+
+main().then((exitCode) => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,114 @@
+import {
+  DEFAULT_CSV_OPTIONS,
+  EXPORT_COLUMNS,
+  formatAmount,
+  toCsvLine,
+  type ExportColumn,
+} from "@/lib/export";
+import type { ReceiptAnalysis, ScanResult } from "@/lib/scan";
+
+export type OutputFormat = "json" | "csv";
+
+export interface FileReport {
+  file: string;
+  codes: ScanResult[];
+  // Only with --ai
+  ai: ReceiptAnalysis | null;
+  aiError: string | null;
+  // Set when the file couldn't be read or decoded at all
+  error: string | null;
+}
+
+// Drops what only the UI uses (corners, QR structure) and keeps what a
+// script would look at
+function codeToJSON({ qr, code, invalid }: ScanResult) {
+  return {
+    symbology: qr.format,
+    data: qr.data,
+    ...(qr.page ? { page: qr.page } : {}),
+    receiptFormat: code?.format ?? invalid?.format ?? null,
+    receipt: code?.data ?? null,
+    ...(invalid ? { errors: invalid.errors } : {}),
+  };
+}
+
+export function toJSONReport(reports: FileReport[]): string {
+  return (
+    JSON.stringify(
+      reports.map((report) => ({
+        file: report.file,
+        codes: report.codes.map(codeToJSON),
+        ...(report.ai || report.aiError
+          ? { ai: report.ai, aiError: report.aiError }
+          : {}),
+        ...(report.error ? { error: report.error } : {}),
+      })),
+      null,
+      2
+    ) + "\n"
+  );
+}
+
+const RECEIPT_COLUMNS = DEFAULT_CSV_OPTIONS.columns
+  .map((id) => EXPORT_COLUMNS.find((column) => column.id === id))
+  .filter((column): column is ExportColumn => Boolean(column));
+
+// One row per code, and one for each file without any. German receipts fill
+// the same columns as the app's CSV export
+export function toCSVReport(reports: FileReport[], withAI: boolean): string {
+  const { delimiter, locale } = DEFAULT_CSV_OPTIONS;
+  const header = [
+    "File",
+    "Page",
+    "Symbology",
+    "Receipt Format",
+    "Data",
+    ...RECEIPT_COLUMNS.map((column) => column.header),
+    ...(withAI ? ["AI Total", "AI Receipt Number", "AI Check"] : []),
+    "Error",
+  ];
+
+  const rows = reports.flatMap((report) => {
+    const ai = withAI
+      ? [
+          report.ai?.extracted.totalAmount != null
+            ? formatAmount(report.ai.extracted.totalAmount, locale)
+            : "",
+          report.ai?.extracted.receiptNumber ?? "",
+          report.ai?.reconciliation?.verdict ?? "",
+        ]
+      : [];
+    const error = report.error ?? report.aiError ?? "";
+    if (report.codes.length === 0) {
+      return [
+        [
+          report.file,
+          "",
+          "",
+          "",
+          "",
+          ...RECEIPT_COLUMNS.map(() => ""),
+          ...ai,
+          error || "No code found",
+        ],
+      ];
+    }
+    return report.codes.map(({ qr, code, invalid, receipt }) => [
+      report.file,
+      qr.page ? String(qr.page) : "",
+      qr.format,
+      code?.format ?? invalid?.format ?? "",
+      qr.data,
+      ...RECEIPT_COLUMNS.map((column) =>
+        receipt ? column.value(receipt, locale) : ""
+      ),
+      ...ai,
+      error,
+    ]);
+  });
+
+  return (
+    [header, ...rows].map((row) => toCsvLine(row, delimiter)).join("\r\n") +
+    "\r\n"
+  );
+}
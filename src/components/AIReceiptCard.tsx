@@ -0,0 +1,149 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ExtractedReceipt } from "@/lib/extraction";
+
+interface AIReceiptCardProps {
+  receipt: ExtractedReceipt | null;
+  // Status or error text shown instead of (or before) a receipt
+  message: string | null;
+  isAnalyzing: boolean;
+}
+
+export default function AIReceiptCard({
+  receipt,
+  message,
+  isAnalyzing,
+}: AIReceiptCardProps) {
+  const formatMoney = (amount: number | null) =>
+    amount === null
+      ? "—"
+      : `${amount.toFixed(2)} ${receipt?.currency ?? ""}`.trim();
+
+  const details: [string, string | null][] = receipt
+    ? [
+        ["Merchant", receipt.merchantName],
+        ["Address", receipt.merchantAddress],
+        ["VAT ID", receipt.vatId],
+        [
+          "Date",
+          [receipt.date, receipt.time].filter(Boolean).join(" ") || null,
+        ],
+        ["Payment", receipt.paymentMethod],
+        ["Receipt Number", receipt.receiptNumber],
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          🤖 AI Receipt Extraction
+          {isAnalyzing && (
+            <span className="text-sm text-gray-500">(Analyzing...)</span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && (
+          <div className="p-3 bg-gray-50 rounded-lg border">
+            <p className="text-sm text-gray-700">{message}</p>
+          </div>
+        )}
+
+        {receipt && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+              {details.map(([label, value]) => (
+                <div key={label} className="p-2 bg-green-50 rounded border">
+                  <div className="text-xs text-gray-600">{label}</div>
+                  <div className="font-medium break-words text-green-800">
+                    {value ?? "—"}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {receipt.lineItems.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs border rounded-lg">
+                  <thead className="bg-gray-50 text-left">
+                    <tr>
+                      <th className="p-2">Item</th>
+                      <th className="p-2 text-right">Qty</th>
+                      <th className="p-2 text-right">Unit</th>
+                      <th className="p-2 text-right">Total</th>
+                      <th className="p-2 text-right">VAT</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {receipt.lineItems.map((item, index) => (
+                      <tr key={index}>
+                        <td className="p-2">{item.description}</td>
+                        <td className="p-2 text-right">{item.quantity}</td>
+                        <td className="p-2 text-right">
+                          {formatMoney(item.unitPrice)}
+                        </td>
+                        <td className="p-2 text-right">
+                          {formatMoney(item.totalPrice)}
+                        </td>
+                        <td className="p-2 text-right">
+                          {item.vatRate === null ? "—" : `${item.vatRate}%`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {receipt.vatTotals.length > 0 && (
+              <div className="space-y-1 text-xs">
+                <div className="font-medium">VAT Totals</div>
+                {receipt.vatTotals.map((total) => (
+                  <div key={total.rate} className="flex justify-between">
+                    <span>{total.rate}%</span>
+                    <span>
+                      Net {formatMoney(total.net)} · VAT{" "}
+                      {formatMoney(total.vat)} · Gross{" "}
+                      {formatMoney(total.gross)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-between border-t pt-2 font-bold">
+              <span>Total</span>
+              <span>{formatMoney(receipt.totalAmount)}</span>
+            </div>
+
+            <div className="flex space-x-2">
+              {receipt.receiptNumber && (
+                <Button
+                  onClick={() =>
+                    navigator.clipboard.writeText(receipt.receiptNumber!)
+                  }
+                  variant="outline"
+                  size="sm"
+                >
+                  Copy Receipt Number
+                </Button>
+              )}
+              <Button
+                onClick={() =>
+                  navigator.clipboard.writeText(
+                    JSON.stringify(receipt, null, 2)
+                  )
+                }
+                variant="outline"
+                size="sm"
+              >
+                Copy JSON
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,377 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AI_PROVIDERS,
+  aiSettingsError,
+  createVisionProvider,
+  type AIProviderId,
+  type AISettings,
+} from "@/lib/ai";
+import { decryptApiKey, encryptApiKey } from "@/lib/vault";
+
+const API_KEY_LINKS: Partial<Record<AIProviderId, string>> = {
+  openai: "https://platform.openai.com/api-keys",
+  anthropic: "https://console.anthropic.com/settings/keys",
+};
+
+interface AISettingsPanelProps {
+  settings: AISettings;
+  // Receives an updater, as changes can land after an await when the
+  // settings have moved on
+  onChange: (update: (settings: AISettings) => AISettings) => void;
+}
+
+export default function AISettingsPanel({
+  settings,
+  onChange,
+}: AISettingsPanelProps) {
+  const settingsError = aiSettingsError(settings);
+  const [showSettings, setShowSettings] = useState<boolean>(
+    settingsError !== null
+  );
+  const [passphrase, setPassphrase] = useState("");
+  const [vaultMessage, setVaultMessage] = useState<string | null>(null);
+  const [isVaultBusy, setIsVaultBusy] = useState(false);
+  const [testResult, setTestResult] = useState<{
+    ok: boolean;
+    message: string;
+  } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const provider = AI_PROVIDERS[settings.provider];
+  const apiKeyLink = API_KEY_LINKS[settings.provider];
+  const usesProxy = Boolean(settings.proxyURL) && settings.provider !== "mock";
+  const isLocked = Boolean(settings.encryptedApiKey) && !settings.apiKey;
+
+  const update = (patch: Partial<AISettings>) => {
+    setTestResult(null);
+    onChange((current) => ({ ...current, ...patch }));
+  };
+
+  // Key derivation takes a moment by design, so the buttons show progress
+  const runVaultAction = async (action: () => Promise<void>) => {
+    setIsVaultBusy(true);
+    setVaultMessage(null);
+    try {
+      await action();
+      setPassphrase("");
+    } catch (error) {
+      setVaultMessage(
+        error instanceof Error ? error.message : "Something went wrong"
+      );
+    } finally {
+      setIsVaultBusy(false);
+    }
+  };
+
+  const handleEncrypt = () =>
+    runVaultAction(async () => {
+      const { apiKey } = settings;
+      const encryptedApiKey = await encryptApiKey(apiKey, passphrase);
+      setTestResult(null);
+      // A key edited while this ran stays unencrypted rather than being
+      // replaced by the old one on the next load
+      onChange((current) =>
+        current.apiKey === apiKey ? { ...current, encryptedApiKey } : current
+      );
+    });
+
+  const handleUnlock = () =>
+    runVaultAction(async () => {
+      const { encryptedApiKey } = settings;
+      if (!encryptedApiKey) {
+        return;
+      }
+      const apiKey = await decryptApiKey(encryptedApiKey, passphrase);
+      setTestResult(null);
+      // Unless the key was forgotten meanwhile
+      onChange((current) =>
+        current.encryptedApiKey === encryptedApiKey
+          ? { ...current, apiKey }
+          : current
+      );
+    });
+
+  const handleTestKey = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      await createVisionProvider(settings).testConnection();
+      setTestResult({
+        ok: true,
+        message: usesProxy ? "Proxy is reachable" : "Key works",
+      });
+    } catch (error) {
+      setTestResult({
+        ok: false,
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleProviderChange = (id: AIProviderId) => {
+    // Model names differ between providers, so start from the new default
+    update({ provider: id, model: AI_PROVIDERS[id].defaultModel });
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-purple-50 border border-purple-200 rounded-lg">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-purple-800">
+          🤖 AI Receipt Extraction
+        </h3>
+        <Button
+          onClick={() => setShowSettings(!showSettings)}
+          variant="outline"
+          size="sm"
+          className="text-xs"
+        >
+          {showSettings ? "Hide" : "Settings"}
+        </Button>
+      </div>
+
+      {showSettings && (
+        <div className="space-y-3 text-xs text-purple-700">
+          <label className="block space-y-1">
+            <span>Provider</span>
+            <select
+              value={settings.provider}
+              onChange={(e) =>
+                handleProviderChange(e.target.value as AIProviderId)
+              }
+              className="w-full h-9 rounded-md border px-2 bg-white text-sm"
+            >
+              {(Object.keys(AI_PROVIDERS) as AIProviderId[]).map((id) => (
+                <option key={id} value={id}>
+                  {AI_PROVIDERS[id].label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {settings.provider !== "mock" && (
+            <label className="block space-y-1">
+              <span>Proxy URL (optional, keeps the key off this device)</span>
+              <Input
+                placeholder="https://example.com/ai-proxy"
+                value={settings.proxyURL}
+                onChange={(e) => update({ proxyURL: e.target.value.trim() })}
+                className="text-sm bg-white"
+              />
+            </label>
+          )}
+
+          {settings.provider !== "mock" && !usesProxy && isLocked && (
+            <div className="space-y-1">
+              <span>🔒 API key is encrypted. Enter your passphrase:</span>
+              <div className="flex space-x-2">
+                <Input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className="text-sm bg-white"
+                />
+                <Button
+                  onClick={handleUnlock}
+                  disabled={!passphrase || isVaultBusy}
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                >
+                  {isVaultBusy ? "Unlocking..." : "Unlock"}
+                </Button>
+                <Button
+                  onClick={() => update({ encryptedApiKey: null })}
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                >
+                  Forget Key
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {settings.provider !== "mock" && !usesProxy && !isLocked && (
+            <label className="block space-y-1">
+              <span>
+                API Key{!provider.requiresApiKey && " (optional)"}
+                {apiKeyLink && (
+                  <>
+                    {" "}
+                    (get from{" "}
+                    <a
+                      href={apiKeyLink}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="underline hover:text-purple-900"
+                    >
+                      {provider.label}
+                    </a>
+                    )
+                  </>
+                )}
+              </span>
+              <div className="flex space-x-2">
+                <Input
+                  type="password"
+                  placeholder="sk-..."
+                  value={settings.apiKey}
+                  // The encrypted copy would be stale, so it is dropped
+                  onChange={(e) =>
+                    update({ apiKey: e.target.value, encryptedApiKey: null })
+                  }
+                  className="text-sm bg-white"
+                />
+                {settings.apiKey && (
+                  <Button
+                    onClick={() =>
+                      update({ apiKey: "", encryptedApiKey: null })
+                    }
+                    variant="outline"
+                    size="sm"
+                    className="text-xs"
+                  >
+                    Clear
+                  </Button>
+                )}
+              </div>
+            </label>
+          )}
+
+          {settings.provider !== "mock" &&
+            !usesProxy &&
+            settings.apiKey &&
+            (settings.encryptedApiKey ? (
+              <div className="flex items-center justify-between gap-2">
+                <span>
+                  🔒 Stored encrypted, unlocked until the page is closed
+                </span>
+                <Button
+                  onClick={() => update({ apiKey: "" })}
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                >
+                  Lock Now
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <span>
+                  Encrypt the key with a passphrase instead of storing it as
+                  plain text:
+                </span>
+                <div className="flex space-x-2">
+                  <Input
+                    type="password"
+                    placeholder="Passphrase"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    className="text-sm bg-white"
+                  />
+                  <Button
+                    onClick={handleEncrypt}
+                    disabled={!passphrase || isVaultBusy}
+                    variant="outline"
+                    size="sm"
+                    className="text-xs"
+                  >
+                    {isVaultBusy ? "Encrypting..." : "Encrypt Key"}
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+          {vaultMessage && <p className="text-red-600">{vaultMessage}</p>}
+
+          {provider.requiresBaseURL && !usesProxy && (
+            <label className="block space-y-1">
+              <span>Base URL</span>
+              <Input
+                placeholder="http://localhost:11434/v1"
+                value={settings.baseURL}
+                onChange={(e) => update({ baseURL: e.target.value })}
+                className="text-sm bg-white"
+              />
+            </label>
+          )}
+
+          {settings.provider !== "mock" && (
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block space-y-1">
+                <span>Model</span>
+                <Input
+                  value={settings.model}
+                  onChange={(e) => update({ model: e.target.value })}
+                  className="text-sm bg-white"
+                />
+              </label>
+              <label className="block space-y-1">
+                <span>Temperature</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  value={settings.temperature}
+                  onChange={(e) =>
+                    update({ temperature: Number(e.target.value) })
+                  }
+                  className="text-sm bg-white"
+                />
+              </label>
+            </div>
+          )}
+
+          {settingsError ? (
+            <p className="text-red-600">{settingsError}</p>
+          ) : (
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-green-600">✅ Settings look good!</p>
+              {settings.provider !== "mock" && (
+                <Button
+                  onClick={handleTestKey}
+                  disabled={isTesting}
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                >
+                  {isTesting
+                    ? "Testing..."
+                    : usesProxy
+                    ? "Test Proxy"
+                    : "Test Key"}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {testResult && (
+            <p className={testResult.ok ? "text-green-600" : "text-red-600"}>
+              {testResult.ok ? "✅" : "❌"} {testResult.message}
+            </p>
+          )}
+        </div>
+      )}
+
+      {!showSettings && (
+        <div className="text-xs text-purple-700">
+          {settingsError === null ? (
+            <span className="text-green-700">
+              ✅ AI analysis enabled ({provider.label}
+              {settings.provider !== "mock" && `, ${settings.model}`}
+              {usesProxy && ", via proxy"})
+            </span>
+          ) : (
+            <span className="text-gray-600">
+              AI analysis disabled - {provider.label} is not configured
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AUSTRIAN_VAT_RATES,
+  type AustrianReceiptData,
+  type AustrianVatAmounts,
+} from "@/lib/formats/austria";
+
+interface AustrianReceiptCardProps {
+  receipt: AustrianReceiptData;
+  onClear: () => void;
+}
+
+const KIND_LABELS: Record<AustrianReceiptData["kind"], string> = {
+  standard: "Standard receipt",
+  storno: "Cancellation (Storno)",
+  training: "Training receipt",
+};
+
+export default function AustrianReceiptCard({
+  receipt,
+  onClear,
+}: AustrianReceiptCardProps) {
+  const vatRows = (
+    Object.keys(AUSTRIAN_VAT_RATES) as (keyof AustrianVatAmounts)[]
+  ).filter((field) => receipt.vatAmounts[field] !== 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          🇦🇹 Austrian Receipt Data
+        </CardTitle>
+        <CardDescription>
+          Registrierkassensicherheitsverordnung (RKSV) receipt code
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {receipt.signatureDeviceFailed && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            ⚠️ The register's security device had failed, so this receipt is not
+            signed.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Total Amount:</label>
+            <div className="p-3 bg-green-50 rounded-lg border border-green-200">
+              <p className="text-lg font-bold text-green-800">
+                €{receipt.totalAmount.toFixed(2)}
+              </p>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Receipt Type:</label>
+            <div className="p-3 bg-blue-50 rounded-lg border border-blue-200">
+              <p className="text-sm font-medium text-blue-800">
+                {KIND_LABELS[receipt.kind]}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {vatRows.length > 0 && (
+          <div className="space-y-1 text-sm">
+            <label className="font-medium">Amounts by VAT Rate:</label>
+            {vatRows.map((field) => (
+              <div key={field} className="flex justify-between">
+                <span>{AUSTRIAN_VAT_RATES[field]}%</span>
+                <span>€{receipt.vatAmounts[field].toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+          <div>
+            <strong>Register ID:</strong> {receipt.cashRegisterId}
+          </div>
+          <div>
+            <strong>Receipt Number:</strong> {receipt.receiptNumber}
+          </div>
+          <div>
+            <strong>Date/Time:</strong> {receipt.timestamp}
+          </div>
+        </div>
+
+        <details className="space-y-2">
+          <summary className="text-sm font-medium cursor-pointer hover:text-blue-600">
+            Technical Details (Click to expand)
+          </summary>
+          <div className="p-3 bg-gray-50 rounded-lg border mt-2 text-sm space-y-1">
+            <div>
+              <strong>Algorithm:</strong> {receipt.algorithm}
+            </div>
+            <div>
+              <strong>Certificate Serial:</strong> {receipt.certificateSerial}
+            </div>
+            <div className="break-all">
+              <strong>Turnover Counter:</strong> {receipt.turnoverCounter}
+            </div>
+            <div className="break-all">
+              <strong>Previous Signature:</strong> {receipt.previousSignature}
+            </div>
+            <div className="break-all">
+              <strong>Signature:</strong> {receipt.signature}
+            </div>
+          </div>
+        </details>
+
+        <div className="flex space-x-2">
+          <Button
+            onClick={() =>
+              navigator.clipboard.writeText(JSON.stringify(receipt, null, 2))
+            }
+            variant="outline"
+          >
+            Copy Receipt Data
+          </Button>
+          <Button onClick={onClear} variant="outline">
+            Scan Another
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
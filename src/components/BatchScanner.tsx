@@ -0,0 +1,446 @@
+import { useState, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import ExportPanel from "@/components/ExportPanel";
+import type { VisionProvider } from "@/lib/ai";
+import { BARCODE_FORMAT_LABELS } from "@/lib/barcode";
+import { createQRDecoder } from "@/lib/decoder";
+import { extractReceipt } from "@/lib/extraction";
+import { collectDroppedFiles, isImageFile } from "@/lib/files";
+import { getReceiptFormat } from "@/lib/formats";
+import { fileToDataURL, fileToImageData } from "@/lib/image";
+import { browserConnectivity } from "@/lib/offline";
+import { isPdfFile, renderPdfPages } from "@/lib/pdf";
+import { createTaskQueue } from "@/lib/queue";
+import {
+  formatReceiptParseErrors,
+  type GermanReceiptData,
+} from "@/lib/receipt";
+import {
+  scanImage,
+  scanPages,
+  type DecodeFunction,
+  type ScanResult,
+} from "@/lib/scan";
+import { describeError, pipelineLog } from "@/lib/telemetry";
+
+type BatchStatus =
+  | "queued"
+  | "scanning"
+  | "decoded"
+  | "receipt"
+  | "invalid-receipt"
+  | "no-qr"
+  | "error";
+
+type AIStatus = "skipped" | "pending" | "done" | "failed";
+
+interface BatchItem {
+  id: number;
+  fileName: string;
+  status: BatchStatus;
+  progress: number;
+  // The file's first code, parsed against the receipt formats
+  scanResult: ScanResult | null;
+  aiStatus: AIStatus;
+  // Receipt number read by the AI, or the error message
+  aiResult: string | null;
+  error: string;
+}
+
+// Decoding runs in a Web Worker; two jobs in flight keep it busy without
+// holding many decoded images in memory at once
+const DECODE_CONCURRENCY = 2;
+// Keeps us clear of AI provider rate limits when dozens of files are dropped
+const AI_CONCURRENCY = 2;
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  queued: "⏳ Queued",
+  scanning: "🔍 Scanning",
+  decoded: "✅ Decoded",
+  receipt: "🧾 Receipt",
+  "invalid-receipt": "⚠️ Malformed receipt",
+  "no-qr": "❌ No code found",
+  error: "⚠️ Error",
+};
+
+const AI_STATUS_LABELS: Record<AIStatus, string> = {
+  skipped: "—",
+  pending: "🤖 Pending",
+  done: "🤖 Done",
+  failed: "🤖 Failed",
+};
+
+interface BatchScannerProps {
+  // Configured vision provider, or null to skip AI analysis
+  aiProvider: VisionProvider | null;
+}
+
+export default function BatchScanner({ aiProvider }: BatchScannerProps) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [dropError, setDropError] = useState<string | null>(null);
+  const [decodeQueue] = useState(() => createTaskQueue(DECODE_CONCURRENCY));
+  const [aiQueue] = useState(() => createTaskQueue(AI_CONCURRENCY));
+  const [decoder] = useState(() => createQRDecoder());
+  const nextIdRef = useRef(0);
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // `webkitdirectory` is not part of React's input attribute types
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  useEffect(() => () => decoder.dispose(), [decoder]);
+
+  const updateItem = (id: number, patch: Partial<BatchItem>) => {
+    setItems((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...patch } : item))
+    );
+  };
+
+  const analyzeWithAI = async (
+    id: number,
+    fileName: string,
+    base64Image: string,
+    provider: VisionProvider
+  ) => {
+    try {
+      const extracted = await extractReceipt(provider, base64Image);
+      updateItem(id, {
+        aiStatus: "done",
+        aiResult: extracted.receiptNumber ?? "Not found",
+      });
+    } catch (error) {
+      pipelineLog.error("ai", `Batch AI analysis failed for ${fileName}`, {
+        data: { error: describeError(error) },
+      });
+      updateItem(id, {
+        aiStatus: "failed",
+        aiResult: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  // Scans the file like a single upload, and returns the data URL the AI
+  // should read when a provider is set: for a PDF the first page with a code
+  // on it (or the first page)
+  const scanFile = async (
+    file: File,
+    provider: VisionProvider | null
+  ): Promise<{ scanResults: ScanResult[]; image: string | null }> => {
+    // One code per file is all the batch table shows
+    const decode: DecodeFunction = (source, signal) =>
+      decoder.decode(source, { multiple: false, signal });
+
+    if (isPdfFile(file)) {
+      const { scanResults, shownPage } = await scanPages(
+        renderPdfPages(file),
+        decode
+      );
+      return {
+        scanResults,
+        image:
+          provider && shownPage ? await fileToDataURL(shownPage.image) : null,
+      };
+    }
+
+    // Only the vision model reads the data URL
+    const image = provider ? await fileToDataURL(file) : null;
+    const { scanResults } = await scanImage(file, image ?? "", {
+      decode,
+      toPixels: (source) =>
+        source instanceof Blob
+          ? fileToImageData(source)
+          : Promise.resolve(source),
+      // The AI call would only queue while offline, holding up the batch
+      provider: browserConnectivity.isOnline() ? provider : null,
+    });
+    return { scanResults, image };
+  };
+
+  const processFile = async (id: number, file: File) => {
+    updateItem(id, { status: "scanning", progress: 10 });
+
+    let scanned: Awaited<ReturnType<typeof scanFile>>;
+    try {
+      scanned = await scanFile(file, aiProvider);
+    } catch (error) {
+      pipelineLog.error("decode", `Batch file ${file.name} failed`, {
+        data: { error: describeError(error) },
+      });
+      updateItem(id, {
+        status: "error",
+        progress: 100,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return;
+    }
+
+    const scanResult = scanned.scanResults[0] ?? null;
+    updateItem(id, {
+      status: !scanResult
+        ? "no-qr"
+        : scanResult.code
+        ? "receipt"
+        : scanResult.invalid
+        ? "invalid-receipt"
+        : "decoded",
+      progress: 100,
+      scanResult,
+      error: scanResult?.invalid
+        ? formatReceiptParseErrors(scanResult.invalid.errors)
+        : "",
+    });
+
+    if (aiProvider && scanned.image) {
+      const aiImage = scanned.image;
+      updateItem(id, { aiStatus: "pending" });
+      aiQueue.add(() => analyzeWithAI(id, file.name, aiImage, aiProvider));
+    }
+  };
+
+  const enqueueFiles = (files: File[]) => {
+    const images = files.filter((file) => isImageFile(file) || isPdfFile(file));
+    pipelineLog.info(
+      "file",
+      `Batch received ${files.length} files, ${images.length} images or PDFs`
+    );
+
+    const newItems = images.map(
+      (file): BatchItem => ({
+        id: nextIdRef.current++,
+        fileName: file.webkitRelativePath || file.name,
+        status: "queued",
+        progress: 0,
+        scanResult: null,
+        aiStatus: "skipped",
+        aiResult: null,
+        error: "",
+      })
+    );
+    setItems((prev) => [...prev, ...newItems]);
+
+    newItems.forEach((item, index) => {
+      decodeQueue.add(() => processFile(item.id, images[index]));
+    });
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    enqueueFiles(Array.from(event.target.files ?? []));
+    // Allow selecting the same files again
+    event.target.value = "";
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    let files: File[];
+    try {
+      files = await collectDroppedFiles(event.dataTransfer);
+    } catch (error) {
+      pipelineLog.error("file", "Reading the dropped files failed", {
+        data: { error: describeError(error) },
+      });
+      setDropError(
+        `Could not read the dropped files: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      return;
+    }
+    setDropError(null);
+    enqueueFiles(files);
+  };
+
+  const clearBatch = () => {
+    setDropError(null);
+    decodeQueue.clear();
+    aiQueue.clear();
+    setItems([]);
+  };
+
+  const finishedCount = items.filter((item) => item.progress === 100).length;
+  const germanReceipts = items
+    .map((item) => item.scanResult?.receipt)
+    .filter((receipt): receipt is GermanReceiptData => Boolean(receipt));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Batch Scan</CardTitle>
+        <CardDescription>
+          Scan many receipt images or PDFs at once: select files or a folder, or
+          drop them below
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Input
+          ref={filesInputRef}
+          type="file"
+          accept="image/*,application/pdf"
+          multiple
+          onChange={handleInputChange}
+          className="hidden"
+        />
+        <Input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          onChange={handleInputChange}
+          className="hidden"
+        />
+
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`p-6 border-2 border-dashed rounded-lg text-center text-sm ${
+            isDragging
+              ? "border-blue-400 bg-blue-50 text-blue-800"
+              : "border-gray-300 text-gray-600"
+          }`}
+        >
+          Drop receipt images, PDFs or folders here
+        </div>
+
+        {dropError && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800 text-sm">{dropError}</p>
+          </div>
+        )}
+
+        <div className="flex space-x-2">
+          <Button
+            onClick={() => filesInputRef.current?.click()}
+            variant="outline"
+            className="flex-1"
+          >
+            Select Files
+          </Button>
+          <Button
+            onClick={() => folderInputRef.current?.click()}
+            variant="outline"
+            className="flex-1"
+          >
+            Select Folder
+          </Button>
+          {items.length > 0 && (
+            <Button onClick={clearBatch} variant="outline">
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {items.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-600">
+              {finishedCount} of {items.length} files processed
+            </p>
+            <div className="overflow-x-auto rounded-lg border">
+              <table className="w-full text-xs text-left">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="p-2 font-medium">File</th>
+                    <th className="p-2 font-medium">Status</th>
+                    <th className="p-2 font-medium">Total</th>
+                    <th className="p-2 font-medium">Payment</th>
+                    <th className="p-2 font-medium">Date</th>
+                    <th className="p-2 font-medium">Code Data</th>
+                    <th className="p-2 font-medium">AI</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((item) => (
+                    <tr key={item.id} className="border-t align-top">
+                      <td className="p-2 break-all">{item.fileName}</td>
+                      <td className="p-2 whitespace-nowrap">
+                        <div title={item.error || undefined}>
+                          {STATUS_LABELS[item.status]}
+                        </div>
+                        {item.scanResult && (
+                          <div className="text-gray-500">
+                            {BARCODE_FORMAT_LABELS[item.scanResult.qr.format]}
+                          </div>
+                        )}
+                        {item.scanResult?.code && (
+                          <div className="text-gray-500">
+                            {
+                              getReceiptFormat(item.scanResult.code.format)
+                                .label
+                            }
+                          </div>
+                        )}
+                        {item.scanResult?.qr.page && (
+                          <div className="text-gray-500">
+                            PDF page {item.scanResult.qr.page}
+                          </div>
+                        )}
+                        {item.scanResult?.recoveredViaAICrop && (
+                          <div className="text-purple-700">
+                            🤖 Recovered via AI crop
+                          </div>
+                        )}
+                        {item.progress < 100 && (
+                          <div className="mt-1 h-1 w-20 bg-gray-200 rounded">
+                            <div
+                              className="h-1 bg-blue-500 rounded"
+                              style={{ width: `${item.progress}%` }}
+                            />
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-2 whitespace-nowrap">
+                        {item.scanResult?.receipt
+                          ? `€${item.scanResult.receipt.receipt.totalAmount.toFixed(
+                              2
+                            )}`
+                          : "—"}
+                      </td>
+                      <td className="p-2">
+                        {item.scanResult?.receipt?.receipt.paymentMethod || "—"}
+                      </td>
+                      <td className="p-2 whitespace-nowrap">
+                        {item.scanResult?.receipt
+                          ? new Date(
+                              item.scanResult.receipt.timestampEnd
+                            ).toLocaleString()
+                          : "—"}
+                      </td>
+                      <td className="p-2 font-mono break-all max-w-48">
+                        {item.scanResult
+                          ? `${item.scanResult.qr.data.substring(0, 40)}${
+                              item.scanResult.qr.data.length > 40 ? "..." : ""
+                            }`
+                          : "—"}
+                      </td>
+                      <td className="p-2" title={item.aiResult || undefined}>
+                        {item.aiStatus === "done"
+                          ? item.aiResult
+                          : AI_STATUS_LABELS[item.aiStatus]}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {germanReceipts.length > 0 && (
+              <ExportPanel receipts={germanReceipts} />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
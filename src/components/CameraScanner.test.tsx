@@ -0,0 +1,151 @@
+// @vitest-environment jsdom
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import CameraScanner from "@/components/CameraScanner";
+import { createQRMatrix, matrixToPixels } from "@/lib/generator";
+import type { PixelData } from "@/lib/qr";
+
+const TEXT = "https://example.com/receipt/4711";
+
+// What the fake camera films: a code once `showCode` is set, grey before
+let showCode: boolean;
+let frame: PixelData;
+
+// jsdom has no canvas or video playback, so the 2D context hands out the
+// filmed frame and the video reports the frame's size once it is ready
+function fakeCanvasAndVideo() {
+  const code = matrixToPixels(
+    createQRMatrix(TEXT, { errorCorrection: "M", version: null }),
+    { margin: 4, scale: 4, dark: "#000000", light: "#ffffff" }
+  );
+  const blank = { ...code, data: new Uint8ClampedArray(code.data).fill(128) };
+  frame = blank;
+
+  vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(
+    () =>
+      ({
+        drawImage: () => {
+          frame = showCode ? code : blank;
+        },
+        getImageData: () => frame,
+      } as unknown as CanvasRenderingContext2D)
+  );
+  vi.spyOn(HTMLCanvasElement.prototype, "toDataURL").mockReturnValue(
+    "data:image/jpeg;base64,"
+  );
+  vi.spyOn(HTMLMediaElement.prototype, "play").mockResolvedValue();
+  vi.spyOn(HTMLMediaElement.prototype, "readyState", "get").mockReturnValue(
+    HTMLMediaElement.HAVE_ENOUGH_DATA
+  );
+  vi.spyOn(HTMLVideoElement.prototype, "videoWidth", "get").mockImplementation(
+    () => frame.width
+  );
+  vi.spyOn(HTMLVideoElement.prototype, "videoHeight", "get").mockImplementation(
+    () => frame.height
+  );
+}
+
+function fakeStream() {
+  const track = {
+    label: "Fake camera",
+    stop: vi.fn(),
+    getSettings: () => ({ deviceId: "fake" }),
+    getCapabilities: () => ({}),
+  };
+  const stream = {
+    getTracks: () => [track],
+    getVideoTracks: () => [track],
+  } as unknown as MediaStream;
+  return { stream, track };
+}
+
+describe("CameraScanner", () => {
+  beforeEach(() => {
+    showCode = false;
+    fakeCanvasAndVideo();
+    vi.stubGlobal("requestAnimationFrame", (callback: () => void) =>
+      setTimeout(callback, 0)
+    );
+    vi.stubGlobal("cancelAnimationFrame", (handle: number) =>
+      clearTimeout(handle)
+    );
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("hands the code to the current onDetected and releases the camera", async () => {
+    const { stream, track } = fakeStream();
+    const first = vi.fn();
+    const second = vi.fn();
+    const { rerender } = render(
+      <CameraScanner onDetected={first} getStream={async () => stream} />
+    );
+
+    fireEvent.click(screen.getByText("Scan with Camera"));
+    await screen.findByText("Stop Camera");
+
+    // A parent re-rendering mid-scan passes a new callback
+    rerender(
+      <CameraScanner onDetected={second} getStream={async () => stream} />
+    );
+    showCode = true;
+
+    await waitFor(() => expect(second).toHaveBeenCalledTimes(1));
+    expect(second.mock.calls[0][0].data).toBe(TEXT);
+    expect(first).not.toHaveBeenCalled();
+    expect(track.stop).toHaveBeenCalled();
+    expect(screen.getByText("Scan with Camera")).toBeTruthy();
+  });
+
+  it("stops a stream that arrives after the scanner is gone", async () => {
+    const { stream, track } = fakeStream();
+    let resolveStream: (stream: MediaStream) => void = () => {};
+    const pending = new Promise<MediaStream>((resolve) => {
+      resolveStream = resolve;
+    });
+    const { unmount } = render(
+      <CameraScanner onDetected={vi.fn()} getStream={() => pending} />
+    );
+
+    fireEvent.click(screen.getByText("Scan with Camera"));
+    unmount();
+    resolveStream(stream);
+
+    await waitFor(() => expect(track.stop).toHaveBeenCalled());
+    expect(HTMLMediaElement.prototype.play).not.toHaveBeenCalled();
+  });
+
+  it("explains a denied camera permission", async () => {
+    const onError = vi.fn();
+    render(
+      <CameraScanner
+        onDetected={vi.fn()}
+        onError={onError}
+        getStream={() =>
+          // jsdom's DOMException isn't an Error, unlike the browser's
+          Promise.reject(
+            Object.assign(new Error("Denied"), { name: "NotAllowedError" })
+          )
+        }
+      />
+    );
+
+    fireEvent.click(screen.getByText("Scan with Camera"));
+
+    await waitFor(() =>
+      expect(onError).toHaveBeenCalledWith(
+        "Camera access was denied. Please allow camera access and try again."
+      )
+    );
+  });
+});
@@ -0,0 +1,239 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { decodeImageData, type QRResult } from "@/lib/qr";
+import { describeError, pipelineLog } from "@/lib/telemetry";
+
+// `torch` is only exposed by Chromium-based browsers and is missing from lib.dom
+interface TorchCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+}
+
+interface CameraScannerProps {
+  // Called once with the first decoded code and a JPEG data URL of that frame
+  onDetected: (result: QRResult, frameDataUrl: string) => void;
+  onError?: (message: string) => void;
+  // Injection point so a fake stream (e.g. canvas.captureStream()) can stand in for a camera
+  getStream?: (constraints: MediaStreamConstraints) => Promise<MediaStream>;
+  disabled?: boolean;
+}
+
+const defaultGetStream = (constraints: MediaStreamConstraints) =>
+  navigator.mediaDevices.getUserMedia(constraints);
+
+export default function CameraScanner({
+  onDetected,
+  onError,
+  getStream = defaultGetStream,
+  disabled = false,
+}: CameraScannerProps) {
+  const [isActive, setIsActive] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string>("");
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRequestRef = useRef<number | null>(null);
+  // The frame loop runs across renders, so it calls the latest scanFrame
+  // through this ref rather than the one it started with
+  const scanFrameRef = useRef<() => void>(() => {});
+
+  const stopCamera = useCallback(() => {
+    if (frameRequestRef.current !== null) {
+      cancelAnimationFrame(frameRequestRef.current);
+      frameRequestRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+    setIsActive(false);
+    setTorchOn(false);
+    setTorchSupported(false);
+  }, []);
+
+  // Release the camera when the component goes away
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const nextFrame = useCallback(() => scanFrameRef.current(), []);
+
+  const scanFrame = () => {
+    const video = videoRef.current;
+    if (!video || !streamRef.current) {
+      return;
+    }
+
+    if (
+      video.readyState >= video.HAVE_ENOUGH_DATA &&
+      video.videoWidth > 0 &&
+      video.videoHeight > 0
+    ) {
+      if (!canvasRef.current) {
+        canvasRef.current = document.createElement("canvas");
+      }
+      const canvas = canvasRef.current;
+      const context = canvas.getContext("2d", { willReadFrequently: true });
+      if (context) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const imageData = context.getImageData(
+          0,
+          0,
+          canvas.width,
+          canvas.height
+        );
+
+        // Live frames are decoded without inversion to keep the loop fast
+        const result = decodeImageData(imageData, "dontInvert");
+        if (result && result.data) {
+          pipelineLog.info("camera", "QR code found in camera frame", {
+            image: { width: imageData.width, height: imageData.height },
+            data: { text: result.data },
+          });
+          const frameDataUrl = canvas.toDataURL("image/jpeg", 0.9);
+          stopCamera();
+          onDetected(result, frameDataUrl);
+          return;
+        }
+      }
+    }
+
+    frameRequestRef.current = requestAnimationFrame(nextFrame);
+  };
+
+  useEffect(() => {
+    scanFrameRef.current = scanFrame;
+  });
+
+  const startCamera = async (requestedDeviceId = deviceId) => {
+    stopCamera();
+
+    try {
+      const stream = await getStream({
+        audio: false,
+        video: requestedDeviceId
+          ? { deviceId: { exact: requestedDeviceId } }
+          : { facingMode: { ideal: "environment" } },
+      });
+      streamRef.current = stream;
+
+      const [track] = stream.getVideoTracks();
+      const capabilities = track?.getCapabilities?.() as
+        | TorchCapabilities
+        | undefined;
+      setTorchSupported(Boolean(capabilities?.torch));
+
+      // Device labels are only populated once permission has been granted
+      if (navigator.mediaDevices?.enumerateDevices) {
+        const allDevices = await navigator.mediaDevices.enumerateDevices();
+        setDevices(allDevices.filter((device) => device.kind === "videoinput"));
+      }
+      const activeDeviceId = track?.getSettings().deviceId;
+      if (activeDeviceId) {
+        setDeviceId(activeDeviceId);
+      }
+
+      // The scanner went away or another start replaced this stream while
+      // waiting, so nothing else will release the camera
+      const video = videoRef.current;
+      if (!video || streamRef.current !== stream) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      video.srcObject = stream;
+      await video.play();
+
+      setIsActive(true);
+      pipelineLog.info("camera", `Camera started: ${track?.label}`);
+      frameRequestRef.current = requestAnimationFrame(nextFrame);
+    } catch (err) {
+      pipelineLog.error("camera", "Failed to start camera", {
+        data: { error: describeError(err) },
+      });
+      stopCamera();
+      onError?.(
+        err instanceof Error && err.name === "NotAllowedError"
+          ? "Camera access was denied. Please allow camera access and try again."
+          : "Could not start the camera. Please check that a camera is available."
+      );
+    }
+  };
+
+  const handleDeviceChange = (value: string) => {
+    setDeviceId(value);
+    if (isActive) {
+      startCamera(value);
+    }
+  };
+
+  const toggleTorch = async () => {
+    const [track] = streamRef.current?.getVideoTracks() ?? [];
+    if (!track) {
+      return;
+    }
+
+    try {
+      await track.applyConstraints({
+        advanced: [{ torch: !torchOn } as MediaTrackConstraintSet],
+      });
+      setTorchOn(!torchOn);
+    } catch (err) {
+      pipelineLog.warn("camera", "Failed to toggle torch", {
+        data: { error: describeError(err) },
+      });
+      setTorchSupported(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <video
+        ref={videoRef}
+        muted
+        playsInline
+        className={`w-full max-h-80 rounded-lg border bg-black object-contain ${
+          isActive ? "" : "hidden"
+        }`}
+      />
+
+      {devices.length > 1 && (
+        <select
+          value={deviceId}
+          onChange={(e) => handleDeviceChange(e.target.value)}
+          className="w-full h-9 rounded-md border px-3 text-sm bg-transparent"
+        >
+          {devices.map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `Camera ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <div className="flex space-x-2">
+        <Button
+          onClick={() => (isActive ? stopCamera() : startCamera())}
+          variant="outline"
+          className="flex-1"
+          disabled={disabled && !isActive}
+        >
+          {isActive ? "Stop Camera" : "Scan with Camera"}
+        </Button>
+        {isActive && torchSupported && (
+          <Button onClick={toggleTorch} variant="outline">
+            {torchOn ? "Torch Off" : "Torch On"}
+          </Button>
+        )}
+      </div>
+
+      {isActive && (
+        <p className="text-xs text-gray-600 text-center">
+          Point the camera at a QR code. Scanning stops on the first code found.
+        </p>
+      )}
+    </div>
+  );
+}
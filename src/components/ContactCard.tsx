@@ -0,0 +1,79 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { downloadFile } from "@/lib/export";
+import type { Contact } from "@/lib/payload";
+
+interface ContactCardProps {
+  contact: Contact;
+  // vCard text offered as a .vcf download
+  vcard: string;
+}
+
+export default function ContactCard({ contact, vcard }: ContactCardProps) {
+  const fileName = `${(contact.name ?? "contact").replace(
+    /[^\w-]+/g,
+    "_"
+  )}.vcf`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">👤 Contact</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <p className="text-lg font-medium">{contact.name ?? "Unnamed"}</p>
+          {(contact.title || contact.organization) && (
+            <p className="text-sm text-gray-600">
+              {[contact.title, contact.organization].filter(Boolean).join(", ")}
+            </p>
+          )}
+        </div>
+
+        <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+          {contact.phones.map((phone) => (
+            <div key={phone.number}>
+              <strong>Phone{phone.type ? ` (${phone.type})` : ""}:</strong>{" "}
+              <a
+                href={`tel:${phone.number}`}
+                className="text-blue-600 underline"
+              >
+                {phone.number}
+              </a>
+            </div>
+          ))}
+          {contact.emails.map((email) => (
+            <div key={email}>
+              <strong>Email:</strong>{" "}
+              <a href={`mailto:${email}`} className="text-blue-600 underline">
+                {email}
+              </a>
+            </div>
+          ))}
+          {contact.addresses.map((address) => (
+            <div key={address}>
+              <strong>Address:</strong> {address}
+            </div>
+          ))}
+          {contact.urls.map((url) => (
+            <div key={url} className="break-all">
+              <strong>Web:</strong> {url}
+            </div>
+          ))}
+          {contact.note && (
+            <div className="whitespace-pre-line">
+              <strong>Note:</strong> {contact.note}
+            </div>
+          )}
+        </div>
+
+        <Button
+          onClick={() => downloadFile(vcard, fileName, "text/vcard")}
+          variant="outline"
+        >
+          Download .vcf
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
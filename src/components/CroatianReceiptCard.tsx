@@ -0,0 +1,69 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { CroatianReceiptData } from "@/lib/formats/croatia";
+
+interface CroatianReceiptCardProps {
+  receipt: CroatianReceiptData;
+  onClear: () => void;
+}
+
+export default function CroatianReceiptCard({
+  receipt,
+  onClear,
+}: CroatianReceiptCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          🇭🇷 Croatian Fiscal Receipt
+        </CardTitle>
+        <CardDescription>
+          Verification link of a fiscalised receipt
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Total Amount:</label>
+          <div className="p-3 bg-green-50 rounded-lg border border-green-200">
+            <p className="text-lg font-bold text-green-800">
+              €{receipt.totalAmount.toFixed(2)}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+          <div>
+            <strong>Issued:</strong> {receipt.issuedAt.replace("T", " ")}
+          </div>
+          {receipt.jir && (
+            <div className="break-all">
+              <strong>JIR:</strong> {receipt.jir}
+            </div>
+          )}
+          {receipt.zki && (
+            <div className="break-all">
+              <strong>ZKI:</strong> {receipt.zki}
+            </div>
+          )}
+        </div>
+
+        <div className="flex space-x-2">
+          <Button asChild variant="outline">
+            <a href={receipt.url} target="_blank" rel="noopener noreferrer">
+              Verify with Tax Administration
+            </a>
+          </Button>
+          <Button onClick={onClear} variant="outline">
+            Scan Another
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
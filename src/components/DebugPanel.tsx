@@ -0,0 +1,169 @@
+import { useState, useSyncExternalStore } from "react";
+import { Button } from "@/components/ui/button";
+import { describeAISettings, type AISettings } from "@/lib/ai";
+import { downloadFile } from "@/lib/export";
+import {
+  createDiagnosticBundle,
+  describeMeasurements,
+  LOG_LEVELS,
+  pipelineLog,
+  saveLogLevel,
+  STAGE_ICONS,
+  type LogLevel,
+  type PipelineEvent,
+} from "@/lib/telemetry";
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  debug: "text-gray-500",
+  info: "text-blue-800",
+  warn: "text-yellow-700",
+  error: "text-red-700",
+};
+
+// Only the latest events are rendered; the bundle has all of them
+const MAX_SHOWN_EVENTS = 200;
+
+function formatTime(time: string): string {
+  const date = new Date(time);
+  return `${date.toLocaleTimeString()}.${String(
+    date.getMilliseconds()
+  ).padStart(3, "0")}`;
+}
+
+function EventRow({ event }: { event: PipelineEvent }) {
+  const measurements = describeMeasurements(event);
+  const hasDetails = event.decoder !== undefined || event.data !== undefined;
+
+  return (
+    <li className={`py-1 ${LEVEL_STYLES[event.level]}`}>
+      <div className="flex gap-2">
+        <span className="text-gray-400 shrink-0">{formatTime(event.time)}</span>
+        <span className="shrink-0">{STAGE_ICONS[event.stage]}</span>
+        <span className="break-words min-w-0">
+          {event.message}
+          {measurements && (
+            <span className="text-gray-500"> · {measurements}</span>
+          )}
+        </span>
+      </div>
+      {hasDetails && (
+        <details className="ml-6">
+          <summary className="cursor-pointer text-gray-500">Details</summary>
+          {event.decoder && (
+            <div>
+              Tried: {event.decoder.attempts.join(", ")}
+              {event.decoder.transform && ` → ${event.decoder.transform}`}
+            </div>
+          )}
+          {event.data !== undefined && (
+            <pre className="whitespace-pre-wrap break-all">
+              {JSON.stringify(event.data, null, 2)}
+            </pre>
+          )}
+        </details>
+      )}
+    </li>
+  );
+}
+
+interface DebugPanelProps {
+  aiSettings: AISettings;
+}
+
+// Timeline of the pipeline events, with the log level switch and the
+// diagnostic bundle download for bug reports
+export default function DebugPanel({ aiSettings }: DebugPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const events = useSyncExternalStore(
+    pipelineLog.subscribe,
+    pipelineLog.getEvents
+  );
+  const level = useSyncExternalStore(
+    pipelineLog.subscribe,
+    pipelineLog.getLevel
+  );
+
+  // Events recorded under a more verbose level are hidden, not deleted
+  const shownEvents = events
+    .filter(
+      (event) => LOG_LEVELS.indexOf(event.level) >= LOG_LEVELS.indexOf(level)
+    )
+    .slice(-MAX_SHOWN_EVENTS);
+
+  const handleLevelChange = (newLevel: LogLevel) => {
+    pipelineLog.setLevel(newLevel);
+    saveLogLevel(newLevel);
+  };
+
+  const downloadDiagnostics = () => {
+    const bundle = createDiagnosticBundle(pipelineLog, navigator.userAgent, {
+      online: navigator.onLine,
+      language: navigator.language,
+      ai: describeAISettings(aiSettings),
+    });
+    downloadFile(
+      JSON.stringify(bundle, null, 2),
+      `qr-scanner-diagnostics-${bundle.createdAt.replace(/[:.]/g, "-")}.json`,
+      "application/json"
+    );
+  };
+
+  return (
+    <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-blue-800">
+          Debug Timeline ({shownEvents.length})
+        </span>
+        <Button onClick={() => setIsOpen(!isOpen)} variant="outline" size="sm">
+          {isOpen ? "Hide" : "Show"}
+        </Button>
+      </div>
+
+      {isOpen && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <label className="flex items-center gap-1">
+              Log level:
+              <select
+                value={level}
+                onChange={(e) => handleLevelChange(e.target.value as LogLevel)}
+                className="rounded border px-1 bg-transparent"
+              >
+                {LOG_LEVELS.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Button
+              onClick={() => pipelineLog.clear()}
+              variant="outline"
+              size="sm"
+            >
+              Clear
+            </Button>
+            <Button onClick={downloadDiagnostics} variant="outline" size="sm">
+              Download Diagnostics
+            </Button>
+          </div>
+
+          {shownEvents.length > 0 ? (
+            <ol className="max-h-80 overflow-y-auto divide-y divide-blue-100 text-xs font-mono">
+              {shownEvents.map((event) => (
+                <EventRow key={event.id} event={event} />
+              ))}
+            </ol>
+          ) : (
+            <p className="text-xs text-blue-800">No events yet.</p>
+          )}
+
+          <p className="text-xs text-gray-500">
+            The diagnostic bundle contains these events, including decoded code
+            contents and AI answers, but never your API key.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatIBAN } from "@/lib/formats/banking";
+import type { EPCPaymentData } from "@/lib/formats/epc";
+
+interface EPCPaymentCardProps {
+  payment: EPCPaymentData;
+  onClear: () => void;
+}
+
+export default function EPCPaymentCard({
+  payment,
+  onClear,
+}: EPCPaymentCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          🇪🇺 SEPA Payment (GiroCode)
+        </CardTitle>
+        <CardDescription>
+          EPC QR code for a SEPA credit transfer
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Amount:</label>
+          <div className="p-3 bg-green-50 rounded-lg border border-green-200">
+            <p className="text-lg font-bold text-green-800">
+              {payment.amount === null
+                ? "Open amount"
+                : `€${payment.amount.toFixed(2)}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+          <div>
+            <strong>Beneficiary:</strong> {payment.beneficiaryName}
+          </div>
+          <div className="font-mono">
+            <strong className="font-sans">IBAN:</strong>{" "}
+            {formatIBAN(payment.iban)}
+          </div>
+          {payment.bic && (
+            <div>
+              <strong>BIC:</strong> {payment.bic}
+            </div>
+          )}
+          {payment.reference && (
+            <div>
+              <strong>Reference:</strong> {payment.reference}
+            </div>
+          )}
+          {payment.remittanceText && (
+            <div>
+              <strong>Remittance:</strong> {payment.remittanceText}
+            </div>
+          )}
+          {payment.purpose && (
+            <div>
+              <strong>Purpose:</strong> {payment.purpose}
+            </div>
+          )}
+          {payment.information && (
+            <div>
+              <strong>Note:</strong> {payment.information}
+            </div>
+          )}
+        </div>
+
+        <div className="flex space-x-2">
+          <Button
+            onClick={() => navigator.clipboard.writeText(payment.iban)}
+            variant="outline"
+          >
+            Copy IBAN
+          </Button>
+          <Button
+            onClick={() =>
+              navigator.clipboard.writeText(JSON.stringify(payment, null, 2))
+            }
+            variant="outline"
+          >
+            Copy Payment Data
+          </Button>
+          <Button onClick={onClear} variant="outline">
+            Scan Another
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
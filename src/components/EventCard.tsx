@@ -0,0 +1,64 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { downloadFile } from "@/lib/export";
+import type { CalendarEvent } from "@/lib/payload";
+
+interface EventCardProps {
+  event: CalendarEvent;
+  // iCalendar text offered as a .ics download
+  ics: string;
+}
+
+// All-day dates stay as they are; times with a zone are shown in local time
+function formatEventTime(value: string | null): string | null {
+  if (!value || value.length === 10) {
+    return value;
+  }
+  return new Date(value).toLocaleString();
+}
+
+export default function EventCard({ event, ics }: EventCardProps) {
+  const start = formatEventTime(event.start);
+  const end = formatEventTime(event.end);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">📅 Calendar Event</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-lg font-medium">
+          {event.summary ?? "Untitled event"}
+        </p>
+        <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+          {start && (
+            <div>
+              <strong>{event.allDay ? "Date" : "Starts"}:</strong> {start}
+            </div>
+          )}
+          {end && (
+            <div>
+              <strong>Ends:</strong> {end}
+            </div>
+          )}
+          {event.location && (
+            <div>
+              <strong>Location:</strong> {event.location}
+            </div>
+          )}
+          {event.description && (
+            <div className="whitespace-pre-line">
+              <strong>Description:</strong> {event.description}
+            </div>
+          )}
+        </div>
+        <Button
+          onClick={() => downloadFile(ics, "event.ics", "text/calendar")}
+          variant="outline"
+        >
+          Download .ics
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DEFAULT_CSV_OPTIONS,
+  DEFAULT_DATEV_OPTIONS,
+  EXPORT_COLUMNS,
+  exportReceipts,
+  type CsvOptions,
+  type DatevOptions,
+  type ExportFormat,
+} from "@/lib/export";
+import type { GermanReceiptData } from "@/lib/receipt";
+import { pipelineLog } from "@/lib/telemetry";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  jsonl: "JSON Lines",
+  datev: "DATEV",
+};
+
+type DatevTextField = Exclude<keyof DatevOptions, "taxKeys" | "createdAt">;
+
+const DATEV_FIELDS: { key: DatevTextField; label: string }[] = [
+  { key: "consultantNumber", label: "Consultant No." },
+  { key: "clientNumber", label: "Client No." },
+  { key: "fiscalYearStart", label: "Fiscal Year Start" },
+  { key: "expenseAccount", label: "Expense Account" },
+  { key: "cashAccount", label: "Cash Account" },
+  { key: "bankAccount", label: "Card/Bank Account" },
+];
+
+interface ExportPanelProps {
+  receipts: GermanReceiptData[];
+}
+
+export default function ExportPanel({ receipts }: ExportPanelProps) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [csvOptions, setCsvOptions] = useState<CsvOptions>(DEFAULT_CSV_OPTIONS);
+  const [datevOptions, setDatevOptions] = useState<DatevOptions>(() => {
+    // Account numbers are set up once per bookkeeping client, so remember them
+    const saved = localStorage.getItem("datev_settings");
+    return saved
+      ? { ...DEFAULT_DATEV_OPTIONS, ...JSON.parse(saved) }
+      : DEFAULT_DATEV_OPTIONS;
+  });
+
+  const toggleColumn = (id: string) => {
+    setCsvOptions((prev) => ({
+      ...prev,
+      columns: prev.columns.includes(id)
+        ? prev.columns.filter((column) => column !== id)
+        : // Keep the order of EXPORT_COLUMNS regardless of click order
+          EXPORT_COLUMNS.map((column) => column.id).filter(
+            (column) => column === id || prev.columns.includes(column)
+          ),
+    }));
+  };
+
+  const handleDatevChange = (key: DatevTextField, value: string) => {
+    const updated = { ...datevOptions, [key]: value };
+    setDatevOptions(updated);
+    localStorage.setItem("datev_settings", JSON.stringify(updated));
+  };
+
+  const handleExport = () => {
+    pipelineLog.info(
+      "export",
+      `Exporting ${receipts.length} receipts as ${format}`
+    );
+    exportReceipts(receipts, format, { csv: csvOptions, datev: datevOptions });
+  };
+
+  return (
+    <details className="space-y-2">
+      <summary className="text-sm font-medium cursor-pointer hover:text-blue-600">
+        Export{" "}
+        {receipts.length === 1 ? "Receipt" : `${receipts.length} Receipts`}
+      </summary>
+      <div className="p-3 bg-gray-50 rounded-lg border mt-2 space-y-3">
+        <div className="flex space-x-2">
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((value) => (
+            <Button
+              key={value}
+              onClick={() => setFormat(value)}
+              variant={format === value ? "default" : "outline"}
+              size="sm"
+            >
+              {FORMAT_LABELS[value]}
+            </Button>
+          ))}
+        </div>
+
+        {format === "csv" && (
+          <div className="space-y-2 text-xs">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-1">
+              {EXPORT_COLUMNS.map((column) => (
+                <label key={column.id} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={csvOptions.columns.includes(column.id)}
+                    onChange={() => toggleColumn(column.id)}
+                  />
+                  {column.header}
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-1">
+                Delimiter:
+                <select
+                  value={csvOptions.delimiter}
+                  onChange={(e) =>
+                    setCsvOptions({ ...csvOptions, delimiter: e.target.value })
+                  }
+                  className="rounded border px-1 bg-transparent"
+                >
+                  <option value=";">Semicolon</option>
+                  <option value=",">Comma</option>
+                  <option value={"\t"}>Tab</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-1">
+                Number format:
+                <select
+                  value={csvOptions.locale}
+                  onChange={(e) =>
+                    setCsvOptions({
+                      ...csvOptions,
+                      locale: e.target.value as CsvOptions["locale"],
+                    })
+                  }
+                  className="rounded border px-1 bg-transparent"
+                >
+                  <option value="de">German (1234,56)</option>
+                  <option value="en">English (1234.56)</option>
+                </select>
+              </label>
+            </div>
+          </div>
+        )}
+
+        {format === "datev" && (
+          <div className="space-y-2 text-xs">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {DATEV_FIELDS.map(({ key, label }) => (
+                <label key={key} className="space-y-1">
+                  <span>{label}</span>
+                  <Input
+                    value={datevOptions[key]}
+                    onChange={(e) => handleDatevChange(key, e.target.value)}
+                    className="h-8 text-xs"
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-gray-500">
+              Training receipts, aborted transactions and other non-sales are
+              left out of the booking batch.
+            </p>
+          </div>
+        )}
+
+        <Button
+          onClick={handleExport}
+          variant="outline"
+          size="sm"
+          disabled={receipts.length === 0}
+        >
+          Download {FORMAT_LABELS[format]}
+        </Button>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,59 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface GeoCardProps {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  query: string | null;
+}
+
+export default function GeoCard({
+  latitude,
+  longitude,
+  altitude,
+  query,
+}: GeoCardProps) {
+  const mapURL = `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=16/${latitude}/${longitude}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">📍 Location</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+          {query && (
+            <div>
+              <strong>Place:</strong> {query}
+            </div>
+          )}
+          <div className="font-mono">
+            <strong className="font-sans">Coordinates:</strong> {latitude},{" "}
+            {longitude}
+          </div>
+          {altitude !== null && (
+            <div>
+              <strong>Altitude:</strong> {altitude} m
+            </div>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          <Button asChild variant="outline">
+            <a href={mapURL} target="_blank" rel="noopener noreferrer">
+              Open Map
+            </a>
+          </Button>
+          <Button
+            onClick={() =>
+              navigator.clipboard.writeText(`${latitude}, ${longitude}`)
+            }
+            variant="outline"
+          >
+            Copy Coordinates
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
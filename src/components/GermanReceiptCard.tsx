@@ -0,0 +1,138 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import ExportPanel from "@/components/ExportPanel";
+import SignatureBadge from "@/components/SignatureBadge";
+import type { GermanReceiptData } from "@/lib/receipt";
+
+interface GermanReceiptCardProps {
+  receipt: GermanReceiptData;
+  onClear: () => void;
+}
+
+export default function GermanReceiptCard({
+  receipt,
+  onClear,
+}: GermanReceiptCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          🇩🇪 German Receipt Data
+        </CardTitle>
+        <CardDescription>Parsed German receipt information</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* TSE Signature */}
+        <SignatureBadge receipt={receipt} />
+
+        {/* Receipt Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Total Amount:</label>
+            <div className="p-3 bg-green-50 rounded-lg border border-green-200">
+              <p className="text-lg font-bold text-green-800">
+                €{receipt.receipt.totalAmount.toFixed(2)}
+              </p>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Payment Method:</label>
+            <div className="p-3 bg-blue-50 rounded-lg border border-blue-200 space-y-1">
+              <p className="text-sm font-medium text-blue-800">
+                {receipt.receipt.paymentMethod || "—"}
+              </p>
+              {receipt.receipt.payments.length > 1 && (
+                <ul className="text-xs text-blue-700">
+                  {receipt.receipt.payments.map((payment, index) => (
+                    <li key={index}>
+                      {payment.amount.toFixed(2)} {payment.currency} (
+                      {payment.type})
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Transaction Details */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Transaction Details:</label>
+          <div className="p-3 bg-gray-50 rounded-lg border space-y-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+              <div>
+                <strong>Register ID:</strong> {receipt.registerID}
+              </div>
+              <div>
+                <strong>Version:</strong> {receipt.version}
+              </div>
+              <div>
+                <strong>Document Type:</strong> {receipt.documentType}
+              </div>
+            </div>
+            <div className="text-sm space-y-1">
+              <div>
+                <strong>Transaction ID:</strong> {receipt.transactionUUID}
+              </div>
+              <div>
+                <strong>Store/Label:</strong> {receipt.receipt.label}
+              </div>
+              <div>
+                <strong>Start Time:</strong> {receipt.timestampStart}
+              </div>
+              <div>
+                <strong>End Time:</strong> {receipt.timestampEnd}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Technical Details */}
+        <details className="space-y-2">
+          <summary className="text-sm font-medium cursor-pointer hover:text-blue-600">
+            Technical Details (Click to expand)
+          </summary>
+          <div className="p-3 bg-gray-50 rounded-lg border mt-2">
+            <div className="text-sm space-y-1">
+              <div>
+                <strong>Signature Algorithm:</strong>{" "}
+                {receipt.signatureAlgorithm}
+              </div>
+              <div>
+                <strong>Time Format:</strong> {receipt.timeFormat}
+              </div>
+              <div className="break-all">
+                <strong>Signature:</strong> {receipt.signature}
+              </div>
+              <div className="break-all">
+                <strong>Certificate Hash:</strong> {receipt.certificateHash}
+              </div>
+            </div>
+          </div>
+        </details>
+
+        <ExportPanel receipts={[receipt]} />
+
+        <div className="flex space-x-2">
+          <Button
+            onClick={() =>
+              navigator.clipboard.writeText(JSON.stringify(receipt, null, 2))
+            }
+            variant="outline"
+          >
+            Copy Receipt Data
+          </Button>
+          <Button onClick={onClear} variant="outline">
+            Scan Another
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
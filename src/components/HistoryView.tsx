@@ -0,0 +1,226 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import type {
+  HistoryFilter,
+  HistoryRecord,
+  HistoryRepository,
+} from "@/lib/history";
+import { describeError, pipelineLog } from "@/lib/telemetry";
+
+interface HistoryViewProps {
+  repository: HistoryRepository;
+  // Bumped by the scanner whenever it saves or updates a record
+  refreshKey: number;
+  onOpen: (record: HistoryRecord) => void;
+}
+
+const parseAmountInput = (value: string) =>
+  value.trim() === "" ? undefined : Number(value.replace(",", "."));
+
+export default function HistoryView({
+  repository,
+  refreshKey,
+  onOpen,
+}: HistoryViewProps) {
+  const [records, setRecords] = useState<HistoryRecord[]>([]);
+  const [query, setQuery] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("");
+  const [registerSerial, setRegisterSerial] = useState("");
+  const [reloadKey, setReloadKey] = useState(0);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    const filter: HistoryFilter = {
+      query,
+      dateFrom: dateFrom || undefined,
+      dateTo: dateTo || undefined,
+      minAmount: parseAmountInput(minAmount),
+      maxAmount: parseAmountInput(maxAmount),
+      paymentMethod: paymentMethod || undefined,
+      registerSerial: registerSerial || undefined,
+    };
+
+    repository
+      .list(filter)
+      .then((result) => {
+        if (!cancelled) {
+          setRecords(result);
+          setError("");
+        }
+      })
+      .catch((err) => {
+        pipelineLog.error("history", "Failed to load scan history", {
+          data: { error: describeError(err) },
+        });
+        if (!cancelled) {
+          setError("Could not load the scan history.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    repository,
+    refreshKey,
+    reloadKey,
+    query,
+    dateFrom,
+    dateTo,
+    minAmount,
+    maxAmount,
+    paymentMethod,
+    registerSerial,
+  ]);
+
+  const handleDelete = async (id: number) => {
+    await repository.delete(id);
+    setReloadKey((prev) => prev + 1);
+  };
+
+  const handleClearAll = async () => {
+    if (confirm("Delete the entire scan history?")) {
+      await repository.clear();
+      setReloadKey((prev) => prev + 1);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Scan History</CardTitle>
+        <CardDescription>
+          Previous scans, stored only in this browser
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Input
+          placeholder="Search QR text, label, register or AI result..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-xs">
+          <label className="space-y-1">
+            <span>From</span>
+            <Input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </label>
+          <label className="space-y-1">
+            <span>To</span>
+            <Input
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Payment</span>
+            <select
+              value={paymentMethod}
+              onChange={(e) => setPaymentMethod(e.target.value)}
+              className="w-full h-8 rounded-md border px-2 bg-transparent"
+            >
+              <option value="">Any</option>
+              <option value="Bar">Bar</option>
+              <option value="Unbar">Unbar</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span>Min €</span>
+            <Input
+              inputMode="decimal"
+              value={minAmount}
+              onChange={(e) => setMinAmount(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Max €</span>
+            <Input
+              inputMode="decimal"
+              value={maxAmount}
+              onChange={(e) => setMaxAmount(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Register serial</span>
+            <Input
+              value={registerSerial}
+              onChange={(e) => setRegisterSerial(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </label>
+        </div>
+
+        {error && <p className="text-red-800 text-sm">{error}</p>}
+
+        {records.length === 0 ? (
+          <p className="text-sm text-gray-600 text-center">No scans found.</p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {records.map((record) => (
+              <li key={record.id} className="flex items-center gap-3 p-2">
+                {record.thumbnail && (
+                  <img
+                    src={record.thumbnail}
+                    alt=""
+                    className="w-12 h-12 object-cover rounded border"
+                  />
+                )}
+                <div className="flex-1 min-w-0 text-xs">
+                  <div className="font-medium">
+                    {new Date(record.scannedAt).toLocaleString()}
+                    {record.receipt &&
+                      ` · €${record.receipt.receipt.totalAmount.toFixed(2)}`}
+                  </div>
+                  <div className="font-mono truncate text-gray-600">
+                    {record.rawText}
+                  </div>
+                </div>
+                <Button
+                  onClick={() => onOpen(record)}
+                  variant="outline"
+                  size="sm"
+                >
+                  Open
+                </Button>
+                <Button
+                  onClick={() => handleDelete(record.id)}
+                  variant="outline"
+                  size="sm"
+                >
+                  Delete
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {records.length > 0 && (
+          <Button onClick={handleClearAll} variant="outline" size="sm">
+            Clear History
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
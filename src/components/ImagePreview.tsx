@@ -0,0 +1,453 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { loadImage } from "@/lib/image";
+import type { Quad } from "@/lib/perspective";
+import type { Rect } from "@/lib/preprocess";
+import { locationCorners, type Point, type QRResult } from "@/lib/qr";
+import { orderQuad, type ManualRegion } from "@/lib/region";
+
+type Tool = "pan" | "crop" | "quad";
+
+const TOOL_LABELS: Record<Tool, string> = {
+  pan: "Move",
+  crop: "Crop",
+  quad: "Corners",
+};
+
+const TOOL_HINTS: Record<Tool, string> = {
+  pan: "Drag to move around, scroll or use the buttons to zoom.",
+  crop: "Drag a box around the code, then decode it.",
+  quad: "Click the code's four corners, drag them to adjust, then decode it.",
+};
+
+// Drawing resolution of the canvas; CSS scales it to the available width
+const CANVAS_WIDTH = 640;
+const MIN_CANVAS_HEIGHT = 160;
+const MAX_CANVAS_HEIGHT = 480;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+// How close, in canvas pixels, the pointer must be to grab a corner
+const HANDLE_RADIUS = 12;
+// Smaller crops are taken for an accidental click
+const MIN_CROP_SIZE = 8;
+
+// Zoom 1 fits the whole image; the pan offset is in canvas pixels
+interface View {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+const FIT_VIEW: View = { zoom: 1, panX: 0, panY: 0 };
+
+type Drag =
+  | { type: "pan"; start: Point; view: View }
+  | { type: "crop"; start: Point }
+  | { type: "corner"; index: number };
+
+function rectFromPoints(a: Point, b: Point): Rect {
+  return {
+    left: Math.round(Math.min(a.x, b.x)),
+    top: Math.round(Math.min(a.y, b.y)),
+    width: Math.round(Math.abs(a.x - b.x)),
+    height: Math.round(Math.abs(a.y - b.y)),
+  };
+}
+
+interface ImagePreviewProps {
+  src: string;
+  results: QRResult[];
+  // Pixel size the locations refer to; defaults to the image's natural size
+  sourceSize?: { width: number; height: number } | null;
+  // Enables the manual crop tools. Gets the region in the same coordinates as
+  // the locations and resolves to whether a code was found, which clears it
+  onDecodeRegion?: (region: ManualRegion) => Promise<boolean>;
+}
+
+// Shows the image with the detected codes outlined, with zoom and pan. For
+// codes the detection missed, a crop or the code's four corners can be marked
+// and decoded on their own
+export default function ImagePreview({
+  src,
+  results,
+  sourceSize,
+  onDecodeRegion,
+}: ImagePreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [view, setView] = useState<View>(FIT_VIEW);
+  const [tool, setTool] = useState<Tool>("pan");
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [cropRect, setCropRect] = useState<Rect | null>(null);
+  const [corners, setCorners] = useState<Point[]>([]);
+  const [isDecoding, setIsDecoding] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(src)
+      .then((loaded) => {
+        if (!cancelled) {
+          setImage(loaded);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setImage(null);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  const size =
+    sourceSize ??
+    (image ? { width: image.naturalWidth, height: image.naturalHeight } : null);
+  const canvasHeight = size
+    ? Math.min(
+        MAX_CANVAS_HEIGHT,
+        Math.max(
+          MIN_CANVAS_HEIGHT,
+          Math.round((CANVAS_WIDTH * size.height) / size.width)
+        )
+      )
+    : MIN_CANVAS_HEIGHT;
+  const fit = size
+    ? Math.min(CANVAS_WIDTH / size.width, canvasHeight / size.height)
+    : 1;
+
+  // Canvas position of the image's top left corner and its scale at a zoom
+  const layout = (at: View) => {
+    const scale = fit * at.zoom;
+    return {
+      scale,
+      originX: (CANVAS_WIDTH - (size?.width ?? 0) * scale) / 2 + at.panX,
+      originY: (canvasHeight - (size?.height ?? 0) * scale) / 2 + at.panY,
+    };
+  };
+  const { scale, originX, originY } = layout(view);
+
+  const toSource = (point: Point): Point => ({
+    x: (point.x - originX) / scale,
+    y: (point.y - originY) / scale,
+  });
+  const clampToImage = (point: Point): Point => ({
+    x: Math.max(0, Math.min(size?.width ?? 0, point.x)),
+    y: Math.max(0, Math.min(size?.height ?? 0, point.y)),
+  });
+
+  // Zooms while keeping the canvas point `anchor` over the same image point
+  const zoomAt = (factor: number, anchor: Point) => {
+    setView((current) => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(1, current.zoom * factor));
+      if (zoom === 1) {
+        return FIT_VIEW;
+      }
+      const before = layout(current);
+      const sourceX = (anchor.x - before.originX) / before.scale;
+      const sourceY = (anchor.y - before.originY) / before.scale;
+      const after = layout({ zoom, panX: 0, panY: 0 });
+      return {
+        zoom,
+        panX: anchor.x - sourceX * after.scale - after.originX,
+        panY: anchor.y - sourceY * after.scale - after.originY,
+      };
+    });
+  };
+
+  const toCanvas = (clientX: number, clientY: number): Point => {
+    const bounds = canvasRef.current?.getBoundingClientRect();
+    if (!bounds) {
+      return { x: 0, y: 0 };
+    }
+    return {
+      x: ((clientX - bounds.left) * CANVAS_WIDTH) / bounds.width,
+      y: ((clientY - bounds.top) * canvasHeight) / bounds.height,
+    };
+  };
+
+  // React's wheel listener is passive, so it couldn't stop the page scrolling
+  const zoomAtRef = useRef(zoomAt);
+  const toCanvasRef = useRef(toCanvas);
+  useEffect(() => {
+    zoomAtRef.current = zoomAt;
+    toCanvasRef.current = toCanvas;
+  });
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return;
+    }
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      zoomAtRef.current(
+        event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP,
+        toCanvasRef.current(event.clientX, event.clientY)
+      );
+    };
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) {
+      return;
+    }
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.fillStyle = "rgb(249, 250, 251)";
+    context.fillRect(0, 0, CANVAS_WIDTH, canvasHeight);
+    if (!image || !size) {
+      return;
+    }
+
+    context.setTransform(scale, 0, 0, scale, originX, originY);
+    context.drawImage(image, 0, 0, size.width, size.height);
+    const lineWidth = 2 / scale;
+
+    const tracePolygon = (points: Point[], close: boolean) => {
+      context.beginPath();
+      points.forEach((point, index) =>
+        index === 0
+          ? context.moveTo(point.x, point.y)
+          : context.lineTo(point.x, point.y)
+      );
+      if (close) {
+        context.closePath();
+      }
+    };
+
+    results.forEach((result, index) => {
+      const resultCorners = locationCorners(result.location);
+      if (resultCorners.length === 0) {
+        return;
+      }
+      tracePolygon(resultCorners, true);
+      context.fillStyle = "rgba(34, 197, 94, 0.15)";
+      context.fill();
+      context.strokeStyle = "rgb(34, 197, 94)";
+      context.lineWidth = lineWidth;
+      context.stroke();
+      if (results.length > 1) {
+        context.fillStyle = "rgb(21, 128, 61)";
+        context.font = `bold ${14 / scale}px sans-serif`;
+        context.fillText(
+          `#${index + 1}`,
+          resultCorners[0].x,
+          resultCorners[0].y - 4 / scale
+        );
+      }
+    });
+
+    context.strokeStyle = "rgb(59, 130, 246)";
+    context.fillStyle = "rgba(59, 130, 246, 0.1)";
+    context.lineWidth = lineWidth;
+    if (cropRect) {
+      context.setLineDash([6 / scale, 4 / scale]);
+      context.fillRect(
+        cropRect.left,
+        cropRect.top,
+        cropRect.width,
+        cropRect.height
+      );
+      context.strokeRect(
+        cropRect.left,
+        cropRect.top,
+        cropRect.width,
+        cropRect.height
+      );
+      context.setLineDash([]);
+    }
+    if (corners.length > 0) {
+      tracePolygon(corners, corners.length === 4);
+      if (corners.length === 4) {
+        context.fill();
+      }
+      context.stroke();
+      context.fillStyle = "rgb(59, 130, 246)";
+      for (const corner of corners) {
+        context.beginPath();
+        context.arc(corner.x, corner.y, 5 / scale, 0, 2 * Math.PI);
+        context.fill();
+      }
+    }
+  });
+
+  const clearSelection = () => {
+    setCropRect(null);
+    setCorners([]);
+  };
+
+  const selectTool = (selected: Tool) => {
+    setTool(selected);
+    clearSelection();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!size) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toCanvas(event.clientX, event.clientY);
+
+    if (tool === "pan") {
+      setDrag({ type: "pan", start: point, view });
+    } else if (tool === "crop") {
+      const start = clampToImage(toSource(point));
+      setDrag({ type: "crop", start });
+      setCropRect(null);
+    } else {
+      const grabbed = corners.findIndex(
+        (corner) =>
+          Math.hypot(
+            corner.x * scale + originX - point.x,
+            corner.y * scale + originY - point.y
+          ) <= HANDLE_RADIUS
+      );
+      if (grabbed >= 0) {
+        setDrag({ type: "corner", index: grabbed });
+      } else if (corners.length < 4) {
+        const added = [...corners, clampToImage(toSource(point))];
+        setCorners(added.length === 4 ? orderQuad(added as Quad) : added);
+      }
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drag) {
+      return;
+    }
+    const point = toCanvas(event.clientX, event.clientY);
+    if (drag.type === "pan") {
+      setView({
+        ...drag.view,
+        panX: drag.view.panX + point.x - drag.start.x,
+        panY: drag.view.panY + point.y - drag.start.y,
+      });
+    } else if (drag.type === "crop") {
+      setCropRect(rectFromPoints(drag.start, clampToImage(toSource(point))));
+    } else {
+      setCorners(
+        corners.map((corner, index) =>
+          index === drag.index ? clampToImage(toSource(point)) : corner
+        )
+      );
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (
+      drag?.type === "crop" &&
+      cropRect &&
+      Math.min(cropRect.width, cropRect.height) < MIN_CROP_SIZE
+    ) {
+      setCropRect(null);
+    }
+    // A dragged corner may have crossed another one
+    if (drag?.type === "corner" && corners.length === 4) {
+      setCorners(orderQuad(corners as Quad));
+    }
+    setDrag(null);
+  };
+
+  const region: ManualRegion | null =
+    tool === "crop" && cropRect && !drag
+      ? { type: "rect", rect: cropRect }
+      : tool === "quad" && corners.length === 4
+      ? { type: "quad", corners: corners as Quad }
+      : null;
+
+  const decodeSelection = async () => {
+    if (!region || !onDecodeRegion) {
+      return;
+    }
+    setIsDecoding(true);
+    try {
+      if (await onDecodeRegion(region)) {
+        clearSelection();
+      }
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  const center = { x: CANVAS_WIDTH / 2, y: canvasHeight / 2 };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={canvasHeight}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`w-full h-auto rounded-lg border touch-none ${
+          tool === "pan"
+            ? drag
+              ? "cursor-grabbing"
+              : "cursor-grab"
+            : "cursor-crosshair"
+        }`}
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        {onDecodeRegion &&
+          (Object.keys(TOOL_LABELS) as Tool[]).map((value) => (
+            <Button
+              key={value}
+              onClick={() => selectTool(value)}
+              variant={tool === value ? "default" : "outline"}
+              size="sm"
+            >
+              {TOOL_LABELS[value]}
+            </Button>
+          ))}
+        <Button
+          onClick={() => zoomAt(1 / ZOOM_STEP, center)}
+          variant="outline"
+          size="sm"
+          disabled={view.zoom <= 1}
+        >
+          −
+        </Button>
+        <span className="text-xs text-gray-600 w-12 text-center">
+          {Math.round(view.zoom * 100)}%
+        </span>
+        <Button
+          onClick={() => zoomAt(ZOOM_STEP, center)}
+          variant="outline"
+          size="sm"
+          disabled={view.zoom >= MAX_ZOOM}
+        >
+          +
+        </Button>
+        <Button onClick={() => setView(FIT_VIEW)} variant="outline" size="sm">
+          Fit
+        </Button>
+      </div>
+      {onDecodeRegion && tool !== "pan" && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            onClick={decodeSelection}
+            size="sm"
+            disabled={!region || isDecoding}
+          >
+            {isDecoding ? "Decoding..." : "Decode Region"}
+          </Button>
+          <Button
+            onClick={clearSelection}
+            variant="outline"
+            size="sm"
+            disabled={!cropRect && corners.length === 0}
+          >
+            Clear Selection
+          </Button>
+        </div>
+      )}
+      {onDecodeRegion && (
+        <p className="text-xs text-gray-500">{TOOL_HINTS[tool]}</p>
+      )}
+    </div>
+  );
+}
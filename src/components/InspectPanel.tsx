@@ -0,0 +1,88 @@
+import { hexDump } from "@/lib/encoding";
+import type { QRDetails, QRSegment } from "@/lib/qrdetails";
+
+const MODE_LABELS: Record<QRSegment["mode"], string> = {
+  numeric: "Numeric",
+  alphanumeric: "Alphanumeric",
+  byte: "Byte",
+  kanji: "Kanji",
+  eci: "ECI",
+};
+
+function segmentLength(segment: QRSegment): string {
+  if (segment.mode === "eci") {
+    return "—";
+  }
+  return segment.bytes
+    ? `${segment.bytes.length} bytes`
+    : `${segment.text.length} chars`;
+}
+
+interface InspectPanelProps {
+  details: QRDetails;
+}
+
+export default function InspectPanel({ details }: InspectPanelProps) {
+  const rows = hexDump(details.bytes);
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+        <div>
+          <strong>Version:</strong> {details.version} (
+          {details.version * 4 + 17}×{details.version * 4 + 17} modules)
+        </div>
+        <div>
+          <strong>Error Correction:</strong>{" "}
+          {details.errorCorrectionLevel ?? "Could not be read"}
+        </div>
+        <div>
+          <strong>Mask:</strong> {details.mask ?? "Could not be read"}
+        </div>
+        <div>
+          <strong>Payload:</strong> {details.bytes.length} bytes
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs border rounded-lg">
+          <thead className="bg-gray-50 text-left">
+            <tr>
+              <th className="p-2">Mode</th>
+              <th className="p-2">Encoding</th>
+              <th className="p-2">Length</th>
+              <th className="p-2">Text</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {details.segments.map((segment, index) => (
+              <tr key={index}>
+                <td className="p-2 font-medium">{MODE_LABELS[segment.mode]}</td>
+                <td className="p-2">
+                  {segment.mode === "eci"
+                    ? `Assignment ${segment.eciAssignment}`
+                    : segment.encoding ?? "—"}
+                </td>
+                <td className="p-2 whitespace-nowrap">
+                  {segmentLength(segment)}
+                </td>
+                <td className="p-2 font-mono break-all">
+                  {segment.text || "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="p-3 bg-gray-50 rounded-lg border overflow-x-auto">
+        <pre className="font-mono text-xs">
+          {/* 47 characters is a full row of 16 bytes */}
+          {rows
+            .map((row) => `${row.offset}  ${row.hex.padEnd(47)}  ${row.text}`)
+            .join("\n")}
+        </pre>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { isSafeToOpen, type URLWarning } from "@/lib/payload";
+
+interface LinkCardProps {
+  url: string;
+  warnings: URLWarning[];
+}
+
+export default function LinkCard({ url, warnings }: LinkCardProps) {
+  const safe = isSafeToOpen(warnings);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">🔗 Link</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="font-mono text-sm break-all">{url}</p>
+
+        {warnings.length > 0 && (
+          <ul
+            className={`p-3 rounded-lg border text-sm space-y-1 ${
+              safe
+                ? "bg-yellow-50 border-yellow-200 text-yellow-800"
+                : "bg-red-50 border-red-200 text-red-800"
+            }`}
+          >
+            {warnings.map((warning) => (
+              <li key={warning.code}>⚠️ {warning.message}</li>
+            ))}
+          </ul>
+        )}
+
+        {safe && (
+          <Button asChild variant="outline">
+            <a href={url} target="_blank" rel="noopener noreferrer">
+              {warnings.length > 0 ? "Open Anyway" : "Open Link"}
+            </a>
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
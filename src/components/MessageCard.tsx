@@ -0,0 +1,69 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { Payload } from "@/lib/payload";
+
+interface MessageCardProps {
+  payload: Extract<Payload, { type: "email" | "sms" | "phone" }>;
+}
+
+// Email, SMS and phone payloads, each with a link that hands them to the
+// matching app
+export default function MessageCard({ payload }: MessageCardProps) {
+  let title: string;
+  let href: string;
+  let action: string;
+  const details: [string, string | null][] = [];
+
+  if (payload.type === "email") {
+    title = "✉️ Email";
+    action = "Compose Email";
+    const params = new URLSearchParams();
+    if (payload.subject) {
+      params.set("subject", payload.subject);
+    }
+    if (payload.body) {
+      params.set("body", payload.body);
+    }
+    const query = params.toString().replace(/\+/g, "%20");
+    href = `mailto:${payload.to.join(",")}${query ? `?${query}` : ""}`;
+    details.push(
+      ["To", payload.to.join(", ") || null],
+      ["Subject", payload.subject],
+      ["Message", payload.body]
+    );
+  } else if (payload.type === "sms") {
+    title = "💬 Text Message";
+    action = "Send Message";
+    href = `sms:${payload.number}${
+      payload.body ? `?body=${encodeURIComponent(payload.body)}` : ""
+    }`;
+    details.push(["To", payload.number], ["Message", payload.body]);
+  } else {
+    title = "📞 Phone Number";
+    action = "Call";
+    href = `tel:${payload.number}`;
+    details.push(["Number", payload.number]);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+          {details
+            .filter(([, value]) => value)
+            .map(([label, value]) => (
+              <div key={label} className="whitespace-pre-line break-words">
+                <strong>{label}:</strong> {value}
+              </div>
+            ))}
+        </div>
+        <Button asChild variant="outline">
+          <a href={href}>{action}</a>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
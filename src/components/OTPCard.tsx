@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { maskSecret, type OTPAccount } from "@/lib/payload";
+
+interface OTPCardProps {
+  otp: OTPAccount;
+}
+
+// The secret is enough to generate valid login codes, so it stays masked
+// unless explicitly revealed
+export default function OTPCard({ otp }: OTPCardProps) {
+  const [showSecret, setShowSecret] = useState(false);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">🔐 Two-Factor Authentication</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          ⚠️ This code sets up one-time passwords. Anyone who sees the secret
+          can generate login codes for this account.
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+          {otp.issuer && (
+            <div>
+              <strong>Issuer:</strong> {otp.issuer}
+            </div>
+          )}
+          <div>
+            <strong>Account:</strong> {otp.account}
+          </div>
+          <div>
+            <strong>Type:</strong>{" "}
+            {otp.type === "totp"
+              ? `Time-based, every ${otp.period}s`
+              : `Counter-based, from ${otp.counter ?? 0}`}{" "}
+            · {otp.digits} digits · {otp.algorithm}
+          </div>
+          <div className="font-mono break-all">
+            <strong className="font-sans">Secret:</strong>{" "}
+            {showSecret ? otp.secret : maskSecret(otp.secret)}
+          </div>
+        </div>
+        <Button
+          onClick={() => setShowSecret((shown) => !shown)}
+          variant="outline"
+        >
+          {showSecret ? "Hide Secret" : "Show Secret"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
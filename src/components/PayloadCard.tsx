@@ -0,0 +1,43 @@
+import ContactCard from "@/components/ContactCard";
+import EventCard from "@/components/EventCard";
+import GeoCard from "@/components/GeoCard";
+import LinkCard from "@/components/LinkCard";
+import MessageCard from "@/components/MessageCard";
+import OTPCard from "@/components/OTPCard";
+import WifiCard from "@/components/WifiCard";
+import type { Payload } from "@/lib/payload";
+
+interface PayloadCardProps {
+  payload: Payload;
+}
+
+// Plain text has no card of its own; QRResultCard already shows it
+export default function PayloadCard({ payload }: PayloadCardProps) {
+  switch (payload.type) {
+    case "url":
+      return <LinkCard url={payload.url} warnings={payload.warnings} />;
+    case "contact":
+      return <ContactCard contact={payload.contact} vcard={payload.vcard} />;
+    case "wifi":
+      return <WifiCard network={payload.network} />;
+    case "email":
+    case "sms":
+    case "phone":
+      return <MessageCard payload={payload} />;
+    case "geo":
+      return (
+        <GeoCard
+          latitude={payload.latitude}
+          longitude={payload.longitude}
+          altitude={payload.altitude}
+          query={payload.query}
+        />
+      );
+    case "event":
+      return <EventCard event={payload.event} ics={payload.ics} />;
+    case "otp":
+      return <OTPCard otp={payload.otp} />;
+    case "text":
+      return null;
+  }
+}
@@ -0,0 +1,161 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  FINAL_CONSUMER_NIF,
+  PORTUGUESE_DOCUMENT_STATUSES,
+  PORTUGUESE_DOCUMENT_TYPES,
+  type PortugueseReceiptData,
+} from "@/lib/formats/portugal";
+
+interface PortugueseReceiptCardProps {
+  receipt: PortugueseReceiptData;
+  onClear: () => void;
+}
+
+const formatAmount = (amount: number | null) =>
+  amount === null ? "—" : `€${amount.toFixed(2)}`;
+
+export default function PortugueseReceiptCard({
+  receipt,
+  onClear,
+}: PortugueseReceiptCardProps) {
+  const documentType = PORTUGUESE_DOCUMENT_TYPES[receipt.documentType];
+  const status = PORTUGUESE_DOCUMENT_STATUSES[receipt.documentStatus];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          🇵🇹 Portuguese Invoice Data
+        </CardTitle>
+        <CardDescription>
+          {documentType ?? receipt.documentType} · ATCUD {receipt.atcud}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {receipt.documentStatus === "A" && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            ⚠️ This document has been cancelled.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Total Amount:</label>
+            <div className="p-3 bg-green-50 rounded-lg border border-green-200">
+              <p className="text-lg font-bold text-green-800">
+                {formatAmount(receipt.totalAmount)}
+              </p>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Total VAT:</label>
+            <div className="p-3 bg-blue-50 rounded-lg border border-blue-200">
+              <p className="text-lg font-medium text-blue-800">
+                {formatAmount(receipt.totalTax)}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+          <div>
+            <strong>Document:</strong> {receipt.documentId}
+          </div>
+          <div>
+            <strong>Date:</strong> {receipt.date}
+          </div>
+          <div>
+            <strong>Status:</strong> {status ?? receipt.documentStatus}
+          </div>
+          <div>
+            <strong>Issuer NIF:</strong> {receipt.issuerNif}
+          </div>
+          <div>
+            <strong>Buyer NIF:</strong>{" "}
+            {receipt.buyerNif === FINAL_CONSUMER_NIF
+              ? "Final consumer"
+              : `${receipt.buyerNif} (${receipt.buyerCountry})`}
+          </div>
+        </div>
+
+        {receipt.taxRegions.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs border rounded-lg">
+              <thead className="bg-gray-50 text-left">
+                <tr>
+                  <th className="p-2">Region</th>
+                  <th className="p-2 text-right">Exempt</th>
+                  <th className="p-2 text-right">Reduced</th>
+                  <th className="p-2 text-right">Intermediate</th>
+                  <th className="p-2 text-right">Normal</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {receipt.taxRegions.map((region) => (
+                  <tr key={region.region}>
+                    <td className="p-2">{region.region}</td>
+                    <td className="p-2 text-right">
+                      {formatAmount(region.exemptBase)}
+                    </td>
+                    <td className="p-2 text-right">
+                      {formatAmount(region.reducedBase)} +{" "}
+                      {formatAmount(region.reducedVat)}
+                    </td>
+                    <td className="p-2 text-right">
+                      {formatAmount(region.intermediateBase)} +{" "}
+                      {formatAmount(region.intermediateVat)}
+                    </td>
+                    <td className="p-2 text-right">
+                      {formatAmount(region.normalBase)} +{" "}
+                      {formatAmount(region.normalVat)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <details className="space-y-2">
+          <summary className="text-sm font-medium cursor-pointer hover:text-blue-600">
+            Technical Details (Click to expand)
+          </summary>
+          <div className="p-3 bg-gray-50 rounded-lg border mt-2 text-sm space-y-1">
+            <div>
+              <strong>Hash Excerpt:</strong> {receipt.hashExcerpt}
+            </div>
+            <div>
+              <strong>Software Certificate:</strong> {receipt.certificateNumber}
+            </div>
+            {receipt.otherInformation && (
+              <div className="break-all">
+                <strong>Other Information:</strong> {receipt.otherInformation}
+              </div>
+            )}
+          </div>
+        </details>
+
+        <div className="flex space-x-2">
+          <Button
+            onClick={() =>
+              navigator.clipboard.writeText(JSON.stringify(receipt, null, 2))
+            }
+            variant="outline"
+          >
+            Copy Invoice Data
+          </Button>
+          <Button onClick={onClear} variant="outline">
+            Scan Another
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
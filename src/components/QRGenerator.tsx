@@ -0,0 +1,306 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { downloadBlob, downloadFile } from "@/lib/export";
+import {
+  colorContrast,
+  createQRMatrix,
+  DEFAULT_GENERATOR_OPTIONS,
+  matrixToPixels,
+  matrixToSVG,
+  pixelsToPNG,
+  verifyQRPixels,
+  type ErrorCorrectionLevel,
+  type QRGeneratorOptions,
+} from "@/lib/generator";
+import { serializeReceipt, type GermanReceiptData } from "@/lib/receipt";
+
+type GeneratorMode = "text" | "receipt";
+
+// Module size for the read-back check; large enough for jsQR, and small
+// enough that version 40 codes at a big PNG scale stay quick to verify
+const VERIFY_SCALE = 4;
+
+const ERROR_CORRECTION_LABELS: Record<ErrorCorrectionLevel, string> = {
+  L: "Low (7%)",
+  M: "Medium (15%)",
+  Q: "Quartile (25%)",
+  H: "High (30%)",
+};
+
+interface QRGeneratorProps {
+  // The receipt currently shown in the scanner, offered for re-issuing
+  receipt: GermanReceiptData | null;
+}
+
+export default function QRGenerator({ receipt }: QRGeneratorProps) {
+  const [mode, setMode] = useState<GeneratorMode>("text");
+  const [textInput, setTextInput] = useState("");
+  const [receiptInput, setReceiptInput] = useState("");
+  const [options, setOptions] = useState<QRGeneratorOptions>(
+    DEFAULT_GENERATOR_OPTIONS
+  );
+
+  const generated = useMemo(() => {
+    const input = mode === "text" ? textInput : receiptInput;
+    if (!input.trim()) {
+      return null;
+    }
+    try {
+      const text =
+        mode === "text" ? input : serializeReceipt(JSON.parse(input));
+      const matrix = createQRMatrix(text, options);
+      const pixels = matrixToPixels(matrix, {
+        ...options,
+        scale: VERIFY_SCALE,
+      });
+      return {
+        text,
+        matrix,
+        svg: matrixToSVG(matrix, options),
+        verified: verifyQRPixels(pixels, text),
+        error: "",
+      };
+    } catch (error) {
+      return {
+        error: error instanceof Error ? error.message : "Could not generate",
+      };
+    }
+  }, [mode, textInput, receiptInput, options]);
+
+  const contrast = useMemo(() => {
+    try {
+      return colorContrast(options.dark, options.light);
+    } catch {
+      return null;
+    }
+  }, [options.dark, options.light]);
+
+  const updateOptions = (changes: Partial<QRGeneratorOptions>) => {
+    setOptions((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handleDownloadPNG = async () => {
+    if (!generated?.matrix) {
+      return;
+    }
+    const pixels = matrixToPixels(generated.matrix, options);
+    downloadBlob(await pixelsToPNG(pixels), "qr-code.png");
+  };
+
+  const handleDownloadSVG = () => {
+    if (generated?.svg) {
+      downloadFile(generated.svg, "qr-code.svg", "image/svg+xml");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          🖨️ QR Code Generator
+        </CardTitle>
+        <CardDescription>
+          Encode text or a German receipt into a QR code for testing or
+          re-issuing lost receipts
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex space-x-2">
+          <Button
+            onClick={() => setMode("text")}
+            variant={mode === "text" ? "default" : "outline"}
+            size="sm"
+          >
+            Text
+          </Button>
+          <Button
+            onClick={() => setMode("receipt")}
+            variant={mode === "receipt" ? "default" : "outline"}
+            size="sm"
+          >
+            German Receipt
+          </Button>
+        </div>
+
+        {mode === "text" ? (
+          <textarea
+            value={textInput}
+            onChange={(e) => setTextInput(e.target.value)}
+            placeholder="Text or URL to encode"
+            rows={3}
+            className="w-full rounded-md border px-3 py-2 text-sm bg-transparent"
+          />
+        ) : (
+          <div className="space-y-2">
+            <textarea
+              value={receiptInput}
+              onChange={(e) => setReceiptInput(e.target.value)}
+              placeholder="Paste receipt data copied with Copy Receipt Data"
+              rows={6}
+              className="w-full rounded-md border px-3 py-2 font-mono text-xs bg-transparent"
+            />
+            {receipt && (
+              <Button
+                onClick={() =>
+                  setReceiptInput(JSON.stringify(receipt, null, 2))
+                }
+                variant="outline"
+                size="sm"
+              >
+                Use Scanned Receipt
+              </Button>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-xs">
+          <label className="space-y-1">
+            <span>Error Correction</span>
+            <select
+              value={options.errorCorrection}
+              onChange={(e) =>
+                updateOptions({
+                  errorCorrection: e.target.value as ErrorCorrectionLevel,
+                })
+              }
+              className="h-8 w-full rounded border px-1 bg-transparent"
+            >
+              {(
+                Object.keys(ERROR_CORRECTION_LABELS) as ErrorCorrectionLevel[]
+              ).map((level) => (
+                <option key={level} value={level}>
+                  {ERROR_CORRECTION_LABELS[level]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span>Version</span>
+            <select
+              value={options.version ?? ""}
+              onChange={(e) =>
+                updateOptions({
+                  version: e.target.value ? Number(e.target.value) : null,
+                })
+              }
+              className="h-8 w-full rounded border px-1 bg-transparent"
+            >
+              <option value="">Auto</option>
+              {Array.from({ length: 40 }, (_, i) => i + 1).map((version) => (
+                <option key={version} value={version}>
+                  {version}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span>Margin (modules)</span>
+            <Input
+              type="number"
+              min={0}
+              max={16}
+              value={options.margin}
+              onChange={(e) =>
+                updateOptions({
+                  margin: Math.max(0, Math.min(16, Number(e.target.value))),
+                })
+              }
+              className="h-8 text-xs"
+            />
+          </label>
+          <label className="space-y-1">
+            <span>PNG Scale (px/module)</span>
+            <Input
+              type="number"
+              min={1}
+              max={32}
+              value={options.scale}
+              onChange={(e) =>
+                updateOptions({
+                  scale: Math.max(1, Math.min(32, Number(e.target.value))),
+                })
+              }
+              className="h-8 text-xs"
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Foreground</span>
+            <input
+              type="color"
+              value={options.dark}
+              onChange={(e) => updateOptions({ dark: e.target.value })}
+              className="h-8 w-full rounded border"
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Background</span>
+            <input
+              type="color"
+              value={options.light}
+              onChange={(e) => updateOptions({ light: e.target.value })}
+              className="h-8 w-full rounded border"
+            />
+          </label>
+        </div>
+
+        {contrast !== null && contrast < 3 && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            ⚠️ Low contrast ({contrast.toFixed(1)}:1). Many scanners need a dark
+            foreground on a light background.
+          </div>
+        )}
+
+        {generated?.error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 whitespace-pre-line">
+            ❌ {generated.error}
+          </div>
+        )}
+
+        {generated?.matrix && (
+          <div className="space-y-3">
+            <div className="flex justify-center">
+              <img
+                src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+                  generated.svg
+                )}`}
+                alt="Generated QR code"
+                className="w-64 h-64 border rounded-lg"
+              />
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+              <div>
+                <strong>Version:</strong> {generated.matrix.version} (
+                {generated.matrix.size}×{generated.matrix.size} modules)
+              </div>
+              <div>
+                <strong>Characters:</strong> {generated.text.length}
+              </div>
+              <div>
+                <strong>Round Trip:</strong>{" "}
+                {generated.verified
+                  ? "✅ Reads back correctly"
+                  : "⚠️ Could not be read back by the scanner"}
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <Button onClick={handleDownloadPNG} variant="outline">
+                Download PNG
+              </Button>
+              <Button onClick={handleDownloadSVG} variant="outline">
+                Download SVG
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
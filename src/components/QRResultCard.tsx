@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import InspectPanel from "@/components/InspectPanel";
+import { BARCODE_FORMAT_LABELS, type BarcodeResult } from "@/lib/barcode";
+import { describeError, pipelineLog } from "@/lib/telemetry";
+
+interface QRResultCardProps {
+  result: BarcodeResult;
+  // Distinguishes the cards when one image holds several codes, e.g. "#2"
+  label?: string;
+  // Found by cropping to where the vision model pointed, not by the decoder
+  recoveredViaAICrop?: boolean;
+  onClear: () => void;
+}
+
+export default function QRResultCard({
+  result,
+  label,
+  recoveredViaAICrop = false,
+  onClear,
+}: QRResultCardProps) {
+  const [isInspecting, setIsInspecting] = useState(false);
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">(
+    "idle"
+  );
+
+  const copyToClipboard = async () => {
+    try {
+      await navigator.clipboard.writeText(result.data);
+      pipelineLog.debug("export", "Code content copied to the clipboard");
+      setCopyState("copied");
+    } catch (err) {
+      // Browsers refuse without a secure context or clipboard permission
+      pipelineLog.error("export", "Copying to the clipboard failed", {
+        data: { error: describeError(err) },
+      });
+      setCopyState("failed");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">
+          {BARCODE_FORMAT_LABELS[result.format]} Data Extracted
+          {label && <span className="ml-2 text-sm text-gray-500">{label}</span>}
+        </CardTitle>
+        {recoveredViaAICrop && (
+          <span className="w-fit px-2 py-0.5 rounded border text-xs bg-purple-50 border-purple-200 text-purple-800">
+            🤖 Recovered via AI crop
+          </span>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Content:</label>
+          <div className="p-3 bg-gray-50 rounded-lg border">
+            <p className="font-mono text-sm break-all">{result.data}</p>
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          <Button onClick={copyToClipboard} variant="outline">
+            {copyState === "copied"
+              ? "✅ Copied"
+              : copyState === "failed"
+              ? "❌ Copy failed"
+              : "Copy to Clipboard"}
+          </Button>
+          {result.details && (
+            <Button
+              onClick={() => setIsInspecting((prev) => !prev)}
+              variant="outline"
+            >
+              {isInspecting ? "Hide Details" : "Inspect"}
+            </Button>
+          )}
+          <Button onClick={onClear} variant="outline">
+            Scan Another
+          </Button>
+        </div>
+
+        {isInspecting && result.details && (
+          <InspectPanel details={result.details} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
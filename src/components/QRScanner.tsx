@@ -1,6 +1,4 @@
-import { useState, useRef } from "react";
-import jsQR from "jsqr";
-import OpenAI from "openai";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -10,441 +8,605 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-
-interface QRResult {
-  data: string;
-  location?: {
-    topLeftCorner: { x: number; y: number };
-    topRightCorner: { x: number; y: number };
-    bottomLeftCorner: { x: number; y: number };
-    bottomRightCorner: { x: number; y: number };
-  };
-}
-
-interface GermanReceiptData {
-  version: string;
-  transactionUUID: string;
-  documentType: string;
-  receipt: {
-    label: string;
-    vatBreakdown: {
-      total: number;
-      vat0: number;
-      vat7: number;
-      vat19: number;
-      other: number;
-    };
-    totalAmount: number;
-    paymentMethod: string;
-  };
-  receiptCounter: number;
-  registerID: string;
-  timestampStart: string;
-  timestampEnd: string;
-  signatureAlgorithm: string;
-  timeFormat: string;
-  signature: string;
-  certificateHash: string;
+import AIReceiptCard from "@/components/AIReceiptCard";
+import AISettingsPanel from "@/components/AISettingsPanel";
+import BatchScanner from "@/components/BatchScanner";
+import CameraScanner from "@/components/CameraScanner";
+import DebugPanel from "@/components/DebugPanel";
+import HistoryView from "@/components/HistoryView";
+import ImagePreview from "@/components/ImagePreview";
+import PayloadCard from "@/components/PayloadCard";
+import QRGenerator from "@/components/QRGenerator";
+import QRResultCard from "@/components/QRResultCard";
+import ReceiptFormatCard from "@/components/ReceiptFormatCard";
+import ReconciliationCard from "@/components/ReconciliationCard";
+import {
+  aiSettingsError,
+  createVisionProvider,
+  loadAISettings,
+  saveAISettings,
+  type AISettings,
+} from "@/lib/ai";
+import type { BarcodeResult } from "@/lib/barcode";
+import { createQRDecoder, DecodeAbortedError } from "@/lib/decoder";
+import { isImageFile } from "@/lib/files";
+import {
+  ReceiptExtractionError,
+  type ExtractedReceipt,
+} from "@/lib/extraction";
+import {
+  createIndexedDBHistoryRepository,
+  type HistoryRecord,
+} from "@/lib/history";
+import {
+  createThumbnail,
+  fileToDataURL,
+  fileToImageData,
+  imageToImageData,
+  loadImage,
+} from "@/lib/image";
+import { browserConnectivity, queueWhileOffline } from "@/lib/offline";
+import { classifyPayload } from "@/lib/payload";
+import { isPdfFile, MAX_PDF_PAGES, renderPdfPages } from "@/lib/pdf";
+import { mapResult } from "@/lib/preprocess";
+import { isShareTargetLaunch, takeSharedImages } from "@/lib/pwa";
+import type { QRResult } from "@/lib/qr";
+import type { GermanReceiptData } from "@/lib/receipt";
+import { decodeRegion, scaleRegion, type ManualRegion } from "@/lib/region";
+import {
+  analyzeReceiptImage,
+  parseScanResults,
+  receiptAnalysis,
+  scanImage,
+  scanPages,
+  type ReceiptAnalysis,
+  type ScanResult,
+} from "@/lib/scan";
+import { describeError, elapsedSince, pipelineLog } from "@/lib/telemetry";
+
+function resultLabel(
+  qr: BarcodeResult,
+  index: number,
+  count: number
+): string | undefined {
+  const parts = [
+    count > 1 ? `#${index + 1}` : "",
+    qr.page ? `Page ${qr.page}` : "",
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : undefined;
 }
 
-// German Receipt QR Code Parser
-function parseReceiptString(receiptString: string): GermanReceiptData | null {
-  try {
-    const parts = receiptString.split(";");
-
-    // Basic validation - German receipts should have at least 12 parts
-    if (parts.length < 12) {
-      return null;
-    }
-
-    const [label, vatString, paymentString] = parts[3].split("^");
-    if (!vatString || !paymentString) {
-      return null;
-    }
-
-    const vatComponents = vatString.split("_").map(Number);
-    if (vatComponents.length < 5) {
-      return null;
-    }
-
-    // Fix: Don't reverse, payment string format is "amount:method"
-    const [_, paymentMethod] = paymentString.split(":");
-    // Use the VAT total as the authoritative total amount
-    const totalAmount = vatComponents[0];
-
-    return {
-      version: parts[0],
-      transactionUUID: parts[1],
-      documentType: parts[2],
-      receipt: {
-        label,
-        vatBreakdown: {
-          total: vatComponents[0],
-          vat0: vatComponents[1],
-          vat7: vatComponents[2],
-          vat19: vatComponents[3],
-          other: vatComponents[4],
-        },
-        totalAmount,
-        paymentMethod,
-      },
-      receiptCounter: parseInt(parts[4], 10),
-      registerID: parts[5],
-      timestampStart: parts[6],
-      timestampEnd: parts[7],
-      signatureAlgorithm: parts[8],
-      timeFormat: parts[9],
-      signature: parts[10],
-      certificateHash: parts[11],
-    };
-  } catch (error) {
-    console.error("Error parsing German receipt:", error);
-    return null;
-  }
+// The AI reads the whole image, so it is checked against the first receipt
+function firstReceipt(scanResults: ScanResult[]): GermanReceiptData | null {
+  return scanResults.find((scanResult) => scanResult.receipt)?.receipt ?? null;
 }
 
 export default function QRScanner() {
-  const [qrResult, setQrResult] = useState<QRResult | null>(null);
-  const [openAIResult, setOpenAIResult] = useState<string | null>(null);
-  const [germanReceipt, setGermanReceipt] = useState<GermanReceiptData | null>(
-    null
-  );
+  const [scanResults, setScanResults] = useState<ScanResult[]>([]);
+  const [aiAnalysis, setAIAnalysis] = useState<ReceiptAnalysis | null>(null);
+  // AI status or error text shown in the AI card
+  const [aiMessage, setAIMessage] = useState<string | null>(null);
   const [error, setError] = useState<string>("");
   const [isScanning, setIsScanning] = useState(false);
   const [isAnalyzingWithAI, setIsAnalyzingWithAI] = useState(false);
   const [uploadedImage, setUploadedImage] = useState<string>("");
-  const [debugInfo, setDebugInfo] = useState<string>("");
-  const [openAIApiKey, setOpenAIApiKey] = useState<string>(() => {
-    // Load API key from localStorage if available
-    return localStorage.getItem("openai_api_key") || "";
-  });
-  const [showApiKeyField, setShowApiKeyField] = useState<boolean>(
-    !openAIApiKey
+  // Size of the scanned image, which code locations refer to
+  const [imageSize, setImageSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+  // PDF page shown in the preview; undefined for images
+  const [previewPage, setPreviewPage] = useState<number | undefined>();
+  const [aiSettings, setAISettings] = useState<AISettings>(loadAISettings);
+  // AI requests waiting for the device to come back online
+  const [queuedAICalls, setQueuedAICalls] = useState(0);
+  const [historyRepository] = useState(() =>
+    createIndexedDBHistoryRepository()
   );
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [decoder] = useState(() => createQRDecoder());
+  const decodeAbortRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Bumped for every new scan, so a late AI answer doesn't overwrite a newer one
+  const scanIdRef = useRef(0);
 
-  // Function to get OpenAI client with current API key
-  const getOpenAIClient = () => {
-    if (!openAIApiKey) return null;
-    return new OpenAI({
-      apiKey: openAIApiKey,
-      dangerouslyAllowBrowser: true,
-    });
-  };
+  // Stops the decode worker on unmount; it restarts on the next decode
+  useEffect(() => () => decoder.dispose(), [decoder]);
 
-  const handleApiKeyChange = (value: string) => {
-    setOpenAIApiKey(value);
-    // Save to localStorage
-    if (value) {
-      localStorage.setItem("openai_api_key", value);
-    } else {
-      localStorage.removeItem("openai_api_key");
+  // Uploads and PDF pages are previewed through object URLs, which keep the
+  // image in memory until revoked: once it is replaced, cleared or unmounted
+  useEffect(() => {
+    if (!uploadedImage.startsWith("blob:")) {
+      return;
     }
-  };
-
-  const toggleApiKeyField = () => {
-    setShowApiKeyField(!showApiKeyField);
-  };
-
-  const validateApiKey = (key: string): boolean => {
-    // Basic OpenAI API key validation (starts with sk- and has reasonable length)
-    return key.startsWith("sk-") && key.length > 20;
-  };
+    return () => URL.revokeObjectURL(uploadedImage);
+  }, [uploadedImage]);
+
+  const tseReceipt = firstReceipt(scanResults);
+  const aiReceipt = aiAnalysis?.extracted ?? null;
+
+  // Null while the settings are incomplete, which disables AI analysis
+  const aiProvider = useMemo(
+    () =>
+      aiSettingsError(aiSettings) === null
+        ? queueWhileOffline(
+            createVisionProvider(aiSettings),
+            browserConnectivity,
+            setQueuedAICalls
+          )
+        : null,
+    [aiSettings]
+  );
 
-  const convertFileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        if (typeof reader.result === "string") {
-          resolve(reader.result);
-        } else {
-          reject(new Error("Failed to convert file to base64"));
-        }
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-  };
+  useEffect(() => {
+    saveAISettings(aiSettings);
+  }, [aiSettings]);
+
+  // Now extract the full receipt contents with the configured vision provider
+  // and check them against the scanned receipt
+  const runAIAnalysis = async (
+    base64Image: string,
+    receipt: GermanReceiptData | null
+  ): Promise<ExtractedReceipt | null> => {
+    if (!aiProvider) {
+      pipelineLog.debug(
+        "ai",
+        "AI provider not configured, skipping AI analysis"
+      );
+      setAIMessage(aiSettingsError(aiSettings));
+      return null;
+    }
 
-  const extractSerialNumberWithAI = async (
-    base64Image: string
-  ): Promise<string> => {
+    const scanId = scanIdRef.current;
+    const isCurrentScan = () => scanId === scanIdRef.current;
+    // Offline requests wait in the background, so scanning stays available
+    const queued = !browserConnectivity.isOnline();
+    if (queued) {
+      setAIMessage(
+        "📴 You're offline. AI analysis will run once you're back online."
+      );
+    } else {
+      setIsAnalyzingWithAI(true);
+      setAIMessage(null);
+    }
+    const start = performance.now();
     try {
-      console.log("🤖 DEBUG: Starting OpenAI Vision analysis...");
-      setDebugInfo("🤖 Analyzing image with AI for serial number...");
-
-      const openai = getOpenAIClient();
-      if (!openai) {
-        throw new Error("OpenAI client not available. Please check API key.");
+      pipelineLog.info("ai", `Starting ${aiProvider.id} receipt extraction`);
+      const analysis = await analyzeReceiptImage(
+        aiProvider,
+        base64Image,
+        receipt
+      );
+      if (isCurrentScan()) {
+        setAIAnalysis(analysis);
+        setAIMessage(null);
       }
-
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: `What you see it's a german receipt. Please extract the serial number from the receipt.
-                
-                Respond with just the serial number, nothing else.`,
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: base64Image,
-                  detail: "high",
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 500,
-        temperature: 0.1,
+      return analysis.extracted;
+    } catch (aiError) {
+      pipelineLog.error("ai", "AI analysis failed", {
+        durationMs: elapsedSince(start),
+        data: { error: describeError(aiError) },
       });
-
-      const content = response.choices[0]?.message?.content;
-      console.log("🤖 DEBUG: OpenAI response:", content);
-
-      if (content) {
-        console.log("🤖 DEBUG: OpenAI response:", content);
-        return content.trim();
+      if (!isCurrentScan()) {
+        return null;
       }
+      setAIMessage(
+        aiError instanceof ReceiptExtractionError
+          ? "The AI response could not be read as a receipt. Try again or use a different model."
+          : `AI analysis failed: ${
+              aiError instanceof Error ? aiError.message : "Unknown error"
+            }. Check AI settings and connection.`
+      );
+      return null;
+    } finally {
+      if (!queued) {
+        setIsAnalyzingWithAI(false);
+      }
+    }
+  };
 
-      return "No response from OpenAI";
-    } catch (error) {
-      console.error("🤖 DEBUG: OpenAI Vision error:", error);
-      return `Error: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`;
+  // One history record per decoded code. History failures are logged but
+  // never interrupt scanning
+  const recordScans = async (
+    scanned: ScanResult[],
+    image: HTMLImageElement
+  ): Promise<number[]> => {
+    const thumbnail = createThumbnail(image);
+    const historyIds: number[] = [];
+    for (const { qr, receipt, recoveredViaAICrop } of scanned) {
+      try {
+        const record = await historyRepository.add({
+          scannedAt: new Date().toISOString(),
+          rawText: qr.data,
+          format: qr.format,
+          location: qr.location,
+          page: qr.page,
+          recoveredViaAICrop,
+          imageSize: { width: image.width, height: image.height },
+          receipt,
+          aiResult: null,
+          thumbnail,
+        });
+        pipelineLog.debug("history", `Scan saved to history as #${record.id}`);
+        historyIds.push(record.id);
+      } catch (err) {
+        pipelineLog.error("history", "Failed to save scan to history", {
+          data: { error: describeError(err) },
+        });
+      }
     }
+    setHistoryRefreshKey((prev) => prev + 1);
+    return historyIds;
   };
 
-  const handleFileUpload = async (
-    event: React.ChangeEvent<HTMLInputElement>
+  const recordAIResult = async (
+    historyIds: number[],
+    aiReceipt: ExtractedReceipt | null
   ) => {
-    const file = event.target.files?.[0];
-    if (!file) {
-      console.log("🔍 DEBUG: No file selected");
+    if (aiReceipt === null) {
       return;
     }
+    try {
+      for (const historyId of historyIds) {
+        await historyRepository.update(historyId, {
+          aiResult: aiReceipt.receiptNumber,
+          aiReceipt,
+        });
+      }
+      setHistoryRefreshKey((prev) => prev + 1);
+    } catch (err) {
+      pipelineLog.error("history", "Failed to save AI result to history", {
+        data: { error: describeError(err) },
+      });
+    }
+  };
+
+  const openFromHistory = (record: HistoryRecord) => {
+    scanIdRef.current++;
+    // Only German receipts are stored parsed; other formats are parsed again
+    const [reopened] = parseScanResults([
+      {
+        data: record.rawText,
+        format: record.format ?? "qr",
+        location: record.location,
+        page: record.page,
+      },
+    ]);
+    setScanResults([
+      {
+        ...reopened,
+        receipt: record.receipt,
+        recoveredViaAICrop: record.recoveredViaAICrop,
+      },
+    ]);
+    setAIAnalysis(
+      record.aiReceipt
+        ? receiptAnalysis(record.aiReceipt, record.receipt)
+        : null
+    );
+    // Scans from before structured extraction only have the serial number
+    setAIMessage(
+      !record.aiReceipt && record.aiResult
+        ? `Receipt number: ${record.aiResult}`
+        : null
+    );
+    setUploadedImage(record.thumbnail);
+    setImageSize(record.imageSize ?? null);
+    setPreviewPage(record.page);
+    setError("");
+    pipelineLog.info(
+      "history",
+      `Opened scan from ${new Date(record.scannedAt).toLocaleString()}`
+    );
+  };
+
+  const handleCameraDetected = async (
+    result: QRResult,
+    frameDataUrl: string
+  ) => {
+    scanIdRef.current++;
+    setError("");
+    setAIAnalysis(null);
+    setAIMessage(null);
+    setUploadedImage(frameDataUrl);
+    setImageSize(null);
+    setPreviewPage(undefined);
+    const scanned = parseScanResults([{ ...result, format: "qr" }]);
+    setScanResults(scanned);
+    const historyIds = await recordScans(
+      scanned,
+      await loadImage(frameDataUrl)
+    );
+
+    // The captured frame is already a data URL, so it goes to the AI as-is
+    await recordAIResult(
+      historyIds,
+      await runAIAnalysis(frameDataUrl, firstReceipt(scanned))
+    );
+  };
 
-    console.log("🔍 DEBUG: File selected:", {
-      name: file.name,
-      type: file.type,
-      size: file.size,
+  // Shared by the file picker and images shared from other apps
+  const scanFile = async (file: File) => {
+    pipelineLog.info("file", `File selected: ${file.name}`, {
+      data: { type: file.type, size: file.size },
     });
 
     // Validate file type
-    if (!file.type.startsWith("image/")) {
-      console.log("🔍 DEBUG: Invalid file type:", file.type);
-      setError("Please select a valid image file");
+    const isPdf = isPdfFile(file);
+    if (!isImageFile(file) && !isPdf) {
+      pipelineLog.warn("file", `Invalid file type: ${file.type}`);
+      setError("Please select a valid image or PDF file");
       return;
     }
 
+    scanIdRef.current++;
     setIsScanning(true);
     setError("");
-    setQrResult(null);
-    setOpenAIResult(null);
-    setGermanReceipt(null);
-    setDebugInfo("Starting file processing...");
+    setScanResults([]);
+    setAIAnalysis(null);
+    setAIMessage(null);
+    setImageSize(null);
+    setPreviewPage(undefined);
+
+    // A new upload supersedes whatever is still being decoded
+    decodeAbortRef.current?.abort();
+    const abortController = new AbortController();
+    decodeAbortRef.current = abortController;
 
     try {
+      if (isPdf) {
+        await scanPdf(file, abortController.signal);
+        return;
+      }
+
       // Create a preview URL for the uploaded image
       const imageUrl = URL.createObjectURL(file);
-      console.log("🔍 DEBUG: Image URL created:", imageUrl);
       setUploadedImage(imageUrl);
 
-      // Convert image to base64 for OpenAI Vision API
-      const base64Image = await convertFileToBase64(file);
-      console.log(
-        "🔍 DEBUG: Image converted to base64, length:",
-        base64Image.length
+      // Convert image to base64 for the AI vision provider
+      const base64Image = await fileToDataURL(file);
+
+      // Decoding, including the preprocessing retries, runs in a Web Worker
+      const scan = await scanImage(file, base64Image, {
+        decode: (source, signal) => decoder.decode(source, { signal }),
+        toPixels: (source) =>
+          source instanceof Blob
+            ? fileToImageData(source)
+            : Promise.resolve(source),
+        // The AI call would only queue while offline, holding up the scan
+        provider: browserConnectivity.isOnline() ? aiProvider : null,
+        signal: abortController.signal,
+      });
+      const { width, height } = scan;
+
+      let historyIds: number[] = [];
+      if (scan.scanResults.length > 0) {
+        setImageSize({ width, height });
+        setScanResults(scan.scanResults);
+        historyIds = await recordScans(
+          scan.scanResults,
+          await loadImage(imageUrl)
+        );
+      } else {
+        setError(
+          "No code found in the image. Please try with a clearer image."
+        );
+      }
+
+      setIsScanning(false);
+
+      await recordAIResult(
+        historyIds,
+        await runAIAnalysis(base64Image, firstReceipt(scan.scanResults))
       );
+    } catch (err) {
+      if (err instanceof DecodeAbortedError && err.reason === "cancelled") {
+        pipelineLog.debug("decode", "Scan cancelled by a newer upload");
+        return;
+      }
+      pipelineLog.error("decode", "Scanning the file failed", {
+        data: { error: describeError(err) },
+      });
+      setError(
+        err instanceof DecodeAbortedError
+          ? "Scanning took too long. Please try with a smaller image."
+          : "An error occurred while processing the image."
+      );
+      setIsScanning(false);
+    }
+  };
 
-      // Convert image to ImageData for jsQR
-      const image = new Image();
-
-      image.onload = async () => {
-        const imageInfo = {
-          width: image.width,
-          height: image.height,
-          naturalWidth: image.naturalWidth,
-          naturalHeight: image.naturalHeight,
-        };
-        console.log("🔍 DEBUG: Image loaded successfully:", imageInfo);
-        setDebugInfo(`Image loaded: ${imageInfo.width}x${imageInfo.height}px`);
-
-        const canvas = document.createElement("canvas");
-        const context = canvas.getContext("2d");
-
-        if (!context) {
-          console.error("🔍 DEBUG: Failed to get canvas context");
-          setError("Could not create canvas context for image processing");
-          setDebugInfo("❌ Failed to create canvas context");
-          setIsScanning(false);
-          return;
-        }
+  // Every page is scanned; the preview, thumbnail and AI analysis use the
+  // first page with a code on it
+  const scanPdf = async (file: File, signal: AbortSignal) => {
+    const start = performance.now();
+    const { results, scanResults, shownPage, pageCount } = await scanPages(
+      renderPdfPages(file),
+      (source, signal) => decoder.decode(source, { signal }),
+      {
+        signal,
+        onPage: (page) =>
+          pipelineLog.debug(
+            "pdf",
+            `Scanning page ${page.pageNumber} of ${Math.min(
+              page.pageCount,
+              MAX_PDF_PAGES
+            )}`
+          ),
+      }
+    );
 
-        canvas.width = image.width;
-        canvas.height = image.height;
-        console.log("🔍 DEBUG: Canvas created:", {
-          width: canvas.width,
-          height: canvas.height,
-        });
-        setDebugInfo(`Canvas created: ${canvas.width}x${canvas.height}px`);
-
-        context.drawImage(image, 0, 0);
-        console.log("🔍 DEBUG: Image drawn to canvas");
-        setDebugInfo("Image drawn to canvas, extracting pixel data...");
-
-        const imageData = context.getImageData(0, 0, image.width, image.height);
-        console.log("🔍 DEBUG: ImageData extracted:", {
-          width: imageData.width,
-          height: imageData.height,
-          dataLength: imageData.data.length,
-          firstPixels: Array.from(imageData.data.slice(0, 12)), // First 3 pixels (RGBA)
-        });
-        setDebugInfo(`Pixel data extracted: ${imageData.data.length} bytes`);
+    if (!shownPage) {
+      setError("The PDF has no pages.");
+      setIsScanning(false);
+      return;
+    }
 
-        // Scan the image for QR codes using jsQR
-        console.log("🔍 DEBUG: Starting jsQR scan...");
-        setDebugInfo("🔍 Scanning for QR code...");
-        const startTime = performance.now();
+    const imageUrl = URL.createObjectURL(shownPage.image);
+    setUploadedImage(imageUrl);
+    setImageSize({ width: shownPage.width, height: shownPage.height });
+    setPreviewPage(shownPage.pageNumber);
+    const scannedPages =
+      pageCount > MAX_PDF_PAGES
+        ? `the first ${MAX_PDF_PAGES} of ${pageCount} pages`
+        : `${pageCount} ${pageCount === 1 ? "page" : "pages"}`;
+
+    let historyIds: number[] = [];
+    pipelineLog.info(
+      "pdf",
+      `Scanned ${scannedPages}, ${results.length} ${
+        results.length === 1 ? "code" : "codes"
+      } found`,
+      { durationMs: elapsedSince(start) }
+    );
+    if (results.length > 0) {
+      setScanResults(scanResults);
+      historyIds = await recordScans(scanResults, await loadImage(imageUrl));
+    } else {
+      setError("No code found in the PDF.");
+    }
 
-        const result = jsQR(imageData.data, image.width, image.height, {
-          inversionAttempts: "attemptBoth",
-        });
+    setIsScanning(false);
 
-        const endTime = performance.now();
-        const scanTime = Math.round(endTime - startTime);
-        console.log(`🔍 DEBUG: jsQR scan completed in ${scanTime}ms`);
-        console.log("🔍 DEBUG: jsQR result:", result);
-
-        if (result) {
-          console.log("🔍 DEBUG: QR code found:", {
-            data: result.data,
-            location: result.location,
-            binaryData: result.binaryData?.length,
-            version: result.version,
-          });
-          setDebugInfo(
-            `✅ QR code found in ${scanTime}ms! Data: ${result.data.substring(
-              0,
-              50
-            )}${result.data.length > 50 ? "..." : ""}`
-          );
-
-          setQrResult({
-            data: result.data,
-            location: result.location,
-          });
-
-          // Try to parse as German receipt
-          const parsedReceipt = parseReceiptString(result.data);
-          if (parsedReceipt) {
-            console.log(
-              "🇩🇪 DEBUG: German receipt parsed successfully:",
-              parsedReceipt
-            );
-            setGermanReceipt(parsedReceipt);
-            setDebugInfo(
-              (prev) => `${prev} | 🇩🇪 German receipt detected and parsed!`
-            );
-          } else {
-            console.log("🇩🇪 DEBUG: QR code is not a German receipt format");
-            setGermanReceipt(null);
-          }
-        } else {
-          console.log("🔍 DEBUG: No QR code found in image");
-          setDebugInfo(`❌ No QR code found (scanned in ${scanTime}ms)`);
-          setError(
-            "No QR code found in the image. Please try with a clearer image."
-          );
-        }
+    await recordAIResult(
+      historyIds,
+      await runAIAnalysis(
+        await fileToDataURL(shownPage.image),
+        firstReceipt(scanResults)
+      )
+    );
+  };
 
-        setIsScanning(false);
-
-        // Now analyze with OpenAI Vision for serial number extraction
-        if (openAIApiKey && validateApiKey(openAIApiKey)) {
-          setIsAnalyzingWithAI(true);
-          try {
-            const aiResult = await extractSerialNumberWithAI(base64Image);
-            setOpenAIResult(aiResult);
-            setDebugInfo((prev) => `${prev} | 🤖 AI analysis complete`);
-          } catch (aiError) {
-            console.error("🤖 DEBUG: OpenAI analysis failed:", aiError);
-            setOpenAIResult(
-              "AI analysis failed. Check API key and connection."
-            );
-          } finally {
-            setIsAnalyzingWithAI(false);
-          }
-        } else {
-          console.log(
-            "🤖 DEBUG: OpenAI API key not configured or invalid, skipping AI analysis"
-          );
-          setOpenAIResult(
-            openAIApiKey
-              ? "Invalid OpenAI API key format. Please check your key."
-              : "OpenAI API key not configured. Enter your API key below to enable AI analysis."
-          );
+  // Decodes a region marked on the preview, for codes the detection missed.
+  // New codes are added to the results; returns whether there were any
+  const decodeMarkedRegion = async (region: ManualRegion): Promise<boolean> => {
+    const start = performance.now();
+    try {
+      const image = await loadImage(uploadedImage);
+      const pixels = imageToImageData(image);
+      // Reopened history scans show a thumbnail of the scanned image
+      const scale = imageSize ? pixels.width / imageSize.width : 1;
+      const decoded = await decodeRegion(
+        pixels,
+        scaleRegion(region, scale),
+        (cropped) => decoder.decode(cropped).then((outcome) => outcome.results)
+      );
+      pipelineLog.info(
+        "decode",
+        `Marked ${region.type === "quad" ? "corners" : "crop"}: ${
+          decoded.length
+        } ${decoded.length === 1 ? "code" : "codes"} decoded`,
+        {
+          durationMs: elapsedSince(start),
+          image: { width: pixels.width, height: pixels.height },
+          data: { region },
         }
-      };
+      );
 
-      image.onerror = (error) => {
-        console.error("🔍 DEBUG: Image load error:", error);
+      const found = decoded
+        .filter(
+          (result) =>
+            !scanResults.some(
+              (scanResult) => scanResult.qr.data === result.data
+            )
+        )
+        .map((result) => ({
+          ...mapResult(result, (point) => ({
+            x: point.x / scale,
+            y: point.y / scale,
+          })),
+          page: previewPage,
+        }));
+      if (found.length === 0) {
         setError(
-          "Failed to load the image. Please try with a different image."
+          decoded.length > 0
+            ? "The code in the marked region has already been decoded."
+            : "No code found in the marked region. Try marking the code's four corners."
         );
-        setIsScanning(false);
-      };
+        return false;
+      }
 
-      console.log("🔍 DEBUG: Setting image source...");
-      image.src = imageUrl;
+      const scanned = parseScanResults(found);
+      setError("");
+      setImageSize(imageSize ?? { width: pixels.width, height: pixels.height });
+      setScanResults((prev) => [...prev, ...scanned]);
+      // The AI reading had nothing to be checked against until now
+      const addedReceipt = firstReceipt(scanned);
+      if (aiAnalysis && !tseReceipt && addedReceipt) {
+        setAIAnalysis(receiptAnalysis(aiAnalysis.extracted, addedReceipt));
+      }
+      await recordAIResult(await recordScans(scanned, image), aiReceipt);
+      return true;
     } catch (err) {
-      console.error("🔍 DEBUG: Exception in handleFileUpload:", err);
-      setError("An error occurred while processing the image.");
-      setIsScanning(false);
+      pipelineLog.error("decode", "Decoding the marked region failed", {
+        data: { error: describeError(err) },
+      });
+      setError("An error occurred while decoding the marked region.");
+      return false;
     }
   };
 
+  const handleFileUpload = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    await scanFile(file);
+  };
+
+  // The share target effect runs once, but must call the latest scanFile
+  const scanFileRef = useRef(scanFile);
+  useEffect(() => {
+    scanFileRef.current = scanFile;
+  });
+
+  // Images shared from other apps arrive through the service worker
+  useEffect(() => {
+    if (!isShareTargetLaunch()) {
+      return;
+    }
+    takeSharedImages()
+      .then((files) => {
+        pipelineLog.info("pwa", `Received ${files.length} shared images`);
+        if (files.length > 0) {
+          // The scanner shows one image at a time, so the first one is used
+          scanFileRef.current(files[0]);
+        }
+      })
+      .catch((err) =>
+        pipelineLog.error("pwa", "Failed to read shared images", {
+          data: { error: describeError(err) },
+        })
+      );
+  }, []);
+
   const handleButtonClick = () => {
     fileInputRef.current?.click();
   };
 
   const clearResults = () => {
-    setQrResult(null);
-    setOpenAIResult(null);
-    setGermanReceipt(null);
+    scanIdRef.current++;
+    setScanResults([]);
+    setAIAnalysis(null);
+    setAIMessage(null);
+    setImageSize(null);
+    setPreviewPage(undefined);
     setError("");
     setUploadedImage("");
-    setDebugInfo("");
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
-  const copyToClipboard = async () => {
-    if (qrResult?.data) {
-      try {
-        await navigator.clipboard.writeText(qrResult.data);
-        // You could add a toast notification here
-        alert("Copied to clipboard!");
-      } catch (err) {
-        console.error("Failed to copy:", err);
-      }
-    }
-  };
-
   return (
     <div className="max-w-2xl mx-auto p-6 space-y-6">
       <Card>
         <CardHeader>
           <CardTitle>QR Code Scanner</CardTitle>
           <CardDescription>
-            Upload an image containing a QR code to extract its data
+            Upload an image or use your camera to scan a QR code or barcode
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -452,7 +614,7 @@ export default function QRScanner() {
             <Input
               ref={fileInputRef}
               type="file"
-              accept="image/*"
+              accept="image/*,application/pdf"
               onChange={handleFileUpload}
               className="hidden"
             />
@@ -467,107 +629,38 @@ export default function QRScanner() {
                 ? "Analyzing with AI..."
                 : "Upload Image"}
             </Button>
+            <CameraScanner
+              onDetected={handleCameraDetected}
+              onError={setError}
+              disabled={isScanning || isAnalyzingWithAI}
+            />
           </div>
 
-          {/* OpenAI API Key Configuration */}
-          <div className="space-y-3 p-4 bg-purple-50 border border-purple-200 rounded-lg">
-            <div className="flex items-center justify-between">
-              <h3 className="text-sm font-medium text-purple-800">
-                🤖 AI Serial Number Extraction
-              </h3>
-              <Button
-                onClick={toggleApiKeyField}
-                variant="outline"
-                size="sm"
-                className="text-xs"
-              >
-                {showApiKeyField
-                  ? "Hide"
-                  : openAIApiKey
-                  ? "Edit Key"
-                  : "Configure"}
-              </Button>
-            </div>
+          <AISettingsPanel settings={aiSettings} onChange={setAISettings} />
 
-            {showApiKeyField && (
-              <div className="space-y-2">
-                <label className="text-xs text-purple-700">
-                  OpenAI API Key (get from{" "}
-                  <a
-                    href="https://platform.openai.com/api-keys"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="underline hover:text-purple-900"
-                  >
-                    OpenAI Platform
-                  </a>
-                  ):
-                </label>
-                <div className="flex space-x-2">
-                  <Input
-                    type="password"
-                    placeholder="sk-..."
-                    value={openAIApiKey}
-                    onChange={(e) => handleApiKeyChange(e.target.value)}
-                    className={`text-sm ${
-                      openAIApiKey && !validateApiKey(openAIApiKey)
-                        ? "border-red-300 focus:border-red-500"
-                        : openAIApiKey && validateApiKey(openAIApiKey)
-                        ? "border-green-300 focus:border-green-500"
-                        : ""
-                    }`}
-                  />
-                  {openAIApiKey && (
-                    <Button
-                      onClick={() => handleApiKeyChange("")}
-                      variant="outline"
-                      size="sm"
-                      className="text-xs"
-                    >
-                      Clear
-                    </Button>
-                  )}
-                </div>
-                {openAIApiKey && !validateApiKey(openAIApiKey) && (
-                  <p className="text-xs text-red-600">
-                    Invalid API key format. Should start with "sk-" and be
-                    longer than 20 characters.
-                  </p>
-                )}
-                {openAIApiKey && validateApiKey(openAIApiKey) && (
-                  <p className="text-xs text-green-600">
-                    ✅ Valid API key format detected!
-                  </p>
-                )}
-              </div>
-            )}
-
-            {!showApiKeyField && (
-              <div className="text-xs text-purple-700">
-                {openAIApiKey && validateApiKey(openAIApiKey) ? (
-                  <span className="text-green-700">✅ AI analysis enabled</span>
-                ) : (
-                  <span className="text-gray-600">
-                    AI analysis disabled - no valid API key
-                  </span>
-                )}
-              </div>
-            )}
-          </div>
-
-          {debugInfo && (
-            <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
-              <p className="text-blue-800 text-xs font-mono">{debugInfo}</p>
+          {queuedAICalls > 0 && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              📴 Offline: {queuedAICalls} AI{" "}
+              {queuedAICalls === 1 ? "request is" : "requests are"} waiting for
+              the connection. Scanning keeps working.
             </div>
           )}
 
+          <DebugPanel aiSettings={aiSettings} />
+
           {uploadedImage && (
             <div className="space-y-2">
-              <h3 className="text-sm font-medium">Uploaded Image:</h3>
-              <img
+              <h3 className="text-sm font-medium">
+                {previewPage ? `PDF Page ${previewPage}:` : "Uploaded Image:"}
+              </h3>
+              <ImagePreview
+                key={uploadedImage}
                 src={uploadedImage}
-                alt="Uploaded QR code"
-                className="max-w-full h-auto max-h-64 mx-auto rounded-lg border"
+                results={scanResults
+                  .map((scanResult) => scanResult.qr)
+                  .filter((qr) => qr.page === previewPage)}
+                sourceSize={imageSize}
+                onDecodeRegion={isScanning ? undefined : decodeMarkedRegion}
               />
             </div>
           )}
@@ -578,207 +671,58 @@ export default function QRScanner() {
             </div>
           )}
 
-          {qrResult && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg">
-                  QR Code Data Extracted
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Content:</label>
-                  <div className="p-3 bg-gray-50 rounded-lg border">
-                    <p className="font-mono text-sm break-all">
-                      {qrResult.data}
-                    </p>
-                  </div>
-                </div>
-
-                <div className="flex space-x-2">
-                  <Button onClick={copyToClipboard} variant="outline">
-                    Copy to Clipboard
-                  </Button>
-                  <Button onClick={clearResults} variant="outline">
-                    Scan Another
-                  </Button>
-                </div>
-
-                {qrResult.data.startsWith("http") && (
-                  <div className="pt-2">
-                    <a
-                      href={qrResult.data}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-blue-600 hover:text-blue-800 underline text-sm"
-                    >
-                      Open Link
-                    </a>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          )}
+          {scanResults.map((scanResult, index) => (
+            <QRResultCard
+              key={index}
+              result={scanResult.qr}
+              label={resultLabel(scanResult.qr, index, scanResults.length)}
+              recoveredViaAICrop={scanResult.recoveredViaAICrop}
+              onClear={clearResults}
+            />
+          ))}
+
+          {scanResults
+            .filter((scanResult) => !scanResult.code)
+            .map((scanResult, index) => (
+              <PayloadCard
+                key={index}
+                payload={classifyPayload(scanResult.qr.data)}
+              />
+            ))}
+
+          {scanResults
+            .flatMap((scanResult) => (scanResult.code ? [scanResult.code] : []))
+            .map((code, index) => (
+              <ReceiptFormatCard
+                key={index}
+                code={code}
+                onClear={clearResults}
+              />
+            ))}
 
-          {germanReceipt && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg flex items-center gap-2">
-                  🇩🇪 German Receipt Data
-                </CardTitle>
-                <CardDescription>
-                  Parsed German receipt information
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                {/* Receipt Summary */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">Total Amount:</label>
-                    <div className="p-3 bg-green-50 rounded-lg border border-green-200">
-                      <p className="text-lg font-bold text-green-800">
-                        €{germanReceipt.receipt.totalAmount.toFixed(2)}
-                      </p>
-                    </div>
-                  </div>
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">
-                      Payment Method:
-                    </label>
-                    <div className="p-3 bg-blue-50 rounded-lg border border-blue-200">
-                      <p className="text-sm font-medium text-blue-800">
-                        {germanReceipt.receipt.paymentMethod}
-                      </p>
-                    </div>
-                  </div>
-                </div>
-
-                {/* Transaction Details */}
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">
-                    Transaction Details:
-                  </label>
-                  <div className="p-3 bg-gray-50 rounded-lg border space-y-2">
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
-                      <div>
-                        <strong>Register ID:</strong> {germanReceipt.registerID}
-                      </div>
-                      <div>
-                        <strong>Version:</strong> {germanReceipt.version}
-                      </div>
-                      <div>
-                        <strong>Document Type:</strong>{" "}
-                        {germanReceipt.documentType}
-                      </div>
-                    </div>
-                    <div className="text-sm space-y-1">
-                      <div>
-                        <strong>Transaction ID:</strong>{" "}
-                        {germanReceipt.transactionUUID}
-                      </div>
-                      <div>
-                        <strong>Store/Label:</strong>{" "}
-                        {germanReceipt.receipt.label}
-                      </div>
-                      <div>
-                        <strong>Start Time:</strong>{" "}
-                        {germanReceipt.timestampStart}
-                      </div>
-                      <div>
-                        <strong>End Time:</strong> {germanReceipt.timestampEnd}
-                      </div>
-                    </div>
-                  </div>
-                </div>
-
-                {/* Technical Details */}
-                <details className="space-y-2">
-                  <summary className="text-sm font-medium cursor-pointer hover:text-blue-600">
-                    Technical Details (Click to expand)
-                  </summary>
-                  <div className="p-3 bg-gray-50 rounded-lg border mt-2">
-                    <div className="text-sm space-y-1">
-                      <div>
-                        <strong>Signature Algorithm:</strong>{" "}
-                        {germanReceipt.signatureAlgorithm}
-                      </div>
-                      <div>
-                        <strong>Time Format:</strong> {germanReceipt.timeFormat}
-                      </div>
-                      <div className="break-all">
-                        <strong>Signature:</strong> {germanReceipt.signature}
-                      </div>
-                      <div className="break-all">
-                        <strong>Certificate Hash:</strong>{" "}
-                        {germanReceipt.certificateHash}
-                      </div>
-                    </div>
-                  </div>
-                </details>
-
-                <div className="flex space-x-2">
-                  <Button
-                    onClick={() =>
-                      navigator.clipboard.writeText(
-                        JSON.stringify(germanReceipt, null, 2)
-                      )
-                    }
-                    variant="outline"
-                  >
-                    Copy Receipt Data
-                  </Button>
-                  <Button onClick={clearResults} variant="outline">
-                    Scan Another
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
+          {(aiReceipt || aiMessage || isAnalyzingWithAI) && (
+            <AIReceiptCard
+              receipt={aiReceipt}
+              message={aiMessage}
+              isAnalyzing={isAnalyzingWithAI}
+            />
           )}
 
-          {openAIResult && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg flex items-center gap-2">
-                  🤖 AI Analysis Results
-                  {isAnalyzingWithAI && (
-                    <span className="text-sm text-gray-500">
-                      (Analyzing...)
-                    </span>
-                  )}
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                {openAIResult && (
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">
-                      Receipt Number:
-                    </label>
-                    <div className="p-3 bg-green-50 rounded-lg border border-green-200">
-                      <p className="font-mono text-sm break-all text-green-800">
-                        {openAIResult}
-                      </p>
-                    </div>
-                  </div>
-                )}
-
-                {openAIResult && (
-                  <div className="flex space-x-2">
-                    <Button
-                      onClick={() =>
-                        navigator.clipboard.writeText(openAIResult)
-                      }
-                      variant="outline"
-                      size="sm"
-                    >
-                      Copy Receipt Number
-                    </Button>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+          {aiAnalysis?.reconciliation && (
+            <ReconciliationCard reconciliation={aiAnalysis.reconciliation} />
           )}
         </CardContent>
       </Card>
+
+      <BatchScanner aiProvider={aiProvider} />
+
+      <QRGenerator receipt={tseReceipt} />
+
+      <HistoryView
+        repository={historyRepository}
+        refreshKey={historyRefreshKey}
+        onOpen={openFromHistory}
+      />
     </div>
   );
 }
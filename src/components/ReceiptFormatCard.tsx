@@ -0,0 +1,58 @@
+import type { ReactNode } from "react";
+import AustrianReceiptCard from "@/components/AustrianReceiptCard";
+import CroatianReceiptCard from "@/components/CroatianReceiptCard";
+import EPCPaymentCard from "@/components/EPCPaymentCard";
+import GermanReceiptCard from "@/components/GermanReceiptCard";
+import PortugueseReceiptCard from "@/components/PortugueseReceiptCard";
+import SlovenianReceiptCard from "@/components/SlovenianReceiptCard";
+import SwissQRBillCard from "@/components/SwissQRBillCard";
+import type { ParsedReceiptCode, ReceiptFormatId } from "@/lib/formats";
+
+interface ReceiptFormatCardProps {
+  code: ParsedReceiptCode;
+  onClear: () => void;
+}
+
+type DataOf<Id extends ReceiptFormatId> = Extract<
+  ParsedReceiptCode,
+  { format: Id }
+>["data"];
+
+// The render half of each receipt format; a new format in the registry
+// doesn't type-check until it has an entry here
+const RENDERERS: {
+  [Id in ReceiptFormatId]: (data: DataOf<Id>, onClear: () => void) => ReactNode;
+} = {
+  "de-kassensichv": (receipt, onClear) => (
+    <GermanReceiptCard receipt={receipt} onClear={onClear} />
+  ),
+  "at-rksv": (receipt, onClear) => (
+    <AustrianReceiptCard receipt={receipt} onClear={onClear} />
+  ),
+  "hr-fiscal": (receipt, onClear) => (
+    <CroatianReceiptCard receipt={receipt} onClear={onClear} />
+  ),
+  "si-fiscal": (receipt, onClear) => (
+    <SlovenianReceiptCard receipt={receipt} onClear={onClear} />
+  ),
+  "pt-atcud": (receipt, onClear) => (
+    <PortugueseReceiptCard receipt={receipt} onClear={onClear} />
+  ),
+  "ch-qrbill": (bill, onClear) => (
+    <SwissQRBillCard bill={bill} onClear={onClear} />
+  ),
+  "epc-sct": (payment, onClear) => (
+    <EPCPaymentCard payment={payment} onClear={onClear} />
+  ),
+};
+
+export default function ReceiptFormatCard({
+  code,
+  onClear,
+}: ReceiptFormatCardProps) {
+  const render = RENDERERS[code.format] as (
+    data: ParsedReceiptCode["data"],
+    onClear: () => void
+  ) => ReactNode;
+  return <>{render(code.data, onClear)}</>;
+}
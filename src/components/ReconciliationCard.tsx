@@ -0,0 +1,88 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type {
+  FieldStatus,
+  Reconciliation,
+  ReconciliationVerdict,
+} from "@/lib/reconcile";
+
+const STATUS_LABELS: Record<FieldStatus, string> = {
+  match: "✅ Match",
+  mismatch: "❌ Mismatch",
+  missing: "➖ Missing",
+};
+
+const VERDICT_STYLES: Record<ReconciliationVerdict, string> = {
+  high: "bg-green-50 border-green-200 text-green-800",
+  medium: "bg-yellow-50 border-yellow-200 text-yellow-800",
+  low: "bg-red-50 border-red-200 text-red-800",
+};
+
+interface ReconciliationCardProps {
+  reconciliation: Reconciliation;
+}
+
+export default function ReconciliationCard({
+  reconciliation,
+}: ReconciliationCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">🔎 AI vs. TSE Cross-Check</CardTitle>
+        <CardDescription>
+          What the AI read on the printed receipt, compared with the signed QR
+          data
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          className={`p-3 rounded-lg border ${
+            VERDICT_STYLES[reconciliation.verdict]
+          }`}
+        >
+          <p className="text-sm font-medium">
+            Confidence: {reconciliation.verdict}
+          </p>
+          <p className="text-xs">{reconciliation.summary}</p>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs border rounded-lg">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="p-2">Field</th>
+                <th className="p-2">AI</th>
+                <th className="p-2">TSE</th>
+                <th className="p-2">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {reconciliation.fields.map((field) => (
+                <tr key={field.field}>
+                  <td className="p-2 font-medium">{field.label}</td>
+                  <td className="p-2 font-mono break-all">
+                    {field.aiValue ?? "—"}
+                  </td>
+                  <td className="p-2 font-mono break-all">{field.tseValue}</td>
+                  <td className="p-2">
+                    <div className="whitespace-nowrap">
+                      {STATUS_LABELS[field.status]}
+                    </div>
+                    {field.note && (
+                      <div className="text-gray-600">{field.note}</div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import type { GermanReceiptData } from "@/lib/receipt";
+import { pipelineLog } from "@/lib/telemetry";
+import {
+  verifyReceiptSignature,
+  type SignatureStatus,
+  type SignatureVerification,
+} from "@/lib/tse";
+
+const BADGE_STYLES: Record<SignatureStatus, string> = {
+  valid: "bg-green-50 border-green-200 text-green-800",
+  invalid: "bg-red-50 border-red-200 text-red-800",
+  unverifiable: "bg-gray-50 border-gray-200 text-gray-700",
+};
+
+const BADGE_LABELS: Record<SignatureStatus, string> = {
+  valid: "✅ Signature valid",
+  invalid: "❌ Signature invalid",
+  unverifiable: "⚠️ Signature unverifiable",
+};
+
+interface SignatureBadgeProps {
+  receipt: GermanReceiptData;
+}
+
+export default function SignatureBadge({ receipt }: SignatureBadgeProps) {
+  const [publicKey, setPublicKey] = useState<string>(() => {
+    // The TSE key rarely changes, so remember it like the API key
+    return localStorage.getItem("tse_public_key") || "";
+  });
+  const [showKeyField, setShowKeyField] = useState<boolean>(!publicKey);
+  const [verification, setVerification] =
+    useState<SignatureVerification | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    verifyReceiptSignature(receipt, publicKey).then((result) => {
+      pipelineLog.info(
+        "signature",
+        `TSE signature ${result.status}: ${result.reason}`
+      );
+      if (!cancelled) {
+        setVerification(result);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [receipt, publicKey]);
+
+  const handlePublicKeyChange = (value: string) => {
+    setPublicKey(value);
+    if (value) {
+      localStorage.setItem("tse_public_key", value);
+    } else {
+      localStorage.removeItem("tse_public_key");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        {verification ? (
+          <div
+            className={`px-3 py-1 rounded-full border text-sm font-medium ${
+              BADGE_STYLES[verification.status]
+            }`}
+            title={verification.reason}
+          >
+            {BADGE_LABELS[verification.status]}
+          </div>
+        ) : (
+          <span className="text-sm text-gray-500">Verifying signature...</span>
+        )}
+        <Button
+          onClick={() => setShowKeyField(!showKeyField)}
+          variant="outline"
+          size="sm"
+          className="text-xs"
+        >
+          {showKeyField ? "Hide" : publicKey ? "Edit TSE Key" : "Add TSE Key"}
+        </Button>
+      </div>
+
+      {verification && (
+        <p className="text-xs text-gray-600">{verification.reason}</p>
+      )}
+
+      {showKeyField && (
+        <div className="space-y-1">
+          <label className="text-xs text-gray-700">
+            TSE public key or certificate (PEM, base64 or hex):
+          </label>
+          <textarea
+            value={publicKey}
+            onChange={(e) => handlePublicKeyChange(e.target.value)}
+            placeholder="-----BEGIN CERTIFICATE-----"
+            rows={4}
+            className="w-full rounded-md border px-3 py-2 font-mono text-xs bg-transparent"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { SlovenianReceiptData } from "@/lib/formats/slovenia";
+
+interface SlovenianReceiptCardProps {
+  receipt: SlovenianReceiptData;
+  onClear: () => void;
+}
+
+export default function SlovenianReceiptCard({
+  receipt,
+  onClear,
+}: SlovenianReceiptCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          🇸🇮 Slovenian Fiscal Receipt
+        </CardTitle>
+        <CardDescription>
+          Fiscally verified receipt code (davčno potrjevanje računov)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+          <div>
+            <strong>Tax Number:</strong> {receipt.taxNumber}
+          </div>
+          <div>
+            <strong>Issued:</strong> {receipt.issuedAt.replace("T", " ")}
+          </div>
+          <div className="break-all">
+            <strong>ZOI:</strong> {receipt.zoi}
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          The code carries no amounts; the receipt can be checked against the
+          ZOI with the Financial Administration.
+        </p>
+
+        <div className="flex space-x-2">
+          <Button
+            onClick={() =>
+              navigator.clipboard.writeText(JSON.stringify(receipt, null, 2))
+            }
+            variant="outline"
+          >
+            Copy Receipt Data
+          </Button>
+          <Button onClick={onClear} variant="outline">
+            Scan Another
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
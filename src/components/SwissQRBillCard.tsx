@@ -0,0 +1,108 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatIBAN } from "@/lib/formats/banking";
+import type { QRBillAddress, SwissQRBillData } from "@/lib/formats/qrbill";
+
+interface SwissQRBillCardProps {
+  bill: SwissQRBillData;
+  onClear: () => void;
+}
+
+function Address({ address }: { address: QRBillAddress }) {
+  return (
+    <div>
+      <div className="font-medium">{address.name}</div>
+      {address.lines.map((line) => (
+        <div key={line}>{line}</div>
+      ))}
+      <div className="text-xs text-gray-500">{address.country}</div>
+    </div>
+  );
+}
+
+export default function SwissQRBillCard({
+  bill,
+  onClear,
+}: SwissQRBillCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          🇨🇭 Swiss QR-bill
+        </CardTitle>
+        <CardDescription>Payment part of a QR-bill</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Amount:</label>
+          <div className="p-3 bg-green-50 rounded-lg border border-green-200">
+            <p className="text-lg font-bold text-green-800">
+              {bill.amount === null
+                ? `Open amount (${bill.currency})`
+                : `${bill.amount.toFixed(2)} ${bill.currency}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div className="p-3 bg-gray-50 rounded-lg border space-y-1">
+            <strong>Payable to</strong>
+            <div className="font-mono">{formatIBAN(bill.iban)}</div>
+            <Address address={bill.creditor} />
+          </div>
+          {bill.debtor && (
+            <div className="p-3 bg-gray-50 rounded-lg border space-y-1">
+              <strong>Payable by</strong>
+              <Address address={bill.debtor} />
+            </div>
+          )}
+        </div>
+
+        <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+          {bill.reference && (
+            <div className="break-all">
+              <strong>Reference ({bill.referenceType}):</strong>{" "}
+              {bill.reference}
+            </div>
+          )}
+          {bill.message && (
+            <div>
+              <strong>Message:</strong> {bill.message}
+            </div>
+          )}
+          {bill.billingInformation && (
+            <div className="break-all">
+              <strong>Billing Information:</strong> {bill.billingInformation}
+            </div>
+          )}
+        </div>
+
+        <div className="flex space-x-2">
+          <Button
+            onClick={() => navigator.clipboard.writeText(bill.iban)}
+            variant="outline"
+          >
+            Copy IBAN
+          </Button>
+          <Button
+            onClick={() =>
+              navigator.clipboard.writeText(JSON.stringify(bill, null, 2))
+            }
+            variant="outline"
+          >
+            Copy Bill Data
+          </Button>
+          <Button onClick={onClear} variant="outline">
+            Scan Another
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { maskSecret, type WifiNetwork } from "@/lib/payload";
+
+interface WifiCardProps {
+  network: WifiNetwork;
+}
+
+export default function WifiCard({ network }: WifiCardProps) {
+  const [showPassword, setShowPassword] = useState(false);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">📶 Wi-Fi Network</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+          <div>
+            <strong>Network:</strong> {network.ssid}
+            {network.hidden && (
+              <span className="ml-2 text-xs text-gray-500">(hidden)</span>
+            )}
+          </div>
+          <div>
+            <strong>Security:</strong>{" "}
+            {network.security === "nopass" ? "Open" : network.security}
+          </div>
+          {network.password !== null && (
+            <div className="font-mono break-all">
+              <strong className="font-sans">Password:</strong>{" "}
+              {showPassword ? network.password : maskSecret(network.password)}
+            </div>
+          )}
+        </div>
+
+        {network.password !== null && (
+          <div className="flex space-x-2">
+            <Button
+              onClick={() => setShowPassword((shown) => !shown)}
+              variant="outline"
+            >
+              {showPassword ? "Hide Password" : "Show Password"}
+            </Button>
+            <Button
+              onClick={() => navigator.clipboard.writeText(network.password!)}
+              variant="outline"
+            >
+              Copy Password
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
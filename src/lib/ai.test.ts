@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createAnthropicProvider,
+  createProxyProvider,
+  DEFAULT_AI_SETTINGS,
+  loadAISettings,
+  saveAISettings,
+  type AISettings,
+} from "@/lib/ai";
+import type { EncryptedKey } from "@/lib/vault";
+
+const IMAGE = "data:image/png;base64,iVBORw0KGgo=";
+
+function settings(patch: Partial<AISettings> = {}): AISettings {
+  return { ...DEFAULT_AI_SETTINGS, ...patch };
+}
+
+// Answers every request with `body` and records what was asked
+function fakeFetch(body: unknown, status = 200) {
+  return vi.fn<typeof fetch>(
+    async () =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { "content-type": "application/json" },
+      })
+  );
+}
+
+describe("createAnthropicProvider", () => {
+  const anthropic = settings({
+    provider: "anthropic",
+    apiKey: "sk-ant-test",
+    model: "claude-sonnet-4-5",
+  });
+
+  it("tests the key by listing a model", async () => {
+    const fetchImpl = fakeFetch({ data: [] });
+
+    await createAnthropicProvider(anthropic, fetchImpl).testConnection();
+
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe("https://api.anthropic.com/v1/models?limit=1");
+    expect(init?.headers).toMatchObject({ "x-api-key": "sk-ant-test" });
+  });
+
+  it("reports why a key is refused", async () => {
+    const fetchImpl = fakeFetch(
+      { error: { type: "authentication_error", message: "invalid x-api-key" } },
+      401
+    );
+
+    await expect(
+      createAnthropicProvider(anthropic, fetchImpl).testConnection()
+    ).rejects.toThrow("invalid x-api-key");
+  });
+
+  it("falls back to the status when the error has no body", async () => {
+    const fetchImpl = vi.fn<typeof fetch>(
+      async () => new Response("Bad gateway", { status: 502 })
+    );
+
+    await expect(
+      createAnthropicProvider(anthropic, fetchImpl).testConnection()
+    ).rejects.toThrow("Anthropic API error 502");
+  });
+});
+
+describe("createProxyProvider", () => {
+  const proxied = settings({
+    provider: "anthropic",
+    model: "claude-sonnet-4-5",
+    apiKey: "sk-ant-secret",
+    proxyURL: "https://example.com/ai-proxy",
+  });
+
+  it("forwards the request without the key", async () => {
+    const fetchImpl = fakeFetch({
+      text: " R-42 ",
+      usage: { inputTokens: 10, outputTokens: 2 },
+    });
+    const onUsage = vi.fn();
+
+    const text = await createProxyProvider(proxied, fetchImpl).complete({
+      prompt: "Read the serial",
+      image: IMAGE,
+      onUsage,
+    });
+
+    expect(text).toBe("R-42");
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 10, outputTokens: 2 });
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe("https://example.com/ai-proxy");
+    expect(init?.method).toBe("POST");
+    expect(JSON.parse(String(init?.body))).toEqual({
+      provider: "anthropic",
+      model: "claude-sonnet-4-5",
+      temperature: 0.1,
+      request: { prompt: "Read the serial", image: IMAGE },
+    });
+    expect(String(init?.body)).not.toContain("sk-ant-secret");
+  });
+
+  it("passes on the proxy's error message", async () => {
+    const fetchImpl = fakeFetch({ error: "Upstream quota exceeded" }, 429);
+
+    await expect(
+      createProxyProvider(proxied, fetchImpl).complete({
+        prompt: "Read the serial",
+        image: IMAGE,
+      })
+    ).rejects.toThrow("Upstream quota exceeded");
+  });
+
+  it("checks that the proxy is reachable", async () => {
+    const reachable = fakeFetch({});
+    await createProxyProvider(proxied, reachable).testConnection();
+    expect(reachable).toHaveBeenCalledWith("https://example.com/ai-proxy");
+
+    const unreachable = vi.fn<typeof fetch>(
+      async () => new Response(null, { status: 503 })
+    );
+    await expect(
+      createProxyProvider(proxied, unreachable).testConnection()
+    ).rejects.toThrow("AI proxy error 503");
+  });
+});
+
+describe("loadAISettings", () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reads back what was saved, without an encrypted key in the clear", () => {
+    const encryptedApiKey: EncryptedKey = {
+      version: 1,
+      salt: "c2FsdA==",
+      iv: "aXY=",
+      ciphertext: "Y2lwaGVy",
+      iterations: 1,
+    };
+    saveAISettings(settings({ apiKey: "sk-plain", model: "gpt-4o-mini" }));
+    expect(loadAISettings()).toMatchObject({
+      apiKey: "sk-plain",
+      model: "gpt-4o-mini",
+    });
+
+    saveAISettings(settings({ apiKey: "sk-plain", encryptedApiKey }));
+    expect(loadAISettings()).toMatchObject({ apiKey: "", encryptedApiKey });
+  });
+
+  it("falls back to the defaults when the saved settings are unreadable", () => {
+    storage.set("ai_settings", "{not json");
+
+    expect(loadAISettings()).toEqual(DEFAULT_AI_SETTINGS);
+  });
+
+  it("picks up a key saved before providers were configurable", () => {
+    storage.set("openai_api_key", "sk-legacy");
+
+    expect(loadAISettings()).toEqual(settings({ apiKey: "sk-legacy" }));
+  });
+});
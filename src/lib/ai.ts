@@ -0,0 +1,536 @@
+import OpenAI from "openai";
+import {
+  describeError,
+  elapsedSince,
+  pipelineLog,
+  type EventLog,
+  type TokenUsage,
+} from "@/lib/telemetry";
+import type { EncryptedKey } from "@/lib/vault";
+
+export type AIProviderId =
+  | "openai"
+  | "openai-compatible"
+  | "anthropic"
+  | "mock";
+
+export interface AISettings {
+  provider: AIProviderId;
+  apiKey: string;
+  model: string;
+  // Only used by the OpenAI-compatible provider
+  baseURL: string;
+  temperature: number;
+  // Passphrase-encrypted copy of the key. While set, `apiKey` is only held in
+  // memory for the session and never saved
+  encryptedApiKey: EncryptedKey | null;
+  // When set, vision calls go through this endpoint, which holds the API key
+  // (see createProxyProvider)
+  proxyURL: string;
+}
+
+// The subset of JSON Schema that OpenAI structured outputs accept. A type
+// alias rather than an interface, so it fits the SDK's Record<string, unknown>
+export type JsonSchema = {
+  type: string | string[];
+  description?: string;
+  // Only "date" (YYYY-MM-DD) is used so far
+  format?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | null)[];
+};
+
+export interface VisionRequest {
+  prompt: string;
+  // Image as a data URL
+  image: string;
+  maxTokens?: number;
+  // When set, the answer must be a JSON document matching this schema
+  jsonSchema?: { name: string; schema: JsonSchema };
+  // Called with the tokens the call used, when the provider reports them
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface VisionProvider {
+  id: AIProviderId;
+  // Returns the model's text answer; throws on API errors
+  complete(request: VisionRequest): Promise<string>;
+  // Checks the key and connection with a request that costs no tokens;
+  // throws with the reason when they don't work
+  testConnection(): Promise<void>;
+}
+
+interface ProviderInfo {
+  label: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  requiresBaseURL: boolean;
+}
+
+export const AI_PROVIDERS: Record<AIProviderId, ProviderInfo> = {
+  openai: {
+    label: "OpenAI",
+    defaultModel: "gpt-4o",
+    requiresApiKey: true,
+    requiresBaseURL: false,
+  },
+  "openai-compatible": {
+    label: "OpenAI-compatible (Ollama, LM Studio, vLLM)",
+    defaultModel: "llava",
+    requiresApiKey: false,
+    requiresBaseURL: true,
+  },
+  anthropic: {
+    label: "Anthropic",
+    defaultModel: "claude-sonnet-4-5",
+    requiresApiKey: true,
+    requiresBaseURL: false,
+  },
+  mock: {
+    label: "Mock (offline)",
+    defaultModel: "mock",
+    requiresApiKey: false,
+    requiresBaseURL: false,
+  },
+};
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: "openai",
+  apiKey: "",
+  model: AI_PROVIDERS.openai.defaultModel,
+  baseURL: "http://localhost:11434/v1",
+  temperature: 0.1,
+  encryptedApiKey: null,
+  proxyURL: "",
+};
+
+const AI_SETTINGS_KEY = "ai_settings";
+// Where the API key lived before providers became configurable
+const LEGACY_API_KEY_KEY = "openai_api_key";
+
+export function validateApiKey(key: string): boolean {
+  // Basic OpenAI API key validation (starts with sk- and has reasonable length)
+  return key.startsWith("sk-") && key.length > 20;
+}
+
+// Explains what's missing before the provider can be used, or null when ready
+export function aiSettingsError(settings: AISettings): string | null {
+  const info = AI_PROVIDERS[settings.provider];
+  if (settings.proxyURL && settings.provider !== "mock") {
+    // The proxy holds the key, so only the endpoint and model matter
+    if (!/^https?:\/\//.test(settings.proxyURL)) {
+      return "Enter the proxy URL, starting with http:// or https://.";
+    }
+    return settings.model.trim()
+      ? null
+      : "Enter the model to use for AI analysis.";
+  }
+  if (settings.encryptedApiKey && !settings.apiKey) {
+    return `${info.label} API key is locked. Enter your passphrase in the AI settings to unlock it.`;
+  }
+  if (info.requiresApiKey && !settings.apiKey) {
+    return `${info.label} API key not configured. Enter your API key in the AI settings to enable AI analysis.`;
+  }
+  if (settings.provider === "openai" && !validateApiKey(settings.apiKey)) {
+    return "Invalid OpenAI API key format. Please check your key.";
+  }
+  if (
+    settings.provider === "anthropic" &&
+    !settings.apiKey.startsWith("sk-ant-")
+  ) {
+    return "Invalid Anthropic API key format. Please check your key.";
+  }
+  if (info.requiresBaseURL && !/^https?:\/\//.test(settings.baseURL)) {
+    return "Enter the base URL of the OpenAI-compatible server.";
+  }
+  if (!settings.model.trim()) {
+    return "Enter the model to use for AI analysis.";
+  }
+  return null;
+}
+
+export function loadAISettings(): AISettings {
+  const saved = localStorage.getItem(AI_SETTINGS_KEY);
+  if (saved) {
+    try {
+      return { ...DEFAULT_AI_SETTINGS, ...JSON.parse(saved) };
+    } catch (error) {
+      pipelineLog.warn("ai", "Ignoring unreadable AI settings", {
+        data: { error: describeError(error) },
+      });
+      return { ...DEFAULT_AI_SETTINGS };
+    }
+  }
+  return {
+    ...DEFAULT_AI_SETTINGS,
+    apiKey: localStorage.getItem(LEGACY_API_KEY_KEY) || "",
+  };
+}
+
+export function saveAISettings(settings: AISettings): void {
+  localStorage.setItem(
+    AI_SETTINGS_KEY,
+    JSON.stringify({
+      ...settings,
+      apiKey: settings.encryptedApiKey ? "" : settings.apiKey,
+    })
+  );
+  localStorage.removeItem(LEGACY_API_KEY_KEY);
+}
+
+// Models sometimes wrap JSON answers in a Markdown code fence despite JSON mode
+export function stripCodeFence(response: string): string {
+  return response
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+}
+
+function parseDataURL(dataURL: string): { mediaType: string; data: string } {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataURL);
+  if (!match) {
+    throw new Error("Image must be a base64 data URL");
+  }
+  return { mediaType: match[1], data: match[2] };
+}
+
+// Covers OpenAI itself and any server implementing its chat completions API
+export function createOpenAIProvider(settings: AISettings): VisionProvider {
+  const compatible = settings.provider === "openai-compatible";
+  const openai = new OpenAI({
+    // Local servers usually ignore the key, but the SDK insists on one
+    apiKey: settings.apiKey || "not-needed",
+    baseURL: compatible ? settings.baseURL : undefined,
+    dangerouslyAllowBrowser: true,
+  });
+
+  return {
+    id: settings.provider,
+    async complete({ prompt, image, maxTokens = 500, jsonSchema, onUsage }) {
+      const response = await openai.chat.completions.create({
+        model: settings.model,
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: prompt },
+              { type: "image_url", image_url: { url: image, detail: "high" } },
+            ],
+          },
+        ],
+        max_tokens: maxTokens,
+        temperature: settings.temperature,
+        // Local servers rarely support strict schemas, but most have JSON mode
+        response_format: !jsonSchema
+          ? undefined
+          : compatible
+          ? { type: "json_object" }
+          : {
+              type: "json_schema",
+              json_schema: { ...jsonSchema, strict: true },
+            },
+      });
+
+      if (response.usage) {
+        onUsage?.({
+          inputTokens: response.usage.prompt_tokens,
+          outputTokens: response.usage.completion_tokens,
+        });
+      }
+      const content = response.choices[0]?.message?.content;
+      return content ? content.trim() : "";
+    },
+
+    async testConnection() {
+      await openai.models.list();
+    },
+  };
+}
+
+// Talks to the Messages API directly; `fetchImpl` is injectable for tests
+export function createAnthropicProvider(
+  settings: AISettings,
+  fetchImpl: typeof fetch = fetch
+): VisionProvider {
+  const headers = {
+    "content-type": "application/json",
+    "x-api-key": settings.apiKey,
+    "anthropic-version": "2023-06-01",
+    "anthropic-dangerous-direct-browser-access": "true",
+  };
+
+  return {
+    id: "anthropic",
+    async complete({ prompt, image, maxTokens = 500, jsonSchema, onUsage }) {
+      const { mediaType, data } = parseDataURL(image);
+      const response = await fetchImpl(
+        "https://api.anthropic.com/v1/messages",
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            model: settings.model,
+            max_tokens: maxTokens,
+            temperature: settings.temperature,
+            // Forcing a tool call is how Claude returns schema-shaped JSON
+            ...(jsonSchema && {
+              tools: [
+                {
+                  name: jsonSchema.name,
+                  description: "Record the extracted data",
+                  input_schema: jsonSchema.schema,
+                },
+              ],
+              tool_choice: { type: "tool", name: jsonSchema.name },
+            }),
+            messages: [
+              {
+                role: "user",
+                content: [
+                  {
+                    type: "image",
+                    source: { type: "base64", media_type: mediaType, data },
+                  },
+                  { type: "text", text: prompt },
+                ],
+              },
+            ],
+          }),
+        }
+      );
+
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          body?.error?.message ?? `Anthropic API error ${response.status}`
+        );
+      }
+      if (body.usage) {
+        onUsage?.({
+          inputTokens: body.usage.input_tokens,
+          outputTokens: body.usage.output_tokens,
+        });
+      }
+
+      const blocks = body.content as {
+        type: string;
+        text?: string;
+        input?: unknown;
+      }[];
+      const toolUse = blocks.find((block) => block.type === "tool_use");
+      const content = toolUse
+        ? JSON.stringify(toolUse.input)
+        : blocks
+            .filter((block) => block.type === "text")
+            .map((block) => block.text)
+            .join("");
+      return content.trim();
+    },
+
+    async testConnection() {
+      const response = await fetchImpl(
+        "https://api.anthropic.com/v1/models?limit=1",
+        { headers }
+      );
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(
+          body?.error?.message ?? `Anthropic API error ${response.status}`
+        );
+      }
+    },
+  };
+}
+
+// Sends vision calls to a server that adds the API key and forwards them to
+// the provider, so the key never reaches the browser. The proxy receives
+// POST { provider, model, temperature, request } (request is a VisionRequest)
+// and answers { text, usage? } on success, where usage is a TokenUsage, or
+// { error } with an error status. A GET
+// must answer 2xx while the proxy can reach the provider.
+export function createProxyProvider(
+  settings: AISettings,
+  fetchImpl: typeof fetch = fetch
+): VisionProvider {
+  const proxyError = async (response: Response) => {
+    const body = await response.json().catch(() => null);
+    return new Error(body?.error ?? `AI proxy error ${response.status}`);
+  };
+
+  return {
+    id: settings.provider,
+    async complete({ onUsage, ...request }) {
+      const response = await fetchImpl(settings.proxyURL, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          provider: settings.provider,
+          model: settings.model,
+          temperature: settings.temperature,
+          request,
+        }),
+      });
+      if (!response.ok) {
+        throw await proxyError(response);
+      }
+      const { text, usage } = (await response.json()) as {
+        text?: string;
+        usage?: TokenUsage;
+      };
+      if (usage) {
+        onUsage?.(usage);
+      }
+      return (text ?? "").trim();
+    },
+
+    async testConnection() {
+      const response = await fetchImpl(settings.proxyURL);
+      if (!response.ok) {
+        throw await proxyError(response);
+      }
+    },
+  };
+}
+
+// FNV-1a, enough to turn an image into a stable fake answer
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).toUpperCase().padStart(8, "0");
+}
+
+// Smallest document matching the schema, with strings filled from `seed`
+function sampleFromSchema(schema: JsonSchema, seed: string): unknown {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (schema.enum) {
+    return schema.enum[0];
+  }
+  if (types.includes("object")) {
+    return Object.fromEntries(
+      Object.entries(schema.properties ?? {}).map(([key, property]) => [
+        key,
+        sampleFromSchema(property, seed),
+      ])
+    );
+  }
+  if (types.includes("array")) {
+    return schema.items ? [sampleFromSchema(schema.items, seed)] : [];
+  }
+  if (types.includes("string")) {
+    return schema.format === "date" ? "2024-01-01" : seed;
+  }
+  if (types.includes("number") || types.includes("integer")) {
+    return 1;
+  }
+  if (types.includes("boolean")) {
+    return false;
+  }
+  return null;
+}
+
+// Deterministic provider for tests and offline development: the same image
+// always gets the same answer, and nothing leaves the browser
+export function createMockProvider(
+  respond: (request: VisionRequest) => string = ({ image, jsonSchema }) => {
+    const seed = `MOCK-${hashString(image)}`;
+    return jsonSchema
+      ? JSON.stringify(sampleFromSchema(jsonSchema.schema, seed))
+      : seed;
+  }
+): VisionProvider {
+  return {
+    id: "mock",
+    async complete(request) {
+      return respond(request);
+    },
+    async testConnection() {},
+  };
+}
+
+// Records every call's latency, token usage and answer (or error) as an
+// "ai" pipeline event. The request's own onUsage still gets called
+export function instrumentProvider(
+  provider: VisionProvider,
+  model: string,
+  log: EventLog = pipelineLog
+): VisionProvider {
+  return {
+    id: provider.id,
+    async complete(request) {
+      const purpose = request.jsonSchema?.name ?? "text";
+      let usage: TokenUsage | null = null;
+      const start = performance.now();
+      const measure = () => ({
+        provider: provider.id,
+        model,
+        latencyMs: elapsedSince(start),
+        usage,
+      });
+      try {
+        const text = await provider.complete({
+          ...request,
+          onUsage: (reported) => {
+            usage = reported;
+            request.onUsage?.(reported);
+          },
+        });
+        log.info("ai", `AI answered the ${purpose} request`, {
+          ai: measure(),
+          data: { response: text },
+        });
+        return text;
+      } catch (err) {
+        log.error("ai", `AI ${purpose} request failed`, {
+          ai: measure(),
+          data: { error: describeError(err) },
+        });
+        throw err;
+      }
+    },
+    testConnection: () => provider.testConnection(),
+  };
+}
+
+function createUninstrumentedProvider(settings: AISettings): VisionProvider {
+  if (settings.proxyURL && settings.provider !== "mock") {
+    return createProxyProvider(settings);
+  }
+  switch (settings.provider) {
+    case "openai":
+    case "openai-compatible":
+      return createOpenAIProvider(settings);
+    case "anthropic":
+      return createAnthropicProvider(settings);
+    case "mock":
+      return createMockProvider();
+  }
+}
+
+export function createVisionProvider(settings: AISettings): VisionProvider {
+  return instrumentProvider(
+    createUninstrumentedProvider(settings),
+    settings.model
+  );
+}
+
+// The settings for a diagnostic bundle, without the key or passphrase data
+export function describeAISettings(settings: AISettings) {
+  return {
+    provider: settings.provider,
+    model: settings.model,
+    temperature: settings.temperature,
+    ...(settings.provider === "openai-compatible"
+      ? { baseURL: settings.baseURL }
+      : {}),
+    proxy: Boolean(settings.proxyURL),
+    apiKeyConfigured: Boolean(settings.apiKey || settings.encryptedApiKey),
+    apiKeyEncrypted: settings.encryptedApiKey !== null,
+    ready: aiSettingsError(settings) === null,
+  };
+}
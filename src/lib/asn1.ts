@@ -0,0 +1,137 @@
+// Minimal DER encoder/reader, just enough for TSE log messages and X.509 keys
+
+export const TAG_INTEGER = 0x02;
+export const TAG_BIT_STRING = 0x03;
+export const TAG_OCTET_STRING = 0x04;
+export const TAG_OID = 0x06;
+export const TAG_PRINTABLE_STRING = 0x13;
+export const TAG_UTC_TIME = 0x17;
+export const TAG_GENERALIZED_TIME = 0x18;
+export const TAG_SEQUENCE = 0x30;
+
+export function concatBytes(...chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    chunks.reduce((length, chunk) => length + chunk.length, 0)
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function encodeLength(length: number): Uint8Array {
+  if (length < 0x80) {
+    return Uint8Array.of(length);
+  }
+
+  const bytes: number[] = [];
+  let remaining = length;
+  while (remaining > 0) {
+    bytes.unshift(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  }
+  return Uint8Array.of(0x80 | bytes.length, ...bytes);
+}
+
+export function encodeTLV(tag: number, value: Uint8Array): Uint8Array {
+  return concatBytes(Uint8Array.of(tag), encodeLength(value.length), value);
+}
+
+// Two's-complement big-endian content octets of a non-negative integer
+export function encodeIntegerValue(value: number): Uint8Array {
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new Error(`Cannot DER-encode integer ${value}`);
+  }
+
+  const bytes: number[] = [];
+  let remaining = BigInt(value);
+  do {
+    bytes.unshift(Number(remaining & 0xffn));
+    remaining >>= 8n;
+  } while (remaining > 0n);
+
+  if (bytes[0] & 0x80) {
+    bytes.unshift(0);
+  }
+  return Uint8Array.from(bytes);
+}
+
+export function encodeOIDValue(oid: string): Uint8Array {
+  const arcs = oid.split(".").map(Number);
+  if (arcs.length < 2 || arcs.some((arc) => !Number.isSafeInteger(arc))) {
+    throw new Error(`Invalid object identifier ${oid}`);
+  }
+
+  const bytes = [arcs[0] * 40 + arcs[1]];
+  for (const arc of arcs.slice(2)) {
+    const encoded = [arc & 0x7f];
+    let remaining = Math.floor(arc / 128);
+    while (remaining > 0) {
+      encoded.unshift((remaining & 0x7f) | 0x80);
+      remaining = Math.floor(remaining / 128);
+    }
+    bytes.push(...encoded);
+  }
+  return Uint8Array.from(bytes);
+}
+
+export function decodeOIDValue(bytes: Uint8Array): string {
+  const arcs = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let arc = 0;
+  for (const byte of bytes.subarray(1)) {
+    arc = arc * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      arcs.push(arc);
+      arc = 0;
+    }
+  }
+  return arcs.join(".");
+}
+
+export interface DERElement {
+  tag: number;
+  // Full encoding including tag and length
+  raw: Uint8Array;
+  value: Uint8Array;
+}
+
+export function readElement(bytes: Uint8Array, offset = 0): DERElement {
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let headerLength = 2;
+
+  if (length === undefined) {
+    throw new Error("Truncated DER element");
+  }
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    headerLength += lengthBytes;
+  }
+
+  const end = offset + headerLength + length;
+  if (end > bytes.length) {
+    throw new Error("Truncated DER element");
+  }
+  return {
+    tag,
+    raw: bytes.subarray(offset, end),
+    value: bytes.subarray(offset + headerLength, end),
+  };
+}
+
+export function readChildren(element: DERElement): DERElement[] {
+  const children: DERElement[] = [];
+  let offset = 0;
+  while (offset < element.value.length) {
+    const child = readElement(element.value, offset);
+    children.push(child);
+    offset += child.raw.length;
+  }
+  return children;
+}
@@ -0,0 +1,222 @@
+import {
+  BarcodeFormat as ZXingFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  RGBLuminanceSource,
+  type Result,
+} from "@zxing/library";
+import {
+  decodeAllImageData,
+  findAllCodes,
+  type PixelData,
+  type Point,
+  type QRResult,
+} from "@/lib/qr";
+
+export type BarcodeFormat =
+  | "qr"
+  | "code128"
+  | "code39"
+  | "ean13"
+  | "ean8"
+  | "itf"
+  | "datamatrix"
+  | "pdf417";
+
+export const BARCODE_FORMAT_LABELS: Record<BarcodeFormat, string> = {
+  qr: "QR Code",
+  code128: "Code 128",
+  code39: "Code 39",
+  ean13: "EAN-13",
+  ean8: "EAN-8",
+  itf: "ITF",
+  datamatrix: "Data Matrix",
+  pdf417: "PDF417",
+};
+
+// Any decoded code; `location` holds its four corners like a QR code's
+export interface BarcodeResult extends QRResult {
+  format: BarcodeFormat;
+}
+
+export interface SymbologyDecodeOptions {
+  maxCodes: number;
+  // Also spend time on slower searches, such as the QR tile sweep
+  thorough: boolean;
+}
+
+// One decoding library or algorithm and the formats it reads. Decoders run
+// in order, so faster or more common formats come first
+export interface SymbologyDecoder {
+  name: string;
+  formats: readonly BarcodeFormat[];
+  decode(pixels: PixelData, options: SymbologyDecodeOptions): BarcodeResult[];
+}
+
+export const qrSymbologyDecoder: SymbologyDecoder = {
+  name: "jsQR",
+  formats: ["qr"],
+  decode(pixels, { maxCodes, thorough }) {
+    return decodeAllImageData(pixels, { maxCodes, tiles: thorough }).map(
+      (result) => ({ ...result, format: "qr" })
+    );
+  },
+};
+
+const ZXING_FORMATS: [ZXingFormat, BarcodeFormat][] = [
+  [ZXingFormat.CODE_128, "code128"],
+  [ZXingFormat.CODE_39, "code39"],
+  [ZXingFormat.EAN_13, "ean13"],
+  [ZXingFormat.EAN_8, "ean8"],
+  [ZXingFormat.ITF, "itf"],
+  [ZXingFormat.DATA_MATRIX, "datamatrix"],
+  [ZXingFormat.PDF_417, "pdf417"],
+];
+
+function luminanceSource(pixels: PixelData): RGBLuminanceSource {
+  const luminances = new Uint8ClampedArray(pixels.width * pixels.height);
+  for (let i = 0; i < luminances.length; i++) {
+    const offset = i * 4;
+    luminances[i] =
+      (pixels.data[offset] * 299 +
+        pixels.data[offset + 1] * 587 +
+        pixels.data[offset + 2] * 114) /
+      1000;
+  }
+  return new RGBLuminanceSource(luminances, pixels.width, pixels.height);
+}
+
+// Linear barcodes are read along a single row, so ZXing reports the two ends
+// of that row; they become a band around it. 2D codes report their corners
+// (and some finder points), which are boxed in
+export function resultPointsToLocation(
+  points: Point[],
+  bandRatio = 0.15
+): QRResult["location"] {
+  if (points.length < 2) {
+    return undefined;
+  }
+  if (points.length === 2) {
+    const [start, end] = points;
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    // Unit normal of the scan line, scaled to the band's half-height
+    const nx = (-(end.y - start.y) / (length || 1)) * length * bandRatio;
+    const ny = ((end.x - start.x) / (length || 1)) * length * bandRatio;
+    return {
+      topLeftCorner: { x: start.x - nx, y: start.y - ny },
+      topRightCorner: { x: end.x - nx, y: end.y - ny },
+      bottomRightCorner: { x: end.x + nx, y: end.y + ny },
+      bottomLeftCorner: { x: start.x + nx, y: start.y + ny },
+    };
+  }
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const left = Math.min(...xs);
+  const right = Math.max(...xs);
+  const top = Math.min(...ys);
+  const bottom = Math.max(...ys);
+  return {
+    topLeftCorner: { x: left, y: top },
+    topRightCorner: { x: right, y: top },
+    bottomRightCorner: { x: right, y: bottom },
+    bottomLeftCorner: { x: left, y: bottom },
+  };
+}
+
+function toBarcodeResult(result: Result): BarcodeResult | null {
+  const format = ZXING_FORMATS.find(
+    ([zxingFormat]) => zxingFormat === result.getBarcodeFormat()
+  )?.[1];
+  if (!format) {
+    return null;
+  }
+  // PDF417 leaves missing finder points empty
+  const points = (result.getResultPoints() ?? [])
+    .filter(Boolean)
+    .map((point) => ({ x: point.getX(), y: point.getY() }));
+  return {
+    data: result.getText(),
+    format,
+    location: resultPointsToLocation(points),
+  };
+}
+
+// ZXing reads one code per call, so it goes through the same mask-and-retry
+// search as jsQR
+export function createZXingSymbologyDecoder(
+  formats: readonly BarcodeFormat[] = ZXING_FORMATS.map(([, format]) => format)
+): SymbologyDecoder {
+  const reader = new MultiFormatReader();
+  const hints = new Map<DecodeHintType, unknown>([
+    [
+      DecodeHintType.POSSIBLE_FORMATS,
+      ZXING_FORMATS.filter(([, format]) => formats.includes(format)).map(
+        ([zxingFormat]) => zxingFormat
+      ),
+    ],
+  ]);
+
+  const decodeOne = (pixels: PixelData): BarcodeResult | null => {
+    try {
+      return toBarcodeResult(
+        reader.decodeWithState(
+          new BinaryBitmap(new HybridBinarizer(luminanceSource(pixels)))
+        )
+      );
+    } catch {
+      // ZXing signals "nothing found" with an exception
+      return null;
+    }
+  };
+
+  return {
+    name: "ZXing",
+    formats,
+    decode(pixels, { maxCodes, thorough }) {
+      hints.set(DecodeHintType.TRY_HARDER, thorough);
+      reader.setHints(hints);
+      const results = findAllCodes(pixels, decodeOne, {
+        maxCodes,
+        tiles: thorough,
+      });
+      reader.reset();
+      return results;
+    },
+  };
+}
+
+export const SYMBOLOGY_DECODERS: SymbologyDecoder[] = [
+  qrSymbologyDecoder,
+  createZXingSymbologyDecoder(),
+];
+
+export interface DecodeBarcodesOptions extends Partial<SymbologyDecodeOptions> {
+  decoders?: SymbologyDecoder[];
+}
+
+// Every code in the image, in decoder order, up to `maxCodes` in total
+export function decodeAllBarcodes(
+  pixels: PixelData,
+  options: DecodeBarcodesOptions = {}
+): BarcodeResult[] {
+  const {
+    maxCodes = 8,
+    thorough = true,
+    decoders = SYMBOLOGY_DECODERS,
+  } = options;
+  const results: BarcodeResult[] = [];
+  for (const decoder of decoders) {
+    if (results.length >= maxCodes) {
+      break;
+    }
+    results.push(
+      ...decoder.decode(pixels, {
+        maxCodes: maxCodes - results.length,
+        thorough,
+      })
+    );
+  }
+  return results;
+}
@@ -0,0 +1,76 @@
+import {
+  decodePixelData,
+  type DecodeRequest,
+  type DecodeResponse,
+  type DecodeSource,
+} from "@/lib/decoder";
+import type { PixelData } from "@/lib/qr";
+
+// Jobs waiting to start; a cancel takes its job out, and is ignored once the
+// job has started
+const queued = new Set<number>();
+
+const respond = (response: DecodeResponse) => self.postMessage(response);
+
+async function sourceToPixels(source: DecodeSource): Promise<PixelData> {
+  if (!(source instanceof Blob)) {
+    return source;
+  }
+
+  const bitmap = await createImageBitmap(source);
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    if (!context) {
+      throw new Error("Could not create canvas context for image processing");
+    }
+    context.drawImage(bitmap, 0, 0);
+    return context.getImageData(0, 0, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.addEventListener("message", async (event: MessageEvent<DecodeRequest>) => {
+  const request = event.data;
+  if (request.type === "cancel") {
+    queued.delete(request.id);
+    return;
+  }
+
+  if (
+    typeof OffscreenCanvas === "undefined" &&
+    request.source instanceof Blob
+  ) {
+    respond({
+      type: "error",
+      id: request.id,
+      message: "OffscreenCanvas is not supported",
+      unsupported: true,
+    });
+    return;
+  }
+
+  // Give cancel messages that are already queued a chance to arrive first
+  queued.add(request.id);
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  if (!queued.delete(request.id)) {
+    return;
+  }
+
+  try {
+    const pixels = await sourceToPixels(request.source);
+    respond({
+      type: "result",
+      id: request.id,
+      outcome: decodePixelData(pixels, request.multiple),
+    });
+  } catch (err) {
+    respond({
+      type: "error",
+      id: request.id,
+      message: err instanceof Error ? err.message : "Unknown error",
+      unsupported: false,
+    });
+  }
+});
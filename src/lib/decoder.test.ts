@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createQRDecoder,
+  DecodeAbortedError,
+  type DecodeOutcome,
+  type DecodeRequest,
+  type DecodeResponse,
+} from "@/lib/decoder";
+import { createQRMatrix, matrixToPixels } from "@/lib/generator";
+import type { PixelData } from "@/lib/qr";
+
+// Loading an image never finishes here, standing in for a main-thread
+// decode that hangs
+vi.mock("@/lib/image", () => ({
+  fileToImageData: () => new Promise(() => {}),
+}));
+
+// Stands in for the decode worker: records what it is sent and answers only
+// when the test says so
+class FakeWorker {
+  messages: DecodeRequest[] = [];
+  terminated = false;
+  private listeners: ((event: MessageEvent<DecodeResponse>) => void)[] = [];
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    if (type === "message") {
+      this.listeners.push(listener);
+    }
+  }
+
+  postMessage(message: DecodeRequest) {
+    this.messages.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  respond(response: DecodeResponse) {
+    for (const listener of this.listeners) {
+      listener({ data: response } as MessageEvent<DecodeResponse>);
+    }
+  }
+}
+
+const PIXELS: PixelData = {
+  data: new Uint8ClampedArray(4),
+  width: 1,
+  height: 1,
+};
+
+const OUTCOME: DecodeOutcome = {
+  results: [{ data: "hello", format: "qr" }],
+  transform: "original",
+  attempts: ["original"],
+  width: 1,
+  height: 1,
+};
+
+const CODE = matrixToPixels(
+  createQRMatrix("hello", { errorCorrection: "M", version: null }),
+  { margin: 4, scale: 4, dark: "#000000", light: "#ffffff" }
+);
+
+describe("createQRDecoder", () => {
+  let workers: FakeWorker[];
+  const createWorker = () => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker as unknown as Worker;
+  };
+
+  beforeEach(() => {
+    workers = [];
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("matches responses to jobs by ID", async () => {
+    const decoder = createQRDecoder(createWorker);
+    const first = decoder.decode(PIXELS);
+    const second = decoder.decode(PIXELS, { multiple: false });
+    const [worker] = workers;
+
+    expect(worker.messages).toEqual([
+      { type: "decode", id: 1, source: PIXELS, multiple: true },
+      { type: "decode", id: 2, source: PIXELS, multiple: false },
+    ]);
+    worker.respond({
+      type: "error",
+      id: 2,
+      message: "Broken",
+      unsupported: false,
+    });
+    worker.respond({ type: "result", id: 1, outcome: OUTCOME });
+
+    await expect(first).resolves.toEqual(OUTCOME);
+    await expect(second).rejects.toThrow("Broken");
+  });
+
+  it("cancels a job when its signal aborts", async () => {
+    const decoder = createQRDecoder(createWorker);
+    const controller = new AbortController();
+    const job = decoder.decode(PIXELS, { signal: controller.signal });
+
+    controller.abort();
+    await expect(job).rejects.toEqual(new DecodeAbortedError("cancelled"));
+    expect(workers[0].messages[1]).toEqual({ type: "cancel", id: 1 });
+
+    // A late answer for the cancelled job is dropped
+    workers[0].respond({ type: "result", id: 1, outcome: OUTCOME });
+  });
+
+  it("restarts the worker after a timeout and hands it the waiting jobs", async () => {
+    const decoder = createQRDecoder(createWorker);
+    const slow = decoder.decode(PIXELS, { timeoutMs: 1000 });
+    const waiting = decoder.decode(PIXELS, { timeoutMs: 5000 });
+    const rejected = expect(slow).rejects.toMatchObject({ reason: "timeout" });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await rejected;
+    expect(workers[0].terminated).toBe(true);
+    expect(workers[1].messages).toEqual([
+      { type: "decode", id: 2, source: PIXELS, multiple: true },
+    ]);
+
+    workers[1].respond({ type: "result", id: 2, outcome: OUTCOME });
+    await expect(waiting).resolves.toEqual(OUTCOME);
+  });
+
+  it("rejects pending jobs when disposed", async () => {
+    const decoder = createQRDecoder(createWorker);
+    const job = decoder.decode(PIXELS);
+
+    decoder.dispose();
+    await expect(job).rejects.toBeInstanceOf(DecodeAbortedError);
+    expect(workers[0].terminated).toBe(true);
+  });
+
+  describe("without a worker", () => {
+    it("decodes on the main thread", async () => {
+      const decoder = createQRDecoder(() => null);
+
+      const outcome = await decoder.decode(CODE);
+
+      expect(outcome.results.map((result) => result.data)).toEqual(["hello"]);
+    });
+
+    it("still honours the signal", async () => {
+      const decoder = createQRDecoder(() => null);
+      const controller = new AbortController();
+      const job = decoder.decode(new Blob(["photo"]), {
+        signal: controller.signal,
+      });
+
+      controller.abort();
+      await expect(job).rejects.toEqual(new DecodeAbortedError("cancelled"));
+    });
+
+    it("gives up on a decode that hangs", async () => {
+      const decoder = createQRDecoder(() => null);
+      const job = decoder.decode(new Blob(["photo"]), { timeoutMs: 1000 });
+      const rejected = expect(job).rejects.toMatchObject({ reason: "timeout" });
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await rejected;
+    });
+  });
+
+  describe("when the worker can't decode images", () => {
+    const unsupported = (id: number): DecodeResponse => ({
+      type: "error",
+      id,
+      message: "OffscreenCanvas is not supported",
+      unsupported: true,
+    });
+
+    it("moves the waiting jobs to the main thread for good", async () => {
+      const decoder = createQRDecoder(createWorker);
+      const job = decoder.decode(CODE);
+
+      workers[0].respond(unsupported(1));
+      const outcome = await job;
+
+      expect(outcome.results.map((result) => result.data)).toEqual(["hello"]);
+      expect(workers[0].terminated).toBe(true);
+      await decoder.decode(CODE);
+      expect(workers).toHaveLength(1);
+    });
+
+    it("keeps the moved jobs' signals and timeouts", async () => {
+      const decoder = createQRDecoder(createWorker);
+      const controller = new AbortController();
+      const cancelled = decoder.decode(new Blob(["photo"]), {
+        signal: controller.signal,
+      });
+      const hung = decoder.decode(new Blob(["photo"]), { timeoutMs: 1000 });
+      const timedOut = expect(hung).rejects.toMatchObject({
+        reason: "timeout",
+      });
+
+      workers[0].respond(unsupported(1));
+      controller.abort();
+      await expect(cancelled).rejects.toEqual(
+        new DecodeAbortedError("cancelled")
+      );
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await timedOut;
+      // No worker is started again for the timed-out job
+      expect(workers).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { decodeAllBarcodes } from "@/lib/barcode";
+import { fileToImageData } from "@/lib/image";
+import {
+  decodeWithPreprocessing,
+  type PreprocessOutcome,
+} from "@/lib/preprocess";
+import type { PixelData } from "@/lib/qr";
+import { describeError, pipelineLog } from "@/lib/telemetry";
+
+export type DecodeSource = Blob | PixelData;
+
+export interface DecodeOutcome extends PreprocessOutcome {
+  // Size of the decoded image, which result locations refer to
+  width: number;
+  height: number;
+}
+
+// Messages posted to the decode worker
+export type DecodeRequest =
+  | { type: "decode"; id: number; source: DecodeSource; multiple: boolean }
+  | { type: "cancel"; id: number };
+
+// Messages posted back by the decode worker
+export type DecodeResponse =
+  | { type: "result"; id: number; outcome: DecodeOutcome }
+  // `unsupported` means the worker can't decode images at all in this browser
+  | { type: "error"; id: number; message: string; unsupported: boolean };
+
+export interface DecodeOptions {
+  // Look for every code in the image instead of stopping at the first one
+  multiple?: boolean;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface QRDecoder {
+  decode(source: DecodeSource, options?: DecodeOptions): Promise<DecodeOutcome>;
+  dispose(): void;
+}
+
+export class DecodeAbortedError extends Error {
+  reason: "cancelled" | "timeout";
+
+  constructor(reason: "cancelled" | "timeout") {
+    super(
+      reason === "timeout" ? "Decoding timed out" : "Decoding was cancelled"
+    );
+    this.name = "DecodeAbortedError";
+    this.reason = reason;
+  }
+}
+
+// A 12 MP photo takes about 2 s when its code reads straight away and about
+// 25 s when every preprocessing attempt fails (measured on a single slow
+// core), so this leaves slower phones room before a scan is given up
+export const DEFAULT_DECODE_TIMEOUT_MS = 60000;
+
+// The decoding itself, shared by the worker and the main-thread fallback
+export function decodePixelData(
+  pixels: PixelData,
+  multiple: boolean
+): DecodeOutcome {
+  const outcome = multiple
+    ? decodeWithPreprocessing(pixels)
+    : decodeWithPreprocessing(pixels, {
+        decode: (variant) =>
+          decodeAllBarcodes(variant, { maxCodes: 1, thorough: false }),
+        decodeThorough: null,
+      });
+  return { ...outcome, width: pixels.width, height: pixels.height };
+}
+
+function isBlob(source: DecodeSource): source is Blob {
+  return typeof Blob !== "undefined" && source instanceof Blob;
+}
+
+// Used when workers are unavailable; blocks the main thread while decoding
+async function decodeOnMainThread(
+  source: DecodeSource,
+  multiple: boolean
+): Promise<DecodeOutcome> {
+  const pixels = isBlob(source) ? await fileToImageData(source) : source;
+  return decodePixelData(pixels, multiple);
+}
+
+function createDefaultWorker(): Worker | null {
+  if (typeof Worker === "undefined") {
+    return null;
+  }
+  try {
+    return new Worker(new URL("./decode.worker.ts", import.meta.url), {
+      type: "module",
+    });
+  } catch (err) {
+    pipelineLog.error("decode", "Could not start the decode worker", {
+      data: { error: describeError(err) },
+    });
+    return null;
+  }
+}
+
+interface PendingJob {
+  request: Extract<DecodeRequest, { type: "decode" }>;
+  resolve: (outcome: DecodeOutcome) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+// Decodes images in a Web Worker so large photos don't freeze the UI. Jobs
+// are matched to responses by ID; a timed-out job restarts the worker, since
+// the only way to stop a running decode is to terminate it
+export function createQRDecoder(
+  createWorker: () => Worker | null = createDefaultWorker
+): QRDecoder {
+  let worker: Worker | null = null;
+  let workerAvailable = true;
+  let nextId = 1;
+  const pending = new Map<number, PendingJob>();
+
+  const settle = (id: number) => {
+    const job = pending.get(id);
+    if (job) {
+      pending.delete(id);
+      job.cleanup();
+    }
+    return job;
+  };
+
+  // The job stays pending while it decodes, so its signal and timeout can
+  // still settle it; a late result is then dropped
+  const runOnMainThread = (id: number, job: PendingJob) => {
+    decodeOnMainThread(job.request.source, job.request.multiple).then(
+      (outcome) => settle(id)?.resolve(outcome),
+      (err) => settle(id)?.reject(err)
+    );
+  };
+
+  const fallBackToMainThread = () => {
+    if (!workerAvailable) {
+      return;
+    }
+    pipelineLog.warn(
+      "decode",
+      "Decode worker unavailable, using the main thread"
+    );
+    workerAvailable = false;
+    worker?.terminate();
+    worker = null;
+    for (const [id, job] of pending) {
+      runOnMainThread(id, job);
+    }
+  };
+
+  const handleMessage = (event: MessageEvent<DecodeResponse>) => {
+    const response = event.data;
+    if (response.type === "error" && response.unsupported) {
+      fallBackToMainThread();
+      return;
+    }
+    // Responses for cancelled or timed-out jobs are simply dropped
+    const job = settle(response.id);
+    if (!job) {
+      return;
+    }
+    if (response.type === "result") {
+      job.resolve(response.outcome);
+    } else {
+      job.reject(new Error(response.message));
+    }
+  };
+
+  const startWorker = () => {
+    worker = createWorker();
+    if (!worker) {
+      fallBackToMainThread();
+      return null;
+    }
+    worker.addEventListener("message", handleMessage);
+    worker.addEventListener("error", (event) => {
+      pipelineLog.error("decode", "Decode worker failed", {
+        data: { error: event.message },
+      });
+      fallBackToMainThread();
+    });
+    return worker;
+  };
+
+  // Replaces a stuck worker and hands it every job that is still waiting
+  const restartWorker = () => {
+    worker?.terminate();
+    worker = null;
+    if (pending.size === 0) {
+      return;
+    }
+    // When no new worker starts, the fallback has already taken the jobs over
+    const restarted = startWorker();
+    for (const job of pending.values()) {
+      restarted?.postMessage(job.request);
+    }
+  };
+
+  return {
+    decode(source, options = {}) {
+      const {
+        multiple = true,
+        timeoutMs = DEFAULT_DECODE_TIMEOUT_MS,
+        signal,
+      } = options;
+
+      if (signal?.aborted) {
+        return Promise.reject(new DecodeAbortedError("cancelled"));
+      }
+      const useWorker = workerAvailable && (worker !== null || !!startWorker());
+
+      const id = nextId++;
+      const request: PendingJob["request"] = {
+        type: "decode",
+        id,
+        source,
+        multiple,
+      };
+
+      return new Promise<DecodeOutcome>((resolve, reject) => {
+        const onAbort = () => {
+          if (settle(id)) {
+            worker?.postMessage({ type: "cancel", id } satisfies DecodeRequest);
+            reject(new DecodeAbortedError("cancelled"));
+          }
+        };
+        const timeout = setTimeout(() => {
+          if (settle(id)) {
+            pipelineLog.warn("decode", `Decode job ${id} timed out`, {
+              durationMs: timeoutMs,
+            });
+            reject(new DecodeAbortedError("timeout"));
+            // A main-thread decode can't be stopped, only given up on
+            if (workerAvailable) {
+              restartWorker();
+            }
+          }
+        }, timeoutMs);
+
+        const job: PendingJob = {
+          request,
+          resolve,
+          reject,
+          cleanup: () => {
+            clearTimeout(timeout);
+            signal?.removeEventListener("abort", onAbort);
+          },
+        };
+        pending.set(id, job);
+        signal?.addEventListener("abort", onAbort);
+        if (useWorker) {
+          worker?.postMessage(request);
+        } else {
+          runOnMainThread(id, job);
+        }
+      });
+    },
+
+    dispose() {
+      worker?.terminate();
+      worker = null;
+      for (const [id, job] of pending) {
+        settle(id);
+        job.reject(new DecodeAbortedError("cancelled"));
+      }
+    },
+  };
+}
@@ -0,0 +1,59 @@
+export function base64ToBytes(base64: string): Uint8Array {
+  // Accept both the standard and the URL-safe alphabet, with or without padding
+  const normalized = base64.trim().replace(/-/g, "+").replace(/_/g, "/");
+  const padded = normalized.padEnd(Math.ceil(normalized.length / 4) * 4, "=");
+  const binary = atob(padded);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const normalized = hex.replace(/[\s:]/g, "");
+  if (normalized.length % 2 !== 0 || /[^0-9a-fA-F]/.test(normalized)) {
+    throw new Error("Invalid hex string");
+  }
+  return Uint8Array.from(normalized.match(/../g) ?? [], (pair) =>
+    parseInt(pair, 16)
+  );
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+export interface HexDumpRow {
+  offset: string;
+  hex: string;
+  // Printable ASCII, with a dot for every other byte
+  text: string;
+}
+
+export function hexDump(bytes: Uint8Array, bytesPerRow = 16): HexDumpRow[] {
+  const rows: HexDumpRow[] = [];
+  for (let start = 0; start < bytes.length; start += bytesPerRow) {
+    const row = bytes.subarray(start, start + bytesPerRow);
+    rows.push({
+      offset: start.toString(16).padStart(4, "0"),
+      hex: Array.from(row, (byte) => byte.toString(16).padStart(2, "0")).join(
+        " "
+      ),
+      text: Array.from(row, (byte) =>
+        byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : "."
+      ).join(""),
+    });
+  }
+  return rows;
+}
@@ -0,0 +1,167 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CSV_OPTIONS,
+  DEFAULT_DATEV_OPTIONS,
+  EXPORT_COLUMNS,
+  isBookableReceipt,
+  toCsv,
+  toCsvLine,
+  toDatevCsv,
+  toJsonLines,
+} from "@/lib/export";
+import { parseReceiptString, type GermanReceiptData } from "@/lib/receipt";
+
+const SIGNATURE =
+  "ecdsa-plain-SHA256;unixTime;MEQCIAy4P9k+7x9saDO0uRZ4El8QwN+qTgYiv1DIaJIMWRiuAiAt+saFDGjK2Yi5Cxgy7PprXQ5O0seRgx4ltdpW9REvwA==;BHhWOeisRpPBTGQ1W4VUH95TXx2GARf8e2NYZXJoInjtGqnxJ8sZ3CQpYgjI+LYEmW5A37sLWHsyU7nSJUBemyU=";
+
+function receipt(label: string, counter: number): GermanReceiptData {
+  return parseReceiptString(
+    `V0;955002-00;Kassenbeleg-V1;${label}^0.00_2.55_0.00_0.00_0.00^2.55:Bar;${counter};112;2019-07-10T18:41:04.000Z;2019-07-10T18:41:04.000Z;${SIGNATURE}`
+  ) as GermanReceiptData;
+}
+
+const DATEV_OPTIONS = {
+  ...DEFAULT_DATEV_OPTIONS,
+  fiscalYearStart: "2019-01-01",
+  createdAt: new Date("2019-08-01T10:00:00.000Z"),
+};
+
+// Split payments, several VAT rates, a void and a training receipt. The
+// invoice is signed just before midnight UTC, already New Year in Germany
+const GOLDEN_RECEIPTS = [
+  [
+    "Beleg^12.00_3.21_0.00_0.00_0.00^10.00:Bar_5.21:Unbar",
+    18,
+    "2019-07-10T18:41:04.000Z",
+  ],
+  [
+    "AVRechnung^100.00_0.00_21.40_0.00_5.00^126.40:Unbar",
+    19,
+    "2019-12-31T23:30:00.000Z",
+  ],
+  [
+    "AVBelegstorno^-12.00_-3.21_0.00_0.00_0.00^-15.21:Bar",
+    20,
+    "2020-01-02T08:05:09.000Z",
+  ],
+  [
+    "AVTraining^4.20_0.00_0.00_0.00_0.00^4.20:Bar",
+    21,
+    "2020-01-02T08:06:00.000Z",
+  ],
+].map(
+  ([processData, counter, timestamp]) =>
+    parseReceiptString(
+      `V0;955002-00;Kassenbeleg-V1;${processData};${counter};112;${timestamp};${timestamp};${SIGNATURE}`
+    ) as GermanReceiptData
+);
+
+function golden(name: string): string {
+  return readFileSync(
+    new URL(`./__fixtures__/export/${name}`, import.meta.url),
+    "utf-8"
+  );
+}
+
+function bookings(csv: string): string[] {
+  return csv.trimEnd().split("\r\n").slice(2);
+}
+
+describe("toCsvLine", () => {
+  it("quotes fields holding the delimiter, quotes or line breaks", () => {
+    expect(toCsvLine(["a;b", 'say "hi"', "two\nlines", "plain"], ";")).toBe(
+      '"a;b";"say ""hi""";"two\nlines";plain'
+    );
+  });
+
+  it.each(["=HYPERLINK(1)", "+1+1", "-1+cmd", "@SUM(A1)"])(
+    "keeps spreadsheets from running %s as a formula",
+    (value) => {
+      expect(toCsvLine([value], ";")).toBe(`'${value}`);
+    }
+  );
+
+  it("quotes a neutralised formula that holds the delimiter", () => {
+    expect(toCsvLine(["=1;2"], ";")).toBe(`"'=1;2"`);
+  });
+
+  it("leaves negative amounts as numbers", () => {
+    expect(toCsvLine(["-2,55", "-3.10", "-4"], ";")).toBe("-2,55;-3.10;-4");
+  });
+});
+
+describe("toCsv", () => {
+  it("writes a header and one line per receipt", () => {
+    const csv = toCsv([receipt("Beleg", 18)], {
+      ...DEFAULT_CSV_OPTIONS,
+      columns: ["totalAmount", "paymentMethod"],
+    });
+
+    expect(csv.split("\r\n")).toHaveLength(3);
+    expect(csv.split("\r\n")[1]).toMatch(/^2,55;Bar$/);
+  });
+});
+
+describe("toDatevCsv", () => {
+  it("books sales receipts with the matching tax key", () => {
+    const lines = bookings(toDatevCsv([receipt("Beleg", 18)], DATEV_OPTIONS));
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatch(/^2,55;"S";"EUR";;;"";4980;1000;"8";1007;"18";/);
+  });
+
+  it("leaves training and aborted transactions out of the books", () => {
+    const csv = toDatevCsv(
+      [
+        receipt("AVTraining", 1),
+        receipt("Beleg", 2),
+        receipt("AVBelegabbruch", 3),
+        receipt("AVBestellung", 4),
+      ],
+      DATEV_OPTIONS
+    );
+
+    expect(bookings(csv).map((line) => line.split(";")[10])).toEqual(['"2"']);
+  });
+
+  it("writes an empty batch when nothing is bookable", () => {
+    const csv = toDatevCsv([receipt("AVTraining", 1)], DATEV_OPTIONS);
+
+    expect(bookings(csv)).toEqual([]);
+    expect(csv.startsWith('"EXTF";700;21;"Buchungsstapel"')).toBe(true);
+  });
+});
+
+describe("isBookableReceipt", () => {
+  it("accepts sales, invoices and voids", () => {
+    expect(isBookableReceipt(receipt("Beleg", 1))).toBe(true);
+    expect(isBookableReceipt(receipt("AVRechnung", 1))).toBe(true);
+    expect(isBookableReceipt(receipt("AVBelegstorno", 1))).toBe(true);
+    expect(isBookableReceipt(receipt("AVTraining", 1))).toBe(false);
+  });
+});
+
+describe("golden files", () => {
+  it("matches the CSV export with every column", () => {
+    const csv = toCsv(GOLDEN_RECEIPTS, {
+      ...DEFAULT_CSV_OPTIONS,
+      columns: EXPORT_COLUMNS.map((column) => column.id),
+    });
+
+    expect(csv).toBe(golden("receipts.csv"));
+  });
+
+  it("matches the JSON Lines export", () => {
+    expect(toJsonLines(GOLDEN_RECEIPTS)).toBe(golden("receipts.jsonl"));
+  });
+
+  it("matches the DATEV batch with one booking per VAT rate", () => {
+    const csv = toDatevCsv(GOLDEN_RECEIPTS, {
+      ...DATEV_OPTIONS,
+      createdAt: new Date("2020-01-15T09:30:00.250Z"),
+    });
+
+    expect(csv).toBe(golden("receipts.datev.csv"));
+  });
+});
@@ -0,0 +1,433 @@
+import {
+  RECEIPT_TIME_ZONE,
+  VAT_RATE_FIELDS,
+  type GermanReceiptData,
+  type VatBreakdown,
+} from "@/lib/receipt";
+
+export type ExportFormat = "csv" | "jsonl" | "datev";
+
+export type NumberLocale = "de" | "en";
+
+export interface ExportColumn {
+  id: string;
+  header: string;
+  value: (receipt: GermanReceiptData, locale: NumberLocale) => string;
+}
+
+export interface CsvOptions {
+  columns: string[];
+  delimiter: string;
+  locale: NumberLocale;
+}
+
+export interface DatevOptions {
+  consultantNumber: string;
+  clientNumber: string;
+  // First day of the fiscal year, YYYY-MM-DD
+  fiscalYearStart: string;
+  expenseAccount: string;
+  cashAccount: string;
+  bankAccount: string;
+  // DATEV tax keys (BU-Schlüssel) per VAT rate slot
+  taxKeys: Record<keyof Omit<VatBreakdown, "total">, string>;
+  // Batch creation time, injectable so output is reproducible
+  createdAt?: Date;
+}
+
+const VAT_RATE_LABELS: Record<keyof Omit<VatBreakdown, "total">, string> = {
+  vat19: "19%",
+  vat7: "7%",
+  vat10_7: "10,7%",
+  vat5_5: "5,5%",
+  vat0: "0%",
+};
+
+// SKR03 defaults: 4980 Betriebsbedarf, 1000 Kasse, 1360 Geldtransit
+export const DEFAULT_DATEV_OPTIONS: DatevOptions = {
+  consultantNumber: "1001",
+  clientNumber: "1",
+  fiscalYearStart: `${new Date().getFullYear()}-01-01`,
+  expenseAccount: "4980",
+  cashAccount: "1000",
+  bankAccount: "1360",
+  taxKeys: {
+    vat19: "9",
+    vat7: "8",
+    vat10_7: "",
+    vat5_5: "",
+    vat0: "",
+  },
+};
+
+export function formatAmount(amount: number, locale: NumberLocale): string {
+  const formatted = amount.toFixed(2);
+  return locale === "de" ? formatted.replace(".", ",") : formatted;
+}
+
+function dateParts(timestamp: string) {
+  const parts = new Intl.DateTimeFormat("de-DE", {
+    timeZone: RECEIPT_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(timestamp));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    time: `${get("hour")}:${get("minute")}:${get("second")}`,
+  };
+}
+
+export function formatDate(timestamp: string, locale: NumberLocale): string {
+  if (isNaN(Date.parse(timestamp))) {
+    return timestamp;
+  }
+  const { year, month, day } = dateParts(timestamp);
+  return locale === "de"
+    ? `${day}.${month}.${year}`
+    : `${year}-${month}-${day}`;
+}
+
+export function formatTime(timestamp: string): string {
+  return isNaN(Date.parse(timestamp)) ? "" : dateParts(timestamp).time;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  {
+    id: "date",
+    header: "Date",
+    value: (receipt, locale) => formatDate(receipt.timestampEnd, locale),
+  },
+  {
+    id: "time",
+    header: "Time",
+    value: (receipt) => formatTime(receipt.timestampEnd),
+  },
+  {
+    id: "totalAmount",
+    header: "Total",
+    value: (receipt, locale) =>
+      formatAmount(receipt.receipt.totalAmount, locale),
+  },
+  ...VAT_RATE_FIELDS.map(
+    (field): ExportColumn => ({
+      id: field,
+      header: `Gross ${VAT_RATE_LABELS[field]}`,
+      value: (receipt, locale) =>
+        formatAmount(receipt.receipt.vatBreakdown[field], locale),
+    })
+  ),
+  {
+    id: "paymentMethod",
+    header: "Payment Method",
+    value: (receipt) => receipt.receipt.paymentMethod,
+  },
+  {
+    id: "label",
+    header: "Process Type",
+    value: (receipt) => receipt.receipt.label,
+  },
+  {
+    id: "receiptCounter",
+    header: "Transaction Number",
+    value: (receipt) => String(receipt.receiptCounter),
+  },
+  {
+    id: "transactionUUID",
+    header: "Register Serial Number",
+    value: (receipt) => receipt.transactionUUID,
+  },
+  {
+    id: "registerID",
+    header: "Signature Counter",
+    value: (receipt) => receipt.registerID,
+  },
+  {
+    id: "timestampStart",
+    header: "Start Time",
+    value: (receipt) => receipt.timestampStart,
+  },
+  {
+    id: "timestampEnd",
+    header: "End Time",
+    value: (receipt) => receipt.timestampEnd,
+  },
+  {
+    id: "signature",
+    header: "Signature",
+    value: (receipt) => receipt.signature,
+  },
+];
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = {
+  columns: [
+    "date",
+    "time",
+    "totalAmount",
+    ...VAT_RATE_FIELDS,
+    "paymentMethod",
+    "receiptCounter",
+    "transactionUUID",
+  ],
+  delimiter: ";",
+  locale: "de",
+};
+
+// Spreadsheets run cells starting with these as formulas, so such text is
+// prefixed with an apostrophe. Negative amounts stay numbers
+const FORMULA_PREFIX = /^[=+\-@]/;
+const NUMBER_PATTERN = /^-?\d+([.,]\d+)?$/;
+
+function escapeCsvField(value: string, delimiter: string): string {
+  const field =
+    FORMULA_PREFIX.test(value) && !NUMBER_PATTERN.test(value)
+      ? `'${value}`
+      : value;
+  if (
+    field.includes(delimiter) ||
+    field.includes('"') ||
+    /[\r\n]/.test(field)
+  ) {
+    return `"${field.replace(/"/g, '""')}"`;
+  }
+  return field;
+}
+
+export function toCsvLine(values: string[], delimiter: string): string {
+  return values
+    .map((value) => escapeCsvField(value, delimiter))
+    .join(delimiter);
+}
+
+export function toCsv(
+  receipts: GermanReceiptData[],
+  options: CsvOptions = DEFAULT_CSV_OPTIONS
+): string {
+  const columns = options.columns
+    .map((id) => EXPORT_COLUMNS.find((column) => column.id === id))
+    .filter((column): column is ExportColumn => Boolean(column));
+
+  const lines = [
+    toCsvLine(
+      columns.map((column) => column.header),
+      options.delimiter
+    ),
+    ...receipts.map((receipt) =>
+      toCsvLine(
+        columns.map((column) => column.value(receipt, options.locale)),
+        options.delimiter
+      )
+    ),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function toJsonLines(receipts: GermanReceiptData[]): string {
+  return receipts.map((receipt) => JSON.stringify(receipt) + "\n").join("");
+}
+
+// DATEV text fields are quoted; embedded quotes are doubled
+function datevText(value: string, maxLength: number): string {
+  return `"${value.slice(0, maxLength).replace(/"/g, '""')}"`;
+}
+
+function compactDate(timestamp: string): string {
+  const { year, month, day } = dateParts(timestamp);
+  return `${year}${month}${day}`;
+}
+
+const DATEV_COLUMNS = [
+  "Umsatz (ohne Soll/Haben-Kz)",
+  "Soll/Haben-Kennzeichen",
+  "WKZ Umsatz",
+  "Kurs",
+  "Basis-Umsatz",
+  "WKZ Basis-Umsatz",
+  "Konto",
+  "Gegenkonto (ohne BU-Schlüssel)",
+  "BU-Schlüssel",
+  "Belegdatum",
+  "Belegfeld 1",
+  "Belegfeld 2",
+  "Skonto",
+  "Buchungstext",
+];
+
+// Process types that record an actual sale (or the void of one). Training
+// receipts, aborted transactions, orders and transfers between registers
+// never belong in the books
+const DATEV_BOOKED_LABELS: readonly string[] = [
+  "Beleg",
+  "AVBelegstorno",
+  "AVRechnung",
+  "AVSachbezug",
+];
+
+export function isBookableReceipt(receipt: GermanReceiptData): boolean {
+  return (
+    receipt.documentType === "Kassenbeleg-V1" &&
+    DATEV_BOOKED_LABELS.includes(receipt.receipt.label)
+  );
+}
+
+// DATEV "Buchungsstapel" (EXTF format, category 21): one booking line per
+// receipt and VAT rate, so each line can carry the matching tax key. Only
+// sales receipts are booked
+export function toDatevCsv(
+  allReceipts: GermanReceiptData[],
+  options: DatevOptions = DEFAULT_DATEV_OPTIONS
+): string {
+  const receipts = allReceipts.filter(isBookableReceipt);
+  const createdAt = options.createdAt ?? new Date();
+  const timestamps = receipts
+    .map((receipt) => receipt.timestampEnd)
+    .filter((timestamp) => !isNaN(Date.parse(timestamp)))
+    .sort((a, b) => Date.parse(a) - Date.parse(b));
+  const firstDate = timestamps.length
+    ? compactDate(timestamps[0])
+    : compactDate(createdAt.toISOString());
+  const lastDate = timestamps.length
+    ? compactDate(timestamps[timestamps.length - 1])
+    : firstDate;
+
+  const createdParts = dateParts(createdAt.toISOString());
+  const createdStamp = `${createdParts.year}${createdParts.month}${
+    createdParts.day
+  }${createdParts.time.replace(/:/g, "")}${String(
+    createdAt.getUTCMilliseconds()
+  ).padStart(3, "0")}`;
+
+  const header = [
+    '"EXTF"',
+    "700",
+    "21",
+    '"Buchungsstapel"',
+    "13",
+    createdStamp,
+    "",
+    '"QR"',
+    '""',
+    '""',
+    options.consultantNumber,
+    options.clientNumber,
+    options.fiscalYearStart.replace(/-/g, ""),
+    "4",
+    firstDate,
+    lastDate,
+    datevText("Kassenbelege", 30),
+    '""',
+    "1",
+    "0",
+    "0",
+    '"EUR"',
+  ].join(";");
+
+  const bookings: string[] = [];
+  for (const receipt of receipts) {
+    const { day, month } = dateParts(receipt.timestampEnd);
+    const contraAccount = receipt.receipt.payments.every(
+      (payment) => payment.type === "Bar"
+    )
+      ? options.cashAccount
+      : options.bankAccount;
+
+    for (const field of VAT_RATE_FIELDS) {
+      const amount = receipt.receipt.vatBreakdown[field];
+      if (amount === 0) {
+        continue;
+      }
+
+      bookings.push(
+        [
+          formatAmount(Math.abs(amount), "de"),
+          // Expenses are debited; negative amounts (e.g. voids) reverse that
+          amount > 0 ? '"S"' : '"H"',
+          '"EUR"',
+          "",
+          "",
+          '""',
+          options.expenseAccount,
+          contraAccount,
+          datevText(options.taxKeys[field], 4),
+          `${day}${month}`,
+          datevText(String(receipt.receiptCounter), 36),
+          '""',
+          "",
+          datevText(
+            `${receipt.receipt.label} ${VAT_RATE_LABELS[field]} ${receipt.transactionUUID}`,
+            60
+          ),
+        ].join(";")
+      );
+    }
+  }
+
+  return (
+    [
+      header,
+      DATEV_COLUMNS.map((column) => datevText(column, 60)).join(";"),
+      ...bookings,
+    ].join("\r\n") + "\r\n"
+  );
+}
+
+const EXPORT_FILES: Record<ExportFormat, { extension: string; type: string }> =
+  {
+    csv: { extension: "csv", type: "text/csv;charset=utf-8" },
+    jsonl: { extension: "jsonl", type: "application/x-ndjson" },
+    datev: { extension: "csv", type: "text/csv;charset=utf-8" },
+  };
+
+export function exportFileName(
+  format: ExportFormat,
+  date = new Date()
+): string {
+  const stamp = date.toISOString().slice(0, 10);
+  return format === "datev"
+    ? `EXTF_Buchungsstapel_${stamp}.csv`
+    : `receipts_${stamp}.${EXPORT_FILES[format].extension}`;
+}
+
+export function downloadFile(content: string, fileName: string, type: string) {
+  // A BOM lets Excel detect UTF-8 so umlauts survive
+  const blob = new Blob(
+    type.startsWith("text/csv") ? ["\uFEFF", content] : [content],
+    {
+      type,
+    }
+  );
+  downloadBlob(blob, fileName);
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function exportReceipts(
+  receipts: GermanReceiptData[],
+  format: ExportFormat,
+  options: { csv?: CsvOptions; datev?: DatevOptions } = {}
+) {
+  const content =
+    format === "csv"
+      ? toCsv(receipts, options.csv)
+      : format === "jsonl"
+      ? toJsonLines(receipts)
+      : toDatevCsv(receipts, options.datev);
+
+  downloadFile(content, exportFileName(format), EXPORT_FILES[format].type);
+}
@@ -0,0 +1,235 @@
+import { describe, expect, it } from "vitest";
+import { createMockProvider, type VisionRequest } from "@/lib/ai";
+import {
+  extractReceipt,
+  parseExtractionResponse,
+  ReceiptExtractionError,
+  validateExtractedReceipt,
+  type ExtractedReceipt,
+} from "@/lib/extraction";
+
+const IMAGE = "data:image/png;base64,iVBORw0KGgo=";
+
+const RECEIPT: ExtractedReceipt = {
+  merchantName: "Bäckerei Schmidt",
+  merchantAddress: "Hauptstraße 1, 10115 Berlin",
+  vatId: "DE123456789",
+  date: "2024-03-15",
+  time: "08:42",
+  currency: "EUR",
+  lineItems: [
+    {
+      description: "Brötchen",
+      quantity: 4,
+      unitPrice: 0.45,
+      totalPrice: 1.8,
+      vatRate: 7,
+    },
+    {
+      description: "Kaffee",
+      quantity: 1,
+      unitPrice: 2.9,
+      totalPrice: 2.9,
+      vatRate: 19,
+    },
+  ],
+  vatTotals: [
+    { rate: 7, net: 1.68, vat: 0.12, gross: 1.8 },
+    { rate: 19, net: 2.44, vat: 0.46, gross: 2.9 },
+  ],
+  totalAmount: 4.7,
+  paymentMethod: "Bar",
+  receiptNumber: "4711",
+};
+
+// Answers each call with the next reply and records the requests
+function scriptedProvider(replies: string[]) {
+  const requests: VisionRequest[] = [];
+  const provider = createMockProvider((request) => {
+    requests.push(request);
+    const reply = replies[requests.length - 1];
+    if (reply === undefined) {
+      throw new Error("No more replies");
+    }
+    return reply;
+  });
+  return { provider, requests };
+}
+
+// The receipt as a model might answer it with one field left out
+function without(key: keyof ExtractedReceipt): Record<string, unknown> {
+  const partial: Record<string, unknown> = { ...RECEIPT };
+  delete partial[key];
+  return partial;
+}
+
+describe("validateExtractedReceipt", () => {
+  it("accepts a complete receipt and drops unknown fields", () => {
+    const result = validateExtractedReceipt({
+      ...RECEIPT,
+      confidence: 0.9,
+      lineItems: [{ ...RECEIPT.lineItems[0], sku: "B-1" }],
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      receipt: { ...RECEIPT, lineItems: [RECEIPT.lineItems[0]] },
+    });
+  });
+
+  it("accepts null for fields that aren't printed", () => {
+    const result = validateExtractedReceipt({
+      ...RECEIPT,
+      vatId: null,
+      time: null,
+      lineItems: [{ ...RECEIPT.lineItems[0], vatRate: null }],
+      vatTotals: [{ rate: 7, net: null, vat: null, gross: 1.8 }],
+      totalAmount: null,
+    });
+
+    expect(result.ok).toBe(true);
+  });
+
+  it("reports missing fields and wrong types by path", () => {
+    const result = validateExtractedReceipt({
+      ...without("merchantName"),
+      totalAmount: "4,70 €",
+      lineItems: [{ ...RECEIPT.lineItems[0], quantity: null }],
+      vatTotals: [{ rate: 7, net: NaN, vat: 0.12, gross: 1.8 }],
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      issues: [
+        { path: "merchantName", message: "is missing" },
+        {
+          path: "lineItems.0.quantity",
+          message: "should be number, got null",
+        },
+        {
+          path: "vatTotals.0.net",
+          message: "should be number or null, got invalid number",
+        },
+        {
+          path: "totalAmount",
+          message: "should be number or null, got string",
+        },
+      ],
+    });
+  });
+
+  it("rejects dates that aren't YYYY-MM-DD", () => {
+    for (const date of ["15.03.2024", "2024-13-45"]) {
+      expect(validateExtractedReceipt({ ...RECEIPT, date })).toEqual({
+        ok: false,
+        issues: [
+          { path: "date", message: "should be a date in YYYY-MM-DD format" },
+        ],
+      });
+    }
+  });
+
+  it("rejects an answer that isn't an object", () => {
+    expect(validateExtractedReceipt([RECEIPT])).toEqual({
+      ok: false,
+      issues: [{ path: "", message: "should be object, got array" }],
+    });
+  });
+});
+
+describe("parseExtractionResponse", () => {
+  it("unwraps a Markdown code fence", () => {
+    const result = parseExtractionResponse(
+      "```json\n" + JSON.stringify(RECEIPT) + "\n```"
+    );
+
+    expect(result).toEqual({ ok: true, receipt: RECEIPT });
+  });
+
+  it("rejects text that isn't JSON", () => {
+    expect(
+      parseExtractionResponse("Sorry, I can't read this receipt.")
+    ).toEqual({
+      ok: false,
+      issues: [{ path: "", message: "is not valid JSON" }],
+    });
+  });
+});
+
+describe("extractReceipt", () => {
+  it("asks once for a receipt matching the schema", async () => {
+    const { provider, requests } = scriptedProvider([JSON.stringify(RECEIPT)]);
+
+    await expect(extractReceipt(provider, IMAGE)).resolves.toEqual(RECEIPT);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].image).toBe(IMAGE);
+    expect(requests[0].jsonSchema?.name).toBe("receipt");
+  });
+
+  it("accepts the default mock answer", async () => {
+    const receipt = await extractReceipt(createMockProvider(), IMAGE);
+
+    expect(receipt.date).toBe("2024-01-01");
+    expect(receipt.lineItems).toHaveLength(1);
+  });
+
+  it("retries a non-JSON answer", async () => {
+    const { provider, requests } = scriptedProvider([
+      "Here is the receipt: {",
+      JSON.stringify(RECEIPT),
+    ]);
+
+    await expect(extractReceipt(provider, IMAGE)).resolves.toEqual(RECEIPT);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].prompt).toContain(
+      "Your previous answer was rejected: (root) is not valid JSON."
+    );
+  });
+
+  it("retries a partial answer with the issues as feedback", async () => {
+    const { provider, requests } = scriptedProvider([
+      JSON.stringify(without("lineItems")),
+      JSON.stringify(RECEIPT),
+    ]);
+
+    await expect(extractReceipt(provider, IMAGE)).resolves.toEqual(RECEIPT);
+    expect(requests[1].prompt).toContain(
+      "Your previous answer was rejected: lineItems is missing."
+    );
+  });
+
+  it("gives up after the last attempt with the final issues and answer", async () => {
+    const last = JSON.stringify({ ...RECEIPT, currency: 978 });
+    const { provider, requests } = scriptedProvider(["not json", last, "{}"]);
+
+    const error = await extractReceipt(provider, IMAGE).catch((err) => err);
+
+    expect(requests).toHaveLength(2);
+    expect(error).toBeInstanceOf(ReceiptExtractionError);
+    expect(error.issues).toEqual([
+      { path: "currency", message: "should be string or null, got number" },
+    ]);
+    expect(error.response).toBe(last);
+    expect(error.message).toBe(
+      "AI response did not match the receipt schema: currency should be string or null, got number"
+    );
+  });
+
+  it("makes as many attempts as asked", async () => {
+    const { provider, requests } = scriptedProvider(["{}", "{}", "{}"]);
+
+    await expect(extractReceipt(provider, IMAGE, 3)).rejects.toBeInstanceOf(
+      ReceiptExtractionError
+    );
+    expect(requests).toHaveLength(3);
+  });
+
+  it("passes API errors through without retrying", async () => {
+    const { provider, requests } = scriptedProvider([]);
+
+    await expect(extractReceipt(provider, IMAGE)).rejects.toThrow(
+      "No more replies"
+    );
+    expect(requests).toHaveLength(1);
+  });
+});
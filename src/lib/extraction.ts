@@ -0,0 +1,325 @@
+import { stripCodeFence, type JsonSchema, type VisionProvider } from "@/lib/ai";
+import { pipelineLog } from "@/lib/telemetry";
+
+export interface ExtractedLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  // Percent, e.g. 19 or 7
+  vatRate: number | null;
+}
+
+export interface ExtractedVatTotal {
+  rate: number;
+  net: number | null;
+  vat: number | null;
+  gross: number | null;
+}
+
+// Everything the vision model could read off the receipt; null when a field
+// isn't printed or isn't legible
+export interface ExtractedReceipt {
+  merchantName: string | null;
+  merchantAddress: string | null;
+  vatId: string | null;
+  // YYYY-MM-DD
+  date: string | null;
+  // HH:MM as printed (local time)
+  time: string | null;
+  currency: string | null;
+  lineItems: ExtractedLineItem[];
+  vatTotals: ExtractedVatTotal[];
+  totalAmount: number | null;
+  paymentMethod: string | null;
+  receiptNumber: string | null;
+}
+
+export interface ExtractionIssue {
+  // Dotted path of the offending field, e.g. "lineItems.0.quantity"
+  path: string;
+  message: string;
+}
+
+export type ExtractionValidationResult =
+  | { ok: true; receipt: ExtractedReceipt }
+  | { ok: false; issues: ExtractionIssue[] };
+
+export class ReceiptExtractionError extends Error {
+  issues: ExtractionIssue[];
+  // Last answer from the model, for debugging
+  response: string;
+
+  constructor(issues: ExtractionIssue[], response: string) {
+    super(
+      `AI response did not match the receipt schema: ${formatExtractionIssues(
+        issues
+      )}`
+    );
+    this.name = "ReceiptExtractionError";
+    this.issues = issues;
+    this.response = response;
+  }
+}
+
+export function formatExtractionIssues(issues: ExtractionIssue[]): string {
+  return issues
+    .map((issue) => `${issue.path || "(root)"} ${issue.message}`)
+    .join("; ");
+}
+
+const nullable = (type: string): string[] => [type, "null"];
+
+// Kept in sync with ExtractedReceipt by hand; the OpenAI strict mode needs
+// every property listed as required, with optional ones made nullable
+export const RECEIPT_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: [
+    "merchantName",
+    "merchantAddress",
+    "vatId",
+    "date",
+    "time",
+    "currency",
+    "lineItems",
+    "vatTotals",
+    "totalAmount",
+    "paymentMethod",
+    "receiptNumber",
+  ],
+  properties: {
+    merchantName: { type: nullable("string") },
+    merchantAddress: {
+      type: nullable("string"),
+      description: "Full address on one line",
+    },
+    vatId: {
+      type: nullable("string"),
+      description: "USt-IdNr. or Steuernummer",
+    },
+    date: { type: nullable("string"), format: "date" },
+    time: {
+      type: nullable("string"),
+      description: "Time as printed, 24-hour HH:MM",
+    },
+    currency: {
+      type: nullable("string"),
+      description: "ISO 4217 code, e.g. EUR",
+    },
+    lineItems: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: [
+          "description",
+          "quantity",
+          "unitPrice",
+          "totalPrice",
+          "vatRate",
+        ],
+        properties: {
+          description: { type: "string" },
+          quantity: { type: "number" },
+          unitPrice: { type: "number" },
+          totalPrice: { type: "number" },
+          vatRate: {
+            type: nullable("number"),
+            description: "VAT rate in percent, e.g. 19",
+          },
+        },
+      },
+    },
+    vatTotals: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["rate", "net", "vat", "gross"],
+        properties: {
+          rate: { type: "number", description: "VAT rate in percent" },
+          net: { type: nullable("number") },
+          vat: { type: nullable("number") },
+          gross: { type: nullable("number") },
+        },
+      },
+    },
+    totalAmount: { type: nullable("number") },
+    paymentMethod: {
+      type: nullable("string"),
+      description: "e.g. Bar, EC-Karte, Kreditkarte",
+    },
+    receiptNumber: {
+      type: nullable("string"),
+      description: "Beleg-Nr., Bon-Nr. or transaction number",
+    },
+  },
+};
+
+export const RECEIPT_EXTRACTION_PROMPT = `What you see is a German receipt. Extract its contents as JSON matching this schema:
+
+${JSON.stringify(RECEIPT_SCHEMA)}
+
+Use null for anything that is not printed or not legible, never guess. Amounts are plain numbers in the receipt's currency (12.5, not "12,50 €").`;
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value === "number" && !Number.isFinite(value)
+    ? "invalid number"
+    : typeof value;
+}
+
+const childPath = (path: string, key: string | number) =>
+  path ? `${path}.${key}` : `${key}`;
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  issues: ExtractionIssue[]
+): void {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const actual = typeOf(value);
+  if (!types.includes(actual)) {
+    issues.push({
+      path,
+      message: `should be ${types.join(" or ")}, got ${actual}`,
+    });
+    return;
+  }
+
+  if (
+    actual === "string" &&
+    schema.format === "date" &&
+    !(
+      /^\d{4}-\d{2}-\d{2}$/.test(value as string) &&
+      !isNaN(Date.parse(value as string))
+    )
+  ) {
+    issues.push({ path, message: "should be a date in YYYY-MM-DD format" });
+  }
+
+  if (actual === "array" && schema.items) {
+    (value as unknown[]).forEach((item, index) =>
+      validateNode(item, schema.items!, childPath(path, index), issues)
+    );
+  }
+
+  if (actual === "object" && schema.properties) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        issues.push({ path: childPath(path, key), message: "is missing" });
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties)) {
+      if (key in record) {
+        validateNode(record[key], property, childPath(path, key), issues);
+      }
+    }
+  }
+}
+
+// Checks an already-parsed model answer against RECEIPT_SCHEMA. Unknown extra
+// fields are dropped rather than rejected
+export function validateExtractedReceipt(
+  value: unknown
+): ExtractionValidationResult {
+  const issues: ExtractionIssue[] = [];
+  validateNode(value, RECEIPT_SCHEMA, "", issues);
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  const record = value as ExtractedReceipt;
+  return {
+    ok: true,
+    receipt: {
+      merchantName: record.merchantName,
+      merchantAddress: record.merchantAddress,
+      vatId: record.vatId,
+      date: record.date,
+      time: record.time,
+      currency: record.currency,
+      lineItems: record.lineItems.map((item) => ({
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        totalPrice: item.totalPrice,
+        vatRate: item.vatRate,
+      })),
+      vatTotals: record.vatTotals.map((total) => ({
+        rate: total.rate,
+        net: total.net,
+        vat: total.vat,
+        gross: total.gross,
+      })),
+      totalAmount: record.totalAmount,
+      paymentMethod: record.paymentMethod,
+      receiptNumber: record.receiptNumber,
+    },
+  };
+}
+
+// Parses the model's text answer, tolerating a surrounding Markdown code fence
+export function parseExtractionResponse(
+  response: string
+): ExtractionValidationResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFence(response));
+  } catch {
+    return {
+      ok: false,
+      issues: [{ path: "", message: "is not valid JSON" }],
+    };
+  }
+  return validateExtractedReceipt(value);
+}
+
+// Asks the vision model for the full receipt contents. A malformed answer is
+// retried with the validation issues as feedback; after `maxAttempts` the
+// extraction fails with a ReceiptExtractionError. API errors are thrown as-is
+export async function extractReceipt(
+  provider: VisionProvider,
+  base64Image: string,
+  maxAttempts = 2
+): Promise<ExtractedReceipt> {
+  let prompt = RECEIPT_EXTRACTION_PROMPT;
+  let issues: ExtractionIssue[] = [];
+  let response = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    response = await provider.complete({
+      prompt,
+      image: base64Image,
+      maxTokens: 2000,
+      jsonSchema: { name: "receipt", schema: RECEIPT_SCHEMA },
+    });
+
+    const parsed = parseExtractionResponse(response);
+    if (parsed.ok) {
+      return parsed.receipt;
+    }
+
+    issues = parsed.issues;
+    pipelineLog.warn(
+      "ai",
+      `Extraction attempt ${attempt} returned an invalid receipt`,
+      { data: { issues } }
+    );
+    prompt = `${RECEIPT_EXTRACTION_PROMPT}
+
+Your previous answer was rejected: ${formatExtractionIssues(
+      issues
+    )}. Respond again with only the corrected JSON.`;
+  }
+
+  throw new ReceiptExtractionError(issues, response);
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { collectDroppedFiles, isImageFile } from "@/lib/files";
+
+// Stands in for the browser's FileSystemEntry tree. Directory readers hand
+// out their children asynchronously, two at a time, like Chrome's 100-entry
+// pages
+function fileEntry(file: File, error?: Error): FileSystemFileEntry {
+  return {
+    isFile: true,
+    isDirectory: false,
+    name: file.name,
+    file: (resolve: (file: File) => void, reject: (error: Error) => void) =>
+      error ? reject(error) : resolve(file),
+  } as unknown as FileSystemFileEntry;
+}
+
+function directoryEntry(
+  name: string,
+  children: FileSystemEntry[]
+): FileSystemDirectoryEntry {
+  return {
+    isFile: false,
+    isDirectory: true,
+    name,
+    createReader: () => {
+      let offset = 0;
+      return {
+        readEntries: (resolve: (entries: FileSystemEntry[]) => void) => {
+          const page = children.slice(offset, offset + 2);
+          offset += 2;
+          queueMicrotask(() => resolve(page));
+        },
+      };
+    },
+  } as unknown as FileSystemDirectoryEntry;
+}
+
+function dataTransfer(
+  entries: (FileSystemEntry | null)[],
+  files: File[] = []
+): DataTransfer {
+  return {
+    items: entries.map((entry) => ({ webkitGetAsEntry: () => entry })),
+    files,
+  } as unknown as DataTransfer;
+}
+
+const file = (name: string, type = "image/jpeg") =>
+  new File(["data"], name, { type });
+
+describe("collectDroppedFiles", () => {
+  it("flattens folders recursively, reading every page of entries", async () => {
+    const files = ["a.jpg", "b.jpg", "c.jpg", "d.pdf", "e.png"].map((name) =>
+      file(name)
+    );
+    const drop = dataTransfer([
+      fileEntry(files[0]),
+      directoryEntry("receipts", [
+        fileEntry(files[1]),
+        fileEntry(files[2]),
+        directoryEntry("2024", [fileEntry(files[3])]),
+        directoryEntry("empty", []),
+      ]),
+      fileEntry(files[4]),
+    ]);
+
+    await expect(collectDroppedFiles(drop)).resolves.toEqual(files);
+  });
+
+  it("skips items that aren't files or folders", async () => {
+    const photo = file("photo.jpg");
+
+    await expect(
+      collectDroppedFiles(dataTransfer([null, fileEntry(photo)]))
+    ).resolves.toEqual([photo]);
+  });
+
+  it("falls back to the plain file list without entry support", async () => {
+    const photo = file("photo.jpg");
+
+    await expect(
+      collectDroppedFiles(dataTransfer([null], [photo]))
+    ).resolves.toEqual([photo]);
+  });
+
+  it("rejects when a file can't be read", async () => {
+    const drop = dataTransfer([
+      directoryEntry("receipts", [
+        fileEntry(file("a.jpg"), new Error("NotReadableError")),
+      ]),
+    ]);
+
+    await expect(collectDroppedFiles(drop)).rejects.toThrow("NotReadableError");
+  });
+});
+
+describe("isImageFile", () => {
+  it("goes by the MIME type", () => {
+    expect(isImageFile(file("scan.heic", "image/heic"))).toBe(true);
+    expect(isImageFile(file("scan.pdf", "application/pdf"))).toBe(false);
+    expect(isImageFile(file("notes.jpg", ""))).toBe(false);
+  });
+});
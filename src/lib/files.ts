@@ -0,0 +1,58 @@
+// Directory entries from a drop only expose callback-based, paged readers
+function readDirectoryEntries(
+  reader: FileSystemDirectoryReader
+): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => {
+    const entries: FileSystemEntry[] = [];
+    const readBatch = () => {
+      reader.readEntries((batch) => {
+        if (batch.length === 0) {
+          resolve(entries);
+        } else {
+          entries.push(...batch);
+          readBatch();
+        }
+      }, reject);
+    };
+    readBatch();
+  });
+}
+
+async function collectEntryFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [file];
+  }
+
+  if (entry.isDirectory) {
+    const children = await readDirectoryEntries(
+      (entry as FileSystemDirectoryEntry).createReader()
+    );
+    const nested = await Promise.all(children.map(collectEntryFiles));
+    return nested.flat();
+  }
+
+  return [];
+}
+
+// Flattens dropped files and folders (recursively) into a list of files
+export async function collectDroppedFiles(
+  dataTransfer: DataTransfer
+): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const nested = await Promise.all(entries.map(collectEntryFiles));
+  return nested.flat();
+}
+
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith("image/");
+}
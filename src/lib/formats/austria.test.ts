@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { parseAustrianReceipt } from "@/lib/formats/austria";
+
+// The example receipt from the RKSV specification's demo register
+const FIELDS = [
+  "",
+  "R1-AT1",
+  "DEMO-CASH-BOX817",
+  "83469",
+  "2015-10-14T16:14:05",
+  "12,50",
+  "2,20",
+  "0,00",
+  "0,00",
+  "0,00",
+  "rH1lbsA0q3k=",
+  "-3667961875706356849",
+  "4T2ip4YODHk=",
+  "mi2ml8DtVHB2F6Z7bk7kIA5oyPvUPAMPuwoAoUIfQ+tKp7VcGRSHTDJ7DlmmCXnSOM5W8DhixkBrQRYYxPUq5Q==",
+];
+
+function code(patch: Record<number, string> = {}): string {
+  return FIELDS.map((field, index) => patch[index] ?? field).join("_");
+}
+
+describe("parseAustrianReceipt", () => {
+  it("reads the amounts per VAT rate and the signature chain", () => {
+    expect(parseAustrianReceipt(code())).toEqual({
+      ok: true,
+      data: {
+        algorithm: "R1-AT1",
+        cashRegisterId: "DEMO-CASH-BOX817",
+        receiptNumber: "83469",
+        timestamp: "2015-10-14T16:14:05",
+        vatAmounts: {
+          normal: 12.5,
+          reduced1: 2.2,
+          reduced2: 0,
+          zero: 0,
+          special: 0,
+        },
+        totalAmount: 14.7,
+        kind: "standard",
+        turnoverCounter: "rH1lbsA0q3k=",
+        certificateSerial: "-3667961875706356849",
+        previousSignature: "4T2ip4YODHk=",
+        signature: FIELDS[13],
+        signatureDeviceFailed: false,
+      },
+    });
+  });
+
+  it("recognises cancellations, training receipts and a failed device", () => {
+    const storno = parseAustrianReceipt(code({ 10: "U1RP" }));
+    const training = parseAustrianReceipt(code({ 10: "VFJB" }));
+    const failed = parseAustrianReceipt(
+      code({ 13: "U2ljaGVyaGVpdHNlaW5yaWNodHVuZyBhdXNnZWZhbGxlbg==" })
+    );
+
+    expect(storno.ok && storno.data.kind).toBe("storno");
+    expect(training.ok && training.data.kind).toBe("training");
+    expect(failed.ok && failed.data.signatureDeviceFailed).toBe(true);
+  });
+
+  it("rejects an amount without a decimal comma", () => {
+    expect(parseAustrianReceipt(code({ 5: "12.50", 6: "2,2" }))).toEqual({
+      ok: false,
+      errors: [
+        {
+          field: "amount.normal",
+          message: "Amount at 20% must look like 12,50",
+          value: "12.50",
+        },
+        {
+          field: "amount.reduced1",
+          message: "Amount at 10% must look like 12,50",
+          value: "2,2",
+        },
+      ],
+    });
+  });
+
+  it("names each malformed field", () => {
+    const result = parseAustrianReceipt(
+      code({ 1: "R2-DE1", 4: "2015-10-14 16:14", 12: "not base64!" })
+    );
+
+    expect(result.ok || result.errors.map((error) => error.field)).toEqual([
+      "algorithm",
+      "timestamp",
+      "previousSignature",
+    ]);
+  });
+
+  it("counts the fields before reading them", () => {
+    expect(parseAustrianReceipt(FIELDS.slice(0, -1).join("_"))).toEqual({
+      ok: false,
+      errors: [
+        {
+          field: "code",
+          message: "Expected 13 underscore-separated fields, found 12",
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  parseDecimal,
+  sumAmounts,
+  type FormatParseError,
+  type FormatParseResult,
+  type ReceiptFormat,
+} from "@/lib/formats/types";
+
+// Gross amounts per VAT rate, in the order the QR code lists them
+export interface AustrianVatAmounts {
+  normal: number;
+  reduced1: number;
+  reduced2: number;
+  zero: number;
+  special: number;
+}
+
+export const AUSTRIAN_VAT_RATES: Record<keyof AustrianVatAmounts, number> = {
+  normal: 20,
+  reduced1: 10,
+  reduced2: 13,
+  zero: 0,
+  special: 19,
+};
+
+// Cancellation and training receipts carry a marker instead of the
+// encrypted turnover counter
+export type AustrianReceiptKind = "standard" | "storno" | "training";
+
+export interface AustrianReceiptData {
+  // Signature suite and certification provider, e.g. "R1-AT1"
+  algorithm: string;
+  cashRegisterId: string;
+  receiptNumber: string;
+  // Local Austrian time as printed, YYYY-MM-DDTHH:MM:SS
+  timestamp: string;
+  vatAmounts: AustrianVatAmounts;
+  totalAmount: number;
+  kind: AustrianReceiptKind;
+  // AES-256-ICM encrypted turnover counter, base64
+  turnoverCounter: string;
+  certificateSerial: string;
+  // Chains the receipt to its predecessor, base64
+  previousSignature: string;
+  signature: string;
+  // The register signed without its security device (Sicherheitseinrichtung
+  // ausgefallen), so the signature cannot be verified
+  signatureDeviceFailed: boolean;
+}
+
+const FIELD_COUNT = 13;
+const VAT_FIELDS = [
+  "normal",
+  "reduced1",
+  "reduced2",
+  "zero",
+  "special",
+] as const;
+const KIND_MARKERS: Record<string, AustrianReceiptKind> = {
+  // base64 of "STO" and "TRA"
+  U1RP: "storno",
+  VFJB: "training",
+};
+// base64 of "Sicherheitseinrichtung ausgefallen"
+const FAILED_DEVICE_SIGNATURE =
+  "U2ljaGVyaGVpdHNlaW5yaWNodHVuZyBhdXNnZWZhbGxlbg";
+const BASE64_PATTERN = /^[A-Za-z0-9+/\-_]+=*$/;
+
+// RKSV machine-readable code (Registrierkassensicherheitsverordnung, Detailspezifikation Abs. 4)
+export function parseAustrianReceipt(
+  text: string
+): FormatParseResult<AustrianReceiptData> {
+  // The code starts with the separator, so the first part is always empty
+  const parts = text.trim().split("_").slice(1);
+  if (parts.length !== FIELD_COUNT) {
+    return {
+      ok: false,
+      errors: [
+        {
+          field: "code",
+          message: `Expected ${FIELD_COUNT} underscore-separated fields, found ${parts.length}`,
+        },
+      ],
+    };
+  }
+
+  const [algorithm, cashRegisterId, receiptNumber, timestamp, ...rest] = parts;
+  const amountStrings = rest.slice(0, VAT_FIELDS.length);
+  const [turnoverCounter, certificateSerial, previousSignature, signature] =
+    rest.slice(VAT_FIELDS.length);
+  const errors: FormatParseError[] = [];
+
+  if (!/^R1-AT\d+$/.test(algorithm)) {
+    errors.push({
+      field: "algorithm",
+      message: 'Expected a signature suite such as "R1-AT1"',
+      value: algorithm,
+    });
+  }
+  if (!cashRegisterId) {
+    errors.push({ field: "cashRegisterId", message: "Register ID is empty" });
+  }
+  if (!receiptNumber) {
+    errors.push({ field: "receiptNumber", message: "Receipt number is empty" });
+  }
+  if (
+    !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/.test(timestamp) ||
+    isNaN(Date.parse(timestamp))
+  ) {
+    errors.push({
+      field: "timestamp",
+      message: "Expected a local timestamp YYYY-MM-DDTHH:MM:SS",
+      value: timestamp,
+    });
+  }
+
+  const vatAmounts = {} as AustrianVatAmounts;
+  VAT_FIELDS.forEach((field, index) => {
+    // Amounts always use a decimal comma with two places
+    const amount = /^-?\d+,\d{2}$/.test(amountStrings[index])
+      ? parseDecimal(amountStrings[index], ",")
+      : null;
+    if (amount === null) {
+      errors.push({
+        field: `amount.${field}`,
+        message: `Amount at ${AUSTRIAN_VAT_RATES[field]}% must look like 12,50`,
+        value: amountStrings[index],
+      });
+    }
+    vatAmounts[field] = amount ?? 0;
+  });
+
+  for (const [field, value] of [
+    ["turnoverCounter", turnoverCounter],
+    ["previousSignature", previousSignature],
+    ["signature", signature],
+  ] as const) {
+    if (!BASE64_PATTERN.test(value)) {
+      errors.push({ field, message: "Field is not valid base64", value });
+    }
+  }
+  if (!certificateSerial) {
+    errors.push({
+      field: "certificateSerial",
+      message: "Certificate serial number is empty",
+    });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      algorithm,
+      cashRegisterId,
+      receiptNumber,
+      timestamp,
+      vatAmounts,
+      totalAmount: sumAmounts(VAT_FIELDS.map((field) => vatAmounts[field])),
+      kind: KIND_MARKERS[turnoverCounter] ?? "standard",
+      turnoverCounter,
+      certificateSerial,
+      previousSignature,
+      signature,
+      signatureDeviceFailed:
+        signature.replace(/=+$/, "") === FAILED_DEVICE_SIGNATURE,
+    },
+  };
+}
+
+export const austrianFormat: ReceiptFormat<"at-rksv", AustrianReceiptData> = {
+  id: "at-rksv",
+  label: "Austrian receipt (RKSV)",
+  flag: "🇦🇹",
+  detect: (text) => text.trim().startsWith("_R1-AT"),
+  parse: parseAustrianReceipt,
+};
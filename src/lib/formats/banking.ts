@@ -0,0 +1,57 @@
+// Checksums shared by the payment QR formats
+
+// ISO 7064 MOD 97-10 over a string of digits and letters (A = 10 … Z = 35),
+// computed in chunks so long IBANs don't overflow
+function mod97(value: string): number {
+  let remainder = 0;
+  for (const char of value) {
+    const digits = /\d/.test(char)
+      ? char
+      : String(char.charCodeAt(0) - "A".charCodeAt(0) + 10);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder;
+}
+
+export function normalizeIBAN(iban: string): string {
+  return iban.replace(/\s/g, "").toUpperCase();
+}
+
+export function isValidIBAN(iban: string): boolean {
+  const normalized = normalizeIBAN(iban);
+  return (
+    /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(normalized) &&
+    mod97(normalized.slice(4) + normalized.slice(0, 4)) === 1
+  );
+}
+
+// Groups of four, as IBANs are printed
+export function formatIBAN(iban: string): string {
+  return normalizeIBAN(iban).replace(/(.{4})(?=.)/g, "$1 ");
+}
+
+// ISO 11649 creditor reference, e.g. "RF18 5390 0754 7034"
+export function isValidCreditorReference(reference: string): boolean {
+  const normalized = normalizeIBAN(reference);
+  return (
+    /^RF\d{2}[A-Z0-9]{1,21}$/.test(normalized) &&
+    mod97(normalized.slice(4) + normalized.slice(0, 4)) === 1
+  );
+}
+
+const QR_REFERENCE_TABLE = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+
+// Swiss QR reference: 27 digits whose last one is a recursive mod 10 check
+export function isValidQRReference(reference: string): boolean {
+  const normalized = reference.replace(/\s/g, "");
+  if (!/^\d{27}$/.test(normalized)) {
+    return false;
+  }
+  let carry = 0;
+  for (const digit of normalized.slice(0, 26)) {
+    carry = QR_REFERENCE_TABLE[(carry + Number(digit)) % 10];
+  }
+  return (10 - carry) % 10 === Number(normalized[26]);
+}
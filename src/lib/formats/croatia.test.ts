@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { croatianFormat, parseCroatianReceipt } from "@/lib/formats/croatia";
+
+const JIR = "e7f4a2b1-1234-4cde-8f00-0123456789ab";
+const ZKI = "0123456789abcdef0123456789ABCDEF";
+
+function link(query: string, base = "https://porezna.gov.hr/rn"): string {
+  return `${base}?${query}`;
+}
+
+function errorFields(text: string): string[] {
+  const result = parseCroatianReceipt(text);
+  return result.ok ? [] : result.errors.map((error) => error.field);
+}
+
+describe("parseCroatianReceipt", () => {
+  it("reads the verification link", () => {
+    const text = link(`jir=${JIR}&datv=20240115_1430&izn=1250`);
+
+    expect(parseCroatianReceipt(text)).toEqual({
+      ok: true,
+      data: {
+        url: text,
+        jir: JIR,
+        zki: null,
+        issuedAt: "2024-01-15T14:30",
+        totalAmount: 12.5,
+      },
+    });
+  });
+
+  it("reads a link carrying only the ZKI, with a decimal amount", () => {
+    const result = parseCroatianReceipt(
+      link(
+        `zki=${ZKI}&datv=20240115_1430&izn=12,50`,
+        "https://www.porezna.gov.hr/rn"
+      )
+    );
+
+    expect(result).toMatchObject({
+      ok: true,
+      data: { jir: null, zki: ZKI.toLowerCase(), totalAmount: 12.5 },
+    });
+  });
+
+  it.each([
+    `javascript://porezna.gov.hr/%0Aalert(1)//?jir=${JIR}&datv=20240115_1430&izn=1250`,
+    `http://porezna.gov.hr/rn?jir=${JIR}&datv=20240115_1430&izn=1250`,
+  ])("refuses links that aren't https: %s", (text) => {
+    expect(croatianFormat.detect(text)).toBe(true);
+    expect(parseCroatianReceipt(text)).toEqual({
+      ok: false,
+      errors: [expect.objectContaining({ field: "url" })],
+    });
+  });
+
+  it("requires a JIR or ZKI", () => {
+    expect(parseCroatianReceipt(link("datv=20240115_1430&izn=1250"))).toEqual({
+      ok: false,
+      errors: [{ field: "jir", message: "Neither JIR nor ZKI is present" }],
+    });
+  });
+
+  it("names each malformed parameter", () => {
+    expect(
+      errorFields(link("jir=123&zki=xyz&datv=2024-01-15&izn=12.5.0"))
+    ).toEqual(["jir", "zki", "datv", "izn"]);
+  });
+});
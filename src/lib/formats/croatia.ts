@@ -0,0 +1,130 @@
+import {
+  parseDecimal,
+  type FormatParseError,
+  type FormatParseResult,
+  type ReceiptFormat,
+} from "@/lib/formats/types";
+
+export interface CroatianReceiptData {
+  // Verification page on the Tax Administration site
+  url: string;
+  // Unique invoice identifier assigned by the Tax Administration (a UUID);
+  // null when the code only carries the issuer's protective code
+  jir: string | null;
+  // Issuer's protective code (zaštitni kod izdavatelja), 32 hex digits
+  zki: string | null;
+  // Local Croatian time, YYYY-MM-DDTHH:MM
+  issuedAt: string;
+  totalAmount: number;
+}
+
+const VERIFICATION_HOST = "porezna.gov.hr";
+const JIR_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseURL(text: string): URL | null {
+  try {
+    return new URL(text.trim());
+  } catch {
+    return null;
+  }
+}
+
+function isVerificationHost(url: URL | null): boolean {
+  return url?.hostname.replace(/^www\./, "") === VERIFICATION_HOST;
+}
+
+// Amounts are either written with a decimal separator or, as the
+// specification asks, as whole cents with the last two digits as decimals
+function parseAmount(value: string): number | null {
+  if (/^\d+$/.test(value)) {
+    return Number(value) / 100;
+  }
+  return parseDecimal(value, ",") ?? parseDecimal(value, ".");
+}
+
+// Verification URL printed on fiscalised Croatian receipts, e.g.
+// https://porezna.gov.hr/rn?jir=…&datv=20240115_1430&izn=1250
+export function parseCroatianReceipt(
+  text: string
+): FormatParseResult<CroatianReceiptData> {
+  const url = parseURL(text);
+  // The URL ends up as a link, so any other scheme (javascript: in
+  // particular) is refused
+  if (!url || !isVerificationHost(url) || url.protocol !== "https:") {
+    return {
+      ok: false,
+      errors: [
+        {
+          field: "url",
+          message: `Expected an https://${VERIFICATION_HOST} verification link`,
+          value: text,
+        },
+      ],
+    };
+  }
+
+  const errors: FormatParseError[] = [];
+  const jir = url.searchParams.get("jir");
+  const zki = url.searchParams.get("zki");
+  const datv = url.searchParams.get("datv") ?? "";
+  const izn = url.searchParams.get("izn") ?? "";
+
+  if (!jir && !zki) {
+    errors.push({ field: "jir", message: "Neither JIR nor ZKI is present" });
+  }
+  if (jir && !JIR_PATTERN.test(jir)) {
+    errors.push({ field: "jir", message: "JIR must be a UUID", value: jir });
+  }
+  if (zki && !/^[0-9a-f]{32}$/i.test(zki)) {
+    errors.push({
+      field: "zki",
+      message: "ZKI must be 32 hexadecimal digits",
+      value: zki,
+    });
+  }
+
+  const date = /^(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})$/.exec(datv);
+  const issuedAt = date
+    ? `${date[1]}-${date[2]}-${date[3]}T${date[4]}:${date[5]}`
+    : "";
+  if (!date || isNaN(Date.parse(issuedAt))) {
+    errors.push({
+      field: "datv",
+      message: "Expected the issue time as YYYYMMDD_HHMM",
+      value: datv,
+    });
+  }
+
+  const totalAmount = parseAmount(izn);
+  if (totalAmount === null) {
+    errors.push({
+      field: "izn",
+      message: "Amount is not a number",
+      value: izn,
+    });
+  }
+
+  if (errors.length > 0 || totalAmount === null) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      url: url.toString(),
+      jir: jir?.toLowerCase() ?? null,
+      zki: zki?.toLowerCase() ?? null,
+      issuedAt,
+      totalAmount,
+    },
+  };
+}
+
+export const croatianFormat: ReceiptFormat<"hr-fiscal", CroatianReceiptData> = {
+  id: "hr-fiscal",
+  label: "Croatian fiscal receipt",
+  flag: "🇭🇷",
+  detect: (text) => isVerificationHost(parseURL(text)),
+  parse: parseCroatianReceipt,
+};
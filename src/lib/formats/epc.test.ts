@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { parseEPCPayment } from "@/lib/formats/epc";
+
+// The donation example from the EPC guidelines
+const LINES = [
+  "BCD",
+  "002",
+  "1",
+  "SCT",
+  "BPOTBEB1",
+  "Red Cross of Belgium",
+  "BE72000000001616",
+  "EUR1",
+  "CHAR",
+  "",
+  "Urgency fund",
+];
+
+function payment(patch: Record<number, string> = {}): string {
+  return LINES.map((line, index) => patch[index] ?? line).join("\n");
+}
+
+function errorFields(text: string): string[] {
+  const result = parseEPCPayment(text);
+  return result.ok ? [] : result.errors.map((error) => error.field);
+}
+
+describe("parseEPCPayment", () => {
+  it("reads the beneficiary, amount and remittance text", () => {
+    expect(parseEPCPayment(payment())).toEqual({
+      ok: true,
+      data: {
+        version: "002",
+        characterSet: 1,
+        bic: "BPOTBEB1",
+        beneficiaryName: "Red Cross of Belgium",
+        iban: "BE72000000001616",
+        amount: 1,
+        purpose: "CHAR",
+        reference: null,
+        remittanceText: "Urgency fund",
+        information: null,
+      },
+    });
+  });
+
+  it("reads a structured reference, a spaced IBAN and no BIC in version 002", () => {
+    const text = payment({
+      4: "",
+      6: "be72 0000 0000 1616",
+      7: "EUR12.50",
+      9: "RF18 5390 0754 7034",
+      10: "",
+    });
+
+    expect(parseEPCPayment(text)).toMatchObject({
+      ok: true,
+      data: {
+        bic: null,
+        iban: "BE72000000001616",
+        amount: 12.5,
+        reference: "RF18539007547034",
+        remittanceText: null,
+      },
+    });
+  });
+
+  it("rejects an IBAN with a wrong checksum", () => {
+    expect(parseEPCPayment(payment({ 6: "BE72000000001617" }))).toEqual({
+      ok: false,
+      errors: [
+        {
+          field: "iban",
+          message: "IBAN is invalid",
+          value: "BE72 0000 0000 1617",
+        },
+      ],
+    });
+  });
+
+  it("rejects a creditor reference with a wrong checksum", () => {
+    expect(
+      parseEPCPayment(payment({ 9: "RF19 5390 0754 7034", 10: "" }))
+    ).toEqual({
+      ok: false,
+      errors: [
+        {
+          field: "reference",
+          message: "Creditor reference (RF…) is invalid",
+          value: "RF19 5390 0754 7034",
+        },
+      ],
+    });
+  });
+
+  it("allows a reference or a remittance text, not both", () => {
+    expect(errorFields(payment({ 9: "RF18539007547034" }))).toEqual([
+      "reference",
+    ]);
+  });
+
+  it("requires a BIC in version 001", () => {
+    expect(errorFields(payment({ 1: "001", 4: "" }))).toEqual(["bic"]);
+  });
+
+  it.each(["EUR0", "EUR12,50", "CHF12.50", "EUR1000000000"])(
+    "rejects the amount %s",
+    (amount) => {
+      expect(errorFields(payment({ 7: amount }))).toEqual(["amount"]);
+    }
+  );
+
+  it("names a wrong identification and purpose code", () => {
+    expect(errorFields(payment({ 3: "INST", 8: "CHARITY" }))).toEqual([
+      "identification",
+      "purpose",
+    ]);
+  });
+
+  it("expects 7 to 12 lines", () => {
+    expect(errorFields(LINES.slice(0, 5).join("\n"))).toEqual(["code"]);
+  });
+});
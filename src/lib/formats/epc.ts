@@ -0,0 +1,166 @@
+import {
+  formatIBAN,
+  isValidCreditorReference,
+  isValidIBAN,
+  normalizeIBAN,
+} from "@/lib/formats/banking";
+import type {
+  FormatParseError,
+  FormatParseResult,
+  ReceiptFormat,
+} from "@/lib/formats/types";
+
+export interface EPCPaymentData {
+  version: "001" | "002";
+  // 1 = UTF-8 … 8 = ISO 8859-15
+  characterSet: number;
+  // Optional from version 002 on
+  bic: string | null;
+  beneficiaryName: string;
+  iban: string;
+  // Left open for the payer to fill in when null; always in euro
+  amount: number | null;
+  // Four-letter ISO 20022 purpose code
+  purpose: string | null;
+  // Structured creditor reference (RF…)
+  reference: string | null;
+  remittanceText: string | null;
+  // Beneficiary to originator information, shown to the payer
+  information: string | null;
+}
+
+// EPC069-12 "Quick Response Code: Guidelines to Enable Data Capture for the
+// Initiation of a SEPA Credit Transfer", a.k.a. GiroCode
+const MIN_LINE_COUNT = 7;
+const MAX_LINE_COUNT = 12;
+const MAX_AMOUNT = 999999999.99;
+
+export function parseEPCPayment(
+  text: string
+): FormatParseResult<EPCPaymentData> {
+  // Trailing optional lines may be left out entirely
+  const lines = text.replace(/\s+$/, "").split(/\r?\n/);
+  if (lines.length < MIN_LINE_COUNT || lines.length > MAX_LINE_COUNT) {
+    return {
+      ok: false,
+      errors: [
+        {
+          field: "code",
+          message: `Expected ${MIN_LINE_COUNT} to ${MAX_LINE_COUNT} lines, found ${lines.length}`,
+        },
+      ],
+    };
+  }
+
+  const errors: FormatParseError[] = [];
+  const line = (index: number) => (lines[index] ?? "").trim();
+  const version = line(1);
+  const characterSet = Number(line(2));
+  const bic = line(4).toUpperCase() || null;
+  const beneficiaryName = line(5);
+  const iban = normalizeIBAN(line(6));
+  const amountString = line(7);
+  const reference = line(9).replace(/\s/g, "") || null;
+  const remittanceText = line(10) || null;
+
+  if (version !== "001" && version !== "002") {
+    errors.push({
+      field: "version",
+      message: "Version must be 001 or 002",
+      value: version,
+    });
+  }
+  if (!Number.isInteger(characterSet) || characterSet < 1 || characterSet > 8) {
+    errors.push({
+      field: "characterSet",
+      message: "Character set must be 1 to 8",
+      value: line(2),
+    });
+  }
+  if (line(3) !== "SCT") {
+    errors.push({
+      field: "identification",
+      message: 'Identification must be "SCT"',
+      value: line(3),
+    });
+  }
+  if (bic && !/^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic)) {
+    errors.push({ field: "bic", message: "BIC is invalid", value: bic });
+  } else if (!bic && version === "001") {
+    errors.push({ field: "bic", message: "BIC is required in version 001" });
+  }
+  if (!beneficiaryName) {
+    errors.push({
+      field: "beneficiaryName",
+      message: "Beneficiary name is empty",
+    });
+  }
+  if (!isValidIBAN(iban)) {
+    errors.push({
+      field: "iban",
+      message: "IBAN is invalid",
+      value: formatIBAN(line(6)),
+    });
+  }
+
+  const amountMatch = /^EUR(\d+(\.\d{1,2})?)$/.exec(amountString);
+  const amount = amountMatch ? Number(amountMatch[1]) : null;
+  if (
+    amountString &&
+    (amount === null || amount < 0.01 || amount > MAX_AMOUNT)
+  ) {
+    errors.push({
+      field: "amount",
+      message: "Amount must look like EUR12.50, between 0.01 and 999999999.99",
+      value: amountString,
+    });
+  }
+
+  if (line(8) && !/^[A-Z0-9]{4}$/.test(line(8))) {
+    errors.push({
+      field: "purpose",
+      message: "Purpose must be a four-character code",
+      value: line(8),
+    });
+  }
+  if (reference && remittanceText) {
+    errors.push({
+      field: "reference",
+      message: "Only one of creditor reference and remittance text is allowed",
+    });
+  } else if (reference && !isValidCreditorReference(reference)) {
+    errors.push({
+      field: "reference",
+      message: "Creditor reference (RF…) is invalid",
+      value: line(9),
+    });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      version: version as EPCPaymentData["version"],
+      characterSet,
+      bic,
+      beneficiaryName,
+      iban,
+      amount,
+      purpose: line(8) || null,
+      reference,
+      remittanceText,
+      information: line(11) || null,
+    },
+  };
+}
+
+export const epcFormat: ReceiptFormat<"epc-sct", EPCPaymentData> = {
+  id: "epc-sct",
+  label: "SEPA payment (EPC / GiroCode)",
+  flag: "🇪🇺",
+  detect: (text) => /^BCD\r?\n/.test(text),
+  parse: parseEPCPayment,
+};
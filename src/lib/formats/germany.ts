@@ -0,0 +1,17 @@
+import { parseReceipt, type GermanReceiptData } from "@/lib/receipt";
+import type { ReceiptFormat } from "@/lib/formats/types";
+
+// KassenSichV receipt QR code; the parser itself lives in receipt.ts
+export const germanFormat: ReceiptFormat<"de-kassensichv", GermanReceiptData> =
+  {
+    id: "de-kassensichv",
+    label: "German receipt (KassenSichV)",
+    flag: "🇩🇪",
+    detect: (text) => /^V\d+;/.test(text.trim()),
+    parse: (text) => {
+      const result = parseReceipt(text);
+      return result.ok
+        ? { ok: true, data: result.receipt }
+        : { ok: false, errors: result.errors };
+    },
+  };
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectReceiptFormat,
+  getReceiptFormat,
+  parseReceiptCode,
+  RECEIPT_FORMATS,
+  type ReceiptFormatId,
+} from "@/lib/formats";
+import { sumAmounts } from "@/lib/formats/types";
+
+// One conforming code per format, mostly the examples from the specifications
+const SAMPLES: Record<ReceiptFormatId, string> = {
+  "de-kassensichv":
+    "V0;955002-00;Kassenbeleg-V1;Beleg^0.00_2.55_0.00_0.00_0.00^2.55:Bar;18;112;2019-07-10T18:41:04.000Z;2019-07-10T18:41:04.000Z;ecdsa-plain-SHA256;unixTime;MEQCIAy4P9k+7x9saDO0uRZ4El8QwN+qTgYiv1DIaJIMWRiuAiAt+saFDGjK2Yi5Cxgy7PprXQ5O0seRgx4ltdpW9REvwA==;BHhWOeisRpPBTGQ1W4VUH95TXx2GARf8e2NYZXJoInjtGqnxJ8sZ3CQpYgjI+LYEmW5A37sLWHsyU7nSJUBemyU=",
+  "at-rksv":
+    "_R1-AT1_DEMO-CASH-BOX817_83469_2015-10-14T16:14:05_12,50_2,20_0,00_0,00_0,00_rH1lbsA0q3k=_-3667961875706356849_4T2ip4YODHk=_mi2ml8DtVHB2F6Z7bk7kIA5oyPvUPAMPuwoAoUIfQ+tKp7VcGRSHTDJ7DlmmCXnSOM5W8DhixkBrQRYYxPUq5Q==",
+  "hr-fiscal":
+    "https://porezna.gov.hr/rn?jir=e7f4a2b1-1234-4cde-8f00-0123456789ab&datv=20240115_1430&izn=1250",
+  "si-fiscal": "000000000000000000001234567890123456789123456782401151430007",
+  "pt-atcud":
+    "A:123456789*B:999999990*C:PT*D:FS*E:N*F:20191231*G:FS CDVF/12345*H:CSDF7T5H-12345*I1:PT*I7:0.65*I8:0.15*N:0.15*O:0.80*Q:bhGU*R:9999",
+  "ch-qrbill": [
+    "SPC",
+    "0200",
+    "1",
+    "CH4431999123000889012",
+    "S",
+    "Robert Schneider AG",
+    "Rue du Lac",
+    "1268",
+    "2501",
+    "Biel",
+    "CH",
+    ...Array(7).fill(""),
+    "1949.75",
+    "CHF",
+    "S",
+    "Pia-Maria Rutschmann-Schnyder",
+    "Grosse Marktgasse",
+    "28",
+    "9400",
+    "Rorschach",
+    "CH",
+    "QRR",
+    "210000000003139471430009017",
+    "Order dated 18.06.2020",
+    "EPD",
+  ].join("\n"),
+  "epc-sct": [
+    "BCD",
+    "002",
+    "1",
+    "SCT",
+    "BPOTBEB1",
+    "Red Cross of Belgium",
+    "BE72000000001616",
+    "EUR1",
+    "CHAR",
+    "",
+    "Urgency fund",
+  ].join("\n"),
+};
+
+describe("receipt format registry", () => {
+  it("registers every format once", () => {
+    expect(RECEIPT_FORMATS.map((format) => format.id).sort()).toEqual(
+      Object.keys(SAMPLES).sort()
+    );
+    for (const format of RECEIPT_FORMATS) {
+      expect(getReceiptFormat(format.id)).toBe(format);
+    }
+  });
+
+  it.each(Object.entries(SAMPLES))("detects and parses %s", (id, text) => {
+    expect(detectReceiptFormat(text)).toBe(id);
+    const result = parseReceiptCode(text);
+    expect(result).toMatchObject({ ok: true, code: { format: id } });
+  });
+
+  it("leaves codes of no known format alone", () => {
+    for (const text of ["https://example.com/rn?jir=1", "Hello", "12345"]) {
+      expect(detectReceiptFormat(text)).toBeNull();
+      expect(parseReceiptCode(text)).toBeNull();
+    }
+  });
+
+  it("reports the errors of a recognised but broken code", () => {
+    const result = parseReceiptCode("V0;955002-00;Kassenbeleg-V1");
+
+    expect(result).toEqual({
+      ok: false,
+      format: "de-kassensichv",
+      errors: [expect.objectContaining({ field: "qrCode" })],
+    });
+  });
+
+  it("hands each code to the first format that detects it", () => {
+    const epc = parseReceiptCode(SAMPLES["epc-sct"]);
+    expect(
+      epc?.ok && epc.code.format === "epc-sct" && epc.code.data
+    ).toMatchObject({ amount: 1, iban: "BE72000000001616" });
+
+    const austrian = parseReceiptCode(SAMPLES["at-rksv"]);
+    expect(
+      austrian?.ok && austrian.code.format === "at-rksv" && austrian.code.data
+    ).toMatchObject({ totalAmount: 14.7, kind: "standard" });
+  });
+});
+
+describe("sumAmounts", () => {
+  it("adds in cents", () => {
+    expect(sumAmounts([0.1, 0.2])).toBe(0.3);
+    expect(sumAmounts([])).toBe(0);
+  });
+});
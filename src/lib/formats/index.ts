@@ -0,0 +1,71 @@
+import { austrianFormat } from "@/lib/formats/austria";
+import { croatianFormat } from "@/lib/formats/croatia";
+import { epcFormat } from "@/lib/formats/epc";
+import { germanFormat } from "@/lib/formats/germany";
+import { portugueseFormat } from "@/lib/formats/portugal";
+import { swissQRBillFormat } from "@/lib/formats/qrbill";
+import { slovenianFormat } from "@/lib/formats/slovenia";
+import type { FormatParseError, ReceiptFormat } from "@/lib/formats/types";
+
+export type { FormatParseError, ReceiptFormat } from "@/lib/formats/types";
+
+// Keyed by id so that each format's key must match its own `id`
+function defineRegistry<
+  Formats extends { [Id in keyof Formats]: ReceiptFormat<Id & string, unknown> }
+>(formats: Formats): Formats {
+  return formats;
+}
+
+// Tried in order; the first format whose `detect` accepts a code owns it.
+// The German format comes first as it's by far the most common here
+const FORMATS_BY_ID = defineRegistry({
+  "de-kassensichv": germanFormat,
+  "at-rksv": austrianFormat,
+  "hr-fiscal": croatianFormat,
+  "si-fiscal": slovenianFormat,
+  "pt-atcud": portugueseFormat,
+  "ch-qrbill": swissQRBillFormat,
+  "epc-sct": epcFormat,
+});
+
+export type ReceiptFormatId = keyof typeof FORMATS_BY_ID;
+
+type CodeOf<Format> = Format extends ReceiptFormat<infer Id, infer T>
+  ? { format: Id; data: T }
+  : never;
+
+// A decoded code together with the format that recognised it
+export type ParsedReceiptCode = CodeOf<(typeof FORMATS_BY_ID)[ReceiptFormatId]>;
+
+export const RECEIPT_FORMATS = Object.values(FORMATS_BY_ID);
+
+export type ReceiptCodeResult =
+  | { ok: true; code: ParsedReceiptCode }
+  // The code looks like `format` but doesn't conform to it
+  | { ok: false; format: ReceiptFormatId; errors: FormatParseError[] };
+
+export function getReceiptFormat<Id extends ReceiptFormatId>(
+  id: Id
+): (typeof FORMATS_BY_ID)[Id] {
+  return FORMATS_BY_ID[id];
+}
+
+export function detectReceiptFormat(text: string): ReceiptFormatId | null {
+  return RECEIPT_FORMATS.find((format) => format.detect(text))?.id ?? null;
+}
+
+// Null when no registered format recognises the code
+export function parseReceiptCode(text: string): ReceiptCodeResult | null {
+  const format = RECEIPT_FORMATS.find((candidate) => candidate.detect(text));
+  if (!format) {
+    return null;
+  }
+
+  const result = format.parse(text);
+  return result.ok
+    ? {
+        ok: true,
+        code: { format: format.id, data: result.data } as ParsedReceiptCode,
+      }
+    : { ok: false, format: format.id, errors: result.errors };
+}
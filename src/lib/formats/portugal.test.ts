@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { isValidNif, parsePortugueseReceipt } from "@/lib/formats/portugal";
+
+// The simplified invoice from the Portaria n.º 195/2020 examples
+const FIELDS: Record<string, string> = {
+  A: "123456789",
+  B: "999999990",
+  C: "PT",
+  D: "FS",
+  E: "N",
+  F: "20191231",
+  G: "FS CDVF/12345",
+  H: "CSDF7T5H-12345",
+  I1: "PT",
+  I7: "0.65",
+  I8: "0.15",
+  N: "0.15",
+  O: "0.80",
+  Q: "bhGU",
+  R: "9999",
+};
+
+function code(patch: Record<string, string | null> = {}): string {
+  return Object.entries({ ...FIELDS, ...patch })
+    .filter(([, value]) => value !== null)
+    .map(([field, value]) => `${field}:${value}`)
+    .join("*");
+}
+
+describe("parsePortugueseReceipt", () => {
+  it("reads the document, its ATCUD and the VAT of each region", () => {
+    expect(parsePortugueseReceipt(code())).toEqual({
+      ok: true,
+      data: {
+        issuerNif: "123456789",
+        buyerNif: "999999990",
+        buyerCountry: "PT",
+        documentType: "FS",
+        documentStatus: "N",
+        date: "2019-12-31",
+        documentId: "FS CDVF/12345",
+        atcud: "CSDF7T5H-12345",
+        taxRegions: [
+          {
+            region: "PT",
+            exemptBase: null,
+            reducedBase: null,
+            reducedVat: null,
+            intermediateBase: null,
+            intermediateVat: null,
+            normalBase: 0.65,
+            normalVat: 0.15,
+          },
+        ],
+        nonTaxable: null,
+        stampDuty: null,
+        totalTax: 0.15,
+        totalAmount: 0.8,
+        withholdingTax: null,
+        hashExcerpt: "bhGU",
+        certificateNumber: "9999",
+        otherInformation: null,
+      },
+    });
+  });
+
+  it("reads a document without VAT lines and the Azores region", () => {
+    const none = parsePortugueseReceipt(code({ I1: "0", I7: null, I8: null }));
+    const azores = parsePortugueseReceipt(
+      code({ J1: "PT-AC", J7: "10.00", J8: "1.60" })
+    );
+
+    expect(none.ok && none.data.taxRegions).toEqual([]);
+    expect(azores.ok && azores.data.taxRegions[1]).toMatchObject({
+      region: "PT-AC",
+      normalBase: 10,
+      normalVat: 1.6,
+    });
+  });
+
+  it("requires the ATCUD field", () => {
+    expect(parsePortugueseReceipt(code({ H: null }))).toEqual({
+      ok: false,
+      errors: [{ field: "H", message: "Field is missing" }],
+    });
+  });
+
+  it("rejects a field that isn't a code:value pair", () => {
+    const text = code().replace("H:CSDF7T5H-12345", "H=CSDF7T5H-12345");
+
+    expect(parsePortugueseReceipt(text)).toEqual({
+      ok: false,
+      errors: [
+        {
+          field: "code",
+          message: 'Expected "code:value" pairs',
+          value: "H=CSDF7T5H-12345",
+        },
+        { field: "H", message: "Field is missing" },
+      ],
+    });
+  });
+
+  it("rejects a bad issuer NIF, date and decimal comma amounts", () => {
+    const result = parsePortugueseReceipt(
+      code({ A: "123456780", F: "20191331", O: "0,80" })
+    );
+
+    expect(result.ok || result.errors.map((error) => error.field)).toEqual([
+      "A",
+      "F",
+      "O",
+    ]);
+  });
+});
+
+describe("isValidNif", () => {
+  it("checks the mod 11 check digit", () => {
+    expect(isValidNif("123456789")).toBe(true);
+    expect(isValidNif("999999990")).toBe(true);
+    expect(isValidNif("123456780")).toBe(false);
+    expect(isValidNif("12345678")).toBe(false);
+  });
+});
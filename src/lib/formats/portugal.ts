@@ -0,0 +1,211 @@
+import {
+  parseDecimal,
+  type FormatParseError,
+  type FormatParseResult,
+  type ReceiptFormat,
+} from "@/lib/formats/types";
+
+// Taxable bases and VAT for one fiscal region (mainland, Azores, Madeira)
+export interface PortugueseTaxRegion {
+  // "PT", "PT-AC" or "PT-MA"
+  region: string;
+  exemptBase: number | null;
+  reducedBase: number | null;
+  reducedVat: number | null;
+  intermediateBase: number | null;
+  intermediateVat: number | null;
+  normalBase: number | null;
+  normalVat: number | null;
+}
+
+export interface PortugueseReceiptData {
+  issuerNif: string;
+  // 999999990 stands for an anonymous final consumer
+  buyerNif: string;
+  buyerCountry: string;
+  // e.g. FT (invoice), FS (simplified invoice), NC (credit note)
+  documentType: string;
+  // N (normal), A (cancelled), F (invoiced), S (self-billed), R (summary)
+  documentStatus: string;
+  // YYYY-MM-DD
+  date: string;
+  // Unique document identifier, e.g. "FT A/123"
+  documentId: string;
+  atcud: string;
+  taxRegions: PortugueseTaxRegion[];
+  nonTaxable: number | null;
+  stampDuty: number | null;
+  totalTax: number;
+  totalAmount: number;
+  withholdingTax: number | null;
+  // Four characters of the document signature
+  hashExcerpt: string;
+  certificateNumber: string;
+  otherInformation: string | null;
+}
+
+export const PORTUGUESE_DOCUMENT_TYPES: Record<string, string> = {
+  FT: "Fatura",
+  FS: "Fatura simplificada",
+  FR: "Fatura-recibo",
+  ND: "Nota de débito",
+  NC: "Nota de crédito",
+  RC: "Recibo",
+  RG: "Recibo",
+};
+
+export const PORTUGUESE_DOCUMENT_STATUSES: Record<string, string> = {
+  N: "Normal",
+  A: "Anulado",
+  F: "Faturado",
+  S: "Autofaturação",
+  R: "Resumo",
+};
+
+export const FINAL_CONSUMER_NIF = "999999990";
+
+const REQUIRED_FIELDS = [
+  "A",
+  "B",
+  "C",
+  "D",
+  "E",
+  "F",
+  "G",
+  "H",
+  "I1",
+  "N",
+  "O",
+  "Q",
+  "R",
+];
+const REGION_GROUPS = ["I", "J", "K"] as const;
+
+// Portuguese tax numbers end in a mod 11 check digit
+export function isValidNif(nif: string): boolean {
+  if (!/^\d{9}$/.test(nif)) {
+    return false;
+  }
+  const sum = Array.from(nif.slice(0, 8), Number).reduce(
+    (total, digit, index) => total + digit * (9 - index),
+    0
+  );
+  const check = 11 - (sum % 11);
+  return (check >= 10 ? 0 : check) === Number(nif[8]);
+}
+
+// Invoice QR code (Portaria n.º 195/2020): "*"-separated "code:value"
+// pairs, e.g. "A:123456789*B:999999990*C:PT*…"
+export function parsePortugueseReceipt(
+  text: string
+): FormatParseResult<PortugueseReceiptData> {
+  const fields = new Map<string, string>();
+  const errors: FormatParseError[] = [];
+
+  for (const pair of text.trim().split("*")) {
+    const separator = pair.indexOf(":");
+    const code = separator === -1 ? "" : pair.slice(0, separator);
+    if (!/^[A-S]\d?$/.test(code)) {
+      errors.push({
+        field: "code",
+        message: 'Expected "code:value" pairs',
+        value: pair,
+      });
+      continue;
+    }
+    fields.set(code, pair.slice(separator + 1));
+  }
+
+  for (const code of REQUIRED_FIELDS) {
+    if (!fields.get(code)) {
+      errors.push({ field: code, message: "Field is missing" });
+    }
+  }
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const get = (code: string) => fields.get(code) ?? "";
+  const amount = (code: string): number | null => {
+    const value = fields.get(code);
+    if (value === undefined) {
+      return null;
+    }
+    const parsed = parseDecimal(value, ".");
+    if (parsed === null) {
+      errors.push({ field: code, message: "Amount is not a number", value });
+    }
+    return parsed;
+  };
+
+  if (!isValidNif(get("A"))) {
+    errors.push({
+      field: "A",
+      message: "Issuer tax number (NIF) is invalid",
+      value: get("A"),
+    });
+  }
+
+  const date = /^(\d{4})(\d{2})(\d{2})$/.exec(get("F"));
+  const isoDate = date ? `${date[1]}-${date[2]}-${date[3]}` : "";
+  if (!date || isNaN(Date.parse(isoDate))) {
+    errors.push({
+      field: "F",
+      message: "Expected the document date as YYYYMMDD",
+      value: get("F"),
+    });
+  }
+
+  // A region of "0" means the document has no VAT lines at all
+  const taxRegions = REGION_GROUPS.flatMap((group): PortugueseTaxRegion[] => {
+    const region = fields.get(`${group}1`);
+    if (!region || region === "0") {
+      return [];
+    }
+    return [
+      {
+        region,
+        exemptBase: amount(`${group}2`),
+        reducedBase: amount(`${group}3`),
+        reducedVat: amount(`${group}4`),
+        intermediateBase: amount(`${group}5`),
+        intermediateVat: amount(`${group}6`),
+        normalBase: amount(`${group}7`),
+        normalVat: amount(`${group}8`),
+      },
+    ];
+  });
+
+  const data: PortugueseReceiptData = {
+    issuerNif: get("A"),
+    buyerNif: get("B"),
+    buyerCountry: get("C"),
+    documentType: get("D"),
+    documentStatus: get("E"),
+    date: isoDate,
+    documentId: get("G"),
+    atcud: get("H"),
+    taxRegions,
+    nonTaxable: amount("L"),
+    stampDuty: amount("M"),
+    totalTax: amount("N") ?? 0,
+    totalAmount: amount("O") ?? 0,
+    withholdingTax: amount("P"),
+    hashExcerpt: get("Q"),
+    certificateNumber: get("R"),
+    otherInformation: fields.get("S") ?? null,
+  };
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, data };
+}
+
+export const portugueseFormat: ReceiptFormat<
+  "pt-atcud",
+  PortugueseReceiptData
+> = {
+  id: "pt-atcud",
+  label: "Portuguese invoice (ATCUD)",
+  flag: "🇵🇹",
+  detect: (text) => /^A:\d{9}\*B:/.test(text.trim()),
+  parse: parsePortugueseReceipt,
+};
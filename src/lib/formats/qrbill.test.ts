@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { parseSwissQRBill } from "@/lib/formats/qrbill";
+
+// The example bill with a QR reference from the Swiss implementation
+// guidelines
+const LINES = [
+  "SPC",
+  "0200",
+  "1",
+  "CH4431999123000889012",
+  "S",
+  "Robert Schneider AG",
+  "Rue du Lac",
+  "1268",
+  "2501",
+  "Biel",
+  "CH",
+  ...Array(7).fill(""),
+  "1949.75",
+  "CHF",
+  "S",
+  "Pia-Maria Rutschmann-Schnyder",
+  "Grosse Marktgasse",
+  "28",
+  "9400",
+  "Rorschach",
+  "CH",
+  "QRR",
+  "210000000003139471430009017",
+  "Order dated 18.06.2020",
+  "EPD",
+];
+
+function bill(patch: Record<number, string> = {}): string {
+  return LINES.map((line, index) => patch[index] ?? line).join("\n");
+}
+
+function errorFields(text: string): string[] {
+  const result = parseSwissQRBill(text);
+  return result.ok ? [] : result.errors.map((error) => error.field);
+}
+
+describe("parseSwissQRBill", () => {
+  it("reads the creditor, debtor, amount and reference", () => {
+    expect(parseSwissQRBill(bill())).toEqual({
+      ok: true,
+      data: {
+        version: "0200",
+        iban: "CH4431999123000889012",
+        creditor: {
+          name: "Robert Schneider AG",
+          lines: ["Rue du Lac 1268", "2501 Biel"],
+          country: "CH",
+        },
+        amount: 1949.75,
+        currency: "CHF",
+        debtor: {
+          name: "Pia-Maria Rutschmann-Schnyder",
+          lines: ["Grosse Marktgasse 28", "9400 Rorschach"],
+          country: "CH",
+        },
+        referenceType: "QRR",
+        reference: "210000000003139471430009017",
+        message: "Order dated 18.06.2020",
+        billingInformation: null,
+        alternativeSchemes: [],
+      },
+    });
+  });
+
+  it("reads an open amount with a creditor reference and no debtor", () => {
+    const text = bill({
+      3: "CH93 0076 2011 6238 5295 7",
+      18: "",
+      20: "",
+      21: "",
+      22: "",
+      23: "",
+      24: "",
+      25: "",
+      26: "",
+      27: "SCOR",
+      28: "RF18 5390 0754 7034",
+    });
+
+    expect(parseSwissQRBill(text)).toMatchObject({
+      ok: true,
+      data: {
+        iban: "CH9300762011623852957",
+        amount: null,
+        debtor: null,
+        referenceType: "SCOR",
+        reference: "RF18539007547034",
+      },
+    });
+  });
+
+  it("rejects an IBAN with a wrong checksum", () => {
+    expect(parseSwissQRBill(bill({ 3: "CH4431999123000889013" }))).toEqual({
+      ok: false,
+      errors: [
+        {
+          field: "iban",
+          message: "Expected a valid Swiss or Liechtenstein IBAN",
+          value: "CH4431999123000889013",
+        },
+      ],
+    });
+  });
+
+  it("rejects a QR reference with a wrong check digit", () => {
+    expect(
+      parseSwissQRBill(bill({ 28: "210000000003139471430009018" }))
+    ).toEqual({
+      ok: false,
+      errors: [
+        {
+          field: "reference",
+          message: "QR reference must be 27 digits with a valid check digit",
+          value: "210000000003139471430009018",
+        },
+      ],
+    });
+  });
+
+  it("pairs QR-IBANs with QR references only", () => {
+    expect(errorFields(bill({ 27: "NON", 28: "" }))).toEqual(["referenceType"]);
+    expect(errorFields(bill({ 3: "CH9300762011623852957" }))).toEqual([
+      "referenceType",
+    ]);
+  });
+
+  it("names malformed addresses, currency and trailer", () => {
+    expect(
+      errorFields(bill({ 4: "X", 10: "Switzerland", 19: "USD", 30: "END" }))
+    ).toEqual([
+      "creditor.addressType",
+      "creditor.country",
+      "currency",
+      "trailer",
+    ]);
+  });
+
+  it("needs every line up to the trailer", () => {
+    expect(errorFields(LINES.slice(0, 20).join("\n"))).toEqual(["code"]);
+  });
+});
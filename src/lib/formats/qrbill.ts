@@ -0,0 +1,243 @@
+import {
+  isValidCreditorReference,
+  isValidIBAN,
+  isValidQRReference,
+  normalizeIBAN,
+} from "@/lib/formats/banking";
+import {
+  parseDecimal,
+  type FormatParseError,
+  type FormatParseResult,
+  type ReceiptFormat,
+} from "@/lib/formats/types";
+
+export interface QRBillAddress {
+  name: string;
+  // Street and town lines as they would be printed
+  lines: string[];
+  country: string;
+}
+
+export type QRBillReferenceType = "QRR" | "SCOR" | "NON";
+
+export interface SwissQRBillData {
+  version: string;
+  // Account of the creditor, without spaces
+  iban: string;
+  creditor: QRBillAddress;
+  // Left open for the payer to fill in when null
+  amount: number | null;
+  currency: "CHF" | "EUR";
+  debtor: QRBillAddress | null;
+  referenceType: QRBillReferenceType;
+  reference: string | null;
+  message: string | null;
+  // Structured billing information, e.g. "//S1/10/…"
+  billingInformation: string | null;
+  alternativeSchemes: string[];
+}
+
+// Swiss Payment Standards, "Swiss Implementation Guidelines for the QR-bill"
+const MIN_LINE_COUNT = 31;
+const TRAILER = "EPD";
+
+// A QR-IBAN has an institution ID between 30000 and 31999 and may only be
+// used with a QR reference
+function isQRIBAN(iban: string): boolean {
+  const institution = Number(iban.slice(4, 9));
+  return institution >= 30000 && institution <= 31999;
+}
+
+// Seven lines: address type, name, two address fields, postcode, town, country.
+// Type S is structured (street / number / postcode / town), type K combines
+// everything into two free address lines
+function parseAddress(
+  lines: string[],
+  field: string,
+  errors: FormatParseError[]
+): QRBillAddress | null {
+  const [type, name, first, second, postcode, town, country] = lines;
+  if (lines.every((line) => !line)) {
+    return null;
+  }
+  if (type !== "S" && type !== "K") {
+    errors.push({
+      field: `${field}.addressType`,
+      message: "Address type must be S or K",
+      value: type,
+    });
+  }
+  if (!name) {
+    errors.push({ field: `${field}.name`, message: "Name is empty" });
+  }
+  if (!/^[A-Z]{2}$/.test(country)) {
+    errors.push({
+      field: `${field}.country`,
+      message: "Country must be a two-letter ISO code",
+      value: country,
+    });
+  }
+
+  const addressLines =
+    type === "K"
+      ? [first, second]
+      : [
+          [first, second].filter(Boolean).join(" "),
+          [postcode, town].filter(Boolean).join(" "),
+        ];
+  return {
+    name,
+    lines: addressLines.filter(Boolean),
+    country,
+  };
+}
+
+export function parseSwissQRBill(
+  text: string
+): FormatParseResult<SwissQRBillData> {
+  const lines = text.split(/\r?\n/);
+  if (lines.length < MIN_LINE_COUNT) {
+    return {
+      ok: false,
+      errors: [
+        {
+          field: "code",
+          message: `Expected at least ${MIN_LINE_COUNT} lines, found ${lines.length}`,
+        },
+      ],
+    };
+  }
+
+  const errors: FormatParseError[] = [];
+  const fields = lines.map((value) => value.trim());
+  const line = (index: number) => fields[index] ?? "";
+  const [version, coding] = [line(1), line(2)];
+
+  if (!/^02\d\d$/.test(version)) {
+    errors.push({
+      field: "version",
+      message: "Only version 2 QR-bills are supported",
+      value: version,
+    });
+  }
+  if (coding !== "1") {
+    errors.push({
+      field: "coding",
+      message: "Coding type must be 1 (UTF-8)",
+      value: coding,
+    });
+  }
+
+  const iban = normalizeIBAN(line(3));
+  if (!isValidIBAN(iban) || !/^(CH|LI)/.test(iban)) {
+    errors.push({
+      field: "iban",
+      message: "Expected a valid Swiss or Liechtenstein IBAN",
+      value: line(3),
+    });
+  }
+
+  const creditor = parseAddress(fields.slice(4, 11), "creditor", errors);
+  if (!creditor) {
+    errors.push({ field: "creditor", message: "Creditor address is empty" });
+  }
+
+  const amountString = line(18);
+  const amount = amountString ? parseDecimal(amountString, ".") : null;
+  if (amountString && (amount === null || amount < 0)) {
+    errors.push({
+      field: "amount",
+      message: "Amount is not a number",
+      value: amountString,
+    });
+  }
+  const currency = line(19);
+  if (currency !== "CHF" && currency !== "EUR") {
+    errors.push({
+      field: "currency",
+      message: "Currency must be CHF or EUR",
+      value: currency,
+    });
+  }
+
+  const debtor = parseAddress(fields.slice(20, 27), "debtor", errors);
+
+  const referenceType = line(27) as QRBillReferenceType;
+  const reference = line(28).replace(/\s/g, "") || null;
+  if (referenceType === "QRR") {
+    if (!reference || !isValidQRReference(reference)) {
+      errors.push({
+        field: "reference",
+        message: "QR reference must be 27 digits with a valid check digit",
+        value: line(28),
+      });
+    }
+  } else if (referenceType === "SCOR") {
+    if (!reference || !isValidCreditorReference(reference)) {
+      errors.push({
+        field: "reference",
+        message: "Creditor reference (RF…) is invalid",
+        value: line(28),
+      });
+    }
+  } else if (referenceType === "NON") {
+    if (reference) {
+      errors.push({
+        field: "reference",
+        message: "Reference must be empty for type NON",
+        value: line(28),
+      });
+    }
+  } else {
+    errors.push({
+      field: "referenceType",
+      message: "Reference type must be QRR, SCOR or NON",
+      value: line(27),
+    });
+  }
+  if (isQRIBAN(iban) !== (referenceType === "QRR")) {
+    errors.push({
+      field: "referenceType",
+      message:
+        "A QR-IBAN requires a QR reference, and only a QR-IBAN allows one",
+      value: referenceType,
+    });
+  }
+
+  if (line(30) !== TRAILER) {
+    errors.push({
+      field: "trailer",
+      message: `Expected the trailer "${TRAILER}"`,
+      value: line(30),
+    });
+  }
+
+  if (errors.length > 0 || !creditor) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      version,
+      iban,
+      creditor,
+      amount,
+      currency: currency as SwissQRBillData["currency"],
+      debtor,
+      referenceType,
+      reference,
+      message: line(29) || null,
+      billingInformation: line(31) || null,
+      alternativeSchemes: [line(32), line(33)].filter(Boolean),
+    },
+  };
+}
+
+export const swissQRBillFormat: ReceiptFormat<"ch-qrbill", SwissQRBillData> = {
+  id: "ch-qrbill",
+  label: "Swiss QR-bill",
+  flag: "🇨🇭",
+  detect: (text) => /^SPC\r?\n/.test(text),
+  parse: parseSwissQRBill,
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseSlovenianReceipt } from "@/lib/formats/slovenia";
+
+const ZOI = "000000000000000000001234567890123456789";
+const TAX_NUMBER = "12345678";
+
+// Appends the check digit, the sum of all digits mod 10
+function code(zoi: string, time: string): string {
+  const digits = zoi + TAX_NUMBER + time;
+  const sum = Array.from(digits, Number).reduce((a, b) => a + b, 0);
+  return digits + (sum % 10);
+}
+
+describe("parseSlovenianReceipt", () => {
+  it("reads the ZOI as hex, the tax number and the issue time", () => {
+    expect(parseSlovenianReceipt(code(ZOI, "240115143000"))).toEqual({
+      ok: true,
+      data: {
+        zoi: "0000000000000000112210f47de98115",
+        taxNumber: TAX_NUMBER,
+        issuedAt: "2024-01-15T14:30:00",
+      },
+    });
+  });
+
+  it("rejects a wrong check digit", () => {
+    const valid = code(ZOI, "240115143000");
+    const wrong = valid.slice(0, -1) + ((Number(valid[59]) + 1) % 10);
+
+    expect(parseSlovenianReceipt(wrong)).toEqual({
+      ok: false,
+      errors: [
+        {
+          field: "checkDigit",
+          message: `Check digit should be ${valid[59]}`,
+          value: wrong[59],
+        },
+      ],
+    });
+  });
+
+  it("rejects a ZOI wider than 128 bits and an impossible date", () => {
+    const result = parseSlovenianReceipt(code("9".repeat(39), "241315143000"));
+
+    expect(result.ok || result.errors.map((error) => error.field)).toEqual([
+      "zoi",
+      "issuedAt",
+    ]);
+  });
+
+  it("expects exactly 60 digits", () => {
+    expect(parseSlovenianReceipt("1234")).toMatchObject({
+      ok: false,
+      errors: [{ field: "code", message: "Expected 60 digits" }],
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import type {
+  FormatParseError,
+  FormatParseResult,
+  ReceiptFormat,
+} from "@/lib/formats/types";
+
+export interface SlovenianReceiptData {
+  // Issuer's protective mark (zaščitna oznaka izdajatelja), 32 hex digits
+  zoi: string;
+  // Issuer's tax number (davčna številka)
+  taxNumber: string;
+  // Local Slovenian time, YYYY-MM-DDTHH:MM:SS
+  issuedAt: string;
+}
+
+const CODE_LENGTH = 60;
+
+// Fiscal receipt code (davčno potrjevanje računov): 60 digits made of the
+// ZOI as a 39-digit decimal, the 8-digit tax number, the issue time as
+// YYMMDDHHMMSS and a check digit, the sum of all other digits mod 10
+export function parseSlovenianReceipt(
+  text: string
+): FormatParseResult<SlovenianReceiptData> {
+  const code = text.trim();
+  if (!new RegExp(`^\\d{${CODE_LENGTH}}$`).test(code)) {
+    return {
+      ok: false,
+      errors: [
+        {
+          field: "code",
+          message: `Expected ${CODE_LENGTH} digits`,
+          value: code,
+        },
+      ],
+    };
+  }
+
+  const errors: FormatParseError[] = [];
+  const digits = Array.from(code, Number);
+  const checksum =
+    digits.slice(0, -1).reduce((sum, digit) => sum + digit, 0) % 10;
+  if (checksum !== digits[CODE_LENGTH - 1]) {
+    errors.push({
+      field: "checkDigit",
+      message: `Check digit should be ${checksum}`,
+      value: code[CODE_LENGTH - 1],
+    });
+  }
+
+  const zoiValue = BigInt(code.slice(0, 39));
+  if (zoiValue >= 2n ** 128n) {
+    errors.push({
+      field: "zoi",
+      message: "ZOI is larger than 128 bits",
+      value: code.slice(0, 39),
+    });
+  }
+
+  const time = code.slice(47, 59);
+  const issuedAt = `20${time.slice(0, 2)}-${time.slice(2, 4)}-${time.slice(
+    4,
+    6
+  )}T${time.slice(6, 8)}:${time.slice(8, 10)}:${time.slice(10, 12)}`;
+  if (isNaN(Date.parse(issuedAt))) {
+    errors.push({
+      field: "issuedAt",
+      message: "Issue time is not a valid YYMMDDHHMMSS date",
+      value: time,
+    });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      zoi: zoiValue.toString(16).padStart(32, "0"),
+      taxNumber: code.slice(39, 47),
+      issuedAt,
+    },
+  };
+}
+
+export const slovenianFormat: ReceiptFormat<"si-fiscal", SlovenianReceiptData> =
+  {
+    id: "si-fiscal",
+    label: "Slovenian fiscal receipt",
+    flag: "🇸🇮",
+    detect: (text) => new RegExp(`^\\d{${CODE_LENGTH}}$`).test(text.trim()),
+    parse: parseSlovenianReceipt,
+  };
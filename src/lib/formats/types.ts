@@ -0,0 +1,40 @@
+export interface FormatParseError {
+  // Name of the offending field in the format's own terms, e.g. "IBAN"
+  field: string;
+  message: string;
+  value?: string;
+}
+
+export type FormatParseResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errors: FormatParseError[] };
+
+// One receipt or payment QR format. `detect` is a cheap check of the
+// format's signature; only codes it accepts are handed to `parse`, whose
+// errors are then worth showing. The render half is ReceiptFormatCard's
+// renderer table, keyed by registry id, so a format registered without a
+// card doesn't type-check
+export interface ReceiptFormat<Id extends string, T> {
+  id: Id;
+  label: string;
+  // Flag emoji shown next to the label
+  flag: string;
+  detect(text: string): boolean;
+  parse(text: string): FormatParseResult<T>;
+}
+
+// Accepts both "12.50" and "12,50", which formats use depending on the country
+export function parseDecimal(
+  value: string,
+  separator: "." | ","
+): number | null {
+  const pattern = separator === "." ? /^-?\d+(\.\d+)?$/ : /^-?\d+(,\d+)?$/;
+  return pattern.test(value) ? Number(value.replace(",", ".")) : null;
+}
+
+// Sums in cents so that e.g. 0.1 + 0.2 doesn't leak float noise into totals
+export function sumAmounts(amounts: number[]): number {
+  return (
+    amounts.reduce((total, amount) => total + Math.round(amount * 100), 0) / 100
+  );
+}
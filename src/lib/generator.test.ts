@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  colorContrast,
+  createQRMatrix,
+  DEFAULT_GENERATOR_OPTIONS,
+  matrixToPixels,
+  matrixToSVG,
+  verifyQRPixels,
+  type ErrorCorrectionLevel,
+  type QRGeneratorOptions,
+} from "@/lib/generator";
+import { decodeImageData } from "@/lib/qr";
+
+const RECEIPT_TEXT =
+  "V0;955002-00;Kassenbeleg-V1;Beleg^0.00_2.55_0.00_0.00_0.00^2.55:Bar;18;112;2019-07-10T18:41:04.000Z;2019-07-10T18:41:04.000Z;ecdsa-plain-SHA256;unixTime;MEQCIAy4P9k+7x9saDO0uRZ4El8QwN+qTgYiv1DIaJIMWRiuAiAt+saFDGjK2Yi5Cxgy7PprXQ5O0seRgx4ltdpW9REvwA==;BHhWOeisRpPBTGQ1W4VUH95TXx2GARf8e2NYZXJoInjtGqnxJ8sZ3CQpYgjI+LYEmW5A37sLWHsyU7nSJUBemyU=";
+
+function render(text: string, patch: Partial<QRGeneratorOptions> = {}) {
+  const options = { ...DEFAULT_GENERATOR_OPTIONS, scale: 4, ...patch };
+  return matrixToPixels(createQRMatrix(text, options), options);
+}
+
+describe("generated codes", () => {
+  it.each<ErrorCorrectionLevel>(["L", "M", "Q", "H"])(
+    "read back at error correction %s",
+    (errorCorrection) => {
+      const pixels = render("https://example.com/?q=1", { errorCorrection });
+
+      expect(decodeImageData(pixels)?.data).toBe("https://example.com/?q=1");
+    }
+  );
+
+  it("read back a full receipt code", () => {
+    const pixels = render(RECEIPT_TEXT, { errorCorrection: "L", scale: 3 });
+
+    expect(verifyQRPixels(pixels, RECEIPT_TEXT)).toBe(true);
+  });
+
+  it("read back text outside Latin-1", () => {
+    const text = "Grüße aus Zagreb – račun €12,50";
+
+    expect(verifyQRPixels(render(text), text)).toBe(true);
+  });
+
+  it("read back in a fixed version and custom colours", () => {
+    const pixels = render("WIFI:S:Home;T:WPA;P:secret;;", {
+      version: 10,
+      dark: "#1e3a8a",
+      light: "#fef3c7",
+      margin: 2,
+    });
+
+    expect(decodeImageData(pixels)?.data).toBe("WIFI:S:Home;T:WPA;P:secret;;");
+  });
+
+  it("read back light on dark, as the scanner also tries inverted codes", () => {
+    const pixels = render("inverted", { dark: "#ffffff", light: "#000000" });
+
+    expect(verifyQRPixels(pixels, "inverted")).toBe(true);
+  });
+
+  it("fail verification against different text", () => {
+    expect(verifyQRPixels(render("one"), "two")).toBe(false);
+  });
+});
+
+describe("createQRMatrix", () => {
+  it("picks the smallest version the text fits in", () => {
+    const matrix = createQRMatrix("hi", {
+      errorCorrection: "L",
+      version: null,
+    });
+
+    expect(matrix.version).toBe(1);
+    expect(matrix.size).toBe(21);
+    expect(matrix.modules).toHaveLength(21 * 21);
+  });
+
+  it("throws a trimmed message when the text doesn't fit", () => {
+    expect(() =>
+      createQRMatrix(RECEIPT_TEXT, { errorCorrection: "H", version: 2 })
+    ).toThrow(/^\S/);
+  });
+});
+
+describe("matrixToPixels", () => {
+  it("surrounds the code with the margin", () => {
+    const matrix = createQRMatrix("hi", { errorCorrection: "L", version: 1 });
+    const pixels = matrixToPixels(matrix, {
+      margin: 4,
+      scale: 2,
+      dark: "#000000",
+      light: "#ffffff",
+    });
+
+    expect(pixels.width).toBe((21 + 8) * 2);
+    expect(pixels.data[0]).toBe(255);
+    // The top-left finder pattern starts right after the margin
+    expect(pixels.data[(8 * pixels.width + 8) * 4]).toBe(0);
+  });
+});
+
+describe("matrixToSVG", () => {
+  it("draws one square per dark module", () => {
+    const matrix = createQRMatrix("hi", { errorCorrection: "L", version: 1 });
+    const svg = matrixToSVG(matrix, {
+      margin: 4,
+      dark: "#000000",
+      light: "#ffffff",
+    });
+    const dark = matrix.modules.filter(Boolean).length;
+
+    expect(svg).toContain('viewBox="0 0 29 29"');
+    expect(svg.match(/h1v1h-1z/g)).toHaveLength(dark);
+  });
+});
+
+describe("colorContrast", () => {
+  it("matches the WCAG ratios", () => {
+    expect(colorContrast("#000000", "#ffffff")).toBeCloseTo(21);
+    expect(colorContrast("#777777", "#ffffff")).toBeCloseTo(4.48, 2);
+    expect(() => colorContrast("black", "#ffffff")).toThrow("Invalid colour");
+  });
+});
@@ -0,0 +1,164 @@
+import QRCode from "qrcode";
+import { decodeImageData, type PixelData } from "@/lib/qr";
+
+export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export interface QRGeneratorOptions {
+  errorCorrection: ErrorCorrectionLevel;
+  // 1–40, or null for the smallest version the text fits in
+  version: number | null;
+  // Quiet zone in modules; the specification asks for 4
+  margin: number;
+  // Pixels per module in PNG output
+  scale: number;
+  // #rrggbb
+  dark: string;
+  light: string;
+}
+
+export const DEFAULT_GENERATOR_OPTIONS: QRGeneratorOptions = {
+  errorCorrection: "M",
+  version: null,
+  margin: 4,
+  scale: 8,
+  dark: "#000000",
+  light: "#ffffff",
+};
+
+export interface QRMatrix {
+  version: number;
+  // Modules per side, without the margin
+  size: number;
+  // Row-major, true for dark modules
+  modules: boolean[];
+}
+
+// Throws when the text doesn't fit the chosen version and error correction
+export function createQRMatrix(
+  text: string,
+  options: Pick<QRGeneratorOptions, "errorCorrection" | "version">
+): QRMatrix {
+  let qr: QRCode.QRCode;
+  try {
+    qr = QRCode.create(text, {
+      errorCorrectionLevel: options.errorCorrection,
+      version: options.version ?? undefined,
+    });
+  } catch (error) {
+    // The library's messages start with a line break
+    throw new Error(
+      error instanceof Error ? error.message.trim() : "Could not encode"
+    );
+  }
+  const { size } = qr.modules;
+  const modules: boolean[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      modules.push(qr.modules.get(row, col) === 1);
+    }
+  }
+  return { version: qr.version, size, modules };
+}
+
+function parseHexColor(color: string): [number, number, number] {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  if (!match) {
+    throw new Error(`Invalid colour "${color}", expected #rrggbb`);
+  }
+  return [
+    parseInt(match[1], 16),
+    parseInt(match[2], 16),
+    parseInt(match[3], 16),
+  ];
+}
+
+// WCAG relative luminance contrast; scanners struggle below roughly 3:1, and
+// most can't read light-on-dark codes at all
+export function colorContrast(dark: string, light: string): number {
+  const luminance = (color: string) => {
+    const [r, g, b] = parseHexColor(color).map((channel) => {
+      const value = channel / 255;
+      return value <= 0.03928
+        ? value / 12.92
+        : Math.pow((value + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  };
+  return (luminance(light) + 0.05) / (luminance(dark) + 0.05);
+}
+
+export function matrixToPixels(
+  matrix: QRMatrix,
+  options: Pick<QRGeneratorOptions, "margin" | "scale" | "dark" | "light">
+): PixelData {
+  const { margin, scale } = options;
+  const dark = parseHexColor(options.dark);
+  const light = parseHexColor(options.light);
+  const width = (matrix.size + margin * 2) * scale;
+  const data = new Uint8ClampedArray(width * width * 4);
+
+  for (let y = 0; y < width; y++) {
+    const row = Math.floor(y / scale) - margin;
+    for (let x = 0; x < width; x++) {
+      const col = Math.floor(x / scale) - margin;
+      const isDark =
+        row >= 0 &&
+        col >= 0 &&
+        row < matrix.size &&
+        col < matrix.size &&
+        matrix.modules[row * matrix.size + col];
+      const [r, g, b] = isDark ? dark : light;
+      const offset = (y * width + x) * 4;
+      data[offset] = r;
+      data[offset + 1] = g;
+      data[offset + 2] = b;
+      data[offset + 3] = 255;
+    }
+  }
+  return { data, width, height: width };
+}
+
+// One path for all dark modules, in module units so it scales crisply
+export function matrixToSVG(
+  matrix: QRMatrix,
+  options: Pick<QRGeneratorOptions, "margin" | "dark" | "light">
+): string {
+  const total = matrix.size + options.margin * 2;
+  let path = "";
+  for (let row = 0; row < matrix.size; row++) {
+    for (let col = 0; col < matrix.size; col++) {
+      if (matrix.modules[row * matrix.size + col]) {
+        path += `M${col + options.margin} ${row + options.margin}h1v1h-1z`;
+      }
+    }
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges"><rect width="${total}" height="${total}" fill="${options.light}"/><path d="${path}" fill="${options.dark}"/></svg>`;
+}
+
+// Decodes the rendered code with the same jsQR path the scanner uses, so a
+// code is only offered once it's known to read back as `text`
+export function verifyQRPixels(pixels: PixelData, text: string): boolean {
+  return decodeImageData(pixels)?.data === text;
+}
+
+export function pixelsToPNG(pixels: PixelData): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return Promise.reject(new Error("Could not get canvas context"));
+  }
+  context.putImageData(
+    new ImageData(pixels.data, pixels.width, pixels.height),
+    0,
+    0
+  );
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not encode PNG")),
+      "image/png"
+    )
+  );
+}
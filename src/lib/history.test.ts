@@ -0,0 +1,154 @@
+import { IDBFactory } from "fake-indexeddb";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  createIndexedDBHistoryRepository,
+  matchesHistoryFilter,
+  type HistoryRecord,
+  type NewHistoryRecord,
+} from "@/lib/history";
+import { parseReceiptString, type GermanReceiptData } from "@/lib/receipt";
+
+const RECEIPT_TEXT =
+  "V0;955002-00;Kassenbeleg-V1;Beleg^0.00_2.55_0.00_0.00_0.00^2.55:Bar;18;112;2019-07-10T18:41:04.000Z;2019-07-10T18:41:04.000Z;ecdsa-plain-SHA256;unixTime;MEQCIAy4P9k+7x9saDO0uRZ4El8QwN+qTgYiv1DIaJIMWRiuAiAt+saFDGjK2Yi5Cxgy7PprXQ5O0seRgx4ltdpW9REvwA==;BHhWOeisRpPBTGQ1W4VUH95TXx2GARf8e2NYZXJoInjtGqnxJ8sZ3CQpYgjI+LYEmW5A37sLWHsyU7nSJUBemyU=";
+const RECEIPT = parseReceiptString(RECEIPT_TEXT) as GermanReceiptData;
+
+function newRecord(patch: Partial<NewHistoryRecord> = {}): NewHistoryRecord {
+  return {
+    scannedAt: "2024-03-01T12:00:00.000Z",
+    rawText: "https://example.com",
+    receipt: null,
+    aiResult: null,
+    thumbnail: "",
+    ...patch,
+  };
+}
+
+function record(patch: Partial<NewHistoryRecord> = {}): HistoryRecord {
+  return { id: 1, ...newRecord(patch) };
+}
+
+describe("createIndexedDBHistoryRepository", () => {
+  const createRepository = () =>
+    createIndexedDBHistoryRepository(new IDBFactory(), "test-history");
+
+  it("adds, reads, updates and deletes records", async () => {
+    const repository = createRepository();
+    const added = await repository.add(newRecord({ rawText: "first" }));
+
+    expect(added.id).toBe(1);
+    expect(await repository.get(added.id)).toEqual(added);
+
+    const updated = await repository.update(added.id, { aiResult: "R-42" });
+    expect(updated).toEqual({ ...added, aiResult: "R-42" });
+    expect(await repository.get(added.id)).toEqual(updated);
+    expect(await repository.update(99, { aiResult: "R-43" })).toBeNull();
+
+    await repository.delete(added.id);
+    expect(await repository.get(added.id)).toBeNull();
+  });
+
+  it("lists the newest scans first, filtered", async () => {
+    const repository = createRepository();
+    await repository.add(
+      newRecord({ rawText: "old", scannedAt: "2024-01-01T10:00:00.000Z" })
+    );
+    await repository.add(
+      newRecord({ rawText: "new", scannedAt: "2024-02-01T10:00:00.000Z" })
+    );
+    await repository.add(
+      newRecord({
+        rawText: RECEIPT_TEXT,
+        receipt: RECEIPT,
+        scannedAt: "2024-01-15T10:00:00.000Z",
+      })
+    );
+
+    const all = await repository.list();
+    expect(all.map((entry) => entry.rawText.slice(0, 3))).toEqual([
+      "new",
+      "V0;",
+      "old",
+    ]);
+    expect(
+      (await repository.list({ query: "NEW" })).map((entry) => entry.rawText)
+    ).toEqual(["new"]);
+    expect(await repository.list({ paymentMethod: "Bar" })).toHaveLength(1);
+  });
+
+  it("clears every record", async () => {
+    const repository = createRepository();
+    await repository.add(newRecord());
+    await repository.add(newRecord());
+
+    await repository.clear();
+    expect(await repository.list()).toEqual([]);
+  });
+});
+
+describe("matchesHistoryFilter", () => {
+  const timeZone = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = "Europe/Berlin";
+  });
+  afterAll(() => {
+    if (timeZone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = timeZone;
+    }
+  });
+
+  it("dates scans by the local day", () => {
+    // 00:30 on 2 March in Berlin
+    const lateScan = record({ scannedAt: "2024-03-01T23:30:00.000Z" });
+
+    expect(matchesHistoryFilter(lateScan, { dateFrom: "2024-03-02" })).toBe(
+      true
+    );
+    expect(matchesHistoryFilter(lateScan, { dateTo: "2024-03-01" })).toBe(
+      false
+    );
+  });
+
+  it("dates receipts by their end time rather than the scan", () => {
+    const scan = record({ receipt: RECEIPT, rawText: RECEIPT_TEXT });
+
+    expect(
+      matchesHistoryFilter(scan, {
+        dateFrom: "2019-07-10",
+        dateTo: "2019-07-10",
+      })
+    ).toBe(true);
+    expect(matchesHistoryFilter(scan, { dateFrom: "2024-03-01" })).toBe(false);
+  });
+
+  it("filters by amount and payment type", () => {
+    const scan = record({ receipt: RECEIPT, rawText: RECEIPT_TEXT });
+
+    expect(matchesHistoryFilter(scan, { minAmount: 2, maxAmount: 3 })).toBe(
+      true
+    );
+    expect(matchesHistoryFilter(scan, { minAmount: 3 })).toBe(false);
+    expect(matchesHistoryFilter(scan, { paymentMethod: "Unbar" })).toBe(false);
+  });
+
+  it("matches the register serial exactly", () => {
+    const scan = record({ receipt: RECEIPT, rawText: RECEIPT_TEXT });
+
+    expect(matchesHistoryFilter(scan, { registerSerial: " 955002-00 " })).toBe(
+      true
+    );
+    expect(matchesHistoryFilter(scan, { registerSerial: "955002" })).toBe(
+      false
+    );
+    // The signature counter is not the register
+    expect(matchesHistoryFilter(scan, { registerSerial: "112" })).toBe(false);
+  });
+
+  it("leaves scans without a receipt out of receipt filters", () => {
+    expect(
+      matchesHistoryFilter(record(), { registerSerial: "955002-00" })
+    ).toBe(false);
+    expect(matchesHistoryFilter(record(), { registerSerial: " " })).toBe(true);
+  });
+});
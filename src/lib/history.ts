@@ -0,0 +1,221 @@
+import type { BarcodeFormat } from "@/lib/barcode";
+import type { ExtractedReceipt } from "@/lib/extraction";
+import type { QRResult } from "@/lib/qr";
+import type { GermanReceiptData } from "@/lib/receipt";
+
+export interface HistoryRecord {
+  id: number;
+  // ISO timestamp of the scan (not of the receipt)
+  scannedAt: string;
+  rawText: string;
+  // Missing in records saved before other symbologies were read, which are QR
+  format?: BarcodeFormat;
+  location?: QRResult["location"];
+  // Size of the scanned image that `location` refers to
+  imageSize?: { width: number; height: number };
+  // PDF page the code was found on
+  page?: number;
+  // Set when only the AI crop fallback found the code
+  recoveredViaAICrop?: boolean;
+  receipt: GermanReceiptData | null;
+  // Receipt number read by the AI (the serial number in older records)
+  aiResult: string | null;
+  // Missing in records saved before structured extraction
+  aiReceipt?: ExtractedReceipt | null;
+  // Small JPEG data URL of the scanned image
+  thumbnail: string;
+}
+
+export type NewHistoryRecord = Omit<HistoryRecord, "id">;
+
+export interface HistoryFilter {
+  query?: string;
+  // Receipt date range, YYYY-MM-DD (inclusive); falls back to the scan date
+  dateFrom?: string;
+  dateTo?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  paymentMethod?: string;
+  // Serial number of the register (the receipt's transactionUUID field),
+  // matched exactly
+  registerSerial?: string;
+}
+
+export interface HistoryRepository {
+  add(record: NewHistoryRecord): Promise<HistoryRecord>;
+  update(
+    id: number,
+    patch: Partial<NewHistoryRecord>
+  ): Promise<HistoryRecord | null>;
+  get(id: number): Promise<HistoryRecord | null>;
+  // Newest first
+  list(filter?: HistoryFilter): Promise<HistoryRecord[]>;
+  delete(id: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DATABASE_NAME = "qr-scan-history";
+const DATABASE_VERSION = 1;
+const STORE_NAME = "scans";
+
+// YYYY-MM-DD in the local time zone, like the filter's date inputs; the
+// timestamps themselves are UTC or carry an offset
+function localDate(timestamp: string): string {
+  const date = new Date(timestamp);
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+function recordDate(record: HistoryRecord): string {
+  const timestamp = record.receipt?.timestampEnd;
+  return localDate(
+    timestamp && !isNaN(Date.parse(timestamp)) ? timestamp : record.scannedAt
+  );
+}
+
+export function matchesHistoryFilter(
+  record: HistoryRecord,
+  filter: HistoryFilter
+): boolean {
+  const query = filter.query?.trim().toLowerCase();
+  if (query) {
+    const haystack = [
+      record.rawText,
+      record.aiResult ?? "",
+      record.aiReceipt?.merchantName ?? "",
+      record.receipt?.receipt.label ?? "",
+      record.receipt?.transactionUUID ?? "",
+    ]
+      .join("\n")
+      .toLowerCase();
+    if (!haystack.includes(query)) {
+      return false;
+    }
+  }
+
+  const date = recordDate(record);
+  if (filter.dateFrom && date < filter.dateFrom) {
+    return false;
+  }
+  if (filter.dateTo && date > filter.dateTo) {
+    return false;
+  }
+
+  // Amount, payment and register filters only apply to parsed receipts
+  const hasReceiptFilter =
+    filter.minAmount !== undefined ||
+    filter.maxAmount !== undefined ||
+    Boolean(filter.paymentMethod) ||
+    Boolean(filter.registerSerial?.trim());
+  if (!hasReceiptFilter) {
+    return true;
+  }
+  if (!record.receipt) {
+    return false;
+  }
+
+  const { totalAmount, payments } = record.receipt.receipt;
+  if (filter.minAmount !== undefined && totalAmount < filter.minAmount) {
+    return false;
+  }
+  if (filter.maxAmount !== undefined && totalAmount > filter.maxAmount) {
+    return false;
+  }
+  if (
+    filter.paymentMethod &&
+    !payments.some((payment) => payment.type === filter.paymentMethod)
+  ) {
+    return false;
+  }
+  const registerSerial = filter.registerSerial?.trim();
+  if (registerSerial && record.receipt.transactionUUID !== registerSerial) {
+    return false;
+  }
+  return true;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(factory: IDBFactory, name: string): Promise<IDBDatabase> {
+  const request = factory.open(name, DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE_NAME, {
+      keyPath: "id",
+      autoIncrement: true,
+    });
+    store.createIndex("scannedAt", "scannedAt");
+  };
+  return requestToPromise(request);
+}
+
+// `factory` and `name` are injectable so tests can run against fake-indexeddb
+export function createIndexedDBHistoryRepository(
+  factory: IDBFactory = indexedDB,
+  name: string = DATABASE_NAME
+): HistoryRepository {
+  let database: Promise<IDBDatabase> | null = null;
+
+  // Resolves with the request's result once the transaction has committed
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    database ??= openDatabase(factory, name);
+    const transaction = (await database).transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  const get = async (id: number) =>
+    ((await run("readonly", (store) => store.get(id))) as
+      | HistoryRecord
+      | undefined) ?? null;
+
+  return {
+    async add(record) {
+      const id = await run("readwrite", (store) => store.add(record));
+      return { ...record, id: id as number };
+    },
+
+    async update(id, patch) {
+      const existing = await get(id);
+      if (!existing) {
+        return null;
+      }
+      const updated = { ...existing, ...patch, id };
+      await run("readwrite", (store) => store.put(updated));
+      return updated;
+    },
+
+    get,
+
+    async list(filter = {}) {
+      const records = (await run("readonly", (store) =>
+        store.index("scannedAt").getAll()
+      )) as HistoryRecord[];
+      return records
+        .reverse()
+        .filter((record) => matchesHistoryFilter(record, filter));
+    },
+
+    async delete(id) {
+      await run("readwrite", (store) => store.delete(id));
+    },
+
+    async clear() {
+      await run("readwrite", (store) => store.clear());
+    },
+  };
+}
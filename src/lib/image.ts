@@ -0,0 +1,68 @@
+export function fileToDataURL(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === "string") {
+        resolve(reader.result);
+      } else {
+        reject(new Error("Failed to convert file to base64"));
+      }
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load the image"));
+    image.src = src;
+  });
+}
+
+export function imageToImageData(
+  image: CanvasImageSource & {
+    width: number;
+    height: number;
+  }
+): ImageData {
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Could not create canvas context for image processing");
+  }
+
+  canvas.width = image.width;
+  canvas.height = image.height;
+  context.drawImage(image, 0, 0);
+  return context.getImageData(0, 0, image.width, image.height);
+}
+
+export async function fileToImageData(file: Blob): Promise<ImageData> {
+  const imageUrl = URL.createObjectURL(file);
+  try {
+    return imageToImageData(await loadImage(imageUrl));
+  } finally {
+    URL.revokeObjectURL(imageUrl);
+  }
+}
+
+// Scales an image down to fit `maxSize` and returns it as a JPEG data URL
+export function createThumbnail(
+  image: CanvasImageSource & { width: number; height: number },
+  maxSize = 160
+): string {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return "";
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.7);
+}
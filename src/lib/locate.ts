@@ -0,0 +1,156 @@
+import { stripCodeFence, type JsonSchema, type VisionProvider } from "@/lib/ai";
+import type { Rect } from "@/lib/preprocess";
+import type { PixelData, QRResult } from "@/lib/qr";
+import { decodeCrop } from "@/lib/region";
+import { pipelineLog } from "@/lib/telemetry";
+
+// Region of the image as fractions (0–1) of its width and height, which
+// vision models report far more reliably than pixel coordinates
+export interface NormalizedBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CropRecoveryOptions {
+  // Extra space around the box, as a fraction of its size
+  margin?: number;
+  // Crops are enlarged until their shorter side reaches this many pixels
+  targetSize?: number;
+  maxScale?: number;
+}
+
+const BOX_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["boxes"],
+  properties: {
+    boxes: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["x", "y", "width", "height"],
+        properties: {
+          x: { type: "number", description: "Left edge, 0–1" },
+          y: { type: "number", description: "Top edge, 0–1" },
+          width: { type: "number", description: "Width, 0–1" },
+          height: { type: "number", description: "Height, 0–1" },
+        },
+      },
+    },
+  },
+};
+
+export const LOCATE_CODES_PROMPT = `Find every QR code or barcode in this image. Respond with JSON matching this schema:
+
+${JSON.stringify(BOX_SCHEMA)}
+
+Coordinates are fractions of the image size (0 = left/top edge, 1 = right/bottom edge). Use an empty list when there is no code.`;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Keeps only boxes that are numbers, inside the image and not degenerate
+export function parseBoxes(response: string): NormalizedBox[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFence(response));
+  } catch {
+    return [];
+  }
+
+  const boxes = (value as { boxes?: unknown })?.boxes;
+  if (!Array.isArray(boxes)) {
+    return [];
+  }
+  return boxes.flatMap((box): NormalizedBox[] => {
+    const { x, y, width, height } = (box ?? {}) as Record<string, unknown>;
+    if (![x, y, width, height].every((n) => typeof n === "number")) {
+      return [];
+    }
+    const left = clamp(x as number);
+    const top = clamp(y as number);
+    const right = clamp((x as number) + (width as number));
+    const bottom = clamp((y as number) + (height as number));
+    return right - left > 0.01 && bottom - top > 0.01
+      ? [{ x: left, y: top, width: right - left, height: bottom - top }]
+      : [];
+  });
+}
+
+// Asks the vision model where the codes are; an unusable answer means none
+export async function locateCodes(
+  provider: VisionProvider,
+  base64Image: string
+): Promise<NormalizedBox[]> {
+  const response = await provider.complete({
+    prompt: LOCATE_CODES_PROMPT,
+    image: base64Image,
+    jsonSchema: { name: "code_regions", schema: BOX_SCHEMA },
+  });
+  return parseBoxes(response);
+}
+
+// Pixel rectangle for a box, grown by `margin` on each side to keep the
+// quiet zone and to forgive a loosely drawn box
+export function boxToRect(
+  box: NormalizedBox,
+  width: number,
+  height: number,
+  margin = 0.15
+): Rect {
+  const left = Math.max(0, Math.floor((box.x - box.width * margin) * width));
+  const top = Math.max(0, Math.floor((box.y - box.height * margin) * height));
+  const right = Math.min(
+    width,
+    Math.ceil((box.x + box.width * (1 + margin)) * width)
+  );
+  const bottom = Math.min(
+    height,
+    Math.ceil((box.y + box.height * (1 + margin)) * height)
+  );
+  return {
+    left,
+    top,
+    width: Math.max(1, right - left),
+    height: Math.max(1, bottom - top),
+  };
+}
+
+// The fallback for images jsQR gave up on: the vision model points at the
+// codes, each region is cropped, enlarged and decoded again. `decode` is
+// injected so the caller can run it off the main thread. Locations of the
+// recovered codes refer to the original image
+export async function recoverCodesWithAICrop<T extends QRResult>(
+  provider: VisionProvider,
+  base64Image: string,
+  pixels: PixelData,
+  decode: (pixels: PixelData) => Promise<T[]>,
+  options: CropRecoveryOptions = {}
+): Promise<T[]> {
+  const { margin = 0.15, targetSize = 800, maxScale = 8 } = options;
+  const boxes = await locateCodes(provider, base64Image);
+  pipelineLog.info(
+    "locate",
+    `AI located ${boxes.length} code ${
+      boxes.length === 1 ? "region" : "regions"
+    }`,
+    { image: { width: pixels.width, height: pixels.height }, data: { boxes } }
+  );
+
+  const recovered: T[] = [];
+  for (const box of boxes) {
+    const rect = boxToRect(box, pixels.width, pixels.height, margin);
+    const results = await decodeCrop(pixels, rect, decode, {
+      targetSize,
+      maxScale,
+    });
+    for (const result of results) {
+      if (!recovered.some((existing) => existing.data === result.data)) {
+        recovered.push(result);
+      }
+    }
+  }
+  return recovered;
+}
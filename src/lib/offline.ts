@@ -0,0 +1,74 @@
+import type { VisionProvider } from "@/lib/ai";
+import { pipelineLog } from "@/lib/telemetry";
+
+export interface Connectivity {
+  isOnline(): boolean;
+  // Returns a function that removes the listener
+  onOnline(listener: () => void): () => void;
+}
+
+export const browserConnectivity: Connectivity = {
+  isOnline: () => navigator.onLine,
+  onOnline(listener) {
+    window.addEventListener("online", listener);
+    return () => window.removeEventListener("online", listener);
+  },
+};
+
+export function waitUntilOnline(
+  connectivity: Connectivity = browserConnectivity
+): Promise<void> {
+  if (connectivity.isOnline()) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const unsubscribe = connectivity.onOnline(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
+
+// AI calls made while offline wait for the connection instead of failing,
+// and so does a call whose request failed because the connection dropped.
+// `onQueueChange` reports how many calls are waiting. Decoding never needs
+// the network, and neither does the mock provider.
+export function queueWhileOffline(
+  provider: VisionProvider,
+  connectivity: Connectivity = browserConnectivity,
+  onQueueChange: (waiting: number) => void = () => {}
+): VisionProvider {
+  if (provider.id === "mock") {
+    return provider;
+  }
+
+  let waiting = 0;
+  const setWaiting = (delta: number) => {
+    waiting += delta;
+    onQueueChange(waiting);
+  };
+
+  return {
+    id: provider.id,
+    async complete(request) {
+      for (;;) {
+        if (!connectivity.isOnline()) {
+          pipelineLog.info("offline", "Offline, AI request queued");
+          setWaiting(1);
+          await waitUntilOnline(connectivity);
+          setWaiting(-1);
+        }
+        try {
+          return await provider.complete(request);
+        } catch (err) {
+          if (connectivity.isOnline()) {
+            throw err;
+          }
+        }
+      }
+    },
+
+    // A test should report the missing connection rather than wait for it
+    testConnection: () => provider.testConnection(),
+  };
+}
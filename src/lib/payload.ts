@@ -0,0 +1,686 @@
+// Classifies generic (non-receipt) QR payloads so they can be shown as
+// links, contacts, Wi-Fi credentials and so on instead of raw text
+
+export type URLWarningCode =
+  | "dangerous-scheme"
+  | "insecure"
+  | "homoglyph"
+  | "ip-address"
+  | "credentials";
+
+export interface URLWarning {
+  code: URLWarningCode;
+  message: string;
+}
+
+export interface ContactPhone {
+  number: string;
+  // e.g. "cell" or "work", lower case
+  type: string | null;
+}
+
+export interface Contact {
+  name: string | null;
+  organization: string | null;
+  title: string | null;
+  phones: ContactPhone[];
+  emails: string[];
+  addresses: string[];
+  urls: string[];
+  note: string | null;
+}
+
+export interface WifiNetwork {
+  ssid: string;
+  // "WPA", "WEP", "WPA2-EAP" …, or "nopass" for open networks
+  security: string;
+  password: string | null;
+  hidden: boolean;
+}
+
+export interface CalendarEvent {
+  summary: string | null;
+  // ISO 8601; date only (YYYY-MM-DD) for all-day events. Times without a
+  // zone are floating local times and have no "Z"
+  start: string | null;
+  end: string | null;
+  allDay: boolean;
+  location: string | null;
+  description: string | null;
+}
+
+export interface OTPAccount {
+  type: "totp" | "hotp";
+  issuer: string | null;
+  account: string;
+  // Base32 shared secret
+  secret: string;
+  algorithm: string;
+  digits: number;
+  // Seconds, for TOTP
+  period: number;
+  // Initial counter, for HOTP
+  counter: number | null;
+}
+
+export type Payload =
+  | { type: "url"; url: string; warnings: URLWarning[] }
+  | {
+      type: "contact";
+      format: "vcard" | "mecard";
+      contact: Contact;
+      // vCard text for download; MeCards are converted
+      vcard: string;
+    }
+  | { type: "wifi"; network: WifiNetwork }
+  | {
+      type: "email";
+      to: string[];
+      subject: string | null;
+      body: string | null;
+    }
+  | { type: "sms"; number: string; body: string | null }
+  | { type: "phone"; number: string }
+  | {
+      type: "geo";
+      latitude: number;
+      longitude: number;
+      altitude: number | null;
+      query: string | null;
+    }
+  | { type: "event"; event: CalendarEvent; ics: string }
+  | { type: "otp"; otp: OTPAccount }
+  | { type: "text"; text: string };
+
+export type PayloadType = Payload["type"];
+
+// Schemes that run code or read local data when opened from a link
+const DANGEROUS_SCHEMES = [
+  "javascript:",
+  "data:",
+  "vbscript:",
+  "file:",
+  "blob:",
+];
+
+// Splits on `separator` unless it is escaped with a backslash, as MeCard,
+// WIFI: and vCard values do
+function splitEscaped(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\\" && i + 1 < text.length) {
+      current += text[i] + text[i + 1];
+      i++;
+    } else if (text[i] === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += text[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/\\([nN]|.)/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+// "+" only means a space in query strings; in phone numbers it's the prefix
+function decodeComponent(value: string, plusAsSpace = false): string {
+  try {
+    return decodeURIComponent(plusAsSpace ? value.replace(/\+/g, " ") : value);
+  } catch {
+    return value;
+  }
+}
+
+const emptyContact = (): Contact => ({
+  name: null,
+  organization: null,
+  title: null,
+  phones: [],
+  emails: [],
+  addresses: [],
+  urls: [],
+  note: null,
+});
+
+// Hostname as written in the payload, before URL() turns it into punycode
+function rawHost(text: string): string {
+  return (
+    /^[a-z][a-z0-9+.-]*:\/\/(?:[^@/?#]*@)?([^/:?#]*)/i.exec(text)?.[1] ?? ""
+  );
+}
+
+// Browsers ignore whitespace and control characters inside a scheme, so
+// "java\tscript:" still runs
+function dangerousScheme(text: string): string | undefined {
+  const compact = Array.from(text.toLowerCase())
+    .filter((char) => char.charCodeAt(0) > 0x20)
+    .join("");
+  return DANGEROUS_SCHEMES.find((scheme) => compact.startsWith(scheme));
+}
+
+export function checkURLSafety(text: string): URLWarning[] {
+  const trimmed = text.trim();
+  const scheme = dangerousScheme(trimmed);
+  if (scheme) {
+    return [
+      {
+        code: "dangerous-scheme",
+        message: `"${scheme}" links can run code or read local data and are never opened`,
+      },
+    ];
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return [];
+  }
+
+  const warnings: URLWarning[] = [];
+  if (url.protocol === "http:") {
+    warnings.push({
+      code: "insecure",
+      message: "The link is not encrypted (http)",
+    });
+  }
+
+  // Non-ASCII hosts end up as punycode; mixing scripts is how lookalike
+  // domains such as "аpple.com" (Cyrillic а) are built
+  const host = rawHost(trimmed);
+  if (
+    url.hostname.split(".").some((label) => label.startsWith("xn--")) ||
+    /[\u0080-\uffff]/.test(host)
+  ) {
+    warnings.push({
+      code: "homoglyph",
+      message: `The domain "${
+        host || url.hostname
+      }" uses non-Latin characters and may imitate another site (${
+        url.hostname
+      })`,
+    });
+  }
+  if (
+    /^\d{1,3}(\.\d{1,3}){3}$/.test(url.hostname) ||
+    url.hostname.startsWith("[")
+  ) {
+    warnings.push({
+      code: "ip-address",
+      message: "The link points to a bare IP address instead of a domain",
+    });
+  }
+  if (url.username || url.password) {
+    warnings.push({
+      code: "credentials",
+      message: `Text before "@" hides the real destination, ${url.hostname}`,
+    });
+  }
+  return warnings;
+}
+
+// Unfolds continuation lines and splits "GROUP.NAME;PARAM=X:value" lines
+function parseContentLines(
+  text: string
+): { name: string; params: string[]; value: string }[] {
+  return text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .flatMap((line) => {
+      const separator = line.indexOf(":");
+      if (separator === -1) {
+        return [];
+      }
+      const [name, ...params] = line.slice(0, separator).split(";");
+      return [
+        {
+          name: name.replace(/^[^.]*\./, "").toUpperCase(),
+          params: params.map((param) => param.toLowerCase()),
+          value: line.slice(separator + 1),
+        },
+      ];
+    });
+}
+
+// vCard 2.1 to 4.0; only the fields worth showing are read
+export function parseVCard(text: string): Contact {
+  const contact = emptyContact();
+  let structuredName: string | null = null;
+
+  for (const { name, params, value } of parseContentLines(text)) {
+    const unescaped = unescapeValue(value);
+    const type =
+      params
+        .flatMap((param) => param.replace(/^type=/, "").split(","))
+        .find((param) => !["pref", "voice", "internet"].includes(param)) ??
+      null;
+
+    switch (name) {
+      case "FN":
+        contact.name = unescaped;
+        break;
+      case "N":
+        // Family;Given;Additional;Prefix;Suffix
+        structuredName = splitEscaped(value, ";")
+          .slice(0, 2)
+          .map(unescapeValue)
+          .filter(Boolean)
+          .reverse()
+          .join(" ");
+        break;
+      case "ORG":
+        contact.organization = splitEscaped(value, ";")
+          .map(unescapeValue)
+          .filter(Boolean)
+          .join(", ");
+        break;
+      case "TITLE":
+        contact.title = unescaped;
+        break;
+      case "TEL":
+        contact.phones.push({ number: unescaped.replace(/^tel:/i, ""), type });
+        break;
+      case "EMAIL":
+        contact.emails.push(unescaped);
+        break;
+      case "ADR":
+        // PO box;Extended;Street;Locality;Region;Postcode;Country
+        contact.addresses.push(
+          splitEscaped(value, ";").map(unescapeValue).filter(Boolean).join(", ")
+        );
+        break;
+      case "URL":
+        contact.urls.push(unescaped);
+        break;
+      case "NOTE":
+        contact.note = unescaped;
+        break;
+    }
+  }
+
+  contact.name = contact.name || structuredName || null;
+  return contact;
+}
+
+// MECARD:N:Doe,John;TEL:+4930123;EMAIL:john@example.com;;
+export function parseMeCard(text: string): Contact {
+  const contact = emptyContact();
+  for (const field of splitEscaped(text.replace(/^MECARD:/i, ""), ";")) {
+    const separator = field.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+    const key = field.slice(0, separator).toUpperCase();
+    const value = field.slice(separator + 1);
+    const unescaped = unescapeValue(value);
+
+    switch (key) {
+      case "N":
+        // "Last,First"
+        contact.name = splitEscaped(value, ",")
+          .map(unescapeValue)
+          .reverse()
+          .join(" ")
+          .trim();
+        break;
+      case "ORG":
+        contact.organization = unescaped;
+        break;
+      case "TEL":
+        contact.phones.push({ number: unescaped, type: null });
+        break;
+      case "EMAIL":
+        contact.emails.push(unescaped);
+        break;
+      case "ADR":
+        contact.addresses.push(unescaped);
+        break;
+      case "URL":
+        contact.urls.push(unescaped);
+        break;
+      case "NOTE":
+        contact.note = unescaped;
+        break;
+    }
+  }
+  return contact;
+}
+
+function escapeVCardValue(value: string): string {
+  return value.replace(/([\\;,])/g, "\\$1").replace(/\n/g, "\\n");
+}
+
+// vCard 3.0 for a contact, e.g. to download a MeCard as .vcf
+export function contactToVCard(contact: Contact): string {
+  const lines = ["BEGIN:VCARD", "VERSION:3.0"];
+  const name = contact.name ?? contact.organization ?? "";
+  lines.push(`FN:${escapeVCardValue(name)}`);
+  if (contact.organization) {
+    lines.push(`ORG:${escapeVCardValue(contact.organization)}`);
+  }
+  if (contact.title) {
+    lines.push(`TITLE:${escapeVCardValue(contact.title)}`);
+  }
+  for (const phone of contact.phones) {
+    lines.push(
+      `TEL${
+        phone.type ? `;TYPE=${phone.type.toUpperCase()}` : ""
+      }:${escapeVCardValue(phone.number)}`
+    );
+  }
+  for (const email of contact.emails) {
+    lines.push(`EMAIL:${escapeVCardValue(email)}`);
+  }
+  for (const address of contact.addresses) {
+    // Free-form addresses go into the street component
+    lines.push(`ADR:;;${escapeVCardValue(address)};;;;`);
+  }
+  for (const url of contact.urls) {
+    lines.push(`URL:${escapeVCardValue(url)}`);
+  }
+  if (contact.note) {
+    lines.push(`NOTE:${escapeVCardValue(contact.note)}`);
+  }
+  lines.push("END:VCARD");
+  return lines.join("\r\n");
+}
+
+// WIFI:T:WPA;S:MyNetwork;P:secret;H:false;;
+export function parseWifi(text: string): WifiNetwork | null {
+  const fields = new Map<string, string>();
+  for (const field of splitEscaped(text.replace(/^WIFI:/i, ""), ";")) {
+    const separator = field.indexOf(":");
+    if (separator !== -1) {
+      fields.set(
+        field.slice(0, separator).toUpperCase(),
+        unescapeValue(field.slice(separator + 1))
+      );
+    }
+  }
+
+  const ssid = fields.get("S");
+  if (!ssid) {
+    return null;
+  }
+  const security = fields.get("T") || "nopass";
+  return {
+    ssid,
+    security,
+    password: security === "nopass" ? null : fields.get("P") ?? null,
+    hidden: fields.get("H")?.toLowerCase() === "true",
+  };
+}
+
+// 20240115T143000Z → 2024-01-15T14:30:00Z; 20240115 → 2024-01-15
+function parseICalDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(
+    value
+  );
+  if (!match) {
+    return null;
+  }
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return match[4]
+    ? `${date}T${match[4]}:${match[5]}:${match[6]}${match[7]}`
+    : date;
+}
+
+// A single VEVENT, on its own or inside a VCALENDAR
+export function parseCalendarEvent(text: string): CalendarEvent {
+  const event: CalendarEvent = {
+    summary: null,
+    start: null,
+    end: null,
+    allDay: false,
+    location: null,
+    description: null,
+  };
+
+  let inEvent = false;
+  for (const { name, params, value } of parseContentLines(text)) {
+    if (name === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      inEvent = true;
+    } else if (name === "END" && value.toUpperCase() === "VEVENT") {
+      break;
+    } else if (inEvent) {
+      switch (name) {
+        case "SUMMARY":
+          event.summary = unescapeValue(value);
+          break;
+        case "LOCATION":
+          event.location = unescapeValue(value);
+          break;
+        case "DESCRIPTION":
+          event.description = unescapeValue(value);
+          break;
+        case "DTSTART":
+          event.start = parseICalDate(value);
+          event.allDay = params.includes("value=date") || !value.includes("T");
+          break;
+        case "DTEND":
+          event.end = parseICalDate(value);
+          break;
+      }
+    }
+  }
+  return event;
+}
+
+// Wraps a bare VEVENT so calendar apps accept the download
+function toICalendar(text: string): string {
+  const trimmed = text.trim();
+  return /^BEGIN:VCALENDAR/i.test(trimmed)
+    ? trimmed
+    : ["BEGIN:VCALENDAR", "VERSION:2.0", trimmed, "END:VCALENDAR"].join("\r\n");
+}
+
+// otpauth://totp/Issuer:alice@example.com?secret=JBSWY3DPEHPK3PXP&issuer=Issuer
+export function parseOTPAuth(text: string): OTPAccount | null {
+  let url: URL;
+  try {
+    url = new URL(text.trim());
+  } catch {
+    return null;
+  }
+  const type = url.hostname.toLowerCase();
+  const secret = url.searchParams
+    .get("secret")
+    ?.replace(/\s|=+$/g, "")
+    .toUpperCase();
+  if (
+    (type !== "totp" && type !== "hotp") ||
+    !secret ||
+    !/^[A-Z2-7]+$/.test(secret)
+  ) {
+    return null;
+  }
+
+  // The label is "Issuer:account" or just "account"
+  const label = decodeComponent(url.pathname.replace(/^\//, ""));
+  const separator = label.indexOf(":");
+  const labelIssuer =
+    separator === -1 ? null : label.slice(0, separator).trim();
+  const account = separator === -1 ? label : label.slice(separator + 1).trim();
+  const counter = url.searchParams.get("counter");
+
+  return {
+    type,
+    issuer: url.searchParams.get("issuer") || labelIssuer || null,
+    account,
+    secret,
+    algorithm: (url.searchParams.get("algorithm") ?? "SHA1").toUpperCase(),
+    digits: Number(url.searchParams.get("digits") ?? 6),
+    period: Number(url.searchParams.get("period") ?? 30),
+    counter: counter === null ? null : Number(counter),
+  };
+}
+
+// Shows only the last four characters of a secret
+export function maskSecret(secret: string): string {
+  return secret.length <= 4
+    ? "•".repeat(secret.length)
+    : `${"•".repeat(Math.min(12, secret.length - 4))}${secret.slice(-4)}`;
+}
+
+function parseQuery(query: string): Map<string, string> {
+  const params = new Map<string, string>();
+  for (const pair of query.split("&")) {
+    const [key, value = ""] = pair.split("=");
+    if (key) {
+      params.set(key.toLowerCase(), decodeComponent(value, true));
+    }
+  }
+  return params;
+}
+
+function splitAt(text: string, separator: string): [string, string] {
+  const index = text.indexOf(separator);
+  return index === -1
+    ? [text, ""]
+    : [text.slice(0, index), text.slice(index + 1)];
+}
+
+function parseEmail(text: string): Payload {
+  if (/^MATMSG:/i.test(text)) {
+    // MATMSG:TO:a@example.com;SUB:Hello;BODY:Text;;
+    const fields = new Map<string, string>();
+    for (const field of splitEscaped(text.slice("MATMSG:".length), ";")) {
+      const [key, value] = splitAt(field, ":");
+      fields.set(key.toUpperCase(), unescapeValue(value));
+    }
+    const to = fields.get("TO");
+    return {
+      type: "email",
+      to: to ? [to] : [],
+      subject: fields.get("SUB") || null,
+      body: fields.get("BODY") || null,
+    };
+  }
+
+  const [address, query] = splitAt(text.slice("mailto:".length), "?");
+  const params = parseQuery(query);
+  return {
+    type: "email",
+    to: decodeComponent(address)
+      .split(",")
+      .map((recipient) => recipient.trim())
+      .filter(Boolean),
+    subject: params.get("subject") || null,
+    body: params.get("body") || null,
+  };
+}
+
+function parseSms(text: string): Payload {
+  if (/^smsto:/i.test(text)) {
+    // SMSTO:+4930123:Message text
+    const [number, body] = splitAt(text.slice("smsto:".length), ":");
+    return { type: "sms", number, body: body || null };
+  }
+  const [number, query] = splitAt(text.replace(/^sms:/i, ""), "?");
+  return {
+    type: "sms",
+    number: decodeComponent(number),
+    body: parseQuery(query).get("body") || null,
+  };
+}
+
+// geo:52.5163,13.3777,34?q=Brandenburger+Tor
+function parseGeo(text: string): Payload | null {
+  const [coordinates, query] = splitAt(text.slice("geo:".length), "?");
+  const [latitude, longitude, altitude] = coordinates
+    .split(";")[0]
+    .split(",")
+    .map(Number);
+  if (
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return null;
+  }
+  return {
+    type: "geo",
+    latitude,
+    longitude,
+    altitude: Number.isFinite(altitude) ? altitude : null,
+    query: parseQuery(query).get("q") || null,
+  };
+}
+
+// Falls back to plain text for anything unrecognised or malformed
+export function classifyPayload(data: string): Payload {
+  const text = data.trim();
+  const lower = text.toLowerCase();
+
+  if (lower.startsWith("begin:vcard")) {
+    return {
+      type: "contact",
+      format: "vcard",
+      contact: parseVCard(text),
+      vcard: text,
+    };
+  }
+  if (lower.startsWith("mecard:")) {
+    const contact = parseMeCard(text);
+    return {
+      type: "contact",
+      format: "mecard",
+      contact,
+      vcard: contactToVCard(contact),
+    };
+  }
+  if (lower.startsWith("wifi:")) {
+    const network = parseWifi(text);
+    if (network) {
+      return { type: "wifi", network };
+    }
+  }
+  if (lower.startsWith("mailto:") || lower.startsWith("matmsg:")) {
+    return parseEmail(text);
+  }
+  if (lower.startsWith("sms:") || lower.startsWith("smsto:")) {
+    return parseSms(text);
+  }
+  if (lower.startsWith("tel:")) {
+    return {
+      type: "phone",
+      number: decodeComponent(text.slice("tel:".length)),
+    };
+  }
+  if (lower.startsWith("geo:")) {
+    const geo = parseGeo(text);
+    if (geo) {
+      return geo;
+    }
+  }
+  if (lower.startsWith("begin:vevent") || lower.startsWith("begin:vcalendar")) {
+    return {
+      type: "event",
+      event: parseCalendarEvent(text),
+      ics: toICalendar(text),
+    };
+  }
+  if (lower.startsWith("otpauth://")) {
+    const otp = parseOTPAuth(text);
+    if (otp) {
+      return { type: "otp", otp };
+    }
+  }
+  if (/^https?:\/\//.test(lower) || dangerousScheme(text)) {
+    return { type: "url", url: text, warnings: checkURLSafety(text) };
+  }
+  return { type: "text", text: data };
+}
+
+// Links are only offered when nothing about the URL is dangerous
+export function isSafeToOpen(warnings: URLWarning[]): boolean {
+  return !warnings.some((warning) => warning.code === "dangerous-scheme");
+}
@@ -0,0 +1,87 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+export interface PdfPage {
+  // 1-based, as shown in PDF viewers
+  pageNumber: number;
+  // Pages in the document, which may be more than are rendered
+  pageCount: number;
+  // PNG of the rendered page, which the decoder and AI take like a photo
+  image: Blob;
+  width: number;
+  height: number;
+}
+
+export interface PdfRenderOptions {
+  // Receipt codes are a few centimetres wide; 200 DPI gives jsQR several
+  // pixels per module even for dense codes
+  dpi?: number;
+  // Long documents are cut off rather than rendering hundreds of pages
+  maxPages?: number;
+}
+
+// PDF user space is 72 units per inch
+const PDF_UNITS_PER_INCH = 72;
+const DEFAULT_DPI = 200;
+export const MAX_PDF_PAGES = 20;
+
+export function isPdfFile(file: File): boolean {
+  return file.type === "application/pdf" || /\.pdf$/i.test(file.name);
+}
+
+// pdf.js is large, so it is only loaded once a PDF is opened
+async function loadPdfDocument(file: Blob): Promise<PDFDocumentProxy> {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+  return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) })
+    .promise;
+}
+
+function canvasToPNG(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not encode PNG")),
+      "image/png"
+    )
+  );
+}
+
+// Renders the pages one at a time, so a long document never holds more than
+// one page bitmap in memory and scanning can start with the first page.
+// Stopping the iteration early releases the document.
+export async function* renderPdfPages(
+  file: Blob,
+  options: PdfRenderOptions = {}
+): AsyncGenerator<PdfPage> {
+  const { dpi = DEFAULT_DPI, maxPages = MAX_PDF_PAGES } = options;
+  const pdf = await loadPdfDocument(file);
+  try {
+    const pageCount = pdf.numPages;
+    const lastPage = Math.min(pageCount, maxPages);
+    for (let pageNumber = 1; pageNumber <= lastPage; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: dpi / PDF_UNITS_PER_INCH });
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext("2d");
+      if (!context) {
+        throw new Error("Could not create canvas context for PDF rendering");
+      }
+      await page.render({ canvasContext: context, viewport }).promise;
+      page.cleanup();
+      yield {
+        pageNumber,
+        pageCount,
+        image: await canvasToPNG(canvas),
+        width: canvas.width,
+        height: canvas.height,
+      };
+    }
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,30 @@
+import type { Point } from "@/lib/qr";
+
+// Corners of a code in the image, clockwise from the top left
+export type Quad = [Point, Point, Point, Point];
+
+// Maps coordinates in the unit square onto the quad, the same perspective
+// transform jsQR samples with
+export function squareToQuad(corners: Quad) {
+  const [p0, p1, p2, p3] = corners;
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  const denominator = dx1 * dy2 - dx2 * dy1;
+  const a13 = denominator ? (dx3 * dy2 - dx2 * dy3) / denominator : 0;
+  const a23 = denominator ? (dx1 * dy3 - dx3 * dy1) / denominator : 0;
+  const a11 = p1.x - p0.x + a13 * p1.x;
+  const a21 = p3.x - p0.x + a23 * p3.x;
+  const a12 = p1.y - p0.y + a13 * p1.y;
+  const a22 = p3.y - p0.y + a23 * p3.y;
+  return (u: number, v: number): Point => {
+    const w = a13 * u + a23 * v + 1;
+    return {
+      x: (a11 * u + a21 * v + p0.x) / w,
+      y: (a12 * u + a22 * v + p0.y) / w,
+    };
+  };
+}
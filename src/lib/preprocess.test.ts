@@ -0,0 +1,380 @@
+import { describe, expect, it } from "vitest";
+import type { BarcodeResult } from "@/lib/barcode";
+import { createQRMatrix, matrixToPixels } from "@/lib/generator";
+import {
+  adaptiveThreshold,
+  crop,
+  decodeWithPreprocessing,
+  downscale,
+  grayscale,
+  likelyRegions,
+  preprocessVariants,
+  resize,
+  rotate,
+  sharpen,
+  stretchContrast,
+  THOROUGH_ATTEMPT,
+  unrotatePoint,
+  type Rotation,
+} from "@/lib/preprocess";
+import type { PixelData } from "@/lib/qr";
+
+const TEXT = "https://example.com/receipt/4711";
+
+// A code pasted into a larger grey image, like a receipt on a table
+function scene(
+  width: number,
+  height: number,
+  { left = 40, top = 30, scale = 4 } = {}
+): PixelData {
+  const code = matrixToPixels(
+    createQRMatrix(TEXT, { errorCorrection: "M", version: null }),
+    { margin: 4, scale, dark: "#000000", light: "#ffffff" }
+  );
+  const data = new Uint8ClampedArray(width * height * 4).fill(200);
+  for (let y = 0; y < code.height; y++) {
+    data.set(
+      code.data.subarray(y * code.width * 4, (y + 1) * code.width * 4),
+      ((top + y) * width + left) * 4
+    );
+  }
+  return { data, width, height };
+}
+
+// A grey image whose luminance at each pixel comes from `value`
+function gray(
+  width: number,
+  height: number,
+  value: (x: number, y: number) => number
+): PixelData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.fill(value(x, y), (y * width + x) * 4, (y * width + x) * 4 + 3);
+      data[(y * width + x) * 4 + 3] = 255;
+    }
+  }
+  return { data, width, height };
+}
+
+function at(pixels: PixelData, x: number, y: number): number {
+  return pixels.data[(y * pixels.width + x) * 4];
+}
+
+function stubResult(x: number, y: number): BarcodeResult {
+  return {
+    data: TEXT,
+    format: "qr",
+    location: {
+      topLeftCorner: { x, y },
+      topRightCorner: { x: x + 10, y },
+      bottomLeftCorner: { x, y: y + 10 },
+      bottomRightCorner: { x: x + 10, y: y + 10 },
+    },
+  };
+}
+
+describe("downscale", () => {
+  it("averages blocks so neither side exceeds the limit", () => {
+    const pixels = scene(800, 400);
+    const small = downscale(pixels, 200);
+
+    expect([small.width, small.height]).toEqual([200, 100]);
+    expect(small.data[0]).toBe(200);
+    expect(downscale(small, 200)).toBe(small);
+  });
+});
+
+describe("grayscale", () => {
+  it("weights the channels by perceived brightness", () => {
+    const pixels: PixelData = {
+      data: new Uint8ClampedArray([
+        255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0,
+      ]),
+      width: 3,
+      height: 1,
+    };
+
+    expect(Array.from(grayscale(pixels).data)).toEqual([
+      76, 76, 76, 255, 150, 150, 150, 255, 29, 29, 29, 255,
+    ]);
+  });
+});
+
+describe("adaptiveThreshold", () => {
+  // Ink stripes at half the brightness of paper lit from the right, so ink
+  // on the bright side is lighter than paper on the dark side
+  const background = (x: number) => 60 + (x * 170) / 119;
+  const isInk = (x: number, y: number) =>
+    y >= 10 &&
+    y < 30 &&
+    [10, 60, 105].some((start) => x >= start && x < start + 3);
+  const page = gray(120, 40, (x, y) =>
+    isInk(x, y) ? background(x) / 2 : background(x)
+  );
+
+  it("separates ink from paper under uneven lighting", () => {
+    expect(at(page, 106, 20)).toBeGreaterThan(at(page, 0, 20));
+
+    const binary = adaptiveThreshold(page, 15);
+    for (let y = 0; y < page.height; y++) {
+      for (let x = 0; x < page.width; x++) {
+        expect(at(binary, x, y)).toBe(isInk(x, y) ? 0 : 255);
+      }
+    }
+  });
+
+  it("leaves an evenly lit page white", () => {
+    const binary = adaptiveThreshold(gray(40, 40, () => 90));
+
+    expect(binary.data.every((value) => value === 255)).toBe(true);
+  });
+});
+
+describe("stretchContrast", () => {
+  // Mid greys from 50 to 150, plus a few black and white outliers
+  const pixels = gray(1000, 1, (x) =>
+    x < 5 ? 0 : x >= 995 ? 255 : 50 + (x % 101)
+  );
+
+  it("maps the 1st and 99th percentile to black and white", () => {
+    const stretched = stretchContrast(pixels);
+    const levelOf = (value: number) =>
+      at(stretched, pixels.data.indexOf(value) / 4, 0);
+
+    expect(levelOf(50)).toBe(0);
+    expect(levelOf(75)).toBe(64);
+    expect(levelOf(150)).toBe(255);
+    expect(at(stretched, 0, 0)).toBe(0);
+    expect(at(stretched, 999, 0)).toBe(255);
+    expect(stretched.data[3]).toBe(255);
+  });
+
+  it("leaves a flat image alone", () => {
+    const flat = gray(10, 10, () => 128);
+
+    expect(stretchContrast(flat)).toBe(flat);
+  });
+});
+
+describe("sharpen", () => {
+  it("raises local contrast and copies the border unchanged", () => {
+    const pixels = gray(5, 5, (x, y) => (x === 2 && y === 2 ? 100 : 80));
+    const sharp = sharpen(pixels);
+
+    expect(at(sharp, 2, 2)).toBe(5 * 100 - 4 * 80);
+    expect(at(sharp, 1, 2)).toBe(5 * 80 - 3 * 80 - 100);
+    for (let i = 0; i < 5; i++) {
+      for (const [x, y] of [
+        [i, 0],
+        [i, 4],
+        [0, i],
+        [4, i],
+      ]) {
+        expect(at(sharp, x, y)).toBe(80);
+      }
+    }
+  });
+});
+
+describe("rotate", () => {
+  // Every pixel has its own value, so it can be found after rotating
+  const pixels = gray(4, 3, (x, y) => y * 4 + x);
+
+  it("turns clockwise", () => {
+    const turned = rotate(pixels, 90);
+
+    expect([turned.width, turned.height]).toEqual([3, 4]);
+    // The bottom-left pixel ends up top-left
+    expect(at(turned, 0, 0)).toBe(8);
+    expect(at(turned, 2, 0)).toBe(0);
+  });
+
+  it("is undone by four quarter turns", () => {
+    let turned = pixels;
+    for (let i = 0; i < 4; i++) {
+      turned = rotate(turned, 90);
+    }
+
+    expect(turned).toEqual(pixels);
+  });
+
+  it.each<Rotation>([90, 180, 270])(
+    "maps each pixel's centre back with unrotatePoint at %s°",
+    (degrees) => {
+      const turned = rotate(pixels, degrees);
+      for (let y = 0; y < turned.height; y++) {
+        for (let x = 0; x < turned.width; x++) {
+          const value = at(turned, x, y);
+          const source = unrotatePoint(
+            { x: x + 0.5, y: y + 0.5 },
+            degrees,
+            pixels.width,
+            pixels.height
+          );
+
+          expect(source).toEqual({
+            x: (value % 4) + 0.5,
+            y: Math.floor(value / 4) + 0.5,
+          });
+        }
+      }
+    }
+  );
+});
+
+describe("likelyRegions", () => {
+  const checkerboard = (x: number, y: number) => ((x + y) % 2 ? 0 : 255);
+
+  it("finds a busy block and ignores a single noisy cell", () => {
+    // 16 px cells: a 4x4-cell block of detail and one lone busy cell
+    const pixels = gray(256, 256, (x, y) =>
+      (x >= 96 && x < 160 && y >= 96 && y < 160) ||
+      (x >= 16 && x < 32 && y >= 208 && y < 224)
+        ? checkerboard(x, y)
+        : 128
+    );
+
+    // With a cell of margin on every side for the quiet zone
+    expect(likelyRegions(pixels)).toEqual([
+      { left: 80, top: 80, width: 96, height: 96 },
+    ]);
+  });
+
+  it("finds nothing in a flat image", () => {
+    expect(likelyRegions(gray(128, 128, () => 200))).toEqual([]);
+  });
+});
+
+describe("crop", () => {
+  it("copies the rectangle", () => {
+    const pixels = gray(4, 3, (x, y) => y * 4 + x);
+    const region = crop(pixels, { left: 1, top: 1, width: 2, height: 2 });
+
+    expect([region.width, region.height]).toEqual([2, 2]);
+    expect([0, 1, 2, 3].map((i) => region.data[i * 4])).toEqual([5, 6, 9, 10]);
+  });
+});
+
+describe("resize", () => {
+  it("interpolates between pixel centres when enlarging", () => {
+    const large = resize(
+      gray(2, 2, (x) => (x === 0 ? 0 : 255)),
+      4,
+      4
+    );
+
+    expect([0, 1, 2, 3].map((x) => at(large, x, 0))).toEqual([0, 64, 191, 255]);
+    expect([0, 1, 2, 3].map((y) => at(large, 3, y))).toEqual([
+      255, 255, 255, 255,
+    ]);
+  });
+});
+
+describe("preprocessVariants", () => {
+  it("starts with the image itself when it is small enough", () => {
+    const pixels = scene(400, 300);
+    const [first] = preprocessVariants(pixels, 1600);
+
+    expect(first.name).toBe("original");
+    expect(first.pixels).toBe(pixels);
+  });
+
+  it("never hands out a large image at full size", () => {
+    const pixels = scene(1200, 900);
+    const variants = [...preprocessVariants(pixels, 400)];
+
+    expect(variants[0].name).toBe("downscale");
+    for (const variant of variants) {
+      expect(
+        Math.max(variant.pixels.width, variant.pixels.height)
+      ).toBeLessThanOrEqual(400);
+    }
+  });
+});
+
+describe("decodeWithPreprocessing", () => {
+  it("decodes a clean code on the first attempt", () => {
+    const outcome = decodeWithPreprocessing(scene(400, 300));
+
+    expect(outcome.transform).toBe("original");
+    expect(outcome.attempts).toEqual(["original"]);
+    expect(outcome.results.map((result) => result.data)).toEqual([TEXT]);
+    // The code's corner, inside the 4-module margin
+    expect(outcome.results[0].location?.topLeftCorner.x).toBeCloseTo(
+      40 + 4 * 4,
+      0
+    );
+  });
+
+  it("maps locations from the downscaled image back to the original", () => {
+    const pixels = scene(1200, 900, { left: 600, top: 450, scale: 8 });
+    const outcome = decodeWithPreprocessing(pixels, { maxDimension: 600 });
+
+    expect(outcome.transform).toBe("downscale");
+    expect(outcome.results[0].location?.topLeftCorner.x).toBeCloseTo(
+      600 + 4 * 8,
+      0
+    );
+  });
+
+  it("rotates sideways codes back", () => {
+    const pixels = scene(400, 300);
+    const outcome = decodeWithPreprocessing(pixels, {
+      // Stands in for a decoder that only reads upright codes
+      decode: (variant) =>
+        variant.width === 300 && variant.height === 400
+          ? [stubResult(50, 20)]
+          : [],
+    });
+
+    expect(outcome.transform).toBe("rotate 90°");
+    expect(outcome.attempts.slice(-2)).toEqual(["sharpen", "rotate 90°"]);
+    const corner = outcome.results[0].location?.topLeftCorner;
+    expect(corner?.x).toBeCloseTo(20);
+    expect(corner?.y).toBeCloseTo(300 - 50);
+  });
+
+  it("runs the thorough search last, at decoding size", () => {
+    const sizes: number[] = [];
+    const outcome = decodeWithPreprocessing(scene(1200, 900), {
+      maxDimension: 400,
+      decode: () => [],
+      decodeThorough: (pixels) => {
+        sizes.push(pixels.width);
+        return [stubResult(10, 10)];
+      },
+    });
+
+    expect(sizes).toEqual([400]);
+    expect(outcome.transform).toBe(THOROUGH_ATTEMPT);
+    expect(outcome.attempts[outcome.attempts.length - 1]).toBe(
+      THOROUGH_ATTEMPT
+    );
+    expect(outcome.results[0].location?.topLeftCorner).toEqual({
+      x: 30,
+      y: 30,
+    });
+  });
+
+  it("reports every attempt when nothing decodes", () => {
+    const blank: PixelData = {
+      data: new Uint8ClampedArray(200 * 200 * 4).fill(255),
+      width: 200,
+      height: 200,
+    };
+    const outcome = decodeWithPreprocessing(blank, { decodeThorough: null });
+
+    expect(outcome.results).toEqual([]);
+    expect(outcome.transform).toBeNull();
+    expect(outcome.attempts).toEqual([
+      "original",
+      "contrast stretch",
+      "adaptive threshold",
+      "sharpen",
+      "rotate 90°",
+      "rotate 180°",
+      "rotate 270°",
+    ]);
+  });
+});
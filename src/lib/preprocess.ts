@@ -0,0 +1,524 @@
+import { decodeAllBarcodes, type BarcodeResult } from "@/lib/barcode";
+import {
+  cropPixels,
+  type PixelData,
+  type Point,
+  type QRResult,
+} from "@/lib/qr";
+
+// Images larger than this are scaled down before any other transform
+export const MAX_DECODE_DIMENSION = 1600;
+
+export type Rotation = 90 | 180 | 270;
+
+export interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessVariant {
+  name: string;
+  pixels: PixelData;
+  // Maps a point in `pixels` back to the original image
+  toSource: (point: Point) => Point;
+}
+
+export interface PreprocessOutcome {
+  results: BarcodeResult[];
+  // Name of the variant that decoded, or null when none did
+  transform: string | null;
+  attempts: string[];
+}
+
+function createPixels(width: number, height: number): PixelData {
+  return { data: new Uint8ClampedArray(width * height * 4), width, height };
+}
+
+function luminance(data: Uint8ClampedArray, offset: number): number {
+  return (
+    0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]
+  );
+}
+
+function luminances(pixels: PixelData): Float32Array {
+  const values = new Float32Array(pixels.width * pixels.height);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = luminance(pixels.data, i * 4);
+  }
+  return values;
+}
+
+function fromLuminances(
+  values: ArrayLike<number>,
+  width: number,
+  height: number
+): PixelData {
+  const output = createPixels(width, height);
+  for (let i = 0; i < values.length; i++) {
+    output.data[i * 4] = values[i];
+    output.data[i * 4 + 1] = values[i];
+    output.data[i * 4 + 2] = values[i];
+    output.data[i * 4 + 3] = 255;
+  }
+  return output;
+}
+
+// Box-filter downscale so that neither side exceeds `maxSize`
+export function downscale(pixels: PixelData, maxSize: number): PixelData {
+  const scale = Math.min(1, maxSize / Math.max(pixels.width, pixels.height));
+  if (scale === 1) {
+    return pixels;
+  }
+
+  const width = Math.max(1, Math.round(pixels.width * scale));
+  const height = Math.max(1, Math.round(pixels.height * scale));
+  const output = createPixels(width, height);
+  const stepX = pixels.width / width;
+  const stepY = pixels.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor(y * stepY);
+    const bottom = Math.max(top + 1, Math.floor((y + 1) * stepY));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor(x * stepX);
+      const right = Math.max(left + 1, Math.floor((x + 1) * stepX));
+      const sums = [0, 0, 0, 0];
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const offset = (sy * pixels.width + sx) * 4;
+          sums[0] += pixels.data[offset];
+          sums[1] += pixels.data[offset + 1];
+          sums[2] += pixels.data[offset + 2];
+          sums[3] += pixels.data[offset + 3];
+        }
+      }
+      const count = (bottom - top) * (right - left);
+      const offset = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        output.data[offset + channel] = sums[channel] / count;
+      }
+    }
+  }
+  return output;
+}
+
+export function grayscale(pixels: PixelData): PixelData {
+  return fromLuminances(luminances(pixels), pixels.width, pixels.height);
+}
+
+// Bradley's adaptive threshold: a pixel turns black when it is noticeably
+// darker than the mean of its neighbourhood, which copes with uneven lighting
+export function adaptiveThreshold(
+  pixels: PixelData,
+  windowSize = Math.max(
+    15,
+    Math.round(Math.min(pixels.width, pixels.height) / 16)
+  ),
+  sensitivity = 0.15
+): PixelData {
+  const { width, height } = pixels;
+  const values = luminances(pixels);
+
+  // Summed-area table with one row and column of padding
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += values[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] =
+        integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.floor(windowSize / 2);
+  const output = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - half);
+    const bottom = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - half);
+      const right = Math.min(width, x + half + 1);
+      const sum =
+        integral[bottom * (width + 1) + right] -
+        integral[top * (width + 1) + right] -
+        integral[bottom * (width + 1) + left] +
+        integral[top * (width + 1) + left];
+      const mean = sum / ((bottom - top) * (right - left));
+      output[y * width + x] =
+        values[y * width + x] < mean * (1 - sensitivity) ? 0 : 255;
+    }
+  }
+  return fromLuminances(output, width, height);
+}
+
+// Stretches the luminance range between the given percentiles to 0–255
+export function stretchContrast(
+  pixels: PixelData,
+  lowPercentile = 0.01,
+  highPercentile = 0.99
+): PixelData {
+  const values = luminances(pixels);
+  const histogram = new Uint32Array(256);
+  for (const value of values) {
+    histogram[Math.round(value)]++;
+  }
+
+  const percentile = (fraction: number) => {
+    const target = fraction * values.length;
+    let count = 0;
+    for (let level = 0; level < 256; level++) {
+      count += histogram[level];
+      if (count >= target) {
+        return level;
+      }
+    }
+    return 255;
+  };
+
+  const low = percentile(lowPercentile);
+  const high = percentile(highPercentile);
+  if (high <= low) {
+    return pixels;
+  }
+
+  const scale = 255 / (high - low);
+  const output = createPixels(pixels.width, pixels.height);
+  for (let offset = 0; offset < pixels.data.length; offset += 4) {
+    output.data[offset] = (pixels.data[offset] - low) * scale;
+    output.data[offset + 1] = (pixels.data[offset + 1] - low) * scale;
+    output.data[offset + 2] = (pixels.data[offset + 2] - low) * scale;
+    output.data[offset + 3] = pixels.data[offset + 3];
+  }
+  return output;
+}
+
+// 3x3 sharpening kernel; border pixels are copied unchanged
+export function sharpen(pixels: PixelData): PixelData {
+  const { width, height, data } = pixels;
+  const output: PixelData = {
+    data: new Uint8ClampedArray(data),
+    width,
+    height,
+  };
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const offset = (y * width + x) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        const i = offset + channel;
+        output.data[i] =
+          5 * data[i] -
+          data[i - 4] -
+          data[i + 4] -
+          data[i - width * 4] -
+          data[i + width * 4];
+      }
+    }
+  }
+  return output;
+}
+
+// Rotates clockwise by the given angle
+export function rotate(pixels: PixelData, degrees: Rotation): PixelData {
+  const { width, height, data } = pixels;
+  const quarterTurn = degrees !== 180;
+  const output = createPixels(
+    quarterTurn ? height : width,
+    quarterTurn ? width : height
+  );
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let targetX: number;
+      let targetY: number;
+      if (degrees === 90) {
+        targetX = height - 1 - y;
+        targetY = x;
+      } else if (degrees === 180) {
+        targetX = width - 1 - x;
+        targetY = height - 1 - y;
+      } else {
+        targetX = y;
+        targetY = width - 1 - x;
+      }
+      const source = (y * width + x) * 4;
+      const target = (targetY * output.width + targetX) * 4;
+      output.data.set(data.subarray(source, source + 4), target);
+    }
+  }
+  return output;
+}
+
+// Inverse of `rotate` for a point, given the size of the unrotated image
+export function unrotatePoint(
+  point: Point,
+  degrees: Rotation,
+  width: number,
+  height: number
+): Point {
+  if (degrees === 90) {
+    return { x: point.y, y: height - point.x };
+  }
+  if (degrees === 180) {
+    return { x: width - point.x, y: height - point.y };
+  }
+  return { x: width - point.y, y: point.x };
+}
+
+// Finds areas with dense, high-contrast detail (where a code is likely to be)
+// by scoring a grid of cells and grouping neighbouring busy cells
+export function likelyRegions(pixels: PixelData, maxRegions = 3): Rect[] {
+  const { width, height } = pixels;
+  const values = luminances(pixels);
+  const cellSize = Math.max(16, Math.round(Math.max(width, height) / 32));
+  const columns = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+
+  const energy = new Float64Array(columns * rows);
+  for (let y = 1; y < height; y++) {
+    for (let x = 1; x < width; x++) {
+      const i = y * width + x;
+      const gradient =
+        Math.abs(values[i] - values[i - 1]) +
+        Math.abs(values[i] - values[i - width]);
+      energy[Math.floor(y / cellSize) * columns + Math.floor(x / cellSize)] +=
+        gradient;
+    }
+  }
+
+  const mean = energy.reduce((sum, value) => sum + value, 0) / energy.length;
+  const deviation = Math.sqrt(
+    energy.reduce((sum, value) => sum + (value - mean) ** 2, 0) / energy.length
+  );
+  const busy = Array.from(energy, (value) => value > mean + deviation / 2);
+
+  // Flood-fill groups of busy cells
+  const visited = new Uint8Array(columns * rows);
+  const groups: { rect: Rect; cells: number }[] = [];
+  for (let start = 0; start < busy.length; start++) {
+    if (!busy[start] || visited[start]) {
+      continue;
+    }
+    let minColumn = columns;
+    let maxColumn = 0;
+    let minRow = rows;
+    let maxRow = 0;
+    let cells = 0;
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      cells++;
+      minColumn = Math.min(minColumn, column);
+      maxColumn = Math.max(maxColumn, column);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+      const neighbours = [
+        column > 0 ? cell - 1 : -1,
+        column < columns - 1 ? cell + 1 : -1,
+        row > 0 ? cell - columns : -1,
+        row < rows - 1 ? cell + columns : -1,
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour >= 0 && busy[neighbour] && !visited[neighbour]) {
+          visited[neighbour] = 1;
+          stack.push(neighbour);
+        }
+      }
+    }
+
+    // Single cells are noise; the margin keeps the code's quiet zone
+    if (cells < 4) {
+      continue;
+    }
+    const left = Math.max(0, (minColumn - 1) * cellSize);
+    const top = Math.max(0, (minRow - 1) * cellSize);
+    const right = Math.min(width, (maxColumn + 2) * cellSize);
+    const bottom = Math.min(height, (maxRow + 2) * cellSize);
+    groups.push({
+      rect: { left, top, width: right - left, height: bottom - top },
+      cells,
+    });
+  }
+
+  return (
+    groups
+      // A region covering almost the whole image adds nothing over the original
+      .filter(({ rect }) => rect.width * rect.height < width * height * 0.8)
+      .sort((a, b) => b.cells - a.cells)
+      .slice(0, maxRegions)
+      .map(({ rect }) => rect)
+  );
+}
+
+export function crop(pixels: PixelData, rect: Rect): PixelData {
+  return cropPixels(pixels, rect.left, rect.top, rect.width, rect.height);
+}
+
+// Bilinear resize; meant for enlarging (use `downscale` to shrink)
+export function resize(
+  pixels: PixelData,
+  width: number,
+  height: number
+): PixelData {
+  const output = createPixels(width, height);
+  const scaleX = pixels.width / width;
+  const scaleY = pixels.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.max(0, (y + 0.5) * scaleY - 0.5);
+    const y0 = Math.min(pixels.height - 1, Math.floor(sourceY));
+    const y1 = Math.min(pixels.height - 1, y0 + 1);
+    const fy = sourceY - y0;
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.max(0, (x + 0.5) * scaleX - 0.5);
+      const x0 = Math.min(pixels.width - 1, Math.floor(sourceX));
+      const x1 = Math.min(pixels.width - 1, x0 + 1);
+      const fx = sourceX - x0;
+      const offset = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const at = (px: number, py: number) =>
+          pixels.data[(py * pixels.width + px) * 4 + channel];
+        const top = at(x0, y0) * (1 - fx) + at(x1, y0) * fx;
+        const bottom = at(x0, y1) * (1 - fx) + at(x1, y1) * fx;
+        output.data[offset + channel] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return output;
+}
+
+// Every variant the pipeline tries, cheapest and most likely first, starting
+// with the image itself at decoding size. Generated lazily so nothing is
+// computed after a variant has decoded
+export function* preprocessVariants(
+  pixels: PixelData,
+  maxDimension = MAX_DECODE_DIMENSION
+): Generator<PreprocessVariant> {
+  // Large photos are only ever decoded downscaled, which often reads better
+  // than a huge, noisy photo anyway: jsQR's running time grows faster than
+  // the pixel count, to over half a minute for a 12 MP photo
+  const base = downscale(pixels, maxDimension);
+  const scale = pixels.width / base.width;
+  const fromBase = (point: Point) => ({
+    x: point.x * scale,
+    y: point.y * scale,
+  });
+  yield {
+    name: base === pixels ? "original" : "downscale",
+    pixels: base,
+    toSource: fromBase,
+  };
+
+  yield {
+    name: "contrast stretch",
+    pixels: stretchContrast(base),
+    toSource: fromBase,
+  };
+  yield {
+    name: "adaptive threshold",
+    pixels: adaptiveThreshold(base),
+    toSource: fromBase,
+  };
+  yield { name: "sharpen", pixels: sharpen(base), toSource: fromBase };
+
+  for (const degrees of [90, 180, 270] as const) {
+    yield {
+      name: `rotate ${degrees}°`,
+      pixels: rotate(base, degrees),
+      toSource: (point) =>
+        fromBase(unrotatePoint(point, degrees, base.width, base.height)),
+    };
+  }
+
+  for (const [index, rect] of likelyRegions(base).entries()) {
+    const toSource = (point: Point) =>
+      fromBase({ x: point.x + rect.left, y: point.y + rect.top });
+    const region = crop(base, rect);
+    yield { name: `crop region ${index + 1}`, pixels: region, toSource };
+    yield {
+      name: `crop region ${index + 1} + threshold`,
+      pixels: adaptiveThreshold(region),
+      toSource,
+    };
+  }
+}
+
+// Moves a result's corners from a transformed image back to the source
+export function mapResult<T extends QRResult>(
+  result: T,
+  toSource: (point: Point) => Point
+): T {
+  if (!result.location) {
+    return result;
+  }
+  return {
+    ...result,
+    location: {
+      topLeftCorner: toSource(result.location.topLeftCorner),
+      topRightCorner: toSource(result.location.topRightCorner),
+      bottomLeftCorner: toSource(result.location.bottomLeftCorner),
+      bottomRightCorner: toSource(result.location.bottomRightCorner),
+    },
+  };
+}
+
+export interface PreprocessOptions {
+  maxDimension?: number;
+  // Decoder for the image and each variant; skips the slow searches by default
+  decode?: (pixels: PixelData) => BarcodeResult[];
+  // Slow search of the image at decoding size once every variant has failed,
+  // or null to skip it
+  decodeThorough?: ((pixels: PixelData) => BarcodeResult[]) | null;
+}
+
+// Name of the attempt that runs `decodeThorough`
+export const THOROUGH_ATTEMPT = "thorough search";
+
+// Decodes the image as-is and, failing that, retries each preprocessing
+// variant until one yields a code. The slow searches (ZXing's TRY_HARDER and
+// the tile sweep) come last, on the image at decoding size. Locations refer
+// to the original image
+export function decodeWithPreprocessing(
+  imageData: PixelData,
+  options: PreprocessOptions = {}
+): PreprocessOutcome {
+  const {
+    maxDimension = MAX_DECODE_DIMENSION,
+    decode = (pixels) => decodeAllBarcodes(pixels, { thorough: false }),
+    decodeThorough = decodeAllBarcodes,
+  } = options;
+
+  const attempts: string[] = [];
+  let base: PreprocessVariant | null = null;
+  for (const variant of preprocessVariants(imageData, maxDimension)) {
+    base ??= variant;
+    attempts.push(variant.name);
+    const results = decode(variant.pixels);
+    if (results.length > 0) {
+      return {
+        results: results.map((result) => mapResult(result, variant.toSource)),
+        transform: variant.name,
+        attempts,
+      };
+    }
+  }
+
+  if (decodeThorough && base) {
+    attempts.push(THOROUGH_ATTEMPT);
+    const results = decodeThorough(base.pixels);
+    if (results.length > 0) {
+      const { toSource } = base;
+      return {
+        results: results.map((result) => mapResult(result, toSource)),
+        transform: THOROUGH_ATTEMPT,
+        attempts,
+      };
+    }
+  }
+  return { results: [], transform: null, attempts };
+}
@@ -0,0 +1,58 @@
+import { describeError, pipelineLog } from "@/lib/telemetry";
+
+// Names shared with the service worker in src/sw.ts
+const SHARE_CACHE_NAME = "qr-share-target";
+const SHARE_TARGET_PARAM = "share-target";
+
+// Development builds are served unbundled, so there is no worker to register
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) {
+    return;
+  }
+  const { BASE_URL } = import.meta.env;
+  navigator.serviceWorker
+    .register(`${BASE_URL}sw.js`, { scope: BASE_URL })
+    .then((registration) =>
+      pipelineLog.info("pwa", "Service worker registered", {
+        data: { scope: registration.scope },
+      })
+    )
+    .catch((err) =>
+      pipelineLog.error("pwa", "Service worker registration failed", {
+        data: { error: describeError(err) },
+      })
+    );
+}
+
+// The service worker redirects here after receiving a share
+export function isShareTargetLaunch(): boolean {
+  return new URLSearchParams(window.location.search).has(SHARE_TARGET_PARAM);
+}
+
+// Returns the images shared from another app, once; the share target
+// parameter is removed so a reload doesn't scan them again
+export async function takeSharedImages(): Promise<File[]> {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(SHARE_TARGET_PARAM);
+  window.history.replaceState(null, "", url);
+
+  if (!("caches" in window)) {
+    return [];
+  }
+  const cache = await caches.open(SHARE_CACHE_NAME);
+  const requests = await cache.keys();
+  const files: File[] = [];
+  for (const request of requests) {
+    const response = await cache.match(request);
+    if (!response) {
+      continue;
+    }
+    const blob = await response.blob();
+    const name = decodeURIComponent(
+      response.headers.get("X-File-Name") ?? "shared-image"
+    );
+    files.push(new File([blob], name, { type: blob.type }));
+  }
+  await caches.delete(SHARE_CACHE_NAME);
+  return files;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { createQRMatrix, matrixToPixels } from "@/lib/generator";
+import {
+  decodeAllImageData,
+  findAllCodes,
+  type PixelData,
+  type QRResult,
+} from "@/lib/qr";
+
+function blank(width: number, height: number): PixelData {
+  return {
+    data: new Uint8ClampedArray(width * height * 4).fill(255),
+    width,
+    height,
+  };
+}
+
+function paste(
+  target: PixelData,
+  source: PixelData,
+  left: number,
+  top: number
+) {
+  for (let y = 0; y < source.height; y++) {
+    const start = ((top + y) * target.width + left) * 4;
+    target.data.set(
+      source.data.subarray(y * source.width * 4, (y + 1) * source.width * 4),
+      start
+    );
+  }
+}
+
+function qrPixels(text: string, scale = 4): PixelData {
+  return matrixToPixels(
+    createQRMatrix(text, { errorCorrection: "M", version: null }),
+    { margin: 4, scale, dark: "#000000", light: "#ffffff" }
+  );
+}
+
+// A code at a fixed place, as a decoder stub would report it
+function stubResult(data: string, left: number, top: number): QRResult {
+  return {
+    data,
+    location: {
+      topLeftCorner: { x: left, y: top },
+      topRightCorner: { x: left + 20, y: top },
+      bottomLeftCorner: { x: left, y: top + 20 },
+      bottomRightCorner: { x: left + 20, y: top + 20 },
+    },
+  };
+}
+
+describe("decodeAllImageData", () => {
+  it("finds every code in the image with its location", () => {
+    const image = blank(600, 300);
+    paste(image, qrPixels("first"), 20, 40);
+    paste(image, qrPixels("second"), 330, 60);
+
+    const results = decodeAllImageData(image);
+    expect(results.map((result) => result.data).sort()).toEqual([
+      "first",
+      "second",
+    ]);
+    const second = results.find((result) => result.data === "second");
+    expect(second?.location?.topLeftCorner.x).toBeGreaterThan(330);
+  });
+});
+
+describe("findAllCodes", () => {
+  it("skips the tile sweep once the whole image yields a code", () => {
+    let calls = 0;
+    const results = findAllCodes(blank(400, 400), () =>
+      ++calls === 1 ? stubResult("code", 100, 100) : null
+    );
+
+    expect(results).toHaveLength(1);
+    // The first pass and the pass after masking the code
+    expect(calls).toBe(2);
+  });
+
+  it("decodes each of the nine tiles once when nothing else is found", () => {
+    const tiles: string[] = [];
+    const results = findAllCodes(blank(400, 400), (pixels) => {
+      tiles.push(`${pixels.width}×${pixels.height}`);
+      // Only the centre tile has a code
+      return tiles.length === 6 ? stubResult("small", 10, 10) : null;
+    });
+
+    // The full image once, then the 200×200 tiles at 100px steps
+    expect(tiles).toEqual(["400×400", ...Array(9).fill("200×200")]);
+    expect(results).toEqual([stubResult("small", 110, 110)]);
+  });
+
+  it("doesn't sweep tiles when they are turned off", () => {
+    let calls = 0;
+    findAllCodes(
+      blank(400, 400),
+      () => {
+        calls++;
+        return null;
+      },
+      { tiles: false }
+    );
+    expect(calls).toBe(1);
+  });
+});
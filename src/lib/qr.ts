@@ -0,0 +1,303 @@
+import jsQR, { type Options } from "jsqr";
+import {
+  decodeSegments,
+  readFormatInformation,
+  type QRDetails,
+} from "@/lib/qrdetails";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface QRResult {
+  data: string;
+  location?: {
+    topLeftCorner: Point;
+    topRightCorner: Point;
+    bottomLeftCorner: Point;
+    bottomRightCorner: Point;
+  };
+  // 1-based page for codes read from a PDF
+  page?: number;
+  // Set for QR codes decoded from an image, not for reopened history scans
+  details?: QRDetails;
+}
+
+// Structural subset of ImageData, so decoding also works outside the DOM
+export interface PixelData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface FindAllOptions {
+  maxCodes?: number;
+  // When the whole image yields nothing, also scan overlapping tiles, which
+  // finds codes too small for the decoder to spot in a large photo
+  tiles?: boolean;
+}
+
+export interface DecodeAllOptions extends FindAllOptions {
+  inversionAttempts?: Options["inversionAttempts"];
+}
+
+function decodePixels(
+  pixels: PixelData,
+  inversionAttempts: Options["inversionAttempts"]
+): QRResult | null {
+  const result = jsQR(pixels.data, pixels.width, pixels.height, {
+    inversionAttempts,
+  });
+  if (!result) {
+    return null;
+  }
+
+  const location = {
+    topLeftCorner: result.location.topLeftCorner,
+    topRightCorner: result.location.topRightCorner,
+    bottomLeftCorner: result.location.bottomLeftCorner,
+    bottomRightCorner: result.location.bottomRightCorner,
+  };
+  const segments = decodeSegments(result.chunks);
+  const format = readFormatInformation(pixels, location, result.version);
+  return {
+    data: segments.map((segment) => segment.text).join(""),
+    location,
+    details: {
+      version: result.version,
+      errorCorrectionLevel: format?.errorCorrectionLevel ?? null,
+      mask: format?.mask ?? null,
+      segments,
+      bytes: Uint8Array.from(result.binaryData),
+    },
+  };
+}
+
+// Runs jsQR over a block of RGBA pixels and keeps only what the UI needs
+export function decodeImageData(
+  imageData: PixelData,
+  inversionAttempts: Options["inversionAttempts"] = "attemptBoth"
+): QRResult | null {
+  return decodePixels(imageData, inversionAttempts);
+}
+
+export function locationCorners(location: QRResult["location"]): Point[] {
+  return location
+    ? [
+        location.topLeftCorner,
+        location.topRightCorner,
+        location.bottomRightCorner,
+        location.bottomLeftCorner,
+      ]
+    : [];
+}
+
+function centroid(points: Point[]): Point {
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+  };
+}
+
+function isInsidePolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Paints a decoded code white (with its quiet zone) so the next pass finds another one
+export function maskRegion(
+  pixels: PixelData,
+  corners: Point[],
+  padding = 0.25
+): void {
+  if (corners.length === 0) {
+    return;
+  }
+
+  const center = centroid(corners);
+  const polygon = corners.map((corner) => ({
+    x: center.x + (corner.x - center.x) * (1 + padding),
+    y: center.y + (corner.y - center.y) * (1 + padding),
+  }));
+
+  const minX = Math.max(0, Math.floor(Math.min(...polygon.map((p) => p.x))));
+  const maxX = Math.min(
+    pixels.width - 1,
+    Math.ceil(Math.max(...polygon.map((p) => p.x)))
+  );
+  const minY = Math.max(0, Math.floor(Math.min(...polygon.map((p) => p.y))));
+  const maxY = Math.min(
+    pixels.height - 1,
+    Math.ceil(Math.max(...polygon.map((p) => p.y)))
+  );
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (isInsidePolygon({ x: x + 0.5, y: y + 0.5 }, polygon)) {
+        const offset = (y * pixels.width + x) * 4;
+        pixels.data[offset] = 255;
+        pixels.data[offset + 1] = 255;
+        pixels.data[offset + 2] = 255;
+      }
+    }
+  }
+}
+
+export function cropPixels(
+  pixels: PixelData,
+  left: number,
+  top: number,
+  width: number,
+  height: number
+): PixelData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const start = ((top + y) * pixels.width + left) * 4;
+    data.set(pixels.data.subarray(start, start + width * 4), y * width * 4);
+  }
+  return { data, width, height };
+}
+
+function translateResult<T extends QRResult>(
+  result: T,
+  dx: number,
+  dy: number
+): T {
+  if (!result.location) {
+    return result;
+  }
+  const move = (point: Point) => ({ x: point.x + dx, y: point.y + dy });
+  return {
+    ...result,
+    location: {
+      topLeftCorner: move(result.location.topLeftCorner),
+      topRightCorner: move(result.location.topRightCorner),
+      bottomLeftCorner: move(result.location.bottomLeftCorner),
+      bottomRightCorner: move(result.location.bottomRightCorner),
+    },
+  };
+}
+
+function isDuplicate(candidate: QRResult, found: QRResult[]): boolean {
+  const candidateCorners = locationCorners(candidate.location);
+  return found.some((existing) => {
+    if (existing.data !== candidate.data) {
+      return false;
+    }
+    const existingCorners = locationCorners(existing.location);
+    if (candidateCorners.length === 0 || existingCorners.length === 0) {
+      return true;
+    }
+    // Same payload at roughly the same place is the same physical code
+    const a = centroid(candidateCorners);
+    const b = centroid(existingCorners);
+    const size = Math.hypot(
+      existingCorners[0].x - existingCorners[1].x,
+      existingCorners[0].y - existingCorners[1].y
+    );
+    return Math.hypot(a.x - b.x, a.y - b.y) < Math.max(size, 10);
+  });
+}
+
+// Tile origins along one axis: half-size tiles at quarter-size steps
+function tileOffsets(length: number): number[] {
+  const tile = Math.floor(length / 2);
+  const step = Math.max(1, Math.floor(length / 4));
+  const offsets: number[] = [];
+  for (let offset = 0; offset + tile <= length; offset += step) {
+    offsets.push(offset);
+  }
+  return offsets;
+}
+
+// Finds every code `decodeOne` can read: decode, mask the code that was
+// found and decode again. A code seen again next to its mask (a barcode read
+// along another row) is masked once more, up to a fixed number of passes.
+// Only if that finds nothing are overlapping tiles swept, each decoded once,
+// since every tile costs about a quarter of a full pass
+export function findAllCodes<T extends QRResult>(
+  imageData: PixelData,
+  decodeOne: (pixels: PixelData) => T | null,
+  options: FindAllOptions = {}
+): T[] {
+  const { maxCodes = 8, tiles = true } = options;
+
+  const working: PixelData = {
+    data: new Uint8ClampedArray(imageData.data),
+    width: imageData.width,
+    height: imageData.height,
+  };
+  const found: T[] = [];
+  let passesLeft = maxCodes * 4;
+
+  // Returns whether the same area is worth decoding again
+  const accept = (result: T) => {
+    // A code without a location can't be masked, so it would be found forever
+    if (!result.location || passesLeft-- <= 0) {
+      return false;
+    }
+    if (!isDuplicate(result, found)) {
+      found.push(result);
+    }
+    maskRegion(working, locationCorners(result.location));
+    return true;
+  };
+
+  while (found.length < maxCodes) {
+    const result = decodeOne(working);
+    if (!result || !accept(result)) {
+      break;
+    }
+  }
+
+  if (!tiles || found.length > 0) {
+    return found;
+  }
+
+  const tileWidth = Math.floor(working.width / 2);
+  const tileHeight = Math.floor(working.height / 2);
+  if (tileWidth < 32 || tileHeight < 32) {
+    return found;
+  }
+
+  for (const top of tileOffsets(working.height)) {
+    for (const left of tileOffsets(working.width)) {
+      if (found.length >= maxCodes) {
+        return found;
+      }
+      // Codes found in earlier tiles are masked, so overlapping tiles skip them
+      const result = decodeOne(
+        cropPixels(working, left, top, tileWidth, tileHeight)
+      );
+      if (result) {
+        accept(translateResult(result, left, top));
+      }
+    }
+  }
+
+  return found;
+}
+
+// Finds every QR code in the image
+export function decodeAllImageData(
+  imageData: PixelData,
+  options: DecodeAllOptions = {}
+): QRResult[] {
+  const { inversionAttempts = "attemptBoth", ...findOptions } = options;
+  return findAllCodes(
+    imageData,
+    (pixels) => decodePixels(pixels, inversionAttempts),
+    findOptions
+  );
+}
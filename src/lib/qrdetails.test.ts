@@ -0,0 +1,205 @@
+import { createRequire } from "node:module";
+import QRCode from "qrcode";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { matrixToPixels, type ErrorCorrectionLevel } from "@/lib/generator";
+import { decodeImageData, type PixelData } from "@/lib/qr";
+import { decodeSegments } from "@/lib/qrdetails";
+
+type Segment =
+  | { data: string | Uint8Array; mode: "numeric" | "alphanumeric" | "byte" }
+  | { eci: number };
+
+// qrcode has no ECI mode, but an ECI header is laid out like a segment with
+// no data whose 8-bit character count is the assignment number (below 128),
+// so one is slipped into the segment list qrcode builds the symbol from
+const segments: { fromArray: (array: unknown[]) => unknown[] } = createRequire(
+  import.meta.url
+)("qrcode/lib/core/segments");
+const fromArray = segments.fromArray;
+
+function eciHeader(assignment: number) {
+  return {
+    mode: { id: "ECI", bit: 0b0111, ccBits: [8, 8, 8] },
+    getLength: () => assignment,
+    getBitsLength: () => 0,
+    write: () => {},
+  };
+}
+
+function codePixels(
+  content: Segment[],
+  errorCorrectionLevel: ErrorCorrectionLevel = "M",
+  maskPattern?: QRCode.QRCodeMaskPattern
+): PixelData {
+  const qr = QRCode.create(content as unknown as QRCode.QRCodeSegment[], {
+    errorCorrectionLevel,
+    maskPattern,
+  });
+  const { size } = qr.modules;
+  const modules = Array.from(
+    { length: size * size },
+    (_, i) => qr.modules.get(Math.floor(i / size), i % size) === 1
+  );
+  return matrixToPixels(
+    { version: qr.version, size, modules },
+    { margin: 4, scale: 4, dark: "#000000", light: "#ffffff" }
+  );
+}
+
+function decode(pixels: PixelData) {
+  const result = decodeImageData(pixels);
+  if (!result?.details) {
+    throw new Error("Code did not decode");
+  }
+  return { data: result.data, details: result.details };
+}
+
+beforeEach(() => {
+  vi.spyOn(segments, "fromArray").mockImplementation((array) =>
+    array.flatMap((segment) =>
+      segment && typeof segment === "object" && "eci" in segment
+        ? [eciHeader(segment.eci as number)]
+        : fromArray([segment])
+    )
+  );
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("character sets", () => {
+  it("reads bytes as UTF-8 when they are valid UTF-8", () => {
+    const { data, details } = decode(
+      codePixels([{ data: new TextEncoder().encode("Grüße"), mode: "byte" }])
+    );
+
+    expect(data).toBe("Grüße");
+    expect(details.segments).toEqual([
+      expect.objectContaining({ mode: "byte", encoding: "UTF-8" }),
+    ]);
+  });
+
+  it("falls back to ISO-8859-1 for other bytes without an ECI", () => {
+    const latin1 = Uint8Array.from([0x47, 0x72, 0xfc, 0xdf, 0x65]);
+    const { data, details } = decode(
+      codePixels([{ data: latin1, mode: "byte" }])
+    );
+
+    expect(data).toBe("Grüße");
+    expect(details.segments[0].encoding).toBe("ISO-8859-1");
+    expect(details.segments[0].bytes).toEqual(latin1);
+  });
+
+  it("switches the character set at an ECI segment", () => {
+    // "Привет" in ISO-8859-5 (ECI 7)
+    const cyrillic = Uint8Array.from([0xbf, 0xe0, 0xd8, 0xd2, 0xd5, 0xe2]);
+    const { data, details } = decode(
+      codePixels([{ eci: 7 }, { data: cyrillic, mode: "byte" }])
+    );
+
+    expect(data).toBe("Привет");
+    expect(details.segments).toEqual([
+      { mode: "eci", text: "", eciAssignment: 7 },
+      {
+        mode: "byte",
+        text: "Привет",
+        bytes: cyrillic,
+        encoding: "ISO-8859-5",
+      },
+    ]);
+  });
+
+  it("keeps the ECI character set for later byte segments", () => {
+    // "Łódź " and " zł" in ISO-8859-2 (ECI 4), split by a numeric segment;
+    // read as ISO-8859-1 the first byte would be "£"
+    const { data, details } = decode(
+      codePixels([
+        { eci: 4 },
+        { data: Uint8Array.from([0xa3, 0xf3, 0x64, 0xbc, 0x20]), mode: "byte" },
+        { data: "12", mode: "numeric" },
+        { data: Uint8Array.from([0x20, 0x7a, 0xb3]), mode: "byte" },
+      ])
+    );
+
+    expect(data).toBe("Łódź 12 zł");
+    expect(details.segments.map((segment) => segment.encoding)).toEqual([
+      undefined,
+      "ISO-8859-2",
+      undefined,
+      "ISO-8859-2",
+    ]);
+    expect(details.bytes).toEqual(
+      Uint8Array.from([
+        0xa3, 0xf3, 0x64, 0xbc, 0x20, 0x31, 0x32, 0x20, 0x7a, 0xb3,
+      ])
+    );
+  });
+
+  it("joins numeric, alphanumeric and byte segments into the data", () => {
+    const { data, details } = decode(
+      codePixels([
+        { data: "0123456789", mode: "numeric" },
+        { data: "HTTPS://EXAMPLE.COM", mode: "alphanumeric" },
+        { data: "/äpfel", mode: "byte" },
+      ])
+    );
+
+    expect(data).toBe("0123456789HTTPS://EXAMPLE.COM/äpfel");
+    expect(details.segments.map((segment) => segment.mode)).toEqual([
+      "numeric",
+      "alphanumeric",
+      "byte",
+    ]);
+  });
+});
+
+describe("decodeSegments", () => {
+  it("keeps the current character set for unknown ECI assignments", () => {
+    const segmentsRead = decodeSegments([
+      { type: "eci", assignmentNumber: 4 },
+      { type: "eci", assignmentNumber: 899 },
+      { type: "byte", bytes: [0xb3], text: "" },
+    ] as Parameters<typeof decodeSegments>[0]);
+
+    expect(segmentsRead[2]).toMatchObject({
+      text: "ł",
+      encoding: "ISO-8859-2",
+    });
+  });
+});
+
+describe("format information", () => {
+  it.each<[ErrorCorrectionLevel, QRCode.QRCodeMaskPattern]>([
+    ["L", 0],
+    ["M", 3],
+    ["Q", 5],
+    ["H", 7],
+    ["L", 6],
+    ["H", 1],
+  ])("reads EC level %s with mask %s", (level, mask) => {
+    const { details } = decode(
+      codePixels([{ data: "RECEIPT 4711", mode: "alphanumeric" }], level, mask)
+    );
+
+    expect(details.errorCorrectionLevel).toBe(level);
+    expect(details.mask).toBe(mask);
+  });
+
+  it("reads a light-on-dark code", () => {
+    const pixels = codePixels(
+      [{ data: "RECEIPT 4711", mode: "alphanumeric" }],
+      "Q",
+      2
+    );
+    for (let i = 0; i < pixels.data.length; i += 4) {
+      for (let channel = 0; channel < 3; channel++) {
+        pixels.data[i + channel] = 255 - pixels.data[i + channel];
+      }
+    }
+    const { details } = decode(pixels);
+
+    expect(details.errorCorrectionLevel).toBe("Q");
+    expect(details.mask).toBe(2);
+  });
+});
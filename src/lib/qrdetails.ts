@@ -0,0 +1,220 @@
+import type { QRCode } from "jsqr";
+import type { ErrorCorrectionLevel } from "@/lib/generator";
+import { squareToQuad } from "@/lib/perspective";
+import type { PixelData, QRResult } from "@/lib/qr";
+
+export type SegmentMode = "numeric" | "alphanumeric" | "byte" | "kanji" | "eci";
+
+export interface QRSegment {
+  mode: SegmentMode;
+  text: string;
+  // Raw bytes of byte and Kanji segments
+  bytes?: Uint8Array;
+  // Character set the bytes were decoded with
+  encoding?: string;
+  // Assignment number of an ECI segment, or -1 when it couldn't be read
+  eciAssignment?: number;
+}
+
+// Structure of a decoded QR code, for inspecting codes that read wrongly
+export interface QRDetails {
+  version: number;
+  // Null when the format information couldn't be read back from the image
+  errorCorrectionLevel: ErrorCorrectionLevel | null;
+  mask: number | null;
+  segments: QRSegment[];
+  // Payload of all segments, before any character decoding
+  bytes: Uint8Array;
+}
+
+// ECI assignment numbers and the TextDecoder labels of their character sets
+const ECI_CHARSETS: Record<number, string> = {
+  1: "ISO-8859-1",
+  3: "ISO-8859-1",
+  4: "ISO-8859-2",
+  5: "ISO-8859-3",
+  6: "ISO-8859-4",
+  7: "ISO-8859-5",
+  8: "ISO-8859-6",
+  9: "ISO-8859-7",
+  10: "ISO-8859-8",
+  11: "ISO-8859-9",
+  12: "ISO-8859-10",
+  13: "ISO-8859-11",
+  15: "ISO-8859-13",
+  16: "ISO-8859-14",
+  17: "ISO-8859-15",
+  18: "ISO-8859-16",
+  20: "Shift_JIS",
+  21: "windows-1250",
+  22: "windows-1251",
+  23: "windows-1252",
+  24: "windows-1256",
+  25: "UTF-16BE",
+  26: "UTF-8",
+  27: "US-ASCII",
+  28: "Big5",
+  29: "GB18030",
+  30: "EUC-KR",
+  170: "US-ASCII",
+};
+
+// The specification's default, though most generators write UTF-8 without
+// saying so
+const DEFAULT_CHARSET = "ISO-8859-1";
+
+function latin1(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+}
+
+function decodeWith(bytes: Uint8Array, charset: string): string {
+  if (charset === "ISO-8859-1") {
+    // TextDecoder treats this label as windows-1252
+    return latin1(bytes);
+  }
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Character sets the browser doesn't know
+    return latin1(bytes);
+  }
+}
+
+function isUTF8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// jsQR reads byte segments as UTF-8 only and drops them when that fails, so
+// the text is rebuilt here: ECI segments switch the character set, and
+// without one, bytes that aren't valid UTF-8 are read as ISO-8859-1
+export function decodeSegments(chunks: QRCode["chunks"]): QRSegment[] {
+  let eciCharset: string | null = null;
+  return chunks.map((chunk): QRSegment => {
+    // jsQR's Mode enum uses the same names
+    const mode = `${chunk.type}` as SegmentMode;
+    if ("assignmentNumber" in chunk) {
+      eciCharset = ECI_CHARSETS[chunk.assignmentNumber] ?? eciCharset;
+      return { mode, text: "", eciAssignment: chunk.assignmentNumber };
+    }
+    if (!("bytes" in chunk)) {
+      return { mode, text: chunk.text };
+    }
+    const bytes = Uint8Array.from(chunk.bytes);
+    const encoding =
+      mode === "kanji"
+        ? "Shift_JIS"
+        : eciCharset ?? (isUTF8(bytes) ? "UTF-8" : DEFAULT_CHARSET);
+    return {
+      mode,
+      text: decodeWith(bytes, encoding),
+      bytes,
+      encoding,
+    };
+  });
+}
+
+// Format information is 5 data bits protected by a BCH(15,5) code and
+// XOR-masked, so all 32 valid codewords are listed up front
+const FORMAT_CODEWORDS = Array.from({ length: 32 }, (_, data) => {
+  let remainder = data << 10;
+  for (let bit = 14; bit >= 10; bit--) {
+    if (remainder & (1 << bit)) {
+      remainder ^= 0x537 << (bit - 10);
+    }
+  }
+  return { data, codeword: ((data << 10) | remainder) ^ 0x5412 };
+});
+
+// Indexed by the two level bits of the format information
+const FORMAT_LEVELS: ErrorCorrectionLevel[] = ["M", "L", "H", "Q"];
+
+function bitCount(value: number): number {
+  let count = 0;
+  for (; value; value &= value - 1) {
+    count++;
+  }
+  return count;
+}
+
+// jsQR keeps the format information to itself, so the two copies of it are
+// sampled again from the image. The copy closest to a valid codeword wins;
+// more than three wrong bits means neither could be read
+export function readFormatInformation(
+  pixels: PixelData,
+  corners: NonNullable<QRResult["location"]>,
+  version: number
+): { errorCorrectionLevel: ErrorCorrectionLevel; mask: number } | null {
+  const size = version * 4 + 17;
+  const toImage = squareToQuad([
+    corners.topLeftCorner,
+    corners.topRightCorner,
+    corners.bottomRightCorner,
+    corners.bottomLeftCorner,
+  ]);
+  const luminance = (x: number, y: number) => {
+    const point = toImage((x + 0.5) / size, (y + 0.5) / size);
+    const px = Math.min(pixels.width - 1, Math.max(0, Math.round(point.x)));
+    const py = Math.min(pixels.height - 1, Math.max(0, Math.round(point.y)));
+    const offset = (py * pixels.width + px) * 4;
+    return (
+      pixels.data[offset] * 0.299 +
+      pixels.data[offset + 1] * 0.587 +
+      pixels.data[offset + 2] * 0.114
+    );
+  };
+
+  // The top-left finder's outer ring and centre are dark and the ring between
+  // them light; jsQR may have decoded an inverted code, so this sets polarity
+  const dark = (luminance(0, 0) + luminance(3, 3)) / 2;
+  const light = (luminance(1, 1) + luminance(7, 7)) / 2;
+  const threshold = (dark + light) / 2;
+  const isDark = (x: number, y: number) =>
+    dark < light ? luminance(x, y) < threshold : luminance(x, y) > threshold;
+
+  const readBits = (positions: [number, number][]) =>
+    positions.reduce((bits, [x, y]) => (bits << 1) | (isDark(x, y) ? 1 : 0), 0);
+
+  const nearTopLeft: [number, number][] = [
+    [0, 8],
+    [1, 8],
+    [2, 8],
+    [3, 8],
+    [4, 8],
+    [5, 8],
+    [7, 8],
+    [8, 8],
+    [8, 7],
+    [8, 5],
+    [8, 4],
+    [8, 3],
+    [8, 2],
+    [8, 1],
+    [8, 0],
+  ];
+  const splitCopy: [number, number][] = [
+    ...Array.from({ length: 7 }, (_, i): [number, number] => [8, size - 1 - i]),
+    ...Array.from({ length: 8 }, (_, i): [number, number] => [size - 8 + i, 8]),
+  ];
+
+  let best: { data: number; distance: number } | null = null;
+  for (const bits of [readBits(nearTopLeft), readBits(splitCopy)]) {
+    for (const { data, codeword } of FORMAT_CODEWORDS) {
+      const distance = bitCount(bits ^ codeword);
+      if (!best || distance < best.distance) {
+        best = { data, distance };
+      }
+    }
+  }
+  if (!best || best.distance > 3) {
+    return null;
+  }
+  return {
+    errorCorrectionLevel: FORMAT_LEVELS[best.data >> 3],
+    mask: best.data & 0x07,
+  };
+}
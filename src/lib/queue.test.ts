@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { createTaskQueue } from "@/lib/queue";
+
+// A task that runs until the test finishes it
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+// Lets the queue react to settled tasks
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("createTaskQueue", () => {
+  it("runs at most `concurrency` tasks at a time, in order", async () => {
+    const queue = createTaskQueue(2);
+    const tasks = [0, 1, 2, 3].map(() => deferred<number>());
+    const started: number[] = [];
+    const results = tasks.map((task, index) =>
+      queue.add(() => {
+        started.push(index);
+        return task.promise;
+      })
+    );
+
+    expect(started).toEqual([0, 1]);
+    tasks[1].resolve(1);
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+    tasks[0].resolve(0);
+    tasks[2].resolve(2);
+    tasks[3].resolve(3);
+
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2, 3]);
+  });
+
+  it("keeps going after a task fails", async () => {
+    const queue = createTaskQueue(1);
+    const failing = queue.add(() => Promise.reject(new Error("Broken file")));
+    const next = queue.add(async () => "next");
+
+    await expect(failing).rejects.toThrow("Broken file");
+    await expect(next).resolves.toBe("next");
+  });
+
+  it("frees the slot of a task that throws before returning a promise", async () => {
+    const queue = createTaskQueue(1);
+    const throwing = queue.add((): Promise<void> => {
+      throw new Error("Thrown synchronously");
+    });
+
+    await expect(throwing).rejects.toThrow("Thrown synchronously");
+    await expect(queue.add(async () => "next")).resolves.toBe("next");
+  });
+
+  it("drops waiting tasks on clear and lets running ones finish", async () => {
+    const queue = createTaskQueue(1);
+    const running = deferred<string>();
+    const started: string[] = [];
+    const first = queue.add(() => {
+      started.push("running");
+      return running.promise;
+    });
+    queue.add(async () => {
+      started.push("dropped");
+    });
+
+    queue.clear();
+    running.resolve("done");
+    await expect(first).resolves.toBe("done");
+    await queue.add(async () => {
+      started.push("added later");
+    });
+
+    expect(started).toEqual(["running", "added later"]);
+  });
+});
@@ -0,0 +1,42 @@
+export interface TaskQueue {
+  add<T>(task: () => Promise<T>): Promise<T>;
+  // Drops tasks that have not started yet; running tasks finish normally
+  clear(): void;
+}
+
+// Runs at most `concurrency` tasks at a time, in the order they were added
+export function createTaskQueue(concurrency: number): TaskQueue {
+  let active = 0;
+  let waiting: (() => void)[] = [];
+
+  const next = () => {
+    if (active >= concurrency) {
+      return;
+    }
+    const start = waiting.shift();
+    if (start) {
+      active++;
+      start();
+    }
+  };
+
+  return {
+    add<T>(task: () => Promise<T>) {
+      return new Promise<T>((resolve, reject) => {
+        waiting.push(() => {
+          // A task that throws instead of rejecting still frees its slot
+          new Promise<T>((run) => run(task()))
+            .then(resolve, reject)
+            .finally(() => {
+              active--;
+              next();
+            });
+        });
+        next();
+      });
+    },
+    clear() {
+      waiting = [];
+    },
+  };
+}
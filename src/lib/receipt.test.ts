@@ -0,0 +1,333 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseReceipt,
+  parseReceiptString,
+  ReceiptSerializeError,
+  serializeReceipt,
+  type GermanReceiptData,
+  type ReceiptParseError,
+} from "@/lib/receipt";
+
+// The example from the DSFinV-K specification, appendix "QR-Code für
+// Kassenbelege"
+const DSFINVK_EXAMPLE =
+  "V0;955002-00;Kassenbeleg-V1;Beleg^0.00_2.55_0.00_0.00_0.00^2.55:Bar;18;112;2019-07-10T18:41:04.000Z;2019-07-10T18:41:04.000Z;ecdsa-plain-SHA256;unixTime;MEQCIAy4P9k+7x9saDO0uRZ4El8QwN+qTgYiv1DIaJIMWRiuAiAt+saFDGjK2Yi5Cxgy7PprXQ5O0seRgx4ltdpW9REvwA==;BHhWOeisRpPBTGQ1W4VUH95TXx2GARf8e2NYZXJoInjtGqnxJ8sZ3CQpYgjI+LYEmW5A37sLWHsyU7nSJUBemyU=";
+
+// A supermarket receipt paid partly by card, with the unused 0 % slot left
+// out and the time zone written as an offset
+const SPLIT_PAYMENT =
+  "V0;Kasse-07;Kassenbeleg-V1;Beleg^12.99_4.28_0.00_0.00^10.00:Bar_7.27:Unbar;4711;9876;2024-03-01T09:15:02+01:00;2024-03-01T09:15:09+01:00;ecdsa-plain-SHA384;unixTime;MGUCMQCnbQ3Rw2bLnwqX1wHf2H0Z9Q==;BHhWOeisRpPBTGQ1W4VUH95TXx2GARf8e2NYZXJoInjtGqnxJ8sZ3CQ=";
+
+// Field 4 of the example, replaced by the given process data
+function withProcessData(processData: string): string {
+  const fields = DSFINVK_EXAMPLE.split(";");
+  fields[3] = processData;
+  return fields.join(";");
+}
+
+function withField(index: number, value: string): string {
+  const fields = DSFINVK_EXAMPLE.split(";");
+  fields[index] = value;
+  return fields.join(";");
+}
+
+function errorsOf(text: string): ReceiptParseError[] {
+  const result = parseReceipt(text);
+  if (result.ok) {
+    throw new Error("Expected the receipt to be rejected");
+  }
+  return result.errors;
+}
+
+describe("parseReceipt", () => {
+  it("parses the DSFinV-K example", () => {
+    const result = parseReceipt(DSFINVK_EXAMPLE);
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+
+    expect(result.receipt).toMatchObject({
+      version: "V0",
+      transactionUUID: "955002-00",
+      documentType: "Kassenbeleg-V1",
+      processData: "Beleg^0.00_2.55_0.00_0.00_0.00^2.55:Bar",
+      receiptCounter: 18,
+      registerID: "112",
+      timestampStart: "2019-07-10T18:41:04.000Z",
+      timestampEnd: "2019-07-10T18:41:04.000Z",
+      signatureAlgorithm: "ecdsa-plain-SHA256",
+      timeFormat: "unixTime",
+    });
+    expect(result.receipt.receipt).toEqual({
+      label: "Beleg",
+      vatBreakdown: {
+        total: 2.55,
+        vat19: 0,
+        vat7: 2.55,
+        vat10_7: 0,
+        vat5_5: 0,
+        vat0: 0,
+      },
+      vatSlotCount: 5,
+      totalAmount: 2.55,
+      paymentMethod: "Bar",
+      payments: [{ amount: 2.55, type: "Bar", currency: "EUR" }],
+    });
+    // 64 byte plain ECDSA signature in a DER envelope, 65 byte public key
+    expect(result.signatureBytes).toHaveLength(70);
+    expect(result.publicKeyBytes).toHaveLength(65);
+  });
+
+  it("parses split payments and omitted trailing VAT slots", () => {
+    const result = parseReceipt(SPLIT_PAYMENT);
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+
+    expect(result.receipt.receipt.vatBreakdown).toEqual({
+      total: 17.27,
+      vat19: 12.99,
+      vat7: 4.28,
+      vat10_7: 0,
+      vat5_5: 0,
+      vat0: 0,
+    });
+    expect(result.receipt.receipt.vatSlotCount).toBe(4);
+    expect(result.receipt.receipt.paymentMethod).toBe("Bar, Unbar");
+    expect(result.receipt.receipt.payments).toEqual([
+      { amount: 10, type: "Bar", currency: "EUR" },
+      { amount: 7.27, type: "Unbar", currency: "EUR" },
+    ]);
+  });
+
+  it("accepts foreign currency payments and receipts without payments", () => {
+    const foreign = parseReceipt(
+      withProcessData("Beleg^0.00_2.55_0.00_0.00_0.00^2.55:Unbar:CHF")
+    );
+    expect(foreign.ok && foreign.receipt.receipt.payments).toEqual([
+      { amount: 2.55, type: "Unbar", currency: "CHF" },
+    ]);
+
+    const aborted = parseReceipt(
+      withProcessData("AVBelegabbruch^0.00_0.00_0.00_0.00_0.00^")
+    );
+    expect(aborted.ok && aborted.receipt.receipt).toMatchObject({
+      label: "AVBelegabbruch",
+      totalAmount: 0,
+      paymentMethod: "",
+      payments: [],
+    });
+  });
+
+  it("keeps free-form process data of other process types", () => {
+    const fields = DSFINVK_EXAMPLE.split(";");
+    fields[2] = "SonstigerVorgang";
+    fields[3] = "Kassenlade geöffnet";
+    const result = parseReceipt(fields.join(";"));
+
+    expect(result.ok && result.receipt.receipt).toEqual({
+      label: "Kassenlade geöffnet",
+      vatBreakdown: {
+        total: 0,
+        vat19: 0,
+        vat7: 0,
+        vat10_7: 0,
+        vat5_5: 0,
+        vat0: 0,
+      },
+      totalAmount: 0,
+      paymentMethod: "",
+      payments: [],
+    });
+  });
+
+  it("ignores surrounding whitespace", () => {
+    expect(parseReceipt(`  ${DSFINVK_EXAMPLE}\n`).ok).toBe(true);
+  });
+
+  it("rejects a wrong number of fields", () => {
+    expect(errorsOf("V0;955002-00;Kassenbeleg-V1")).toEqual([
+      {
+        field: "qrCode",
+        code: "field-count",
+        message: "Expected 12 semicolon-separated fields, found 3",
+      },
+    ]);
+    expect(errorsOf(`${DSFINVK_EXAMPLE};extra`)[0].code).toBe("field-count");
+  });
+
+  it.each([
+    [1, "transactionUUID"],
+    [2, "documentType"],
+    [8, "signatureAlgorithm"],
+    [10, "signature"],
+    [11, "certificateHash"],
+  ] as const)("reports empty field %i as missing", (index, field) => {
+    expect(errorsOf(withField(index, ""))).toContainEqual(
+      expect.objectContaining({ field, code: "missing" })
+    );
+  });
+
+  it.each([
+    ["version", 0, "1.0", "unsupported"],
+    ["receiptCounter", 4, "-18", "invalid-number"],
+    ["registerID", 5, "abc", "invalid-number"],
+    ["timestampStart", 6, "10.07.2019 18:41", "invalid-timestamp"],
+    ["timestampEnd", 7, "2019-13-45T99:99:99Z", "invalid-timestamp"],
+    ["timeFormat", 9, "localTime", "unsupported"],
+    ["signature", 10, "not base64!", "invalid-base64"],
+    ["certificateHash", 11, "BHhW%Ois", "invalid-base64"],
+  ] as const)("reports an invalid %s", (field, index, value, code) => {
+    expect(errorsOf(withField(index, value))).toEqual([
+      expect.objectContaining({ field, code, value }),
+    ]);
+  });
+
+  it.each([
+    ["Beleg", "processData", "invalid-format"],
+    ["Beleg^0.00^2.55:Bar^extra", "processData", "invalid-format"],
+    [
+      "Rechnung^0.00_2.55_0.00_0.00_0.00^2.55:Bar",
+      "receipt.label",
+      "unsupported",
+    ],
+    ["Beleg^1_2_3_4_5_6^2.55:Bar", "receipt.vatBreakdown", "invalid-format"],
+    [
+      "Beleg^0.00_2,55_0.00_0.00_0.00^2.55:Bar",
+      "receipt.vatBreakdown",
+      "invalid-number",
+    ],
+    [
+      "Beleg^0.00_2.55_0.00_0.00_0.00^zwei:Bar",
+      "receipt.payments",
+      "invalid-number",
+    ],
+    [
+      "Beleg^0.00_2.55_0.00_0.00_0.00^2.55:Karte",
+      "receipt.payments",
+      "unsupported",
+    ],
+    [
+      "Beleg^0.00_2.55_0.00_0.00_0.00^2.55:Bar:euro",
+      "receipt.payments",
+      "invalid-format",
+    ],
+    [
+      "Beleg^0.00_2.55_0.00_0.00_0.00^2.55:Bar:EUR:1",
+      "receipt.payments",
+      "invalid-format",
+    ],
+  ] as const)("reports process data %j", (processData, field, code) => {
+    expect(errorsOf(withProcessData(processData))).toContainEqual(
+      expect.objectContaining({ field, code })
+    );
+  });
+
+  it("reports every invalid field at once", () => {
+    const fields = DSFINVK_EXAMPLE.split(";");
+    fields[0] = "X";
+    fields[4] = "";
+    fields[9] = "";
+    fields[10] = "***";
+
+    expect(errorsOf(fields.join(";")).map((error) => error.field)).toEqual([
+      "version",
+      "receiptCounter",
+      "timeFormat",
+      "signature",
+    ]);
+  });
+});
+
+describe("parseReceiptString", () => {
+  it("returns the receipt or null", () => {
+    expect(parseReceiptString(DSFINVK_EXAMPLE)?.receiptCounter).toBe(18);
+    expect(parseReceiptString("https://example.com")).toBeNull();
+  });
+});
+
+function parsed(text: string): GermanReceiptData {
+  const result = parseReceipt(text);
+  if (!result.ok) {
+    throw new Error("Expected the receipt to parse");
+  }
+  return result.receipt;
+}
+
+describe("serializeReceipt", () => {
+  it.each([
+    ["the DSFinV-K example", DSFINVK_EXAMPLE],
+    ["a split payment with four VAT amounts", SPLIT_PAYMENT],
+    [
+      "a single VAT amount and a foreign currency",
+      withProcessData("AVTraining^5.00^5.00:Unbar:USD"),
+    ],
+  ])("reproduces %s byte for byte", (_, text) => {
+    const receipt = parsed(text);
+    expect(serializeReceipt(receipt)).toBe(text);
+    expect(parsed(serializeReceipt(receipt))).toEqual(receipt);
+  });
+
+  it("writes the structured fields, not the raw process data", () => {
+    const receipt = parsed(SPLIT_PAYMENT);
+    receipt.receipt.vatBreakdown.vat19 = 13.5;
+    receipt.receipt.payments[0].amount = 10.51;
+
+    const text = serializeReceipt(receipt);
+    expect(text.split(";")[3]).toBe(
+      "Beleg^13.50_4.28_0.00_0.00^10.51:Bar_7.27:Unbar"
+    );
+    expect(parsed(text).receipt.totalAmount).toBe(17.78);
+  });
+
+  it("adds the VAT slots a correction fills in", () => {
+    const receipt = parsed(SPLIT_PAYMENT);
+    receipt.receipt.vatBreakdown.vat0 = 1;
+
+    expect(serializeReceipt(receipt).split(";")[3]).toBe(
+      "Beleg^12.99_4.28_0.00_0.00_1.00^10.00:Bar_7.27:Unbar"
+    );
+  });
+
+  it("writes all VAT slots when the count is unknown", () => {
+    const receipt = parsed(SPLIT_PAYMENT);
+    delete receipt.receipt.vatSlotCount;
+
+    expect(serializeReceipt(receipt).split(";")[3]).toBe(
+      "Beleg^12.99_4.28_0.00_0.00_0.00^10.00:Bar_7.27:Unbar"
+    );
+  });
+
+  it("keeps free-form process data of other process types", () => {
+    const fields = DSFINVK_EXAMPLE.split(";");
+    fields[2] = "SonstigerVorgang";
+    fields[3] = "Kassenlade geöffnet";
+    const text = fields.join(";");
+
+    expect(serializeReceipt(parsed(text))).toBe(text);
+  });
+
+  it("rejects amounts in fractions of a cent", () => {
+    const receipt = parsed(DSFINVK_EXAMPLE);
+    receipt.receipt.vatBreakdown.vat7 = 2.555;
+
+    expect(() => serializeReceipt(receipt)).toThrow(ReceiptSerializeError);
+  });
+
+  it("rejects fields the parser would not accept", () => {
+    const receipt = parsed(DSFINVK_EXAMPLE);
+    receipt.transactionUUID = "955002;00";
+
+    try {
+      serializeReceipt(receipt);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ReceiptSerializeError);
+      expect((error as ReceiptSerializeError).errors[0].code).toBe(
+        "field-count"
+      );
+    }
+  });
+});
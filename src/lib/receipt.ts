@@ -0,0 +1,584 @@
+import { base64ToBytes } from "@/lib/encoding";
+import { sumAmounts, type FormatParseError } from "@/lib/formats/types";
+
+export type PaymentType = "Bar" | "Unbar";
+
+export interface ReceiptPayment {
+  amount: number;
+  type: PaymentType;
+  // ISO 4217 code; payments without one are in EUR
+  currency: string;
+}
+
+// Gross amounts per VAT rate, in the order the QR code lists them
+export interface VatBreakdown {
+  total: number;
+  vat19: number;
+  vat7: number;
+  vat10_7: number;
+  vat5_5: number;
+  vat0: number;
+}
+
+export const VAT_RATE_FIELDS = [
+  "vat19",
+  "vat7",
+  "vat10_7",
+  "vat5_5",
+  "vat0",
+] as const;
+
+export interface GermanReceiptData {
+  version: string;
+  transactionUUID: string;
+  documentType: string;
+  // Raw process data exactly as it appears in the QR code (and as the TSE signed it)
+  processData: string;
+  receipt: {
+    // Process type inside the process data, e.g. "Beleg" or "AVBelegabbruch"
+    label: string;
+    vatBreakdown: VatBreakdown;
+    // How many VAT amounts the code lists, since registers may leave out
+    // trailing rates nothing was sold at. All of them when absent
+    vatSlotCount?: number;
+    totalAmount: number;
+    // Summary of the payment types, e.g. "Bar" or "Bar, Unbar"
+    paymentMethod: string;
+    payments: ReceiptPayment[];
+  };
+  receiptCounter: number;
+  registerID: string;
+  timestampStart: string;
+  timestampEnd: string;
+  signatureAlgorithm: string;
+  timeFormat: string;
+  signature: string;
+  certificateHash: string;
+}
+
+export type ReceiptField =
+  | "qrCode"
+  | "version"
+  | "transactionUUID"
+  | "documentType"
+  | "processData"
+  | "receipt.label"
+  | "receipt.vatBreakdown"
+  | "receipt.payments"
+  | "receiptCounter"
+  | "registerID"
+  | "timestampStart"
+  | "timestampEnd"
+  | "signatureAlgorithm"
+  | "timeFormat"
+  | "signature"
+  | "certificateHash";
+
+export type ReceiptParseErrorCode =
+  | "field-count"
+  | "missing"
+  | "invalid-format"
+  | "invalid-number"
+  | "invalid-timestamp"
+  | "invalid-base64"
+  | "unsupported";
+
+export interface ReceiptParseError {
+  field: ReceiptField;
+  code: ReceiptParseErrorCode;
+  message: string;
+  value?: string;
+}
+
+export type ReceiptParseResult =
+  | {
+      ok: true;
+      receipt: GermanReceiptData;
+      // Binary fields, decoded from their base64 form in the QR code
+      signatureBytes: Uint8Array;
+      publicKeyBytes: Uint8Array;
+    }
+  | { ok: false; errors: ReceiptParseError[] };
+
+// Process types (Vorgangstypen) allowed in Kassenbeleg-V1 process data
+export const RECEIPT_LABELS = [
+  "Beleg",
+  "AVTransfer",
+  "AVBestellung",
+  "AVTraining",
+  "AVBelegstorno",
+  "AVBelegabbruch",
+  "AVSachbezug",
+  "AVSonstige",
+  "AVRechnung",
+] as const;
+
+export const TIME_FORMATS = ["unixTime", "utcTime", "generalizedTime"];
+
+// Receipts are issued in Germany, so dates are shown in German local time
+export const RECEIPT_TIME_ZONE = "Europe/Berlin";
+
+const FIELD_COUNT = 12;
+const KASSENBELEG_PROCESS_TYPE = "Kassenbeleg-V1";
+const AMOUNT_PATTERN = /^-?\d+(\.\d+)?$/;
+const ISO_TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+const emptyVatBreakdown = (): VatBreakdown => ({
+  total: 0,
+  vat19: 0,
+  vat7: 0,
+  vat10_7: 0,
+  vat5_5: 0,
+  vat0: 0,
+});
+
+function parseAmount(value: string): number | null {
+  return AMOUNT_PATTERN.test(value) ? Number(value) : null;
+}
+
+function parseVatBreakdown(
+  vatString: string,
+  errors: ReceiptParseError[]
+): VatBreakdown {
+  const breakdown = emptyVatBreakdown();
+  const components = vatString.split("_");
+
+  if (components.length > VAT_RATE_FIELDS.length) {
+    errors.push({
+      field: "receipt.vatBreakdown",
+      code: "invalid-format",
+      message: `Expected at most ${VAT_RATE_FIELDS.length} VAT amounts, found ${components.length}`,
+      value: vatString,
+    });
+    return breakdown;
+  }
+
+  // Trailing rate slots may be left out, which means nothing was sold at that rate
+  components.forEach((component, index) => {
+    const amount = parseAmount(component);
+    if (amount === null) {
+      errors.push({
+        field: "receipt.vatBreakdown",
+        code: "invalid-number",
+        message: `VAT amount for ${VAT_RATE_FIELDS[index]} is not a number`,
+        value: component,
+      });
+      return;
+    }
+    breakdown[VAT_RATE_FIELDS[index]] = amount;
+  });
+
+  breakdown.total = sumAmounts(
+    VAT_RATE_FIELDS.map((field) => breakdown[field])
+  );
+  return breakdown;
+}
+
+function parsePayments(
+  paymentString: string,
+  errors: ReceiptParseError[]
+): ReceiptPayment[] {
+  if (!paymentString) {
+    return [];
+  }
+
+  const payments: ReceiptPayment[] = [];
+  for (const entry of paymentString.split("_")) {
+    const [amountString, type, currency = "EUR", ...rest] = entry.split(":");
+    const amount = parseAmount(amountString);
+
+    if (amount === null) {
+      errors.push({
+        field: "receipt.payments",
+        code: "invalid-number",
+        message: "Payment amount is not a number",
+        value: entry,
+      });
+    } else if (type !== "Bar" && type !== "Unbar") {
+      errors.push({
+        field: "receipt.payments",
+        code: "unsupported",
+        message: `Unknown payment type "${type ?? ""}", expected Bar or Unbar`,
+        value: entry,
+      });
+    } else if (rest.length > 0 || !/^[A-Z]{3}$/.test(currency)) {
+      errors.push({
+        field: "receipt.payments",
+        code: "invalid-format",
+        message:
+          "Payment must be amount:type with an optional ISO 4217 currency",
+        value: entry,
+      });
+    } else {
+      payments.push({ amount, type, currency });
+    }
+  }
+  return payments;
+}
+
+function summarizePaymentMethod(payments: ReceiptPayment[]): string {
+  return Array.from(new Set(payments.map((payment) => payment.type))).join(
+    ", "
+  );
+}
+
+function parseProcessData(
+  processType: string,
+  processData: string,
+  errors: ReceiptParseError[]
+): GermanReceiptData["receipt"] {
+  // Other process types (e.g. SonstigerVorgang) carry free-form process data
+  if (processType !== KASSENBELEG_PROCESS_TYPE) {
+    return {
+      label: processData,
+      vatBreakdown: emptyVatBreakdown(),
+      totalAmount: 0,
+      paymentMethod: "",
+      payments: [],
+    };
+  }
+
+  const parts = processData.split("^");
+  const [label, vatString = "", paymentString = ""] = parts;
+
+  if (parts.length < 2 || parts.length > 3) {
+    errors.push({
+      field: "processData",
+      code: "invalid-format",
+      message: "Expected label^vat amounts^payments",
+      value: processData,
+    });
+  }
+  if (!(RECEIPT_LABELS as readonly string[]).includes(label)) {
+    errors.push({
+      field: "receipt.label",
+      code: "unsupported",
+      message: `Unknown receipt process type "${label}"`,
+      value: label,
+    });
+  }
+
+  const vatBreakdown = parseVatBreakdown(vatString, errors);
+  const payments = parsePayments(paymentString, errors);
+
+  return {
+    label,
+    vatBreakdown,
+    vatSlotCount: vatString.split("_").length,
+    // The VAT amounts are gross, so their sum is the receipt total
+    totalAmount: vatBreakdown.total,
+    paymentMethod: summarizePaymentMethod(payments),
+    payments,
+  };
+}
+
+function parseTimestamp(
+  field: "timestampStart" | "timestampEnd",
+  value: string,
+  errors: ReceiptParseError[]
+) {
+  if (!ISO_TIMESTAMP_PATTERN.test(value) || isNaN(Date.parse(value))) {
+    errors.push({
+      field,
+      code: "invalid-timestamp",
+      message: "Expected an ISO 8601 timestamp",
+      value,
+    });
+  }
+}
+
+function decodeBase64Field(
+  field: "signature" | "certificateHash",
+  value: string,
+  errors: ReceiptParseError[]
+): Uint8Array {
+  if (!value) {
+    errors.push({ field, code: "missing", message: "Field is empty" });
+    return new Uint8Array();
+  }
+
+  try {
+    if (!/^[A-Za-z0-9+/\-_]+=*$/.test(value)) {
+      throw new Error("Invalid base64 alphabet");
+    }
+    return base64ToBytes(value);
+  } catch {
+    errors.push({
+      field,
+      code: "invalid-base64",
+      message: "Field is not valid base64",
+      value,
+    });
+    return new Uint8Array();
+  }
+}
+
+// Parses the KassenSichV receipt QR code (DSFinV-K, "QR-Code für Kassenbelege")
+// and reports every field that does not conform, instead of stopping at the first
+export function parseReceipt(receiptString: string): ReceiptParseResult {
+  const errors: ReceiptParseError[] = [];
+  const parts = receiptString.trim().split(";");
+
+  if (parts.length !== FIELD_COUNT) {
+    return {
+      ok: false,
+      errors: [
+        {
+          field: "qrCode",
+          code: "field-count",
+          message: `Expected ${FIELD_COUNT} semicolon-separated fields, found ${parts.length}`,
+        },
+      ],
+    };
+  }
+
+  const [
+    version,
+    transactionUUID,
+    documentType,
+    processData,
+    receiptCounterString,
+    registerID,
+    timestampStart,
+    timestampEnd,
+    signatureAlgorithm,
+    timeFormat,
+    signature,
+    certificateHash,
+  ] = parts;
+
+  if (!/^V\d+$/.test(version)) {
+    errors.push({
+      field: "version",
+      code: "unsupported",
+      message: 'Expected a QR code version such as "V0"',
+      value: version,
+    });
+  }
+  if (!transactionUUID) {
+    errors.push({
+      field: "transactionUUID",
+      code: "missing",
+      message: "Register serial number is empty",
+    });
+  }
+  if (!documentType) {
+    errors.push({
+      field: "documentType",
+      code: "missing",
+      message: "Process type is empty",
+    });
+  }
+
+  const receipt = parseProcessData(documentType, processData, errors);
+
+  if (!/^\d+$/.test(receiptCounterString)) {
+    errors.push({
+      field: "receiptCounter",
+      code: "invalid-number",
+      message: "Transaction number must be a non-negative integer",
+      value: receiptCounterString,
+    });
+  }
+  if (!/^\d+$/.test(registerID)) {
+    errors.push({
+      field: "registerID",
+      code: "invalid-number",
+      message: "Signature counter must be a non-negative integer",
+      value: registerID,
+    });
+  }
+
+  parseTimestamp("timestampStart", timestampStart, errors);
+  parseTimestamp("timestampEnd", timestampEnd, errors);
+
+  if (!signatureAlgorithm) {
+    errors.push({
+      field: "signatureAlgorithm",
+      code: "missing",
+      message: "Signature algorithm is empty",
+    });
+  }
+  if (!TIME_FORMATS.includes(timeFormat)) {
+    errors.push({
+      field: "timeFormat",
+      code: "unsupported",
+      message: `Expected one of ${TIME_FORMATS.join(", ")}`,
+      value: timeFormat,
+    });
+  }
+
+  const signatureBytes = decodeBase64Field("signature", signature, errors);
+  const publicKeyBytes = decodeBase64Field(
+    "certificateHash",
+    certificateHash,
+    errors
+  );
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    receipt: {
+      version,
+      transactionUUID,
+      documentType,
+      processData,
+      receipt,
+      receiptCounter: parseInt(receiptCounterString, 10),
+      registerID,
+      timestampStart,
+      timestampEnd,
+      signatureAlgorithm,
+      timeFormat,
+      signature,
+      certificateHash,
+    },
+    signatureBytes,
+    publicKeyBytes,
+  };
+}
+
+// German Receipt QR Code Parser
+export function parseReceiptString(
+  receiptString: string
+): GermanReceiptData | null {
+  const result = parseReceipt(receiptString);
+  return result.ok ? result.receipt : null;
+}
+
+export class ReceiptSerializeError extends Error {
+  errors: ReceiptParseError[];
+
+  constructor(errors: ReceiptParseError[]) {
+    super(`Receipt cannot be serialized: ${formatReceiptParseErrors(errors)}`);
+    this.name = "ReceiptSerializeError";
+    this.errors = errors;
+  }
+}
+
+// Amounts in the QR code carry exactly two decimals
+function formatAmount(amount: number): string {
+  return (Math.round(amount * 100) / 100).toFixed(2);
+}
+
+function isWholeCents(amount: number): boolean {
+  return (
+    Number.isFinite(amount) &&
+    Math.abs(amount * 100 - Math.round(amount * 100)) < 1e-6
+  );
+}
+
+// Rebuilds the Kassenbeleg-V1 process data from the structured fields, so
+// corrected amounts are exported. For a receipt read from a conforming
+// register this reproduces the string the TSE signed.
+export function serializeProcessData(
+  documentType: string,
+  receipt: GermanReceiptData["receipt"]
+): string {
+  if (documentType !== KASSENBELEG_PROCESS_TYPE) {
+    return receipt.label;
+  }
+
+  // The slots the scanned code listed, and any a correction filled in
+  const lastUsedSlot = VAT_RATE_FIELDS.reduce(
+    (last, field, index) => (receipt.vatBreakdown[field] !== 0 ? index : last),
+    0
+  );
+  const slotCount = Math.min(
+    VAT_RATE_FIELDS.length,
+    Math.max(receipt.vatSlotCount ?? VAT_RATE_FIELDS.length, lastUsedSlot + 1)
+  );
+  const vatString = VAT_RATE_FIELDS.slice(0, slotCount)
+    .map((field) => formatAmount(receipt.vatBreakdown[field]))
+    .join("_");
+  const paymentString = receipt.payments
+    .map((payment) =>
+      [
+        formatAmount(payment.amount),
+        payment.type,
+        // EUR is the default and is left out
+        ...(payment.currency === "EUR" ? [] : [payment.currency]),
+      ].join(":")
+    )
+    .join("_");
+  return [receipt.label, vatString, paymentString].join("^");
+}
+
+// Inverse of parseReceipt. The derived fields (totals, payment method and the
+// raw processData) are ignored, so parse(serialize(x)) equals any parsed x,
+// and a conforming code comes back byte for byte.
+// Throws a ReceiptSerializeError instead of producing a code the parser would
+// reject, e.g. when a field contains a separator.
+export function serializeReceipt(receipt: GermanReceiptData): string {
+  const errors: ReceiptParseError[] = [
+    ...VAT_RATE_FIELDS.filter(
+      (field) => !isWholeCents(receipt.receipt.vatBreakdown[field])
+    ).map(
+      (field): ReceiptParseError => ({
+        field: "receipt.vatBreakdown",
+        code: "invalid-number",
+        message: `VAT amount for ${field} must be in whole cents`,
+        value: String(receipt.receipt.vatBreakdown[field]),
+      })
+    ),
+    ...receipt.receipt.payments
+      .filter((payment) => !isWholeCents(payment.amount))
+      .map(
+        (payment): ReceiptParseError => ({
+          field: "receipt.payments",
+          code: "invalid-number",
+          message: "Payment amount must be in whole cents",
+          value: String(payment.amount),
+        })
+      ),
+  ];
+  if (!Number.isSafeInteger(receipt.receiptCounter)) {
+    errors.push({
+      field: "receiptCounter",
+      code: "invalid-number",
+      message: "Transaction number must be a non-negative integer",
+      value: String(receipt.receiptCounter),
+    });
+  }
+  if (errors.length > 0) {
+    throw new ReceiptSerializeError(errors);
+  }
+
+  const text = [
+    receipt.version,
+    receipt.transactionUUID,
+    receipt.documentType,
+    serializeProcessData(receipt.documentType, receipt.receipt),
+    String(receipt.receiptCounter),
+    receipt.registerID,
+    receipt.timestampStart,
+    receipt.timestampEnd,
+    receipt.signatureAlgorithm,
+    receipt.timeFormat,
+    receipt.signature,
+    receipt.certificateHash,
+  ].join(";");
+
+  // The parser is the reference for what a valid code looks like
+  const result = parseReceipt(text);
+  if (!result.ok) {
+    throw new ReceiptSerializeError(result.errors);
+  }
+  return text;
+}
+
+// Also formats the errors of the other receipt formats, which share the shape
+export function formatReceiptParseErrors(errors: FormatParseError[]): string {
+  return errors
+    .map(
+      (error) =>
+        `${error.field}: ${error.message}${
+          error.value !== undefined ? ` ("${error.value}")` : ""
+        }`
+    )
+    .join("; ");
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import type { ExtractedReceipt } from "@/lib/extraction";
+import { parseReceiptString, type GermanReceiptData } from "@/lib/receipt";
+import { reconcileReceipt } from "@/lib/reconcile";
+
+// 2.55 € paid in cash, signed at 20:41 German time on 10 July 2019
+const TSE = parseReceiptString(
+  "V0;955002-00;Kassenbeleg-V1;Beleg^0.00_2.55_0.00_0.00_0.00^2.55:Bar;18;112;2019-07-10T18:41:04.000Z;2019-07-10T18:41:04.000Z;ecdsa-plain-SHA256;unixTime;MEQCIAy4P9k+7x9saDO0uRZ4El8QwN+qTgYiv1DIaJIMWRiuAiAt+saFDGjK2Yi5Cxgy7PprXQ5O0seRgx4ltdpW9REvwA==;BHhWOeisRpPBTGQ1W4VUH95TXx2GARf8e2NYZXJoInjtGqnxJ8sZ3CQpYgjI+LYEmW5A37sLWHsyU7nSJUBemyU="
+) as GermanReceiptData;
+
+function printed(patch: Partial<ExtractedReceipt> = {}): ExtractedReceipt {
+  return {
+    merchantName: "Bäckerei Beispiel",
+    merchantAddress: null,
+    vatId: null,
+    date: "2019-07-10",
+    time: "20:41",
+    currency: "EUR",
+    lineItems: [],
+    vatTotals: [],
+    totalAmount: 2.55,
+    paymentMethod: "Bar",
+    receiptNumber: "18",
+    ...patch,
+  };
+}
+
+describe("reconcileReceipt", () => {
+  it("trusts a receipt whose every field agrees", () => {
+    const result = reconcileReceipt(printed(), TSE);
+
+    expect(result.verdict).toBe("high");
+    expect(result.fields.map((field) => field.status)).toEqual([
+      "match",
+      "match",
+      "match",
+      "match",
+    ]);
+  });
+
+  it("names the field that contradicts the TSE data", () => {
+    const result = reconcileReceipt(
+      printed({ paymentMethod: "EC-Karte" }),
+      TSE
+    );
+
+    expect(result.verdict).toBe("medium");
+    expect(result.summary).toContain("payment");
+    expect(result.summary).not.toContain("Nothing contradicts");
+  });
+
+  it("says when too little could be compared", () => {
+    const result = reconcileReceipt(
+      printed({ date: null, time: null, receiptNumber: null }),
+      TSE
+    );
+
+    expect(result.verdict).toBe("medium");
+    expect(result.summary).toContain("Nothing contradicts");
+  });
+
+  it("distrusts a receipt whose total differs", () => {
+    const result = reconcileReceipt(printed({ totalAmount: 25.5 }), TSE);
+
+    expect(result.verdict).toBe("low");
+    expect(result.fields[0]).toMatchObject({
+      field: "totalAmount",
+      status: "mismatch",
+    });
+  });
+
+  it("distrusts a receipt with several contradicting fields", () => {
+    const result = reconcileReceipt(
+      printed({ paymentMethod: "Visa", receiptNumber: "81" }),
+      TSE
+    );
+
+    expect(result.verdict).toBe("low");
+  });
+});
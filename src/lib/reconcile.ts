@@ -0,0 +1,288 @@
+import type { ExtractedReceipt } from "@/lib/extraction";
+import {
+  RECEIPT_TIME_ZONE,
+  type GermanReceiptData,
+  type PaymentType,
+} from "@/lib/receipt";
+
+export type FieldStatus = "match" | "mismatch" | "missing";
+
+export type ReconciledField =
+  | "totalAmount"
+  | "dateTime"
+  | "paymentMethod"
+  | "receiptNumber";
+
+export interface FieldReconciliation {
+  field: ReconciledField;
+  label: string;
+  status: FieldStatus;
+  // What the AI read off the printed receipt
+  aiValue: string | null;
+  // What the signed TSE data says
+  tseValue: string;
+  // Why a match was accepted within tolerance, or what differs
+  note?: string;
+}
+
+// high: every readable field agrees and the total was checked;
+// medium: too little could be compared, or a single minor field differs;
+// low: the total differs or several fields do
+export type ReconciliationVerdict = "high" | "medium" | "low";
+
+export interface Reconciliation {
+  fields: FieldReconciliation[];
+  verdict: ReconciliationVerdict;
+  summary: string;
+}
+
+export interface ReconcileOptions {
+  // Largest total difference still treated as rounding
+  amountTolerance?: number;
+  // Printed times may be the start or the end of the transaction, give or take
+  timeToleranceMinutes?: number;
+}
+
+// Some registers print UTC, so that is accepted too, with a note
+const FALLBACK_TIME_ZONE = "UTC";
+
+const CARD_PAYMENT_PATTERN =
+  /unbar|karte|card|ec[\s-]|^ec$|giro|kredit|credit|debit|visa|master|maestro|amex|kontaktlos|contactless|paypal|apple pay|google pay|überweisung|transfer/i;
+const CASH_PAYMENT_PATTERN = /\bbar\b|bargeld|cash/i;
+
+function localDateTime(
+  timestamp: string,
+  timeZone: string
+): { date: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(timestamp));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+function parseMinutes(time: string): number | null {
+  const match = /^(\d{1,2})[:.](\d{2})/.exec(time.trim());
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+// Maps free-text payment methods ("EC-Karte", "Bargeld") onto TSE payment types
+export function classifyPaymentMethod(text: string): PaymentType | null {
+  if (CARD_PAYMENT_PATTERN.test(text)) {
+    return "Unbar";
+  }
+  if (CASH_PAYMENT_PATTERN.test(text)) {
+    return "Bar";
+  }
+  return null;
+}
+
+// Receipt numbers are compared by their digits, ignoring prefixes and padding
+function normalizeReceiptNumber(value: string): string {
+  return value.replace(/\D/g, "").replace(/^0+(?=\d)/, "");
+}
+
+function reconcileTotal(
+  ai: ExtractedReceipt,
+  tse: GermanReceiptData,
+  tolerance: number
+): FieldReconciliation {
+  const expected = tse.receipt.totalAmount;
+  const base = {
+    field: "totalAmount" as const,
+    label: "Total",
+    aiValue: ai.totalAmount === null ? null : ai.totalAmount.toFixed(2),
+    tseValue: expected.toFixed(2),
+  };
+  if (ai.totalAmount === null) {
+    return { ...base, status: "missing" };
+  }
+
+  const difference = Math.abs(ai.totalAmount - expected);
+  // Compare in cents so 0.1 + 0.2 style float noise doesn't matter
+  if (Math.round(difference * 100) === 0) {
+    return { ...base, status: "match" };
+  }
+  if (Math.round(difference * 100) <= Math.round(tolerance * 100)) {
+    return {
+      ...base,
+      status: "match",
+      note: `Rounding difference of ${difference.toFixed(2)}`,
+    };
+  }
+  return {
+    ...base,
+    status: "mismatch",
+    note: `Differs by ${difference.toFixed(2)}`,
+  };
+}
+
+function reconcileDateTime(
+  ai: ExtractedReceipt,
+  tse: GermanReceiptData,
+  toleranceMinutes: number
+): FieldReconciliation {
+  const printed = [ai.date, ai.time].filter(Boolean).join(" ");
+  const base = {
+    field: "dateTime" as const,
+    label: "Date/Time",
+    aiValue: printed || null,
+    tseValue: `${tse.timestampStart} – ${tse.timestampEnd}`,
+  };
+  if (!ai.date) {
+    return { ...base, status: "missing" };
+  }
+
+  const printedMinutes = ai.time ? parseMinutes(ai.time) : null;
+  for (const timeZone of [RECEIPT_TIME_ZONE, FALLBACK_TIME_ZONE]) {
+    const start = localDateTime(tse.timestampStart, timeZone);
+    const end = localDateTime(tse.timestampEnd, timeZone);
+    const dateMatches = ai.date === start.date || ai.date === end.date;
+    const timeMatches =
+      printedMinutes === null ||
+      [start, end].some(
+        (moment) =>
+          moment.date === ai.date &&
+          Math.abs(moment.minutes - printedMinutes) <= toleranceMinutes
+      );
+    if (dateMatches && timeMatches) {
+      const notes = [
+        printedMinutes === null && "Only the date could be compared",
+        timeZone !== RECEIPT_TIME_ZONE && `Matches in ${timeZone}`,
+      ].filter(Boolean);
+      return {
+        ...base,
+        status: "match",
+        note: notes.length > 0 ? notes.join("; ") : undefined,
+      };
+    }
+  }
+
+  return {
+    ...base,
+    status: "mismatch",
+    note: `Expected ${localDateTime(tse.timestampEnd, RECEIPT_TIME_ZONE).date}`,
+  };
+}
+
+function reconcilePaymentMethod(
+  ai: ExtractedReceipt,
+  tse: GermanReceiptData
+): FieldReconciliation {
+  const base = {
+    field: "paymentMethod" as const,
+    label: "Payment",
+    aiValue: ai.paymentMethod,
+    tseValue: tse.receipt.paymentMethod,
+  };
+  if (!ai.paymentMethod) {
+    return { ...base, status: "missing" };
+  }
+
+  const classified = classifyPaymentMethod(ai.paymentMethod);
+  if (classified === null) {
+    return {
+      ...base,
+      status: "mismatch",
+      note: "Payment method not recognised as cash or card",
+    };
+  }
+  const tseTypes = tse.receipt.payments.map((payment) => payment.type);
+  return tseTypes.includes(classified)
+    ? {
+        ...base,
+        status: "match",
+        note: tseTypes.length > 1 ? "Split payment on the TSE" : undefined,
+      }
+    : { ...base, status: "mismatch", note: `Read as ${classified}` };
+}
+
+function reconcileReceiptNumber(
+  ai: ExtractedReceipt,
+  tse: GermanReceiptData
+): FieldReconciliation {
+  const base = {
+    field: "receiptNumber" as const,
+    label: "Receipt Number",
+    aiValue: ai.receiptNumber,
+    tseValue: String(tse.receiptCounter),
+  };
+  const aiNumber = ai.receiptNumber
+    ? normalizeReceiptNumber(ai.receiptNumber)
+    : "";
+  if (!aiNumber) {
+    return { ...base, status: "missing" };
+  }
+  return aiNumber === normalizeReceiptNumber(base.tseValue)
+    ? { ...base, status: "match" }
+    : { ...base, status: "mismatch" };
+}
+
+function verdictFor(fields: FieldReconciliation[]): ReconciliationVerdict {
+  const count = (status: FieldStatus) =>
+    fields.filter((field) => field.status === status).length;
+  const total = fields.find((field) => field.field === "totalAmount")!;
+
+  if (total.status === "mismatch" || count("mismatch") > 1) {
+    return "low";
+  }
+  if (
+    count("mismatch") === 0 &&
+    total.status === "match" &&
+    count("match") >= 3
+  ) {
+    return "high";
+  }
+  return "medium";
+}
+
+function summaryFor(
+  verdict: ReconciliationVerdict,
+  fields: FieldReconciliation[]
+): string {
+  if (verdict === "high") {
+    return "The printed receipt agrees with the signed TSE data.";
+  }
+  if (verdict === "low") {
+    return "The printed receipt does not agree with the signed TSE data. Review it before relying on it.";
+  }
+  // A medium verdict allows one mismatch, but never of the total
+  const mismatch = fields.find((field) => field.status === "mismatch");
+  return mismatch
+    ? `The ${mismatch.label.toLowerCase()} on the printed receipt contradicts the signed TSE data. Check it by hand before relying on the receipt.`
+    : "Nothing contradicts the signed TSE data, but not everything could be confirmed. Check the flagged fields by hand.";
+}
+
+// Compares what the AI read off the printed receipt with the data signed by
+// the TSE, which is the authoritative side
+export function reconcileReceipt(
+  ai: ExtractedReceipt,
+  tse: GermanReceiptData,
+  options: ReconcileOptions = {}
+): Reconciliation {
+  const { amountTolerance = 0.01, timeToleranceMinutes = 2 } = options;
+  const fields = [
+    reconcileTotal(ai, tse, amountTolerance),
+    reconcileDateTime(ai, tse, timeToleranceMinutes),
+    reconcilePaymentMethod(ai, tse),
+    reconcileReceiptNumber(ai, tse),
+  ];
+  const verdict = verdictFor(fields);
+  return { fields, verdict, summary: summaryFor(verdict, fields) };
+}
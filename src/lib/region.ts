@@ -0,0 +1,208 @@
+import { squareToQuad, type Quad } from "@/lib/perspective";
+import { crop, mapResult, resize, type Rect } from "@/lib/preprocess";
+import type { PixelData, QRResult } from "@/lib/qr";
+
+// A region the user marked on the preview: a plain crop, or the four corners
+// of a code photographed at an angle
+export type ManualRegion =
+  | { type: "rect"; rect: Rect }
+  | { type: "quad"; corners: Quad };
+
+export interface RegionDecodeOptions {
+  // Crops are enlarged until their shorter side reaches this many pixels
+  targetSize?: number;
+  maxScale?: number;
+  // Light border added around a rectified quad, as a fraction of its size,
+  // since the corners are usually drawn right on the code's edge
+  quietZone?: number;
+}
+
+// Puts four points clicked in any order into clockwise order, starting with
+// the one closest to the top left
+export function orderQuad(points: Quad): Quad {
+  const center = {
+    x: points.reduce((sum, point) => sum + point.x, 0) / 4,
+    y: points.reduce((sum, point) => sum + point.y, 0) / 4,
+  };
+  const clockwise = [...points].sort(
+    (a, b) =>
+      Math.atan2(a.y - center.y, a.x - center.x) -
+      Math.atan2(b.y - center.y, b.x - center.x)
+  );
+  const start = clockwise.reduce(
+    (best, point, index) =>
+      point.x + point.y < clockwise[best].x + clockwise[best].y ? index : best,
+    0
+  );
+  return [0, 1, 2, 3].map((offset) => clockwise[(start + offset) % 4]) as Quad;
+}
+
+// Converts a region between image sizes, e.g. from the preview's coordinates
+// to the pixels of a differently sized copy of the image
+export function scaleRegion(
+  region: ManualRegion,
+  factor: number
+): ManualRegion {
+  if (region.type === "rect") {
+    const { left, top, width, height } = region.rect;
+    return {
+      type: "rect",
+      rect: {
+        left: Math.round(left * factor),
+        top: Math.round(top * factor),
+        width: Math.max(1, Math.round(width * factor)),
+        height: Math.max(1, Math.round(height * factor)),
+      },
+    };
+  }
+  return {
+    type: "quad",
+    corners: region.corners.map((corner) => ({
+      x: corner.x * factor,
+      y: corner.y * factor,
+    })) as Quad,
+  };
+}
+
+// Rect cut to the image, or null when nothing of it is left
+export function clampRect(rect: Rect, width: number, height: number) {
+  const left = Math.max(0, Math.min(width, rect.left));
+  const top = Math.max(0, Math.min(height, rect.top));
+  const right = Math.max(left, Math.min(width, rect.left + rect.width));
+  const bottom = Math.max(top, Math.min(height, rect.top + rect.height));
+  return right > left && bottom > top
+    ? { left, top, width: right - left, height: bottom - top }
+    : null;
+}
+
+// Crops the rect, enlarges it so small codes get enough pixels per module and
+// decodes it. Locations of the results refer to the original image
+export async function decodeCrop<T extends QRResult>(
+  pixels: PixelData,
+  rect: Rect,
+  decode: (pixels: PixelData) => Promise<T[]>,
+  options: RegionDecodeOptions = {}
+): Promise<T[]> {
+  const { targetSize = 800, maxScale = 8 } = options;
+  const scale = Math.min(
+    maxScale,
+    Math.max(1, targetSize / Math.min(rect.width, rect.height))
+  );
+  const region = crop(pixels, rect);
+  const enlarged =
+    scale > 1
+      ? resize(
+          region,
+          Math.round(rect.width * scale),
+          Math.round(rect.height * scale)
+        )
+      : region;
+
+  const results = await decode(enlarged);
+  const xScale = rect.width / enlarged.width;
+  const yScale = rect.height / enlarged.height;
+  return results.map((result) =>
+    mapResult(result, (point) => ({
+      x: rect.left + point.x * xScale,
+      y: rect.top + point.y * yScale,
+    }))
+  );
+}
+
+// Smaller quads are enlarged to this size when rectified
+const MIN_QUAD_SIZE = 300;
+
+// Samples the quad into an upright square, undoing the perspective, with
+// white outside the image
+export function warpQuad(
+  pixels: PixelData,
+  corners: Quad,
+  size: number,
+  quietZone = 0.1
+): PixelData {
+  const toImage = squareToQuad(corners);
+  const data = new Uint8ClampedArray(size * size * 4);
+  const span = 1 + 2 * quietZone;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const point = toImage(
+        ((x + 0.5) / size) * span - quietZone,
+        ((y + 0.5) / size) * span - quietZone
+      );
+      const offset = (y * size + x) * 4;
+      const sourceX = point.x - 0.5;
+      const sourceY = point.y - 0.5;
+      const x0 = Math.floor(sourceX);
+      const y0 = Math.floor(sourceY);
+      if (
+        x0 < 0 ||
+        y0 < 0 ||
+        x0 + 1 >= pixels.width ||
+        y0 + 1 >= pixels.height
+      ) {
+        data.fill(255, offset, offset + 4);
+        continue;
+      }
+      const fx = sourceX - x0;
+      const fy = sourceY - y0;
+      for (let channel = 0; channel < 4; channel++) {
+        const at = (px: number, py: number) =>
+          pixels.data[(py * pixels.width + px) * 4 + channel];
+        const top = at(x0, y0) * (1 - fx) + at(x0 + 1, y0) * fx;
+        const bottom = at(x0, y0 + 1) * (1 - fx) + at(x0 + 1, y0 + 1) * fx;
+        data[offset + channel] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { data, width: size, height: size };
+}
+
+// Rectifies the quad and decodes it. Locations of the results are mapped back
+// through the same perspective, so they refer to the original image
+export async function decodeQuad<T extends QRResult>(
+  pixels: PixelData,
+  corners: Quad,
+  decode: (pixels: PixelData) => Promise<T[]>,
+  options: RegionDecodeOptions = {}
+): Promise<T[]> {
+  const { maxScale = 8, quietZone = 0.1 } = options;
+  const longestEdge = Math.max(
+    ...corners.map((corner, index) => {
+      const next = corners[(index + 1) % 4];
+      return Math.hypot(next.x - corner.x, next.y - corner.y);
+    })
+  );
+  // The code is already upright, so it is kept near its own resolution;
+  // jsQR reads huge modules less reliably than small ones
+  const size = Math.round(
+    Math.min(longestEdge * maxScale, Math.max(MIN_QUAD_SIZE, longestEdge)) *
+      (1 + 2 * quietZone)
+  );
+
+  const results = await decode(warpQuad(pixels, corners, size, quietZone));
+  const toImage = squareToQuad(corners);
+  const span = 1 + 2 * quietZone;
+  return results.map((result) =>
+    mapResult(result, (point) =>
+      toImage(
+        (point.x / size) * span - quietZone,
+        (point.y / size) * span - quietZone
+      )
+    )
+  );
+}
+
+// Decodes only the marked region, for codes the automatic detection missed
+export function decodeRegion<T extends QRResult>(
+  pixels: PixelData,
+  region: ManualRegion,
+  decode: (pixels: PixelData) => Promise<T[]>,
+  options: RegionDecodeOptions = {}
+): Promise<T[]> {
+  if (region.type === "quad") {
+    return decodeQuad(pixels, region.corners, decode, options);
+  }
+  const rect = clampRect(region.rect, pixels.width, pixels.height);
+  return rect ? decodeCrop(pixels, rect, decode, options) : Promise.resolve([]);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { createMockProvider } from "@/lib/ai";
+import type { BarcodeResult } from "@/lib/barcode";
+import type { DecodeOutcome, DecodeSource } from "@/lib/decoder";
+import type { PixelData } from "@/lib/qr";
+import { scanImage, type ImageScanDeps } from "@/lib/scan";
+
+const IMAGE = "data:image/png;base64,iVBORw0KGgo=";
+
+const PIXELS: PixelData = {
+  data: new Uint8ClampedArray(200 * 100 * 4).fill(255),
+  width: 200,
+  height: 100,
+};
+
+const CODE: BarcodeResult = { data: "https://example.com", format: "qr" };
+
+function outcome(results: BarcodeResult[], width = 200): DecodeOutcome {
+  return {
+    results,
+    transform: results.length > 0 ? "original" : null,
+    attempts: ["original"],
+    width,
+    height: 100,
+  };
+}
+
+// Reads the code only from crops, like a code too small to find in the
+// whole image
+function deps(provider: ImageScanDeps["provider"]): ImageScanDeps {
+  return {
+    decode: async (source: DecodeSource) =>
+      outcome(
+        "data" in source && source.width !== PIXELS.width ? [CODE] : [],
+        "data" in source ? source.width : 0
+      ),
+    toPixels: async () => PIXELS,
+    provider,
+  };
+}
+
+describe("scanImage", () => {
+  it("flags codes only the AI crop fallback found", async () => {
+    const provider = createMockProvider(() =>
+      JSON.stringify({ boxes: [{ x: 0.1, y: 0.1, width: 0.3, height: 0.5 }] })
+    );
+
+    const scan = await scanImage(PIXELS, IMAGE, deps(provider));
+
+    expect(scan.results).toEqual([]);
+    expect(scan.recovered).toHaveLength(1);
+    expect(scan.scanResults).toEqual([
+      expect.objectContaining({
+        qr: expect.objectContaining({ data: CODE.data }),
+        recoveredViaAICrop: true,
+      }),
+    ]);
+  });
+
+  it("leaves decoded codes unflagged", async () => {
+    const scan = await scanImage(PIXELS, IMAGE, {
+      ...deps(null),
+      decode: async () => outcome([CODE]),
+    });
+
+    expect(scan.scanResults).toHaveLength(1);
+    expect(scan.scanResults[0].recoveredViaAICrop).toBeUndefined();
+  });
+
+  it("finds nothing without a provider to ask", async () => {
+    const scan = await scanImage(PIXELS, IMAGE, deps(null));
+
+    expect(scan.recovered).toEqual([]);
+    expect(scan.scanResults).toEqual([]);
+  });
+});
@@ -0,0 +1,265 @@
+import type { VisionProvider } from "@/lib/ai";
+import type { BarcodeResult } from "@/lib/barcode";
+import {
+  DecodeAbortedError,
+  type DecodeOutcome,
+  type DecodeSource,
+} from "@/lib/decoder";
+import { extractReceipt, type ExtractedReceipt } from "@/lib/extraction";
+import {
+  getReceiptFormat,
+  parseReceiptCode,
+  type FormatParseError,
+  type ParsedReceiptCode,
+  type ReceiptFormatId,
+} from "@/lib/formats";
+import { recoverCodesWithAICrop } from "@/lib/locate";
+import type { PixelData } from "@/lib/qr";
+import { reconcileReceipt, type Reconciliation } from "@/lib/reconcile";
+import {
+  formatReceiptParseErrors,
+  type GermanReceiptData,
+} from "@/lib/receipt";
+import { describeError, elapsedSince, pipelineLog } from "@/lib/telemetry";
+
+// The scanning pipeline without any UI: decode, fall back to the AI crop,
+// parse the codes and extract the receipt. The browser and the CLI supply the
+// image loading and decoding, so nothing here needs the DOM or React
+
+export interface ScanResult {
+  qr: BarcodeResult;
+  // Any recognised receipt or payment format
+  code: ParsedReceiptCode | null;
+  // Set for German receipts, which history, export and the AI check work with
+  receipt: GermanReceiptData | null;
+  // Set when the code looks like a known format but doesn't conform to it
+  invalid: { format: ReceiptFormatId; errors: FormatParseError[] } | null;
+  // Set when only the AI crop fallback found the code, so the reading rests
+  // on where the vision model pointed
+  recoveredViaAICrop?: boolean;
+}
+
+// Tries each code against the known receipt and payment formats
+export function parseScanResults(results: BarcodeResult[]): ScanResult[] {
+  return results.map((result): ScanResult => {
+    const parsed = parseReceiptCode(result.data);
+    if (!parsed) {
+      pipelineLog.debug("parse", "Code is not a known receipt format", {
+        data: { text: result.data },
+      });
+    } else if (parsed.ok) {
+      pipelineLog.info(
+        "parse",
+        `${getReceiptFormat(parsed.code.format).label} detected and parsed`,
+        { data: parsed.code }
+      );
+    } else {
+      // It looks like a known format, so the details are worth surfacing
+      pipelineLog.warn(
+        "parse",
+        `${
+          getReceiptFormat(parsed.format).label
+        } could not be parsed: ${formatReceiptParseErrors(parsed.errors)}`,
+        { data: { text: result.data, errors: parsed.errors } }
+      );
+    }
+    if (parsed?.ok) {
+      return {
+        qr: result,
+        code: parsed.code,
+        receipt:
+          parsed.code.format === "de-kassensichv" ? parsed.code.data : null,
+        invalid: null,
+      };
+    }
+    return {
+      qr: result,
+      code: null,
+      receipt: null,
+      invalid: parsed ? { format: parsed.format, errors: parsed.errors } : null,
+    };
+  });
+}
+
+// The worker-backed QRDecoder in the browser, decodePixelData in Node
+export type DecodeFunction = (
+  source: DecodeSource,
+  signal?: AbortSignal
+) => Promise<DecodeOutcome>;
+
+export interface ImageScanDeps {
+  decode: DecodeFunction;
+  // Only needed for the AI crop fallback, so Blob sources are loaded lazily
+  toPixels: (source: DecodeSource) => Promise<PixelData>;
+  // Enables the AI crop fallback
+  provider?: VisionProvider | null;
+  signal?: AbortSignal;
+}
+
+export interface ImageScan extends DecodeOutcome {
+  // Codes only the AI crop fallback found; `results` is empty then
+  recovered: BarcodeResult[];
+  // Parsed `results`, or `recovered` when there are none
+  scanResults: ScanResult[];
+}
+
+// Decodes the image and, when nothing decodes and a provider is given, lets
+// the vision model point out the codes. `image` is the data URL the model
+// gets. A failed fallback is logged and leaves `recovered` empty
+export async function scanImage(
+  source: DecodeSource,
+  image: string,
+  deps: ImageScanDeps
+): Promise<ImageScan> {
+  const { decode, toPixels, provider, signal } = deps;
+  const start = performance.now();
+  const outcome = await decode(source, signal);
+  logDecodeOutcome(outcome, elapsedSince(start));
+
+  let recovered: BarcodeResult[] = [];
+  if (outcome.results.length === 0 && provider) {
+    pipelineLog.info("locate", "No code decoded, asking AI to locate it");
+    const cropStart = performance.now();
+    try {
+      recovered = await recoverCodesWithAICrop(
+        provider,
+        image,
+        await toPixels(source),
+        (pixels) => decode(pixels, signal).then((crop) => crop.results)
+      );
+      pipelineLog.info(
+        "locate",
+        `AI crop fallback recovered ${recovered.length} ${
+          recovered.length === 1 ? "code" : "codes"
+        }`,
+        { durationMs: elapsedSince(cropStart) }
+      );
+    } catch (err) {
+      if (err instanceof DecodeAbortedError) {
+        throw err;
+      }
+      pipelineLog.error("locate", "AI crop fallback failed", {
+        durationMs: elapsedSince(cropStart),
+        data: { error: describeError(err) },
+      });
+    }
+  }
+
+  return {
+    ...outcome,
+    recovered,
+    scanResults:
+      outcome.results.length > 0
+        ? parseScanResults(outcome.results)
+        : parseScanResults(recovered).map((scanResult) => ({
+            ...scanResult,
+            recoveredViaAICrop: true,
+          })),
+  };
+}
+
+function logDecodeOutcome(
+  outcome: DecodeOutcome,
+  durationMs: number,
+  label = "Image"
+) {
+  const { results, transform, attempts, width, height } = outcome;
+  pipelineLog.emit(
+    results.length > 0 ? "info" : "warn",
+    "decode",
+    results.length > 0
+      ? `${label}: ${results.length} ${
+          results.length === 1 ? "code" : "codes"
+        } decoded${transform === "original" ? "" : ` via ${transform}`}`
+      : `${label}: no code found`,
+    {
+      durationMs,
+      image: { width, height },
+      decoder: { transform, attempts },
+      data: results.map(({ format, data }) => ({ format, data })),
+    }
+  );
+}
+
+export interface ScannablePage {
+  // 1-based
+  pageNumber: number;
+  pageCount: number;
+  image: DecodeSource;
+}
+
+export interface PagesScan<P extends ScannablePage> {
+  // Every code on every page, tagged with its page
+  results: BarcodeResult[];
+  scanResults: ScanResult[];
+  // The first page with a code on it, or the first page; null for no pages
+  shownPage: P | null;
+  pageCount: number;
+}
+
+// Decodes every page of a document, e.g. from renderPdfPages
+export async function scanPages<P extends ScannablePage>(
+  pages: AsyncIterable<P>,
+  decode: DecodeFunction,
+  options: { signal?: AbortSignal; onPage?: (page: P) => void } = {}
+): Promise<PagesScan<P>> {
+  const { signal, onPage } = options;
+  const results: BarcodeResult[] = [];
+  let shownPage: P | null = null;
+  let pageCount = 0;
+
+  for await (const page of pages) {
+    pageCount = page.pageCount;
+    onPage?.(page);
+    const start = performance.now();
+    const decoded = await decode(page.image, signal);
+    logDecodeOutcome(decoded, elapsedSince(start), `Page ${page.pageNumber}`);
+    if (!shownPage || (decoded.results.length > 0 && results.length === 0)) {
+      shownPage = page;
+    }
+    results.push(
+      ...decoded.results.map((result) => ({
+        ...result,
+        page: page.pageNumber,
+      }))
+    );
+  }
+
+  return {
+    results,
+    scanResults: parseScanResults(results),
+    shownPage,
+    pageCount,
+  };
+}
+
+export interface ReceiptAnalysis {
+  extracted: ExtractedReceipt;
+  // Only for German receipts, whose signed data the AI reading is checked against
+  reconciliation: Reconciliation | null;
+}
+
+// Checks an AI reading, new or saved, against the receipt's signed data
+export function receiptAnalysis(
+  extracted: ExtractedReceipt,
+  receipt: GermanReceiptData | null
+): ReceiptAnalysis {
+  return {
+    extracted,
+    reconciliation: receipt ? reconcileReceipt(extracted, receipt) : null,
+  };
+}
+
+// Reads the whole receipt with the vision model. Throws like extractReceipt
+export async function analyzeReceiptImage(
+  provider: VisionProvider,
+  image: string,
+  receipt: GermanReceiptData | null
+): Promise<ReceiptAnalysis> {
+  const start = performance.now();
+  const extracted = await extractReceipt(provider, image);
+  pipelineLog.info("ai", "Receipt extracted", {
+    durationMs: elapsedSince(start),
+  });
+  return receiptAnalysis(extracted, receipt);
+}
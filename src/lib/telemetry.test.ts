@@ -0,0 +1,248 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createDiagnosticBundle,
+  createEventLog,
+  describeError,
+  describeMeasurements,
+  formatEvent,
+  isLogLevel,
+  logToConsole,
+  type PipelineEvent,
+} from "@/lib/telemetry";
+
+const NOW = new Date("2024-03-15T08:42:00.000Z");
+
+function event(patch: Partial<PipelineEvent> = {}): PipelineEvent {
+  return {
+    id: 1,
+    time: NOW.toISOString(),
+    level: "info",
+    stage: "decode",
+    message: "1 code decoded",
+    ...patch,
+  };
+}
+
+describe("createEventLog", () => {
+  it("records events oldest first with their details", () => {
+    const log = createEventLog({ now: () => NOW });
+
+    log.info("file", "Image loaded", { image: { width: 1200, height: 800 } });
+    log.error("decode", "Decoding failed", { data: { error: "Broken" } });
+
+    expect(log.getEvents()).toEqual([
+      {
+        id: 1,
+        time: "2024-03-15T08:42:00.000Z",
+        level: "info",
+        stage: "file",
+        message: "Image loaded",
+        image: { width: 1200, height: 800 },
+      },
+      {
+        id: 2,
+        time: "2024-03-15T08:42:00.000Z",
+        level: "error",
+        stage: "decode",
+        message: "Decoding failed",
+        data: { error: "Broken" },
+      },
+    ]);
+  });
+
+  it("hands out a new array after every change", () => {
+    const log = createEventLog();
+    const before = log.getEvents();
+
+    log.info("file", "Image loaded");
+
+    expect(log.getEvents()).not.toBe(before);
+    expect(before).toEqual([]);
+  });
+
+  it("drops the oldest events beyond its capacity", () => {
+    const log = createEventLog({ capacity: 3 });
+    for (let i = 1; i <= 5; i++) {
+      log.info("decode", `Event ${i}`);
+    }
+
+    expect(log.getEvents().map((e) => e.message)).toEqual([
+      "Event 3",
+      "Event 4",
+      "Event 5",
+    ]);
+  });
+
+  it("filters by the level set at runtime", () => {
+    const log = createEventLog();
+
+    log.debug("decode", "Hidden at info");
+    log.info("decode", "Shown at info");
+    log.setLevel("debug");
+    log.debug("decode", "Shown at debug");
+    log.setLevel("error");
+    log.warn("decode", "Hidden at error");
+    log.error("decode", "Shown at error");
+
+    expect(log.getLevel()).toBe("error");
+    expect(log.getEvents().map((e) => e.message)).toEqual([
+      "Shown at info",
+      "Shown at debug",
+      "Shown at error",
+    ]);
+  });
+
+  it("keeps events already recorded when the level rises", () => {
+    const log = createEventLog({ level: "debug" });
+
+    log.debug("decode", "Recorded");
+    log.setLevel("warn");
+
+    expect(log.getEvents()).toHaveLength(1);
+  });
+
+  it("tells listeners about events and other changes until they unsubscribe", () => {
+    const log = createEventLog();
+    const listener = vi.fn();
+    const unsubscribe = log.subscribe(listener);
+
+    log.warn("ai", "Slow answer");
+    log.debug("ai", "Filtered out");
+    log.setLevel("debug");
+    log.clear();
+    unsubscribe();
+    log.info("ai", "Not heard");
+
+    expect(listener.mock.calls).toEqual([
+      [expect.objectContaining({ message: "Slow answer" })],
+      [undefined],
+      [undefined],
+    ]);
+    expect(log.getEvents().map((e) => e.message)).toEqual(["Not heard"]);
+  });
+});
+
+describe("isLogLevel", () => {
+  it("accepts only the known levels", () => {
+    expect(isLogLevel("warn")).toBe(true);
+    expect(isLogLevel("verbose")).toBe(false);
+    expect(isLogLevel(null)).toBe(false);
+  });
+});
+
+describe("describeError", () => {
+  it("keeps the name and message of errors", () => {
+    expect(describeError(new TypeError("Failed to fetch"))).toBe(
+      "TypeError: Failed to fetch"
+    );
+    expect(describeError("offline")).toBe("offline");
+  });
+});
+
+describe("describeMeasurements", () => {
+  it("lists the image size and duration", () => {
+    expect(
+      describeMeasurements({
+        image: { width: 1200, height: 800 },
+        durationMs: 84,
+      })
+    ).toBe("1200×800px, 84ms");
+  });
+
+  it("formats AI latency and token usage", () => {
+    expect(
+      describeMeasurements({
+        ai: {
+          provider: "openai",
+          model: "gpt-4o",
+          latencyMs: 2310,
+          usage: { inputTokens: 1520, outputTokens: 210 },
+        },
+      })
+    ).toBe("openai gpt-4o in 2310ms, 1520 → 210 tokens");
+  });
+
+  it("leaves out usage the provider didn't report", () => {
+    expect(
+      describeMeasurements({
+        durationMs: 0,
+        ai: { provider: "mock", model: "mock", latencyMs: 3, usage: null },
+      })
+    ).toBe("0ms, mock mock in 3ms");
+  });
+
+  it("is empty without measurements", () => {
+    expect(describeMeasurements({ data: { text: "hello" } })).toBe("");
+  });
+});
+
+describe("formatEvent", () => {
+  it("prints one line with the stage icon and measurements", () => {
+    expect(
+      formatEvent(
+        event({ image: { width: 1200, height: 800 }, durationMs: 84 })
+      )
+    ).toBe("🔍 INFO: 1 code decoded (1200×800px, 84ms)");
+    expect(
+      formatEvent(event({ level: "warn", stage: "ai", message: "Retrying" }))
+    ).toBe("🤖 WARN: Retrying");
+  });
+});
+
+describe("logToConsole", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("writes each level to the matching console method", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    logToConsole(event({ level: "error", data: { error: "Broken" } }));
+    logToConsole(event({ level: "warn" }));
+    logToConsole(event({ level: "debug" }));
+    logToConsole();
+
+    expect(error).toHaveBeenCalledWith("🔍 ERROR: 1 code decoded", {
+      error: "Broken",
+    });
+    expect(warn).toHaveBeenCalledWith("🔍 WARN: 1 code decoded");
+    expect(log).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("createDiagnosticBundle", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("bundles the events with the level and context", () => {
+    vi.useFakeTimers({ now: NOW });
+    const log = createEventLog({ level: "debug", now: () => NOW });
+    log.debug("decode", "Trying contrast stretch");
+    log.info("ai", "Receipt extracted", {
+      ai: {
+        provider: "anthropic",
+        model: "claude-sonnet-4-5",
+        latencyMs: 1800,
+        usage: { inputTokens: 1400, outputTokens: 320 },
+      },
+    });
+
+    const bundle = createDiagnosticBundle(log, "Mozilla/5.0", {
+      ai: { provider: "anthropic", apiKeyConfigured: true },
+    });
+
+    expect(bundle).toEqual({
+      createdAt: "2024-03-15T08:42:00.000Z",
+      userAgent: "Mozilla/5.0",
+      logLevel: "debug",
+      context: { ai: { provider: "anthropic", apiKeyConfigured: true } },
+      events: log.getEvents(),
+    });
+    expect(bundle.events).toHaveLength(2);
+    // It is downloaded as JSON, so it must survive a round trip
+    expect(JSON.parse(JSON.stringify(bundle))).toEqual(bundle);
+  });
+});
@@ -0,0 +1,254 @@
+// Structured pipeline events in place of scattered console logging. Every
+// step of a scan is recorded with its stage, level and measurements; the
+// debug panel shows them as a timeline, the console and the CLI print them,
+// and the recent ones can be downloaded as a diagnostic bundle
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+// Ordered from most to least verbose
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export type PipelineStage =
+  | "file"
+  | "decode"
+  | "pdf"
+  | "locate"
+  | "parse"
+  | "ai"
+  | "offline"
+  | "history"
+  | "camera"
+  | "pwa"
+  | "export"
+  | "signature";
+
+export const STAGE_ICONS: Record<PipelineStage, string> = {
+  file: "🖼️",
+  decode: "🔍",
+  pdf: "📄",
+  locate: "🎯",
+  parse: "🧾",
+  ai: "🤖",
+  offline: "📴",
+  history: "🗂️",
+  camera: "📷",
+  pwa: "📦",
+  export: "📤",
+  signature: "🔏",
+};
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Measurements an event may carry besides its message
+export interface EventDetails {
+  durationMs?: number;
+  // Size of the image the step worked on
+  image?: { width: number; height: number };
+  // The preprocessing variant that decoded (null for none) and every variant
+  // tried, in order
+  decoder?: { transform: string | null; attempts: string[] };
+  ai?: {
+    provider: string;
+    model: string;
+    latencyMs: number;
+    // Null when the provider doesn't report it
+    usage: TokenUsage | null;
+  };
+  // Anything else worth keeping; must survive JSON.stringify
+  data?: unknown;
+}
+
+export interface PipelineEvent extends EventDetails {
+  // Increases with every event, so it doubles as a React key
+  id: number;
+  // ISO timestamp
+  time: string;
+  level: LogLevel;
+  stage: PipelineStage;
+  message: string;
+}
+
+export interface EventLog {
+  emit(
+    level: LogLevel,
+    stage: PipelineStage,
+    message: string,
+    details?: EventDetails
+  ): void;
+  debug(stage: PipelineStage, message: string, details?: EventDetails): void;
+  info(stage: PipelineStage, message: string, details?: EventDetails): void;
+  warn(stage: PipelineStage, message: string, details?: EventDetails): void;
+  error(stage: PipelineStage, message: string, details?: EventDetails): void;
+  // Oldest first. A new array after every change, so React can compare it
+  getEvents(): readonly PipelineEvent[];
+  getLevel(): LogLevel;
+  // Events below the level are dropped from then on
+  setLevel(level: LogLevel): void;
+  clear(): void;
+  // Called with each recorded event, and without one when the events or the
+  // level change otherwise. Returns a function that removes the listener
+  subscribe(listener: (event?: PipelineEvent) => void): () => void;
+}
+
+export interface EventLogOptions {
+  level?: LogLevel;
+  // Older events are dropped beyond this many
+  capacity?: number;
+  now?: () => Date;
+}
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
+
+export function createEventLog(options: EventLogOptions = {}): EventLog {
+  const { capacity = 500, now = () => new Date() } = options;
+  let level = options.level ?? "info";
+  let events: readonly PipelineEvent[] = [];
+  let nextId = 1;
+  const listeners = new Set<(event?: PipelineEvent) => void>();
+
+  const notify = (event?: PipelineEvent) => {
+    for (const listener of listeners) {
+      listener(event);
+    }
+  };
+
+  const emit: EventLog["emit"] = (eventLevel, stage, message, details) => {
+    if (LOG_LEVELS.indexOf(eventLevel) < LOG_LEVELS.indexOf(level)) {
+      return;
+    }
+    const event: PipelineEvent = {
+      id: nextId++,
+      time: now().toISOString(),
+      level: eventLevel,
+      stage,
+      message,
+      ...details,
+    };
+    events = [...events.slice(-(capacity - 1)), event];
+    notify(event);
+  };
+
+  return {
+    emit,
+    debug: (stage, message, details) => emit("debug", stage, message, details),
+    info: (stage, message, details) => emit("info", stage, message, details),
+    warn: (stage, message, details) => emit("warn", stage, message, details),
+    error: (stage, message, details) => emit("error", stage, message, details),
+    getEvents: () => events,
+    getLevel: () => level,
+    setLevel(newLevel) {
+      level = newLevel;
+      notify();
+    },
+    clear() {
+      events = [];
+      notify();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// The log the scanning pipeline reports to, in the browser and the CLI
+export const pipelineLog = createEventLog();
+
+// Milliseconds since a performance.now() reading
+export function elapsedSince(start: number): number {
+  return Math.round(performance.now() - start);
+}
+
+// Errors don't survive JSON.stringify, so events keep only their message
+export function describeError(err: unknown): string {
+  return err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+}
+
+// "1200×800px, 84ms" or "openai gpt-4o in 2310ms, 1520 → 210 tokens"
+export function describeMeasurements(event: EventDetails): string {
+  const parts: string[] = [];
+  if (event.image) {
+    parts.push(`${event.image.width}×${event.image.height}px`);
+  }
+  if (event.durationMs !== undefined) {
+    parts.push(`${event.durationMs}ms`);
+  }
+  if (event.ai) {
+    parts.push(
+      `${event.ai.provider} ${event.ai.model} in ${event.ai.latencyMs}ms`
+    );
+    if (event.ai.usage) {
+      parts.push(
+        `${event.ai.usage.inputTokens} → ${event.ai.usage.outputTokens} tokens`
+      );
+    }
+  }
+  return parts.join(", ");
+}
+
+// One line per event, e.g. "🔍 INFO: 1 code decoded (1200×800px, 84ms)"
+export function formatEvent(event: PipelineEvent): string {
+  const measurements = describeMeasurements(event);
+  return `${STAGE_ICONS[event.stage]} ${event.level.toUpperCase()}: ${
+    event.message
+  }${measurements ? ` (${measurements})` : ""}`;
+}
+
+// Mirrors events to the browser console, keeping `data` inspectable
+export function logToConsole(event?: PipelineEvent): void {
+  if (!event) {
+    return;
+  }
+  const write =
+    event.level === "error"
+      ? console.error
+      : event.level === "warn"
+      ? console.warn
+      : console.log;
+  write(formatEvent(event), ...(event.data !== undefined ? [event.data] : []));
+}
+
+const LOG_LEVEL_KEY = "log_level";
+
+export function loadLogLevel(): LogLevel {
+  const saved = localStorage.getItem(LOG_LEVEL_KEY);
+  return isLogLevel(saved) ? saved : "info";
+}
+
+export function saveLogLevel(level: LogLevel): void {
+  localStorage.setItem(LOG_LEVEL_KEY, level);
+}
+
+export interface DiagnosticBundle {
+  createdAt: string;
+  // Browser and platform, or the Node version in the CLI
+  userAgent: string;
+  logLevel: LogLevel;
+  // Whatever else helps reproduce the problem; never secrets such as API keys
+  context: Record<string, unknown>;
+  events: readonly PipelineEvent[];
+}
+
+// Everything a bug report needs in one JSON document. Events can contain the
+// decoded code contents, which is the point, so the bundle is only ever
+// downloaded, never sent anywhere
+export function createDiagnosticBundle(
+  log: EventLog,
+  userAgent: string,
+  context: Record<string, unknown> = {}
+): DiagnosticBundle {
+  return {
+    createdAt: new Date().toISOString(),
+    userAgent,
+    logLevel: log.getLevel(),
+    context,
+    events: log.getEvents(),
+  };
+}
@@ -0,0 +1,162 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { bytesToBase64, bytesToHex } from "@/lib/encoding";
+import { parseReceiptString, type GermanReceiptData } from "@/lib/receipt";
+import { buildTseMessage, verifyReceiptSignature } from "@/lib/tse";
+
+const RECEIPT = parseReceiptString(
+  "V0;955002-00;Kassenbeleg-V1;Beleg^0.00_2.55_0.00_0.00_0.00^2.55:Bar;18;112;2019-07-10T18:41:04.000Z;2019-07-10T18:41:04.000Z;ecdsa-plain-SHA256;unixTime;MEQCIAy4P9k+7x9saDO0uRZ4El8QwN+qTgYiv1DIaJIMWRiuAiAt+saFDGjK2Yi5Cxgy7PprXQ5O0seRgx4ltdpW9REvwA==;BHhWOeisRpPBTGQ1W4VUH95TXx2GARf8e2NYZXJoInjtGqnxJ8sZ3CQpYgjI+LYEmW5A37sLWHsyU7nSJUBemyU="
+) as GermanReceiptData;
+
+// A locally generated TSE key, exported the ways users paste keys in
+interface TestKey {
+  pair: CryptoKeyPair;
+  point: Uint8Array;
+  pem: string;
+}
+
+async function generateKey(namedCurve: string): Promise<TestKey> {
+  const pair = await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve },
+    true,
+    ["sign", "verify"]
+  );
+  const point = new Uint8Array(
+    await crypto.subtle.exportKey("raw", pair.publicKey)
+  );
+  const spki = new Uint8Array(
+    await crypto.subtle.exportKey("spki", pair.publicKey)
+  );
+  const pem = `-----BEGIN PUBLIC KEY-----\n${bytesToBase64(
+    spki
+  )}\n-----END PUBLIC KEY-----`;
+  return { pair, point, pem };
+}
+
+// Signs the receipt the way a TSE would and puts the key into the code
+async function signReceipt(
+  key: TestKey,
+  patch: Partial<GermanReceiptData> = {}
+): Promise<GermanReceiptData> {
+  const receipt = {
+    ...RECEIPT,
+    certificateHash: bytesToBase64(key.point),
+    ...patch,
+  };
+  const hash = receipt.signatureAlgorithm.endsWith("384")
+    ? "SHA-384"
+    : "SHA-256";
+  const serialNumber = new Uint8Array(
+    await crypto.subtle.digest("SHA-256", key.point)
+  );
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash },
+    key.pair.privateKey,
+    buildTseMessage(receipt, serialNumber)
+  );
+  return { ...receipt, signature: bytesToBase64(new Uint8Array(signature)) };
+}
+
+describe("verifyReceiptSignature", () => {
+  let key: TestKey;
+  let otherKey: TestKey;
+
+  beforeAll(async () => {
+    [key, otherKey] = await Promise.all([
+      generateKey("P-256"),
+      generateKey("P-256"),
+    ]);
+  });
+
+  it("accepts a receipt signed by the supplied key", async () => {
+    const receipt = await signReceipt(key);
+
+    for (const input of [
+      key.pem,
+      bytesToBase64(key.point),
+      bytesToHex(key.point),
+    ]) {
+      expect(await verifyReceiptSignature(receipt, input)).toMatchObject({
+        status: "valid",
+        keyMatchesReceipt: true,
+      });
+    }
+  });
+
+  it("accepts a receipt that references the key by its serial number", async () => {
+    const serialNumber = new Uint8Array(
+      await crypto.subtle.digest("SHA-256", key.point)
+    );
+    const receipt = await signReceipt(key, {
+      certificateHash: bytesToHex(serialNumber),
+    });
+
+    expect((await verifyReceiptSignature(receipt, key.pem)).status).toBe(
+      "valid"
+    );
+  });
+
+  it("verifies P-384 keys with SHA-384 signatures", async () => {
+    const p384 = await generateKey("P-384");
+    const receipt = await signReceipt(p384, {
+      signatureAlgorithm: "ecdsa-plain-SHA384",
+    });
+
+    expect((await verifyReceiptSignature(receipt, p384.pem)).status).toBe(
+      "valid"
+    );
+  });
+
+  it.each<[string, Partial<GermanReceiptData>]>([
+    [
+      "the process data",
+      { processData: "Beleg^0.00_25.50_0.00_0.00_0.00^25.50:Bar" },
+    ],
+    ["the transaction number", { receiptCounter: 19 }],
+    ["the end time", { timestampEnd: "2019-07-10T18:42:04.000Z" }],
+  ])("rejects a receipt with tampered %s", async (_, tampered) => {
+    const receipt = { ...(await signReceipt(key)), ...tampered };
+
+    expect(await verifyReceiptSignature(receipt, key.pem)).toMatchObject({
+      status: "invalid",
+      reason: "The signature does not match the receipt data",
+    });
+  });
+
+  it("rejects a signature made with a different key", async () => {
+    const receipt = await signReceipt(otherKey, {
+      certificateHash: bytesToBase64(key.point),
+    });
+
+    expect(await verifyReceiptSignature(receipt, key.pem)).toMatchObject({
+      status: "invalid",
+      keyMatchesReceipt: true,
+    });
+  });
+
+  it("rejects a correct signature when the receipt names another key", async () => {
+    const receipt = await signReceipt(key, {
+      certificateHash: bytesToBase64(otherKey.point),
+    });
+
+    expect(await verifyReceiptSignature(receipt, key.pem)).toMatchObject({
+      status: "invalid",
+      reason:
+        "The signature is correct, but the receipt references a different TSE key",
+      keyMatchesReceipt: false,
+    });
+  });
+
+  it("can't verify without a readable key", async () => {
+    const receipt = await signReceipt(key);
+
+    expect((await verifyReceiptSignature(receipt, " ")).status).toBe(
+      "unverifiable"
+    );
+    expect(
+      await verifyReceiptSignature(
+        receipt,
+        "-----BEGIN PUBLIC KEY-----\nMAA=\n-----END PUBLIC KEY-----"
+      )
+    ).toMatchObject({ status: "unverifiable" });
+  });
+});
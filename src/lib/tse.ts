@@ -0,0 +1,365 @@
+import {
+  TAG_BIT_STRING,
+  TAG_GENERALIZED_TIME,
+  TAG_INTEGER,
+  TAG_OCTET_STRING,
+  TAG_OID,
+  TAG_SEQUENCE,
+  TAG_UTC_TIME,
+  concatBytes,
+  decodeOIDValue,
+  encodeIntegerValue,
+  encodeOIDValue,
+  encodeTLV,
+  readChildren,
+  readElement,
+} from "@/lib/asn1";
+import { base64ToBytes, bytesEqual, hexToBytes } from "@/lib/encoding";
+import type { GermanReceiptData } from "@/lib/receipt";
+
+export type SignatureStatus = "valid" | "invalid" | "unverifiable";
+
+export interface SignatureVerification {
+  status: SignatureStatus;
+  reason: string;
+  // Whether the receipt's certificateHash field refers to the supplied key
+  keyMatchesReceipt?: boolean;
+}
+
+// BSI TR-03111 signature algorithm identifiers used by KassenSichV TSEs
+const SIGNATURE_ALGORITHMS: Record<string, { oid: string; hash: string }> = {
+  "ecdsa-plain-SHA256": { oid: "0.4.0.127.0.7.1.1.4.1.3", hash: "SHA-256" },
+  "ecdsa-plain-SHA384": { oid: "0.4.0.127.0.7.1.1.4.1.4", hash: "SHA-384" },
+};
+
+// Curves WebCrypto can verify against, keyed by their named-curve OID
+const WEBCRYPTO_CURVES: Record<string, string> = {
+  "1.2.840.10045.3.1.7": "P-256",
+  "1.3.132.0.34": "P-384",
+  "1.3.132.0.35": "P-521",
+};
+
+// Common on certified TSEs, but not implemented by any WebCrypto engine
+const BRAINPOOL_CURVES: Record<string, string> = {
+  "1.3.36.3.3.2.8.1.1.7": "brainpoolP256r1",
+  "1.3.36.3.3.2.8.1.1.11": "brainpoolP384r1",
+  "1.3.36.3.3.2.8.1.1.13": "brainpoolP512r1",
+};
+
+const TRANSACTION_LOG_OID = "0.4.0.127.0.7.3.7.1.1";
+const TRANSACTION_LOG_VERSION = 2;
+const FINISH_TRANSACTION = "FinishTransaction";
+
+interface PublicKey {
+  // Uncompressed EC point (0x04 || X || Y)
+  point: Uint8Array;
+  // SubjectPublicKeyInfo, when the key came from a certificate or PEM
+  spki?: Uint8Array;
+  curveOid?: string;
+}
+
+const textEncoder = new TextEncoder();
+
+function decodeKeyInput(input: string): Uint8Array {
+  const trimmed = input.trim();
+  const pem = trimmed.match(/-----BEGIN [A-Z ]+-----([\s\S]*?)-----END/);
+  if (pem) {
+    return base64ToBytes(pem[1].replace(/\s/g, ""));
+  }
+  if (/^[0-9a-fA-F\s:]+$/.test(trimmed)) {
+    return hexToBytes(trimmed);
+  }
+  return base64ToBytes(trimmed.replace(/\s/g, ""));
+}
+
+function readSubjectPublicKeyInfo(spki: Uint8Array): PublicKey {
+  const [algorithm, subjectPublicKey] = readChildren(readElement(spki));
+  if (
+    algorithm?.tag !== TAG_SEQUENCE ||
+    subjectPublicKey?.tag !== TAG_BIT_STRING
+  ) {
+    throw new Error("Not a SubjectPublicKeyInfo structure");
+  }
+
+  const [, curve] = readChildren(algorithm);
+  return {
+    // Skip the BIT STRING's unused-bits octet
+    point: subjectPublicKey.value.subarray(1),
+    spki,
+    curveOid: curve?.tag === TAG_OID ? decodeOIDValue(curve.value) : undefined,
+  };
+}
+
+// Accepts an X.509 certificate, a SubjectPublicKeyInfo or a bare EC point,
+// as PEM, base64 or hex
+export function parsePublicKey(input: string): PublicKey {
+  const bytes = decodeKeyInput(input);
+
+  if (bytes[0] === 0x04) {
+    return { point: bytes };
+  }
+
+  const outer = readElement(bytes);
+  if (outer.tag !== TAG_SEQUENCE) {
+    throw new Error("Unrecognised public key format");
+  }
+
+  const [first] = readChildren(outer);
+  const firstChildren = first?.tag === TAG_SEQUENCE ? readChildren(first) : [];
+  if (firstChildren[0]?.tag === TAG_OID) {
+    // SEQUENCE { AlgorithmIdentifier, BIT STRING } is already an SPKI
+    return readSubjectPublicKeyInfo(bytes);
+  }
+
+  // Certificate: tbsCertificate is the first child, and its SPKI follows
+  // [version], serialNumber, signature, issuer, validity and subject
+  const fields =
+    firstChildren[0]?.tag === 0xa0 ? firstChildren.slice(1) : firstChildren;
+  const spki = fields[5];
+  if (!spki || spki.tag !== TAG_SEQUENCE) {
+    throw new Error("Certificate does not contain a public key");
+  }
+  return readSubjectPublicKeyInfo(spki.raw);
+}
+
+function encodeLogTime(timestamp: string, timeFormat: string): Uint8Array {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid log time "${timestamp}"`);
+  }
+
+  const iso = date.toISOString();
+  const digits = iso.replace(/[-:T]/g, "").slice(0, 14);
+  const milliseconds = date.getUTCMilliseconds();
+
+  switch (timeFormat) {
+    case "unixTime":
+      return encodeTLV(
+        TAG_INTEGER,
+        encodeIntegerValue(Math.floor(date.getTime() / 1000))
+      );
+    case "utcTime":
+      return encodeTLV(TAG_UTC_TIME, textEncoder.encode(`${digits.slice(2)}Z`));
+    case "generalizedTime":
+      return encodeTLV(
+        TAG_GENERALIZED_TIME,
+        textEncoder.encode(
+          milliseconds
+            ? `${digits}.${String(milliseconds)
+                .padStart(3, "0")
+                .replace(/0+$/, "")}Z`
+            : `${digits}Z`
+        )
+      );
+    default:
+      throw new Error(`Unsupported log time format "${timeFormat}"`);
+  }
+}
+
+// Rebuilds the data a TSE signs for a finished transaction (BSI TR-03151):
+// the DER-encoded log message fields from version through logTime,
+// concatenated without the enclosing SEQUENCE and without the signature.
+export function buildTseMessage(
+  receipt: GermanReceiptData,
+  serialNumber: Uint8Array
+): Uint8Array {
+  const algorithm = SIGNATURE_ALGORITHMS[receipt.signatureAlgorithm];
+  if (!algorithm) {
+    throw new Error(
+      `Unsupported signature algorithm "${receipt.signatureAlgorithm}"`
+    );
+  }
+
+  // The QR code's fifth field (receiptCounter) is the TSE transaction number
+  // and its sixth (registerID) is the signature counter
+  const signatureCounter = Number(receipt.registerID);
+  if (!Number.isSafeInteger(signatureCounter)) {
+    throw new Error(`Invalid signature counter "${receipt.registerID}"`);
+  }
+
+  return concatBytes(
+    encodeTLV(TAG_INTEGER, encodeIntegerValue(TRANSACTION_LOG_VERSION)),
+    encodeTLV(TAG_OID, encodeOIDValue(TRANSACTION_LOG_OID)),
+    // certifiedData, with implicit context-specific tags [0]..[5]
+    encodeTLV(0x80, textEncoder.encode(FINISH_TRANSACTION)),
+    encodeTLV(0x81, textEncoder.encode(receipt.transactionUUID)),
+    encodeTLV(0x82, textEncoder.encode(receipt.processData)),
+    encodeTLV(0x83, textEncoder.encode(receipt.documentType)),
+    encodeTLV(0x84, new Uint8Array()),
+    encodeTLV(0x85, encodeIntegerValue(receipt.receiptCounter)),
+    encodeTLV(TAG_OCTET_STRING, serialNumber),
+    encodeTLV(TAG_SEQUENCE, encodeTLV(TAG_OID, encodeOIDValue(algorithm.oid))),
+    encodeTLV(TAG_INTEGER, encodeIntegerValue(signatureCounter)),
+    encodeLogTime(receipt.timestampEnd, receipt.timeFormat)
+  );
+}
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+}
+
+// The QR code carries the TSE public key (base64), which some exports
+// replace with its SHA-256 hash, i.e. the TSE serial number
+async function receiptReferencesKey(
+  certificateHash: string,
+  key: PublicKey
+): Promise<boolean> {
+  let reference: Uint8Array;
+  try {
+    reference = /^[0-9a-fA-F]{64}$/.test(certificateHash)
+      ? hexToBytes(certificateHash)
+      : base64ToBytes(certificateHash);
+  } catch {
+    return false;
+  }
+
+  const candidates = [key.point, await sha256(key.point)];
+  if (key.spki) {
+    candidates.push(key.spki);
+  }
+  return candidates.some((candidate) => bytesEqual(candidate, reference));
+}
+
+function curveForKey(key: PublicKey): string {
+  if (key.curveOid) {
+    return WEBCRYPTO_CURVES[key.curveOid];
+  }
+  // Bare points carry no curve, so infer a NIST curve from the point size
+  return key.point.length === 97
+    ? "P-384"
+    : key.point.length === 133
+    ? "P-521"
+    : "P-256";
+}
+
+export async function verifyReceiptSignature(
+  receipt: GermanReceiptData,
+  publicKeyInput: string
+): Promise<SignatureVerification> {
+  if (!publicKeyInput.trim()) {
+    return {
+      status: "unverifiable",
+      reason: "No TSE public key or certificate supplied",
+    };
+  }
+  if (!globalThis.crypto?.subtle) {
+    return {
+      status: "unverifiable",
+      reason: "WebCrypto is not available in this browser context",
+    };
+  }
+
+  const algorithm = SIGNATURE_ALGORITHMS[receipt.signatureAlgorithm];
+  if (!algorithm) {
+    return {
+      status: "unverifiable",
+      reason: `Unsupported signature algorithm "${receipt.signatureAlgorithm}"`,
+    };
+  }
+
+  let key: PublicKey;
+  try {
+    key = parsePublicKey(publicKeyInput);
+  } catch (error) {
+    return {
+      status: "unverifiable",
+      reason: `Could not read public key: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    };
+  }
+
+  if (key.curveOid && BRAINPOOL_CURVES[key.curveOid]) {
+    return {
+      status: "unverifiable",
+      reason: `The TSE key uses ${
+        BRAINPOOL_CURVES[key.curveOid]
+      }, which WebCrypto does not support`,
+    };
+  }
+  const namedCurve = curveForKey(key);
+  if (!namedCurve) {
+    return {
+      status: "unverifiable",
+      reason: `Unsupported key curve ${key.curveOid}`,
+    };
+  }
+
+  let message: Uint8Array;
+  let signature: Uint8Array;
+  try {
+    message = buildTseMessage(receipt, await sha256(key.point));
+    signature = base64ToBytes(receipt.signature);
+  } catch (error) {
+    return {
+      status: "unverifiable",
+      reason:
+        error instanceof Error
+          ? error.message
+          : "Could not rebuild the signed message",
+    };
+  }
+
+  const keyMatchesReceipt = await receiptReferencesKey(
+    receipt.certificateHash,
+    key
+  );
+
+  let signatureValid: boolean;
+  try {
+    const cryptoKey = key.spki
+      ? await crypto.subtle.importKey(
+          "spki",
+          key.spki,
+          { name: "ECDSA", namedCurve },
+          false,
+          ["verify"]
+        )
+      : await crypto.subtle.importKey(
+          "raw",
+          key.point,
+          { name: "ECDSA", namedCurve },
+          false,
+          ["verify"]
+        );
+
+    // ecdsa-plain signatures are r || s, which is WebCrypto's native format
+    signatureValid = await crypto.subtle.verify(
+      { name: "ECDSA", hash: algorithm.hash },
+      cryptoKey,
+      signature,
+      message
+    );
+  } catch (error) {
+    return {
+      status: "unverifiable",
+      reason: `WebCrypto rejected the key or signature: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+      keyMatchesReceipt,
+    };
+  }
+
+  if (!signatureValid) {
+    return {
+      status: "invalid",
+      reason: key.curveOid
+        ? "The signature does not match the receipt data"
+        : `The signature does not match the receipt data (raw key assumed to be ${namedCurve})`,
+      keyMatchesReceipt,
+    };
+  }
+  if (!keyMatchesReceipt) {
+    return {
+      status: "invalid",
+      reason:
+        "The signature is correct, but the receipt references a different TSE key",
+      keyMatchesReceipt,
+    };
+  }
+  return {
+    status: "valid",
+    reason: "The TSE signature matches the receipt data and key",
+    keyMatchesReceipt,
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { base64ToBytes, bytesToBase64 } from "@/lib/encoding";
+import {
+  decryptApiKey,
+  encryptApiKey,
+  VaultUnlockError,
+  type EncryptedKey,
+} from "@/lib/vault";
+
+const API_KEY = "sk-ant-REDACTED";
+const PASSPHRASE = "correct horse battery staple";
+// The real count takes most of a second per derivation
+const ITERATIONS = 1000;
+
+// Flips one bit of a base64 field
+function tamper(encrypted: EncryptedKey, field: "salt" | "iv" | "ciphertext") {
+  const bytes = base64ToBytes(encrypted[field]);
+  bytes[bytes.length - 1] ^= 0x01;
+  return { ...encrypted, [field]: bytesToBase64(bytes) };
+}
+
+describe("encryptApiKey", () => {
+  it("round-trips with the right passphrase", async () => {
+    const encrypted = await encryptApiKey(API_KEY, PASSPHRASE, ITERATIONS);
+
+    expect(encrypted).toMatchObject({ version: 1, iterations: ITERATIONS });
+    expect(base64ToBytes(encrypted.salt)).toHaveLength(16);
+    expect(base64ToBytes(encrypted.iv)).toHaveLength(12);
+    expect(encrypted.ciphertext).not.toContain(API_KEY);
+    await expect(decryptApiKey(encrypted, PASSPHRASE)).resolves.toBe(API_KEY);
+  });
+
+  it("round-trips keys outside ASCII and empty passphrases", async () => {
+    const encrypted = await encryptApiKey("clé-🔑", "", ITERATIONS);
+
+    await expect(decryptApiKey(encrypted, "")).resolves.toBe("clé-🔑");
+  });
+
+  it("uses a fresh salt and IV every time", async () => {
+    const first = await encryptApiKey(API_KEY, PASSPHRASE, ITERATIONS);
+    const second = await encryptApiKey(API_KEY, PASSPHRASE, ITERATIONS);
+
+    expect(second.salt).not.toBe(first.salt);
+    expect(second.iv).not.toBe(first.iv);
+    expect(second.ciphertext).not.toBe(first.ciphertext);
+  });
+});
+
+describe("decryptApiKey", () => {
+  it("rejects a wrong passphrase", async () => {
+    const encrypted = await encryptApiKey(API_KEY, PASSPHRASE, ITERATIONS);
+
+    await expect(
+      decryptApiKey(encrypted, "correct horse battery stapler")
+    ).rejects.toBeInstanceOf(VaultUnlockError);
+  });
+
+  it.each(["ciphertext", "iv", "salt"] as const)(
+    "rejects a tampered %s",
+    async (field) => {
+      const encrypted = await encryptApiKey(API_KEY, PASSPHRASE, ITERATIONS);
+
+      await expect(
+        decryptApiKey(tamper(encrypted, field), PASSPHRASE)
+      ).rejects.toThrow("Wrong passphrase, or the stored key is damaged");
+    }
+  );
+
+  it("rejects a changed iteration count", async () => {
+    const encrypted = await encryptApiKey(API_KEY, PASSPHRASE, ITERATIONS);
+
+    await expect(
+      decryptApiKey({ ...encrypted, iterations: ITERATIONS + 1 }, PASSPHRASE)
+    ).rejects.toBeInstanceOf(VaultUnlockError);
+  });
+
+  it("rejects a truncated record", async () => {
+    const encrypted = await encryptApiKey(API_KEY, PASSPHRASE, ITERATIONS);
+
+    await expect(
+      decryptApiKey({ ...encrypted, ciphertext: "" }, PASSPHRASE)
+    ).rejects.toBeInstanceOf(VaultUnlockError);
+  });
+});
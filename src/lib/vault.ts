@@ -0,0 +1,91 @@
+import { base64ToBytes, bytesToBase64 } from "@/lib/encoding";
+
+// An API key encrypted with a passphrase, safe to keep in localStorage
+export interface EncryptedKey {
+  version: 1;
+  // PBKDF2-SHA256 iterations used to derive the AES key
+  iterations: number;
+  // base64
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const DEFAULT_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+// The size AES-GCM is specified for
+const IV_BYTES = 12;
+
+export class VaultUnlockError extends Error {
+  constructor() {
+    super("Wrong passphrase, or the stored key is damaged");
+    this.name = "VaultUnlockError";
+  }
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function encryptApiKey(
+  apiKey: string,
+  passphrase: string,
+  iterations: number = DEFAULT_ITERATIONS
+): Promise<EncryptedKey> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, iterations);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(apiKey)
+  );
+  return {
+    version: 1,
+    iterations,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+// AES-GCM authenticates the ciphertext, so a wrong passphrase fails here
+// instead of producing a garbled key
+export async function decryptApiKey(
+  encrypted: EncryptedKey,
+  passphrase: string
+): Promise<string> {
+  try {
+    const key = await deriveKey(
+      passphrase,
+      base64ToBytes(encrypted.salt),
+      encrypted.iterations
+    );
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: base64ToBytes(encrypted.iv) },
+      key,
+      base64ToBytes(encrypted.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new VaultUnlockError();
+  }
+}
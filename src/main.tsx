@@ -2,9 +2,16 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './lib/pwa'
+import { loadLogLevel, logToConsole, pipelineLog } from './lib/telemetry'
+
+pipelineLog.setLevel(loadLogLevel())
+pipelineLog.subscribe(logToConsole)
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
   </StrictMode>,
 )
+
+registerServiceWorker()
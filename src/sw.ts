@@ -0,0 +1,114 @@
+// Built as its own entry without imports (see vite.config.ts), so the share
+// target names are repeated from src/lib/pwa.ts rather than imported
+declare const self: ServiceWorkerGlobalScope;
+
+// Replaced at build time with a hash of the build's files and their list
+declare const __PRECACHE_VERSION__: string;
+declare const __PRECACHE_FILES__: string[];
+
+const CACHE_PREFIX = "qr-scanner-";
+const CACHE_NAME = `${CACHE_PREFIX}${__PRECACHE_VERSION__}`;
+const SHARE_CACHE_NAME = "qr-share-target";
+const SHARE_TARGET_PATH = "share-target";
+const SHARE_FIELD = "images";
+
+const scopeURL = (path: string) => new URL(path, self.registration.scope).href;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(__PRECACHE_FILES__.map(scopeURL)))
+  );
+});
+
+// Old app shells are dropped once this version takes over; hashed asset
+// names mean an open page never needs a file from a newer build
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter(
+              (name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME
+            )
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Stores the shared images for the page to pick up, then opens the app.
+// GitHub Pages can't serve POST requests, so this must never reach the network
+async function receiveSharedImages(request: Request): Promise<Response> {
+  const formData = await request.formData();
+  const files = formData
+    .getAll(SHARE_FIELD)
+    .filter((value): value is File => value instanceof File);
+
+  await caches.delete(SHARE_CACHE_NAME);
+  const cache = await caches.open(SHARE_CACHE_NAME);
+  await Promise.all(
+    files.map((file, index) =>
+      cache.put(
+        scopeURL(`${SHARE_TARGET_PATH}/${index}`),
+        new Response(file, {
+          headers: {
+            "Content-Type": file.type,
+            "X-File-Name": encodeURIComponent(file.name),
+          },
+        })
+      )
+    )
+  );
+  return Response.redirect(scopeURL(`./?${SHARE_TARGET_PATH}`), 303);
+}
+
+// The page is fetched fresh when possible so updates show up, falling back
+// to the cached shell offline
+async function handleNavigation(request: Request): Promise<Response> {
+  try {
+    return await fetch(request);
+  } catch {
+    const cached = await caches.match(scopeURL("./index.html"));
+    return cached ?? Response.error();
+  }
+}
+
+async function handleAsset(request: Request): Promise<Response> {
+  const cached = await caches.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // AI provider calls and other cross-origin requests go straight through
+  if (url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (request.method === "POST" && url.href === scopeURL(SHARE_TARGET_PATH)) {
+    event.respondWith(receiveSharedImages(request));
+    return;
+  }
+  if (request.method !== "GET") {
+    return;
+  }
+  event.respondWith(
+    request.mode === "navigate"
+      ? handleNavigation(request)
+      : handleAsset(request)
+  );
+});
@@ -0,0 +1,24 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Builds the qr-scan command-line tool for Node. Dependencies are left as
+// imports, so node_modules has to be installed wherever it runs
+export default defineConfig({
+  publicDir: false,
+  resolve: {
+    alias: {
+      "@": path.resolve(process.cwd(), "./src"),
+    },
+  },
+  build: {
+    ssr: "src/cli/qr-scan.ts",
+    outDir: "dist-cli",
+    target: "node18",
+    rollupOptions: {
+      output: {
+        entryFileNames: "qr-scan.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});
@@ -1,14 +1,69 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
+import { createHash } from "crypto";
+import { readdirSync } from "fs";
 import path from "path";
 
+const SERVICE_WORKER_FILE = "sw.js";
+
+// Builds src/sw.ts to /sw.js and hands it the list of files to precache, so
+// the app shell and the decode worker are available offline. The worker
+// imports nothing, so Rollup emits it as a standalone script.
+function serviceWorker(): Plugin {
+  return {
+    name: "service-worker",
+    apply: "build",
+    config() {
+      return {
+        build: {
+          rollupOptions: {
+            input: {
+              index: path.resolve(process.cwd(), "index.html"),
+              sw: path.resolve(process.cwd(), "src/sw.ts"),
+            },
+            output: {
+              entryFileNames: (chunk) =>
+                chunk.name === "sw"
+                  ? SERVICE_WORKER_FILE
+                  : "assets/[name]-[hash].js",
+            },
+          },
+        },
+      };
+    },
+    generateBundle: {
+      // After Vite has emitted index.html
+      order: "post",
+      handler(_, bundle) {
+        const worker = bundle[SERVICE_WORKER_FILE];
+        if (worker?.type !== "chunk") {
+          this.error("Service worker chunk is missing");
+        }
+        const files = [
+          ...Object.keys(bundle).filter((file) => file !== SERVICE_WORKER_FILE),
+          ...readdirSync(path.resolve(process.cwd(), "public")).filter(
+            (file) => !file.startsWith(".")
+          ),
+        ].sort();
+        const version = createHash("sha256")
+          .update(files.join("\n"))
+          .digest("hex")
+          .slice(0, 12);
+        worker.code = worker.code
+          .replace("__PRECACHE_VERSION__", () => JSON.stringify(version))
+          .replace("__PRECACHE_FILES__", () => JSON.stringify(files));
+      },
+    },
+  };
+}
+
 // https://vite.dev/config/
 export default defineConfig(({ mode }) => {
   const isGitHubPages = mode === "production" && process.env.GITHUB_ACTIONS;
 
   return {
     base: isGitHubPages ? "/qr-poc/" : "/",
-    plugins: [react()],
+    plugins: [react(), serviceWorker()],
     resolve: {
       alias: {
         "@": path.resolve(process.cwd(), "./src"),